@@ -0,0 +1,10 @@
+/** @type {import("jest").Config} */
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/tests"],
+  transform: {
+    // Type errors are reported by `npm run type-check`, not by the tests
+    "^.+\\.ts$": ["ts-jest", { tsconfig: "<rootDir>/tests/tsconfig.json" }],
+  },
+  setupFiles: ["<rootDir>/tests/setup.ts"],
+};
@@ -0,0 +1,39 @@
+/**
+ * Appointments.
+ * A booked patient checks in at reception, which puts them in the queue as if
+ * they had arrived at the start of their slot: ahead of walk-ins who came
+ * after that time, behind those who were already waiting. Bookings not
+ * checked in within the grace period are marked NoShow by a periodic sweep.
+ */
+import * as dotenv from "dotenv";
+import { storage } from "./storage";
+
+dotenv.config();
+
+// Minutes after the start of a slot that check-in stays open
+export const APPOINTMENT_GRACE_MINUTES = parseInt(
+  process.env.APPOINTMENT_GRACE_MINUTES || "15",
+  10
+);
+// Minutes before the start of a slot that check-in opens
+export const APPOINTMENT_EARLY_CHECK_IN_MINUTES = parseInt(
+  process.env.APPOINTMENT_EARLY_CHECK_IN_MINUTES || "120",
+  10
+);
+
+const NO_SHOW_SWEEP_INTERVAL_MS = 60 * 1000;
+
+async function markMissedAppointments(): Promise<void> {
+  const count = await storage.appointments.markMissedAppointments(APPOINTMENT_GRACE_MINUTES);
+  if (count > 0) {
+    console.log(`[APPOINTMENTS] Marked ${count} missed appointment(s) as no-show`);
+  }
+}
+
+export function startNoShowSweep(): void {
+  setInterval(() => {
+    markMissedAppointments().catch((error) => {
+      console.error(`[APPOINTMENTS] Failed to mark missed appointments: ${error}`);
+    });
+  }, NO_SHOW_SWEEP_INTERVAL_MS).unref();
+}
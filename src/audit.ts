@@ -0,0 +1,109 @@
+/**
+ * Audit trail.
+ * Every request gets an id (the client's X-Request-Id when it sends a usable
+ * one), echoed back in the response and stored with each audit entry so log
+ * lines and entries can be matched up. Handlers call recordAudit after a
+ * mutation succeeds; the actor defaults to the signed-in user. Patient,
+ * user account and close-out changes are instead audited by the storage
+ * repository, in the same transaction as the change, from the auditContext
+ * of the request; those made by the server's own jobs have "system" as the
+ * actor.
+ */
+import * as crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { storage, AuditContext, AuditEntry, UserRecord } from "./storage";
+
+const REQUEST_ID_HEADER = "X-Request-Id";
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export enum AuditAction {
+  PatientCreate = "patient.create",
+  PatientStatusChange = "patient.status_change",
+  PatientUpdate = "patient.update",
+  PatientUndoVisit = "patient.undo_visit",
+  PatientTransfer = "patient.transfer",
+  PatientRecordCreate = "patient_record.create",
+  PatientRecordUpdate = "patient_record.update",
+  AppointmentCreate = "appointment.create",
+  AppointmentCancel = "appointment.cancel",
+  AppointmentCheckIn = "appointment.check_in",
+  QueueCreate = "queue.create",
+  QueueUpdate = "queue.update",
+  DayCloseOut = "queue.close_out",
+  UserSignup = "user.signup",
+  UserRoleChange = "user.role_change",
+  UserDisable = "user.disable",
+  UserEnable = "user.enable",
+  UserDelete = "user.delete",
+  UserUnlock = "user.unlock",
+  UserTwoFactorReset = "user.2fa_reset",
+  LoginSuccess = "auth.login_success",
+  LoginFailure = "auth.login_failure",
+  PasswordChange = "auth.password_change",
+  PasswordReset = "auth.password_reset",
+  TwoFactorEnable = "auth.2fa_enable",
+  TwoFactorDisable = "auth.2fa_disable",
+  TwoFactorPolicyChange = "settings.2fa_policy",
+  TriagePolicyChange = "settings.triage_policy",
+  PriorityRulesChange = "settings.priority_rules",
+  ClinicScheduleChange = "settings.clinic_schedule",
+  QueueClose = "settings.queue_close",
+  QueueReopen = "settings.queue_reopen",
+}
+
+export function requestIdMiddleware(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  (req as any).requestId = requestId;
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+  next();
+}
+
+export interface AuditRecord {
+  action: AuditAction;
+  targetType: "patient" | "patient_record" | "appointment" | "user" | "queue" | "settings";
+  targetId: number | null;
+  before?: unknown;
+  after?: unknown;
+  // Who acted, when it is not the signed-in user (e.g. during login)
+  actor?: Pick<UserRecord, "id" | "email"> | null;
+}
+
+// Who is acting in this request; the actor defaults to the signed-in user
+export function auditContext(
+  req: Request,
+  actor?: Pick<UserRecord, "id" | "email"> | null
+): AuditContext {
+  const currentUser = (req as any).currentUser;
+  const who =
+    actor !== undefined
+      ? actor
+      : currentUser
+        ? { id: currentUser.user_id, email: currentUser.email ?? null }
+        : null;
+  return {
+    actorId: who ? who.id : null,
+    actorEmail: who ? who.email : null,
+    ipAddress: req.ip || null,
+    requestId: (req as any).requestId || null,
+  };
+}
+
+// Failing to write the audit entry does not undo the change it describes, so
+// the error is logged rather than turned into a failed response
+export async function recordAudit(req: Request, record: AuditRecord): Promise<AuditEntry | null> {
+  try {
+    return await storage.audit.record({
+      ...auditContext(req, record.actor),
+      action: record.action,
+      targetType: record.targetType,
+      targetId: record.targetId,
+      before: record.before ?? null,
+      after: record.after ?? null,
+    });
+  } catch (error) {
+    console.error(`[AUDIT] Failed to record ${record.action}:`, error);
+    return null;
+  }
+}
@@ -1,16 +1,56 @@
+import * as crypto from "crypto";
 import * as jwt from "jsonwebtoken";
 import * as bcrypt from "bcrypt";
 import { Request, Response, NextFunction } from "express";
 import * as dotenv from "dotenv";
+import {
+  Role,
+  LoginChallenge,
+  TwoFactorPolicy,
+  TwoFactorSetup,
+  TwoFactorStatus,
+} from "./classes";
+import { storage, SessionRecord, UserRecord } from "./storage";
+import { sendMail } from "./mail";
+import { generateTotpSecret, totpProvisioningUri, verifyTotp } from "./totp";
 
 dotenv.config();
 
-// JWT Configuration - read from .env file
-const JWT_SECRET = process.env.JWT_SECRET;
+// JWT Configuration - read from .env file; startup fails below when missing
+const JWT_SECRET = process.env.JWT_SECRET as string;
 const JWT_ALGORITHM = process.env.JWT_ALGORITHM as jwt.Algorithm;
-const ACCESS_TOKEN_EXPIRE_MINUTES = 60 * 24; // 24 hours
-export const JWT_COOKIE_NAME = process.env.JWT_COOKIE_NAME;
-export { ACCESS_TOKEN_EXPIRE_MINUTES };
+// Access tokens are short-lived and cannot be revoked on their own; every
+// request also checks that the session they belong to is still active.
+// Refresh tokens rotate on every use.
+const ACCESS_TOKEN_EXPIRE_MINUTES = parseInt(
+  process.env.ACCESS_TOKEN_EXPIRE_MINUTES || "15",
+  10
+);
+const REFRESH_TOKEN_EXPIRE_DAYS = parseInt(
+  process.env.REFRESH_TOKEN_EXPIRE_DAYS || "14",
+  10
+);
+export const JWT_COOKIE_NAME = process.env.JWT_COOKIE_NAME as string;
+export const REFRESH_COOKIE_NAME = process.env.REFRESH_COOKIE_NAME || "refresh_token";
+// The refresh cookie is only sent to the auth endpoints
+const REFRESH_COOKIE_PATH = "/auth";
+export { ACCESS_TOKEN_EXPIRE_MINUTES, REFRESH_TOKEN_EXPIRE_DAYS };
+
+const PASSWORD_RESET_EXPIRE_MINUTES = parseInt(
+  process.env.PASSWORD_RESET_EXPIRE_MINUTES || "60",
+  10
+);
+// Frontend page that reads ?token= and calls POST /auth/reset-password
+const PASSWORD_RESET_URL =
+  process.env.PASSWORD_RESET_URL || "http://localhost:5173/reset-password";
+
+// Time allowed between the password and the 2FA step of a login
+const LOGIN_CHALLENGE_EXPIRE_MINUTES = parseInt(
+  process.env.LOGIN_CHALLENGE_EXPIRE_MINUTES || "5",
+  10
+);
+const RECOVERY_CODE_COUNT = 10;
+const REQUIRE_ADMIN_2FA_SETTING = "requireAdminTwoFactor";
 
 if (!JWT_SECRET) {
   throw new Error("JWT_SECRET is required in .env file");
@@ -34,6 +74,7 @@ export interface CurrentUser {
   user_id: number;
   email?: string;
   role?: string;
+  session_id?: number;
 }
 
 export function hashPassword(password: string): Promise<string> {
@@ -47,11 +88,17 @@ export function verifyPassword(
   return bcrypt.compare(plainPassword, hashedPassword);
 }
 
+// A hash of no one's password, made with the same cost as hashPassword.
+// Checking against it when an email matches no account makes that rejection
+// take as long as a wrong password, so response times do not reveal which
+// emails are registered.
+export const DUMMY_PASSWORD_HASH = "$2b$10$Xzlid9Zouh616zdlRrk7.OS91DvY7D0nGcZfd.laX83fubBfgIZl2";
+
 export function createAccessToken(
   data: Record<string, any>,
   expiresDelta?: number
 ): string {
-  const toEncode: JWTPayload = { ...data };
+  const toEncode = { ...data } as JWTPayload;
 
   if ("sub" in toEncode && toEncode.sub !== undefined) {
     toEncode.sub = String(toEncode.sub);
@@ -176,40 +223,566 @@ export async function getCurrentUser(
   }
 }
 
+export interface AuthOptions {
+  // When set, only users holding one of these roles may pass
+  roles?: Role[];
+  // Let users who must change their password through (only the endpoints
+  // needed to do so)
+  allowPendingPasswordChange?: boolean;
+  // Let admins who must enroll in 2FA through (only the enrollment endpoints)
+  allowPendingTwoFactorSetup?: boolean;
+}
+
 // Express middleware for authentication
-export function authMiddleware() {
+export function authMiddleware(options: AuthOptions = {}) {
   return async (req: Request, res: Response, next: NextFunction) => {
+    let userId: number;
+    let sessionId: number;
     try {
       const token = extractToken(req);
       const payload = decodeToken(token);
       const userIdRaw = payload.sub;
 
-      if (userIdRaw === undefined || userIdRaw === null) {
+      // Tokens issued before sessions existed carry no sid and are refused
+      if (userIdRaw === undefined || userIdRaw === null || typeof payload.sid !== "number") {
+        res.setHeader("WWW-Authenticate", "Bearer");
         return res.status(401).json({
           message: "Invalid authentication credentials",
         });
       }
 
       // Ensure user_id is an integer (JWT might return string or int)
-      const userId =
+      userId =
         typeof userIdRaw === "number"
           ? userIdRaw
           : parseInt(String(userIdRaw), 10);
-
-      (req as any).currentUser = {
-        user_id: userId,
-        email: payload.email,
-        role: payload.role,
-      };
-      next();
+      sessionId = payload.sid;
     } catch (error) {
-      res.status(401).json({
+      res.setHeader("WWW-Authenticate", "Bearer");
+      return res.status(401).json({
         message:
           error instanceof Error
             ? error.message
             : "Invalid authentication credentials",
       });
-      res.setHeader("WWW-Authenticate", "Bearer");
     }
+
+    // The token only proves who the caller was when it was issued; the
+    // account may since have been deleted, disabled or had its role changed
+    try {
+      const session = await storage.sessions.getSession(sessionId);
+      if (!session || session.userId !== userId || !isSessionActive(session)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        return res.status(401).json({ message: "Session expired or revoked" });
+      }
+
+      const user = await storage.users.getUserById(userId);
+
+      if (!user) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        return res.status(401).json({
+          message: "Invalid authentication credentials",
+        });
+      }
+      if (user.disabled) {
+        return res.status(403).json({ message: "Account is disabled" });
+      }
+      if (user.mustChangePassword && !options.allowPendingPasswordChange) {
+        return res.status(403).json({ message: "Password change required" });
+      }
+      if (!options.allowPendingTwoFactorSetup && (await isTwoFactorSetupPending(user))) {
+        return res.status(403).json({ message: "Two-factor authentication setup required" });
+      }
+      if (options.roles && !options.roles.includes(user.role as Role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const currentUser: CurrentUser = {
+        user_id: user.id,
+        email: user.email,
+        role: user.role,
+        session_id: session.id,
+      };
+      (req as any).currentUser = currentUser;
+      return next();
+    } catch (error: any) {
+      console.error("[AUTH] Error loading current user:", error);
+      return res.status(500).json({ message: error.message || "Internal server error" });
+    }
+  };
+}
+
+// Sessions and refresh tokens
+
+// What the client learns when it signs in or refreshes
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  session: SessionRecord;
+}
+
+export interface SessionClient {
+  deviceName?: string | null;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export function isSessionActive(session: SessionRecord): boolean {
+  return session.revokedAt === null && Date.parse(session.expiresAt) > Date.now();
+}
+
+// Whether the session a request was authenticated with still stands: not
+// revoked or expired, and its user neither deleted nor disabled. Long-lived
+// responses such as the event stream check it again while they are open.
+export async function isSignedIn(currentUser: CurrentUser): Promise<boolean> {
+  if (currentUser.session_id === undefined) {
+    return false;
+  }
+  const session = await storage.sessions.getSession(currentUser.session_id);
+  if (!session || session.userId !== currentUser.user_id || !isSessionActive(session)) {
+    return false;
+  }
+  const user = await storage.users.getUserById(currentUser.user_id);
+  return user !== null && !user.disabled;
+}
+
+// Refresh and password reset tokens are random, so a fast hash is enough
+function hashToken(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+function refreshTokenExpiry(): string {
+  return new Date(Date.now() + REFRESH_TOKEN_EXPIRE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Refresh tokens look like "<session id>.<random secret>"
+function parseRefreshToken(refreshToken: string): { sessionId: number; secret: string } | null {
+  const match = /^(\d+)\.([A-Za-z0-9_-]+)$/.exec(refreshToken);
+  return match ? { sessionId: parseInt(match[1], 10), secret: match[2] } : null;
+}
+
+function issueAccessToken(user: UserRecord, session: SessionRecord): string {
+  return createAccessToken({
+    sub: user.id,
+    email: user.email,
+    role: user.role,
+    sid: session.id,
+  });
+}
+
+// Sign a user in on a new device
+export async function startSession(
+  user: UserRecord,
+  client: SessionClient
+): Promise<IssuedTokens> {
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const session = await storage.sessions.createSession({
+    userId: user.id,
+    refreshTokenHash: hashToken(secret),
+    deviceName: client.deviceName || null,
+    userAgent: client.userAgent || null,
+    ipAddress: client.ipAddress || null,
+    expiresAt: refreshTokenExpiry(),
+  });
+  return {
+    accessToken: issueAccessToken(user, session),
+    refreshToken: `${session.id}.${secret}`,
+    session,
+  };
+}
+
+// Exchange a refresh token for a new access and refresh token.
+// Errors: invalid_token, disabled. Presenting a refresh token that was already
+// used means it was copied, so the whole session is revoked.
+export async function refreshSession(
+  refreshToken: string
+): Promise<[IssuedTokens | null, string | null]> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    return [null, "invalid_token"];
+  }
+
+  const session = await storage.sessions.getSession(parsed.sessionId);
+  if (!session || !isSessionActive(session)) {
+    return [null, "invalid_token"];
+  }
+  const currentHash = hashToken(parsed.secret);
+  if (session.refreshTokenHash !== currentHash) {
+    console.warn(`[AUTH] Refresh token reused for session ${session.id}; revoking it`);
+    await storage.sessions.revokeSession(session.id);
+    return [null, "invalid_token"];
+  }
+
+  const user = await storage.users.getUserById(session.userId);
+  if (!user) {
+    return [null, "invalid_token"];
+  }
+  if (user.disabled) {
+    return [null, "disabled"];
+  }
+
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const rotated = await storage.sessions.rotateRefreshToken(
+    session.id,
+    currentHash,
+    hashToken(secret),
+    refreshTokenExpiry()
+  );
+  // Lost a race with a concurrent refresh using the same token
+  if (!rotated) {
+    return [null, "invalid_token"];
+  }
+  return [
+    {
+      accessToken: issueAccessToken(user, rotated),
+      refreshToken: `${rotated.id}.${secret}`,
+      session: rotated,
+    },
+    null,
+  ];
+}
+
+// The session a request belongs to, judged by its refresh token (body or
+// cookie) or else its access token. Used by logout, which must work even
+// after the access token has expired.
+export async function getRequestSessionId(req: Request): Promise<number | null> {
+  const refreshToken = req.body?.refreshToken || req.cookies?.[REFRESH_COOKIE_NAME];
+  const parsed = typeof refreshToken === "string" ? parseRefreshToken(refreshToken) : null;
+  if (parsed) {
+    const session = await storage.sessions.getSession(parsed.sessionId);
+    if (session && session.refreshTokenHash === hashToken(parsed.secret)) {
+      return session.id;
+    }
+  }
+
+  const authHeader = req.headers.authorization;
+  const accessToken =
+    authHeader && authHeader.toLowerCase().startsWith("bearer ")
+      ? authHeader.slice("bearer ".length).trim()
+      : req.cookies?.[JWT_COOKIE_NAME || "access_token"];
+  if (accessToken) {
+    try {
+      const payload = jwt.verify(accessToken, JWT_SECRET as string, {
+        algorithms: [JWT_ALGORITHM],
+        ignoreExpiration: true,
+      }) as JWTPayload;
+      if (typeof payload.sid === "number") {
+        return payload.sid;
+      }
+    } catch {
+      // Not a token we issued
+    }
+  }
+  return null;
+}
+
+// Set HttpOnly cookies so the frontend can rely on cookies instead of
+// handling tokens itself
+export function setAuthCookies(res: Response, tokens: IssuedTokens): void {
+  res.cookie(JWT_COOKIE_NAME || "access_token", tokens.accessToken, {
+    maxAge: ACCESS_TOKEN_EXPIRE_MINUTES * 60 * 1000,
+    httpOnly: true,
+    secure: false, // set to true in production when using HTTPS
+    sameSite: "lax",
+    path: "/",
+  });
+  res.cookie(REFRESH_COOKIE_NAME, tokens.refreshToken, {
+    maxAge: Date.parse(tokens.session.expiresAt) - Date.now(),
+    httpOnly: true,
+    secure: false, // set to true in production when using HTTPS
+    sameSite: "lax",
+    path: REFRESH_COOKIE_PATH,
+  });
+}
+
+export function clearAuthCookies(res: Response): void {
+  res.cookie(JWT_COOKIE_NAME || "access_token", "", {
+    maxAge: 0,
+    httpOnly: true,
+    secure: false, // set to true in production when using HTTPS
+    sameSite: "lax",
+    path: "/",
+  });
+  res.cookie(REFRESH_COOKIE_NAME, "", {
+    maxAge: 0,
+    httpOnly: true,
+    secure: false, // set to true in production when using HTTPS
+    sameSite: "lax",
+    path: REFRESH_COOKIE_PATH,
+  });
+}
+
+// Password changes
+
+// Errors: not_found, wrong_password, same_password. Other sessions of the
+// user are signed out; keepSessionId stays signed in.
+export async function changePassword(
+  user_id: number,
+  currentPassword: string,
+  newPassword: string,
+  keepSessionId: number | null
+): Promise<[UserRecord | null, string | null]> {
+  const found = await storage.users.getUserById(user_id);
+  const user = found ? await storage.users.getUserByEmail(found.email) : null;
+  if (!user) {
+    return [null, "not_found"];
+  }
+  if (!(await verifyPassword(currentPassword, user.password))) {
+    return [null, "wrong_password"];
+  }
+  if (await verifyPassword(newPassword, user.password)) {
+    return [null, "same_password"];
+  }
+
+  const updated = await storage.users.updatePassword(user_id, newPassword);
+  await storage.sessions.revokeUserSessions(user_id, keepSessionId);
+  return [updated, null];
+}
+
+// Email a single-use reset link. Unknown and disabled accounts get nothing,
+// and the caller answers the same either way, so the endpoint does not reveal
+// which addresses are registered.
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await storage.users.getUserByEmail(email);
+  if (!user || user.disabled) {
+    return;
+  }
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_EXPIRE_MINUTES * 60 * 1000);
+  await storage.passwordResets.createResetToken(user.id, hashToken(token), expiresAt.toISOString());
+
+  const link = `${PASSWORD_RESET_URL}?token=${encodeURIComponent(token)}`;
+  await sendMail({
+    to: user.email,
+    subject: "Reset your Clinic Queue password",
+    text:
+      `Hello ${user.name},\n\n` +
+      `Someone asked to reset the password for your account. To choose a new ` +
+      `password, open this link within ${PASSWORD_RESET_EXPIRE_MINUTES} minutes:\n\n` +
+      `${link}\n\n` +
+      `If you did not ask for this, you can ignore this email.\n`,
+  });
+}
+
+// Errors: invalid_token. Signs the user out everywhere.
+export async function resetPassword(
+  token: string,
+  newPassword: string
+): Promise<[UserRecord | null, string | null]> {
+  const user_id = await storage.passwordResets.consumeResetToken(hashToken(token));
+  if (user_id === null) {
+    return [null, "invalid_token"];
+  }
+
+  const user = await storage.users.updatePassword(user_id, newPassword);
+  if (!user) {
+    return [null, "invalid_token"];
+  }
+  await storage.sessions.revokeUserSessions(user_id);
+  return [user, null];
+}
+
+// Two-factor authentication
+
+// Recovery codes are random too, so they are hashed like tokens. Dashes,
+// spaces and case are ignored when one is typed.
+function hashRecoveryCode(code: string): string {
+  return hashToken(code.replace(/[\s-]/g, "").toLowerCase());
+}
+
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes: string[] = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const hex = crypto.randomBytes(5).toString("hex");
+    codes.push(`${hex.slice(0, 5)}-${hex.slice(5)}`);
+  }
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// Errors: not_found, wrong_password
+async function checkPassword(user_id: number, password: string): Promise<string | null> {
+  const found = await storage.users.getUserById(user_id);
+  const user = found ? await storage.users.getUserByEmail(found.email) : null;
+  if (!user) {
+    return "not_found";
+  }
+  return (await verifyPassword(password, user.password)) ? null : "wrong_password";
+}
+
+export async function getTwoFactorPolicy(): Promise<TwoFactorPolicy> {
+  const value = await storage.settings.getSetting(REQUIRE_ADMIN_2FA_SETTING);
+  return { requireForAdmins: value === true };
+}
+
+// Errors: not_enrolled (an admin turning the requirement on must have 2FA
+// themselves, so the policy cannot lock out the admin setting it)
+export async function setTwoFactorPolicy(
+  policy: TwoFactorPolicy,
+  updatedBy: number
+): Promise<string | null> {
+  if (policy.requireForAdmins && !(await isTwoFactorEnabled(updatedBy))) {
+    return "not_enrolled";
+  }
+  await storage.settings.setSetting(REQUIRE_ADMIN_2FA_SETTING, policy.requireForAdmins, updatedBy);
+  return null;
+}
+
+export async function isTwoFactorEnabled(user_id: number): Promise<boolean> {
+  const record = await storage.twoFactor.getTwoFactor(user_id);
+  return record !== null && record.enabledAt !== null;
+}
+
+async function isTwoFactorRequired(user: UserRecord): Promise<boolean> {
+  return user.role === Role.admin && (await getTwoFactorPolicy()).requireForAdmins;
+}
+
+// The policy requires 2FA for this account but it is not set up yet
+async function isTwoFactorSetupPending(user: UserRecord): Promise<boolean> {
+  return (await isTwoFactorRequired(user)) && !(await isTwoFactorEnabled(user.id));
+}
+
+export async function getTwoFactorStatus(user: UserRecord): Promise<TwoFactorStatus> {
+  const record = await storage.twoFactor.getTwoFactor(user.id);
+  const enabled = record !== null && record.enabledAt !== null;
+  return {
+    enabled,
+    pending: record !== null && !enabled,
+    required: await isTwoFactorRequired(user),
+    recoveryCodesLeft: enabled ? await storage.twoFactor.countRecoveryCodes(user.id) : 0,
   };
 }
+
+// Starts enrollment with a new secret; it takes effect once confirmed with
+// enableTwoFactor. The password is asked for so a stolen access token alone
+// cannot enroll an authenticator. Errors: not_found, wrong_password,
+// already_enabled
+export async function startTwoFactorSetup(
+  user: UserRecord,
+  password: string
+): Promise<[TwoFactorSetup | null, string | null]> {
+  const passwordError = await checkPassword(user.id, password);
+  if (passwordError) {
+    return [null, passwordError];
+  }
+  if (await isTwoFactorEnabled(user.id)) {
+    return [null, "already_enabled"];
+  }
+  const record = await storage.twoFactor.saveSecret(user.id, generateTotpSecret());
+  return [
+    { secret: record.secret, otpauthUrl: totpProvisioningUri(record.secret, user.email) },
+    null,
+  ];
+}
+
+// Confirms enrollment with a first code and returns the recovery codes,
+// which are not shown again. Errors: not_started, already_enabled, invalid_code
+export async function enableTwoFactor(
+  user_id: number,
+  code: string
+): Promise<[string[] | null, string | null]> {
+  const record = await storage.twoFactor.getTwoFactor(user_id);
+  if (!record) {
+    return [null, "not_started"];
+  }
+  if (record.enabledAt !== null) {
+    return [null, "already_enabled"];
+  }
+  const step = verifyTotp(record.secret, code);
+  if (step === null) {
+    return [null, "invalid_code"];
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.twoFactor.enable(user_id, step, hashes);
+  return [codes, null];
+}
+
+// Errors: not_found, wrong_password, not_enabled, required
+export async function disableTwoFactor(user_id: number, password: string): Promise<string | null> {
+  const passwordError = await checkPassword(user_id, password);
+  if (passwordError) {
+    return passwordError;
+  }
+  const user = await storage.users.getUserById(user_id);
+  if (user && (await isTwoFactorRequired(user))) {
+    return "required";
+  }
+  return (await storage.twoFactor.disable(user_id)) ? null : "not_enabled";
+}
+
+// Replaces every recovery code. Errors: not_found, wrong_password, not_enabled
+export async function regenerateRecoveryCodes(
+  user_id: number,
+  password: string
+): Promise<[string[] | null, string | null]> {
+  const passwordError = await checkPassword(user_id, password);
+  if (passwordError) {
+    return [null, passwordError];
+  }
+  if (!(await isTwoFactorEnabled(user_id))) {
+    return [null, "not_enabled"];
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.twoFactor.replaceRecoveryCodes(user_id, hashes);
+  return [codes, null];
+}
+
+// Challenge tokens are signed with a key of their own, so one can never pass
+// as an access token
+function challengeSecret(): string {
+  return `${JWT_SECRET}:login-challenge`;
+}
+
+// Issued after a correct password when the account has 2FA
+export function createLoginChallenge(user: UserRecord, deviceName?: string): LoginChallenge {
+  const expiresIn = LOGIN_CHALLENGE_EXPIRE_MINUTES * 60;
+  const challengeToken = jwt.sign(
+    { sub: String(user.id), deviceName: deviceName || null },
+    challengeSecret(),
+    { algorithm: JWT_ALGORITHM, expiresIn: `${expiresIn}s` }
+  );
+  return { twoFactorRequired: true, challengeToken, expiresIn };
+}
+
+// The user and device a challenge was issued for, or null when it is
+// invalid or expired
+export function readLoginChallenge(
+  challengeToken: string
+): { userId: number; deviceName: string | undefined } | null {
+  try {
+    const payload = jwt.verify(challengeToken, challengeSecret(), {
+      algorithms: [JWT_ALGORITHM],
+    }) as JWTPayload;
+    const userId = parseInt(String(payload.sub), 10);
+    if (isNaN(userId)) {
+      return null;
+    }
+    return { userId, deviceName: payload.deviceName || undefined };
+  } catch {
+    return null;
+  }
+}
+
+// Checks the second factor of a login: an app code, which cannot be used
+// twice, or an unused recovery code. Errors: invalid_code
+export async function verifySecondFactor(
+  user_id: number,
+  code?: string,
+  recoveryCode?: string
+): Promise<string | null> {
+  const record = await storage.twoFactor.getTwoFactor(user_id);
+  if (!record || record.enabledAt === null) {
+    return "invalid_code";
+  }
+  if (recoveryCode !== undefined) {
+    const used = await storage.twoFactor.useRecoveryCode(user_id, hashRecoveryCode(recoveryCode));
+    return used ? null : "invalid_code";
+  }
+  const step = code !== undefined ? verifyTotp(record.secret, code) : null;
+  if (step === null || !(await storage.twoFactor.useStep(user_id, step))) {
+    return "invalid_code";
+  }
+  return null;
+}
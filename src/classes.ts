@@ -1,8 +1,120 @@
 import { z } from "zod";
 
+// Five-level triage following the Emergency Severity Index, most urgent first
 export enum Priority {
-  Normal = "Normal",
+  Resuscitation = "Resuscitation",
+  Emergent = "Emergent",
+  Urgent = "Urgent",
+  LessUrgent = "LessUrgent",
+  NonUrgent = "NonUrgent",
+  // The original two-level scale, ranked as Emergent and NonUrgent. Only
+  // read back from existing patients; new writes use the five levels.
   Emergency = "Emergency",
+  Normal = "Normal",
+}
+
+// The five triage levels in order; level n is TRIAGE_LEVELS[n - 1]
+export const TRIAGE_LEVELS = [
+  Priority.Resuscitation,
+  Priority.Emergent,
+  Priority.Urgent,
+  Priority.LessUrgent,
+  Priority.NonUrgent,
+] as const;
+
+export type TriageLevel = (typeof TRIAGE_LEVELS)[number];
+
+// Priority given by staff or a rule; the legacy values are refused
+const triageLevelSchema = z.enum(TRIAGE_LEVELS);
+
+// Triage level of each priority; lower levels are seen first
+export const PRIORITY_RANK: Record<Priority, number> = {
+  [Priority.Resuscitation]: 1,
+  [Priority.Emergent]: 2,
+  [Priority.Urgent]: 3,
+  [Priority.LessUrgent]: 4,
+  [Priority.NonUrgent]: 5,
+  [Priority.Emergency]: 2,
+  [Priority.Normal]: 5,
+};
+
+// Counted as emergencies in stats, ticket lookups and reports
+export const EMERGENCY_PRIORITIES = (Object.keys(PRIORITY_RANK) as Priority[]).filter(
+  (priority) => PRIORITY_RANK[priority] <= PRIORITY_RANK[Priority.Emergent]
+);
+
+// Ticket numbers look like E-004 / N-017 and restart at 1 every day. The old
+// priorities share the prefix (and counter) of the level they rank as.
+export const TICKET_PREFIXES: Record<Priority, string> = {
+  [Priority.Resuscitation]: "R",
+  [Priority.Emergent]: "E",
+  [Priority.Urgent]: "U",
+  [Priority.LessUrgent]: "L",
+  [Priority.NonUrgent]: "N",
+  [Priority.Emergency]: "E",
+  [Priority.Normal]: "N",
+};
+
+export enum PatientStatus {
+  Waiting = "Waiting",
+  Called = "Called",
+  InConsultation = "InConsultation",
+  Visited = "Visited",
+  NoShow = "NoShow",
+  Cancelled = "Cancelled",
+  LeftWithoutBeingSeen = "LeftWithoutBeingSeen",
+}
+
+// Allowed next statuses for each status. Visited, NoShow, Cancelled and
+// LeftWithoutBeingSeen are terminal.
+export const PATIENT_STATUS_TRANSITIONS: Record<PatientStatus, PatientStatus[]> = {
+  [PatientStatus.Waiting]: [
+    PatientStatus.Called,
+    PatientStatus.Cancelled,
+    PatientStatus.LeftWithoutBeingSeen,
+  ],
+  [PatientStatus.Called]: [
+    PatientStatus.InConsultation,
+    PatientStatus.Waiting,
+    PatientStatus.NoShow,
+    PatientStatus.Cancelled,
+    PatientStatus.LeftWithoutBeingSeen,
+  ],
+  [PatientStatus.InConsultation]: [PatientStatus.Visited],
+  [PatientStatus.Visited]: [],
+  [PatientStatus.NoShow]: [],
+  [PatientStatus.Cancelled]: [],
+  [PatientStatus.LeftWithoutBeingSeen]: [],
+};
+
+// Statuses of patients who are still in the clinic and have not been seen off
+export const ACTIVE_PATIENT_STATUSES: PatientStatus[] = [
+  PatientStatus.Waiting,
+  PatientStatus.Called,
+  PatientStatus.InConsultation,
+];
+
+// Statuses that end a visit. Close-out moves patients in them to the archive.
+export const TERMINAL_PATIENT_STATUSES: PatientStatus[] = [
+  PatientStatus.Visited,
+  PatientStatus.NoShow,
+  PatientStatus.Cancelled,
+  PatientStatus.LeftWithoutBeingSeen,
+];
+
+// Server-Sent Event names published on GET /queue/events
+export enum QueueEventType {
+  PatientAdded = "patient-added",
+  StatusChanged = "status-changed",
+  StatsChanged = "stats-changed",
+  PatientTransferred = "patient-transferred",
+  PatientUpdated = "patient-updated",
+}
+
+export enum QueueType {
+  department = "department",
+  doctor = "doctor",
+  room = "room",
 }
 
 export enum Role {
@@ -13,6 +125,9 @@ export enum Role {
 const NAME_LEN = 3;
 const PROBLEM_LEN = 3;
 const PASSWORD_LEN = 6;
+const QUEUE_NAME_LEN = 2;
+const DEVICE_NAME_MAX_LEN = 100;
+const MAX_AGE = 150;
 
 // Request/response schemas
 export const patientInSchema = z.object({
@@ -22,16 +137,230 @@ export const patientInSchema = z.object({
   problem: z
     .string()
     .min(PROBLEM_LEN, `problem must be at least ${PROBLEM_LEN} characters`),
-  priority: z.nativeEnum(Priority).default(Priority.Normal),
+  // Omitted: set by a matching priority rule, otherwise NonUrgent
+  priority: triageLevelSchema.optional(),
+  // Omitted means the default (first active) queue
+  queueId: z.number().int().optional(),
+  // Only used to match priority rules; not stored
+  age: z.number().int().min(0).max(MAX_AGE).optional(),
+  pregnant: z.boolean().optional(),
 });
 
-export const patientSchema = patientInSchema.extend({
+export const patientSchema = patientInSchema.omit({ age: true, pregnant: true }).extend({
   id: z.number().int(),
   arrivalTime: z.string(),
-  status: z.string(),
+  status: z.nativeEnum(PatientStatus),
   priority: z.nativeEnum(Priority),
+  queueId: z.number().int(),
+  ticketNumber: z.string().nullable(),
+  // The registry record of the person, when registered through it
+  recordId: z.number().int().nullable(),
+  // Most urgent priority rule that matched at registration, and the priority
+  // it proposed (applied only when staff did not choose one)
+  priorityRule: z.string().nullable(),
+  suggestedPriority: z.nativeEnum(Priority).nullable(),
+  claimedBy: z.number().int().nullable(),
+  claimedAt: z.string().nullable(),
+  // Start of the consultation (or the visit, if marked visited directly)
+  seenAt: z.string().nullable(),
+  visitedAt: z.string().nullable(),
+  // Only present on waiting patients listed by GET /patients
+  estimatedWaitMinutes: z.number().int().optional(),
+  // Level the patient is ordered by after aging (see the triage policy)
+  effectiveLevel: z.number().int().optional(),
+  // Waiting longer than the maximum wait target of their priority
+  maxWaitBreached: z.boolean().optional(),
+});
+
+// Returned once from POST /patients: the secret is printed on the patient's
+// slip and is never shown again
+export const registeredPatientSchema = patientSchema.extend({
+  ticketSecret: z.string(),
+});
+
+export const patientStatusUpdateSchema = z.object({
+  status: z.nativeEnum(PatientStatus),
+});
+
+// PATCH /patients/:id: any of the registration fields except the queue,
+// which is changed through a transfer
+export const patientUpdateSchema = patientInSchema
+  .omit({ queueId: true, age: true, pregnant: true })
+  .partial()
+  .extend({ priority: triageLevelSchema.optional() })
+  .refine(
+    (update) => Object.values(update).some((value) => value !== undefined),
+    "at least one of name, problem or priority is required"
+  );
+
+export const patientTransferSchema = z.object({
+  queueId: z.number().int(),
+});
+
+export const queueNextRequestSchema = z.object({
+  queueId: z.number().int().optional(),
+});
+
+export const queueInSchema = z.object({
+  name: z
+    .string()
+    .min(QUEUE_NAME_LEN, `name must be at least ${QUEUE_NAME_LEN} characters`),
+  type: z.nativeEnum(QueueType).default(QueueType.department),
+  description: z.string().nullable().optional(),
+});
+
+export const queueUpdateSchema = z.object({
+  name: z
+    .string()
+    .min(QUEUE_NAME_LEN, `name must be at least ${QUEUE_NAME_LEN} characters`)
+    .optional(),
+  type: z.nativeEnum(QueueType).optional(),
+  description: z.string().nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+export const queueSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  type: z.nativeEnum(QueueType),
+  description: z.string().nullable(),
+  active: z.boolean(),
+});
+
+// Public waiting-room display. Deliberately limited to ticket numbers and queue
+// positions: patient names and problems must never appear here.
+export const displayTicketSchema = z.object({
+  ticketNumber: z.string().nullable(),
+  queueId: z.number().int(),
+  queueName: z.string(),
+});
+
+export const displayBoardSchema = z.object({
+  nowServing: z.array(
+    displayTicketSchema.extend({
+      status: z.nativeEnum(PatientStatus),
+    })
+  ),
+  waiting: z.array(
+    displayTicketSchema.extend({
+      position: z.number().int(),
+    })
+  ),
+  updatedAt: z.string(),
+});
+
+export const ticketLookupRequestSchema = z.object({
+  ticketNumber: z
+    .string()
+    .trim()
+    .min(1, "ticketNumber is required")
+    .transform((value) => value.toUpperCase()),
+  secret: z
+    .string()
+    .trim()
+    .min(1, "secret is required")
+    .transform((value) => value.toUpperCase()),
+});
+
+// What a patient may learn about their own ticket. Other patients only
+// contribute counts.
+export const ticketStatusSchema = z.object({
+  ticketNumber: z.string(),
+  status: z.nativeEnum(PatientStatus),
+  queueName: z.string(),
+  position: z.number().int().nullable(),
+  patientsAhead: z.number().int(),
+  emergenciesAhead: z.number().int(),
+  estimatedWaitMinutes: z.number().int().nullable(),
+});
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export enum ReportFormat {
+  json = "json",
+  csv = "csv",
+}
+
+export const reportQuerySchema = z.object({
+  // Inclusive calendar dates (YYYY-MM-DD) in the clinic's timezone
+  from: z.string().regex(DATE_PATTERN, "from must be a date (YYYY-MM-DD)").optional(),
+  to: z.string().regex(DATE_PATTERN, "to must be a date (YYYY-MM-DD)").optional(),
+  queueId: z.coerce.number().int().optional(),
+  format: z.nativeEnum(ReportFormat).default(ReportFormat.json),
+});
+
+export const volumeReportRowSchema = z.object({
+  period: z.string(),
+  registered: z.number().int(),
+  visited: z.number().int(),
+  emergencies: z.number().int(),
+  noShows: z.number().int(),
+  emergencyShare: z.number(),
+  noShowRate: z.number(),
+  averageWaitMinutes: z.number().nullable(),
+  p90WaitMinutes: z.number().nullable(),
+});
+
+export const hourlyReportRowSchema = z.object({
+  hour: z.number().int(),
+  arrivals: z.number().int(),
+  averagePerDay: z.number(),
+});
+
+export const staffReportRowSchema = z.object({
+  userId: z.number().int(),
+  name: z.string(),
+  email: z.string(),
+  called: z.number().int(),
+  visited: z.number().int(),
+  averageConsultationMinutes: z.number().nullable(),
+});
+
+export const patientStatusChangeSchema = z.object({
+  id: z.number().int(),
+  patientId: z.number().int(),
+  fromStatus: z.nativeEnum(PatientStatus).nullable(),
+  toStatus: z.nativeEnum(PatientStatus),
+  changedBy: z.number().int().nullable(),
+  changedAt: z.string(),
+});
+
+// Daily registration capacity. Emergencies (levels 1 and 2) are always
+// accepted, so only the other levels have one.
+export const CAPACITY_LEVELS = [Priority.Urgent, Priority.LessUrgent, Priority.NonUrgent] as const;
+
+const capacitySchema = z.number().int().min(0).nullable();
+
+export const dailyCapacitySchema = z.object({
+  [Priority.Urgent]: capacitySchema,
+  [Priority.LessUrgent]: capacitySchema,
+  [Priority.NonUrgent]: capacitySchema,
+});
+
+export const patientStatsSchema = z.object({
+  totalWaiting: z.number().int(),
+  totalEmergency: z.number().int(),
+  totalVisited: z.number().int(),
+  totalCalled: z.number().int(),
+  totalInConsultation: z.number().int(),
+  totalNoShow: z.number().int(),
+  totalCancelled: z.number().int(),
+  totalLeftWithoutBeingSeen: z.number().int(),
+  // Estimated wait for a patient registering now, per priority
+  newArrivalWaitMinutes: z.record(z.nativeEnum(Priority), z.number().int()),
+  // Only on GET /patients/stats: registrations left today per level (null
+  // means unlimited)
+  remainingCapacity: dailyCapacitySchema.optional(),
 });
 
+// Optional label shown in the sessions list, e.g. "Reception PC". Defaults to
+// the browser's User-Agent.
+const deviceNameSchema = z
+  .string()
+  .trim()
+  .max(DEVICE_NAME_MAX_LEN, `deviceName must be at most ${DEVICE_NAME_MAX_LEN} characters`)
+  .optional();
+
 export const signupRequestSchema = z.object({
   name: z
     .string()
@@ -40,11 +369,265 @@ export const signupRequestSchema = z.object({
   password: z
     .string()
     .min(PASSWORD_LEN, `password must be at least ${PASSWORD_LEN} characters`),
+  deviceName: deviceNameSchema,
 });
 
 export const loginRequestSchema = z.object({
   email: z.string().email("email must be a valid address"),
   password: z.string().min(1, "password is required"),
+  deviceName: deviceNameSchema,
+});
+
+export const changePasswordRequestSchema = z.object({
+  currentPassword: z.string().min(1, "currentPassword is required"),
+  newPassword: z
+    .string()
+    .min(PASSWORD_LEN, `newPassword must be at least ${PASSWORD_LEN} characters`),
+});
+
+export const forgotPasswordRequestSchema = z.object({
+  email: z.string().email("email must be a valid address"),
+});
+
+export const resetPasswordRequestSchema = z.object({
+  token: z.string().min(1, "token is required"),
+  newPassword: z
+    .string()
+    .min(PASSWORD_LEN, `newPassword must be at least ${PASSWORD_LEN} characters`),
+});
+
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, "code must be 6 digits");
+
+// Second login step: a code from the authenticator app, or one of the
+// recovery codes
+export const loginTwoFactorRequestSchema = z
+  .object({
+    challengeToken: z.string().min(1, "challengeToken is required"),
+    code: totpCodeSchema.optional(),
+    recoveryCode: z.string().trim().min(1, "recoveryCode must not be empty").optional(),
+  })
+  .refine((body) => (body.code === undefined) !== (body.recoveryCode === undefined), {
+    message: "Provide either code or recoveryCode",
+  });
+
+export const twoFactorCodeRequestSchema = z.object({
+  code: totpCodeSchema,
+});
+
+// Turning 2FA off or replacing recovery codes asks for the password again
+export const passwordConfirmationRequestSchema = z.object({
+  password: z.string().min(1, "password is required"),
+});
+
+const MINUTES_PER_DAY = 24 * 60;
+const waitMinutesSchema = z.number().int().min(0).max(MINUTES_PER_DAY);
+
+export const triagePolicySchema = z.object({
+  // Let a waiting patient's effective priority rise the longer they wait
+  aging: z.boolean(),
+  // Minutes of waiting that lift a patient by one level
+  agingMinutes: z.number().int().min(1, "agingMinutes must be at least 1").max(MINUTES_PER_DAY),
+  // Aging never lifts anyone above this level, so e.g. with 2 a long wait
+  // can overtake emergencies but never resuscitation
+  maxAgedLevel: z.number().int().min(1).max(TRIAGE_LEVELS.length),
+  // Target maximum wait per level; patients waiting longer are flagged
+  maxWaitMinutes: z.object({
+    [Priority.Resuscitation]: waitMinutesSchema,
+    [Priority.Emergent]: waitMinutesSchema,
+    [Priority.Urgent]: waitMinutesSchema,
+    [Priority.LessUrgent]: waitMinutesSchema,
+    [Priority.NonUrgent]: waitMinutesSchema,
+  }),
+});
+
+export enum PriorityRuleMode {
+  // Applied when staff leave the priority out
+  Set = "set",
+  // Only recorded on the patient for staff to review
+  Suggest = "suggest",
+}
+
+// A rule matches when every condition it has holds; keywords match when the
+// problem contains any of them, ignoring case
+export const priorityRuleSchema = z
+  .object({
+    name: z.string().trim().min(1, "rule name is required").max(100),
+    enabled: z.boolean().default(true),
+    mode: z.nativeEnum(PriorityRuleMode).default(PriorityRuleMode.Set),
+    priority: triageLevelSchema,
+    keywords: z.array(z.string().trim().min(1).max(100)).min(1).max(50).optional(),
+    olderThan: z.number().int().min(0).max(MAX_AGE).optional(),
+    youngerThan: z.number().int().min(1).max(MAX_AGE).optional(),
+    pregnant: z.literal(true).optional(),
+  })
+  .refine(
+    (rule) =>
+      rule.keywords !== undefined ||
+      rule.olderThan !== undefined ||
+      rule.youngerThan !== undefined ||
+      rule.pregnant !== undefined,
+    (rule) => ({
+      message: `rule "${rule.name}" needs at least one of keywords, olderThan, youngerThan or pregnant`,
+    })
+  );
+
+const priorityRuleListSchema = z
+  .array(priorityRuleSchema)
+  .max(100)
+  .refine(
+    (rules) => new Set(rules.map((rule) => rule.name.toLowerCase())).size === rules.length,
+    "rule names must be unique"
+  );
+
+// Rules in the order they are listed; the most urgent match wins, and the
+// first listed among equally urgent ones
+export const priorityRuleSetSchema = z.object({
+  rules: priorityRuleListSchema,
+});
+
+export const priorityRuleSampleSchema = z.object({
+  problem: z.string(),
+  priority: triageLevelSchema.optional(),
+  age: z.number().int().min(0).max(MAX_AGE).optional(),
+  pregnant: z.boolean().optional(),
+});
+
+export const priorityRuleDryRunSchema = z.object({
+  // Omitted: the saved rules
+  rules: priorityRuleListSchema.optional(),
+  samples: z.array(priorityRuleSampleSchema).min(1, "at least one sample is required").max(100),
+});
+
+export const priorityRuleResultSchema = z.object({
+  // Every enabled rule that matched, in list order
+  matchedRules: z.array(z.string()),
+  priorityRule: z.string().nullable(),
+  suggestedPriority: z.nativeEnum(Priority).nullable(),
+  // What the patient would be registered with
+  priority: z.nativeEnum(Priority),
+});
+
+// Clinic schedule: when registration is open, and how many patients of each
+// level can register per day. Times are clinic-local (CLINIC_TIMEZONE).
+const TIME_PATTERN = /^([01][0-9]|2[0-3]):[0-5][0-9]$/;
+
+export const WEEKDAYS = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+const openingPeriodSchema = z
+  .object({
+    open: z.string().regex(TIME_PATTERN, "open must be a time (HH:MM)"),
+    close: z.string().regex(TIME_PATTERN, "close must be a time (HH:MM)"),
+  })
+  .refine((period) => period.open < period.close, "close must be after open");
+
+// A day without periods is closed
+const dayHoursSchema = z.array(openingPeriodSchema).max(4);
+
+export enum LeftoverPatients {
+  // Waiting and called patients stay in the queue for the next day
+  CarryOver = "carryOver",
+  // They are marked LeftWithoutBeingSeen at closing time
+  LeftWithoutBeingSeen = "leftWithoutBeingSeen",
+}
+
+export const clinicScheduleSchema = z.object({
+  // null: open around the clock
+  weeklyHours: z
+    .object({
+      monday: dayHoursSchema,
+      tuesday: dayHoursSchema,
+      wednesday: dayHoursSchema,
+      thursday: dayHoursSchema,
+      friday: dayHoursSchema,
+      saturday: dayHoursSchema,
+      sunday: dayHoursSchema,
+    })
+    .nullable(),
+  // Holidays and other days the clinic is closed all day
+  closures: z
+    .array(
+      z.object({
+        date: z
+          .string()
+          .regex(DATE_PATTERN, "closure date must be a date (YYYY-MM-DD)")
+          .refine(isCalendarDate, "closure date must be a date (YYYY-MM-DD)"),
+        reason: z.string().trim().max(200).optional(),
+      })
+    )
+    .max(366),
+  // Registrations per clinic day; null means unlimited
+  dailyCapacity: dailyCapacitySchema,
+  // What happens to patients still waiting when the clinic closes for the day
+  leftoverPatients: z.nativeEnum(LeftoverPatients),
+  // Time of day the day is closed out automatically; null: only by hand
+  closeOutTime: z
+    .string()
+    .regex(TIME_PATTERN, "closeOutTime must be a time (HH:MM)")
+    .nullable()
+    .default(null),
+});
+
+export const queueCloseRequestSchema = z.object({
+  // Shown in the error new registrations get
+  reason: z.string().trim().max(200).optional(),
+});
+
+export enum ClinicClosedReason {
+  Manual = "manual",
+  Holiday = "holiday",
+  Hours = "hours",
+}
+
+export const clinicStatusSchema = z.object({
+  open: z.boolean(),
+  closedReason: z.nativeEnum(ClinicClosedReason).nullable(),
+  // The error registrations get while closed
+  message: z.string().nullable(),
+  // Registrations left today per level; null means unlimited
+  remainingCapacity: dailyCapacitySchema,
+});
+
+export const closeOutRequestSchema = z.object({
+  // Defaults to today in the clinic's timezone
+  date: z
+    .string()
+    .regex(DATE_PATTERN, "date must be a date (YYYY-MM-DD)")
+    .refine(isCalendarDate, "date must be a date (YYYY-MM-DD)")
+    .optional(),
+});
+
+// A closed-out day: the counters of GET /patients/stats over the day's
+// patients, taken after the unserved were marked and before archiving
+export const dailySummarySchema = patientStatsSchema
+  .omit({ newArrivalWaitMinutes: true, remainingCapacity: true })
+  .extend({
+    date: z.string(),
+    // Waiting and called patients marked LeftWithoutBeingSeen
+    markedUnserved: z.number().int(),
+    // Finished visits moved to the archive
+    archived: z.number().int(),
+    closedBy: z.number().int().nullable(),
+    closedAt: z.string(),
+  });
+
+export const twoFactorPolicySchema = z.object({
+  // Admins without 2FA can only reach the enrollment endpoints
+  requireForAdmins: z.boolean(),
+});
+
+// The refresh token may come from this body or from the refresh cookie
+export const refreshTokenRequestSchema = z.object({
+  refreshToken: z.string().min(1, "refreshToken must not be empty").optional(),
 });
 
 export const userResponseSchema = z.object({
@@ -52,32 +635,518 @@ export const userResponseSchema = z.object({
   name: z.string(),
   email: z.string().email(),
   role: z.nativeEnum(Role),
+  // Until the password is changed, every other endpoint answers 403
+  mustChangePassword: z.boolean(),
+});
+
+export const managedUserSchema = userResponseSchema.extend({
+  disabled: z.boolean(),
+});
+
+export const updateUserRoleRequestSchema = z.object({
+  role: z.nativeEnum(Role),
 });
 
 export const authResponseSchema = z.object({
+  // Short-lived access token
   token: z.string(),
+  // Seconds until token expires
+  expiresIn: z.number().int(),
+  // Exchanged at POST /auth/refresh for a new pair; each one works only once
+  refreshToken: z.string(),
   user: userResponseSchema,
 });
 
+// Returned by POST /auth/login (202) instead of an AuthResponse when the
+// account has 2FA; exchanged at POST /auth/login/2fa
+export const loginChallengeSchema = z.object({
+  twoFactorRequired: z.literal(true),
+  challengeToken: z.string(),
+  // Seconds until challengeToken expires
+  expiresIn: z.number().int(),
+});
+
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  // Setup started but not yet confirmed with a code
+  pending: z.boolean(),
+  // Required by the admin policy for this account
+  required: z.boolean(),
+  recoveryCodesLeft: z.number().int(),
+});
+
+export const twoFactorSetupSchema = z.object({
+  // Base32, for typing into the authenticator app by hand
+  secret: z.string(),
+  // otpauth:// URI to show as a QR code
+  otpauthUrl: z.string(),
+});
+
+export const recoveryCodesSchema = z.object({
+  // Shown only once; each code signs in once in place of an app code
+  recoveryCodes: z.array(z.string()),
+});
+
+export const sessionSchema = z.object({
+  id: z.number().int(),
+  userId: z.number().int(),
+  deviceName: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: z.string(),
+  lastUsedAt: z.string(),
+  expiresAt: z.string(),
+  // The session the request was made with
+  current: z.boolean(),
+});
+
 export const messageResponseSchema = z.object({
   message: z.string(),
 });
 
+const LIST_MAX_LIMIT = 200;
+
+// ?limit= for lists that are read a page at a time
+const listLimitSchema = z.coerce
+  .number()
+  .int()
+  .min(1, "limit must be at least 1")
+  .max(LIST_MAX_LIMIT, `limit must be at most ${LIST_MAX_LIMIT}`)
+  .default(50);
+
+// Comma-separated enum values in a query string, e.g. ?status=Visited,NoShow
+function commaListSchema<T extends string>(name: string, values: T[]) {
+  return z
+    .string()
+    .transform((value) => value.split(",").map((item) => item.trim()).filter(Boolean))
+    .superRefine((items, ctx) => {
+      const invalid = items.filter((item) => !values.includes(item as T));
+      if (invalid.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Invalid ${name}: ${invalid.join(", ")}`,
+        });
+      }
+    })
+    .transform((items) => items as T[]);
+}
+
+export const PATIENT_HISTORY_SORT_FIELDS = ["arrivalTime", "name"] as const;
+
+export const patientHistoryQuerySchema = z.object({
+  status: commaListSchema("status", Object.values(PatientStatus)).optional(),
+  priority: commaListSchema("priority", Object.values(Priority)).optional(),
+  queueId: z.coerce.number().int().optional(),
+  // Arrival time range as ISO 8601 timestamps; from is inclusive, to exclusive
+  from: z.string().datetime({ offset: true, message: "from must be an ISO 8601 timestamp" }).optional(),
+  to: z.string().datetime({ offset: true, message: "to must be an ISO 8601 timestamp" }).optional(),
+  // Matched anywhere in the name or problem, ignoring case
+  q: z.string().trim().max(100, "q must be at most 100 characters").optional(),
+  sort: z.enum(PATIENT_HISTORY_SORT_FIELDS).default("arrivalTime"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  // nextCursor of the previous page
+  cursor: z.string().optional(),
+  limit: listLimitSchema,
+});
+
+export const patientHistoryPageSchema = z.object({
+  patients: z.array(patientSchema),
+  // Pass as ?cursor= for the next page; null on the last page
+  nextCursor: z.string().nullable(),
+});
+
+// Patient registry: one record per person, linked to each of their visits
+const PHONE_PATTERN = /^\+?[0-9]{6,20}$/;
+const NATIONAL_ID_MAX_LEN = 50;
+
+// Rejects dates such as 1990-02-30 that match DATE_PATTERN but do not exist
+function isCalendarDate(value: string): boolean {
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value;
+}
+
+export const patientRecordInSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(NAME_LEN, `name must be at least ${NAME_LEN} characters`),
+  dateOfBirth: z
+    .string()
+    .regex(DATE_PATTERN, "dateOfBirth must be a date (YYYY-MM-DD)")
+    .refine(isCalendarDate, "dateOfBirth must be a date (YYYY-MM-DD)")
+    .refine((value) => Date.parse(value) <= Date.now(), "dateOfBirth must be a past date"),
+  // Spaces, dashes and brackets are dropped so lookups match however the
+  // number was typed
+  phone: z
+    .string()
+    .transform((value) => value.replace(/[\s()-]/g, ""))
+    .refine((value) => PHONE_PATTERN.test(value), "phone must be a phone number"),
+  // Upper-cased, so "ab123" and "AB123" are the same ID
+  nationalId: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .min(1, "nationalId must not be empty")
+    .max(NATIONAL_ID_MAX_LEN, `nationalId must be at most ${NATIONAL_ID_MAX_LEN} characters`)
+    .nullable()
+    .optional(),
+});
+
+export const patientRecordUpdateSchema = patientRecordInSchema
+  .partial()
+  .refine(
+    (update) => Object.values(update).some((value) => value !== undefined),
+    "at least one of name, dateOfBirth, phone or nationalId is required"
+  );
+
+export const patientRecordSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  dateOfBirth: z.string(),
+  phone: z.string(),
+  nationalId: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const patientRecordDetailSchema = patientRecordSchema.extend({
+  // Every queue entry of this person, newest first
+  visits: z.array(patientSchema),
+});
+
+export const patientRecordQuerySchema = z.object({
+  // Matched anywhere in the name, ignoring case
+  q: z.string().trim().max(100, "q must be at most 100 characters").optional(),
+  phone: z
+    .string()
+    .transform((value) => value.replace(/[\s()-]/g, ""))
+    .optional(),
+  nationalId: z.string().trim().toUpperCase().optional(),
+  dateOfBirth: z
+    .string()
+    .regex(DATE_PATTERN, "dateOfBirth must be a date (YYYY-MM-DD)")
+    .refine(isCalendarDate, "dateOfBirth must be a date (YYYY-MM-DD)")
+    .optional(),
+  limit: listLimitSchema,
+});
+
+// POST /patient-records/:id/visits: the name comes from the record, and the
+// age for priority rules from its date of birth
+export const patientRecordVisitInSchema = patientInSchema.omit({ name: true, age: true });
+
+// Appointments: booked slots in a queue (usually a doctor's) that join the
+// queue when the patient checks in
+export enum AppointmentStatus {
+  Booked = "Booked",
+  CheckedIn = "CheckedIn",
+  Cancelled = "Cancelled",
+  NoShow = "NoShow",
+}
+
+const APPOINTMENT_MIN_MINUTES = 5;
+const APPOINTMENT_MAX_MINUTES = 240;
+
+export const appointmentInSchema = z.object({
+  recordId: z.number().int(),
+  queueId: z.number().int(),
+  startTime: z
+    .string()
+    .datetime({ offset: true, message: "startTime must be an ISO 8601 timestamp" })
+    .refine((value) => Date.parse(value) > Date.now(), "startTime must be in the future"),
+  durationMinutes: z
+    .number()
+    .int()
+    .min(APPOINTMENT_MIN_MINUTES, `durationMinutes must be at least ${APPOINTMENT_MIN_MINUTES}`)
+    .max(APPOINTMENT_MAX_MINUTES, `durationMinutes must be at most ${APPOINTMENT_MAX_MINUTES}`)
+    .default(15),
+  // Becomes the patient's problem at check-in
+  reason: z
+    .string()
+    .trim()
+    .min(PROBLEM_LEN, `reason must be at least ${PROBLEM_LEN} characters`),
+});
+
+export const appointmentSchema = z.object({
+  id: z.number().int(),
+  recordId: z.number().int(),
+  // Name on the registry record
+  name: z.string(),
+  queueId: z.number().int(),
+  startTime: z.string(),
+  durationMinutes: z.number().int(),
+  reason: z.string(),
+  status: z.nativeEnum(AppointmentStatus),
+  // The queue entry created at check-in
+  patientId: z.number().int().nullable(),
+  createdBy: z.number().int().nullable(),
+  createdAt: z.string(),
+  checkedInAt: z.string().nullable(),
+});
+
+export const appointmentQuerySchema = z.object({
+  // Clinic-local day; defaults to today
+  date: z
+    .string()
+    .regex(DATE_PATTERN, "date must be a date (YYYY-MM-DD)")
+    .refine(isCalendarDate, "date must be a date (YYYY-MM-DD)")
+    .optional(),
+  queueId: z.coerce.number().int().optional(),
+  status: commaListSchema("status", Object.values(AppointmentStatus)).optional(),
+});
+
+export const appointmentCheckInSchema = patientInSchema.pick({ priority: true, pregnant: true });
+
+export const appointmentCheckInResultSchema = z.object({
+  appointment: appointmentSchema,
+  patient: registeredPatientSchema,
+});
+
+// GET /appointments/today: the day's bookings next to the waiting list
+export const todayScheduleSchema = z.object({
+  date: z.string(),
+  appointments: z.array(appointmentSchema),
+  waiting: z.array(patientSchema),
+});
+
+export const outboxQuerySchema = z.object({
+  limit: listLimitSchema,
+});
+
+export const outboxMessageSchema = z.object({
+  id: z.number().int(),
+  from: z.string(),
+  to: z.string(),
+  subject: z.string(),
+  text: z.string(),
+  createdAt: z.string(),
+});
+
+export const auditQuerySchema = z.object({
+  // The user who acted
+  userId: z.coerce.number().int().optional(),
+  // Entries about this patient
+  patientId: z.coerce.number().int().optional(),
+  action: z.string().optional(),
+  // ISO 8601 timestamps; from is inclusive, to exclusive
+  from: z.string().datetime({ offset: true, message: "from must be an ISO 8601 timestamp" }).optional(),
+  to: z.string().datetime({ offset: true, message: "to must be an ISO 8601 timestamp" }).optional(),
+  // Id of the oldest entry already seen, to fetch the page after it
+  before: z.coerce.number().int().optional(),
+  limit: listLimitSchema,
+});
+
+export const auditEntrySchema = z.object({
+  id: z.number().int(),
+  createdAt: z.string(),
+  actorId: z.number().int().nullable(),
+  actorEmail: z.string().nullable(),
+  action: z.string(),
+  targetType: z.string(),
+  targetId: z.number().int().nullable(),
+  before: z.unknown(),
+  after: z.unknown(),
+  ipAddress: z.string().nullable(),
+  requestId: z.string().nullable(),
+});
+
+export const lockoutQuerySchema = z.object({
+  limit: listLimitSchema,
+});
+
+export const lockoutEventSchema = z.object({
+  id: z.number().int(),
+  scope: z.enum(["account", "ip"]),
+  // The lowercased email for account lockouts, the client IP for IP lockouts
+  key: z.string(),
+  userId: z.number().int().nullable(),
+  failures: z.number().int(),
+  lockedUntil: z.string(),
+  createdAt: z.string(),
+  unlockedAt: z.string().nullable(),
+  unlockedBy: z.number().int().nullable(),
+});
+
 // Inferred types
 export type PatientIn = z.infer<typeof patientInSchema>;
 export type Patient = z.infer<typeof patientSchema>;
+export type RegisteredPatient = z.infer<typeof registeredPatientSchema>;
+export type PatientStatusUpdate = z.infer<typeof patientStatusUpdateSchema>;
+export type PatientUpdate = z.infer<typeof patientUpdateSchema>;
+export type PatientTransfer = z.infer<typeof patientTransferSchema>;
+export type QueueNextRequest = z.infer<typeof queueNextRequestSchema>;
+export type QueueIn = z.infer<typeof queueInSchema>;
+export type QueueUpdate = z.infer<typeof queueUpdateSchema>;
+export type Queue = z.infer<typeof queueSchema>;
+export type DisplayBoard = z.infer<typeof displayBoardSchema>;
+export type TicketLookupRequest = z.infer<typeof ticketLookupRequestSchema>;
+export type TicketStatus = z.infer<typeof ticketStatusSchema>;
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+export type VolumeReportRow = z.infer<typeof volumeReportRowSchema>;
+export type HourlyReportRow = z.infer<typeof hourlyReportRowSchema>;
+export type StaffReportRow = z.infer<typeof staffReportRowSchema>;
+export type PatientStatusChange = z.infer<typeof patientStatusChangeSchema>;
+export type PatientStats = z.infer<typeof patientStatsSchema>;
 export type SignupRequest = z.infer<typeof signupRequestSchema>;
 export type LoginRequest = z.infer<typeof loginRequestSchema>;
 export type UserResponse = z.infer<typeof userResponseSchema>;
+export type ManagedUser = z.infer<typeof managedUserSchema>;
+export type UpdateUserRoleRequest = z.infer<typeof updateUserRoleRequestSchema>;
+export type RefreshTokenRequest = z.infer<typeof refreshTokenRequestSchema>;
+export type ChangePasswordRequest = z.infer<typeof changePasswordRequestSchema>;
+export type ForgotPasswordRequest = z.infer<typeof forgotPasswordRequestSchema>;
+export type ResetPasswordRequest = z.infer<typeof resetPasswordRequestSchema>;
 export type AuthResponse = z.infer<typeof authResponseSchema>;
+export type Session = z.infer<typeof sessionSchema>;
 export type MessageResponse = z.infer<typeof messageResponseSchema>;
+export type OutboxQuery = z.infer<typeof outboxQuerySchema>;
+export type OutboxMessage = z.infer<typeof outboxMessageSchema>;
+export type LoginTwoFactorRequest = z.infer<typeof loginTwoFactorRequestSchema>;
+export type TwoFactorCodeRequest = z.infer<typeof twoFactorCodeRequestSchema>;
+export type PasswordConfirmationRequest = z.infer<typeof passwordConfirmationRequestSchema>;
+export type TriagePolicy = z.infer<typeof triagePolicySchema>;
+export type DailyCapacity = z.infer<typeof dailyCapacitySchema>;
+export type ClinicSchedule = z.infer<typeof clinicScheduleSchema>;
+export type QueueCloseRequest = z.infer<typeof queueCloseRequestSchema>;
+export type ClinicStatus = z.infer<typeof clinicStatusSchema>;
+export type CloseOutRequest = z.infer<typeof closeOutRequestSchema>;
+export type DailySummary = z.infer<typeof dailySummarySchema>;
+export type PriorityRule = z.infer<typeof priorityRuleSchema>;
+export type PriorityRuleSet = z.infer<typeof priorityRuleSetSchema>;
+export type PriorityRuleSample = z.infer<typeof priorityRuleSampleSchema>;
+export type PriorityRuleDryRun = z.infer<typeof priorityRuleDryRunSchema>;
+export type PriorityRuleResult = z.infer<typeof priorityRuleResultSchema>;
+export type TwoFactorPolicy = z.infer<typeof twoFactorPolicySchema>;
+export type LoginChallenge = z.infer<typeof loginChallengeSchema>;
+export type TwoFactorStatus = z.infer<typeof twoFactorStatusSchema>;
+export type TwoFactorSetup = z.infer<typeof twoFactorSetupSchema>;
+export type RecoveryCodes = z.infer<typeof recoveryCodesSchema>;
+export type PatientHistoryQuery = z.infer<typeof patientHistoryQuerySchema>;
+export type PatientHistoryPage = z.infer<typeof patientHistoryPageSchema>;
+export type PatientRecordIn = z.infer<typeof patientRecordInSchema>;
+export type PatientRecordUpdate = z.infer<typeof patientRecordUpdateSchema>;
+export type PatientRecord = z.infer<typeof patientRecordSchema>;
+export type PatientRecordDetail = z.infer<typeof patientRecordDetailSchema>;
+export type PatientRecordQuery = z.infer<typeof patientRecordQuerySchema>;
+export type PatientRecordVisitIn = z.infer<typeof patientRecordVisitInSchema>;
+export type AppointmentIn = z.infer<typeof appointmentInSchema>;
+export type Appointment = z.infer<typeof appointmentSchema>;
+export type AppointmentQuery = z.infer<typeof appointmentQuerySchema>;
+export type AppointmentCheckIn = z.infer<typeof appointmentCheckInSchema>;
+export type AppointmentCheckInResult = z.infer<typeof appointmentCheckInResultSchema>;
+export type TodaySchedule = z.infer<typeof todayScheduleSchema>;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+export type LockoutQuery = z.infer<typeof lockoutQuerySchema>;
+export type LockoutEvent = z.infer<typeof lockoutEventSchema>;
 
 // Safe-parse helpers for convenience
 export const validatePatientIn = (input: unknown) =>
   patientInSchema.safeParse(input);
 
+export const validatePatientStatusUpdate = (input: unknown) =>
+  patientStatusUpdateSchema.safeParse(input);
+
+export const validatePatientUpdate = (input: unknown) =>
+  patientUpdateSchema.safeParse(input);
+
+export const validatePatientTransfer = (input: unknown) =>
+  patientTransferSchema.safeParse(input);
+
+export const validateQueueNextRequest = (input: unknown) =>
+  queueNextRequestSchema.safeParse(input);
+
+export const validateQueueIn = (input: unknown) =>
+  queueInSchema.safeParse(input);
+
+export const validateQueueUpdate = (input: unknown) =>
+  queueUpdateSchema.safeParse(input);
+
+export const validateTicketLookupRequest = (input: unknown) =>
+  ticketLookupRequestSchema.safeParse(input);
+
+export const validateReportQuery = (input: unknown) =>
+  reportQuerySchema.safeParse(input);
+
 export const validateSignupRequest = (input: unknown) =>
   signupRequestSchema.safeParse(input);
 
 export const validateLoginRequest = (input: unknown) =>
   loginRequestSchema.safeParse(input);
+
+export const validateRefreshTokenRequest = (input: unknown) =>
+  refreshTokenRequestSchema.safeParse(input);
+
+export const validateChangePasswordRequest = (input: unknown) =>
+  changePasswordRequestSchema.safeParse(input);
+
+export const validateForgotPasswordRequest = (input: unknown) =>
+  forgotPasswordRequestSchema.safeParse(input);
+
+export const validateResetPasswordRequest = (input: unknown) =>
+  resetPasswordRequestSchema.safeParse(input);
+
+export const validateLoginTwoFactorRequest = (input: unknown) =>
+  loginTwoFactorRequestSchema.safeParse(input);
+
+export const validateTwoFactorCodeRequest = (input: unknown) =>
+  twoFactorCodeRequestSchema.safeParse(input);
+
+export const validatePasswordConfirmationRequest = (input: unknown) =>
+  passwordConfirmationRequestSchema.safeParse(input);
+
+export const validateTriagePolicy = (input: unknown) =>
+  triagePolicySchema.safeParse(input);
+
+export const validateClinicSchedule = (input: unknown) =>
+  clinicScheduleSchema.safeParse(input);
+
+export const validateQueueCloseRequest = (input: unknown) =>
+  queueCloseRequestSchema.safeParse(input);
+
+export const validateCloseOutRequest = (input: unknown) =>
+  closeOutRequestSchema.safeParse(input);
+
+export const validatePriorityRuleSet = (input: unknown) =>
+  priorityRuleSetSchema.safeParse(input);
+
+export const validatePriorityRuleDryRun = (input: unknown) =>
+  priorityRuleDryRunSchema.safeParse(input);
+
+export const validateTwoFactorPolicy = (input: unknown) =>
+  twoFactorPolicySchema.safeParse(input);
+
+export const validateOutboxQuery = (input: unknown) =>
+  outboxQuerySchema.safeParse(input);
+
+export const validatePatientHistoryQuery = (input: unknown) =>
+  patientHistoryQuerySchema.safeParse(input);
+
+export const validatePatientRecordIn = (input: unknown) =>
+  patientRecordInSchema.safeParse(input);
+
+export const validatePatientRecordUpdate = (input: unknown) =>
+  patientRecordUpdateSchema.safeParse(input);
+
+export const validatePatientRecordQuery = (input: unknown) =>
+  patientRecordQuerySchema.safeParse(input);
+
+export const validatePatientRecordVisitIn = (input: unknown) =>
+  patientRecordVisitInSchema.safeParse(input);
+
+export const validateAppointmentIn = (input: unknown) =>
+  appointmentInSchema.safeParse(input);
+
+export const validateAppointmentQuery = (input: unknown) =>
+  appointmentQuerySchema.safeParse(input);
+
+export const validateAppointmentCheckIn = (input: unknown) =>
+  appointmentCheckInSchema.safeParse(input);
+
+export const validateAuditQuery = (input: unknown) =>
+  auditQuerySchema.safeParse(input);
+
+export const validateLockoutQuery = (input: unknown) =>
+  lockoutQuerySchema.safeParse(input);
+
+export const validateUpdateUserRoleRequest = (input: unknown) =>
+  updateUserRoleRequestSchema.safeParse(input);
@@ -0,0 +1,286 @@
+/**
+ * Clinic schedule.
+ * New patients can register during the weekly opening hours (clinic-local
+ * time), except on closure days and while an admin has closed the queue by
+ * hand. Urgent, LessUrgent and NonUrgent registrations are also limited per
+ * clinic day; emergencies are never turned away for capacity or by a manual
+ * closure. Booked appointments are not counted against capacity when they
+ * check in.
+ *
+ * When the last opening period of a day ends, the end-of-day routine handles
+ * patients still in the queue as the schedule says: they carry over to the
+ * next day, or are marked LeftWithoutBeingSeen. With a closeOutTime set, it
+ * also closes the day out at that time (see CloseOutRepository): the unserved
+ * are marked, the day's summary is kept and its finished visits archived.
+ */
+import { CLINIC_TIMEZONE } from "./db";
+import {
+  CAPACITY_LEVELS,
+  ClinicClosedReason,
+  ClinicSchedule,
+  ClinicStatus,
+  DailyCapacity,
+  LeftoverPatients,
+  Priority,
+  PRIORITY_RANK,
+  TRIAGE_LEVELS,
+  WEEKDAYS,
+  Weekday,
+} from "./classes";
+import { addDays } from "./reports";
+import { storage } from "./storage";
+import { priorityLevel } from "./triage";
+
+const CLINIC_SCHEDULE_SETTING = "clinicSchedule";
+const QUEUE_CLOSURE_SETTING = "queueClosure";
+
+const END_OF_DAY_CHECK_INTERVAL_MS = 60 * 1000;
+// How far ahead the "opens again" message looks
+const NEXT_OPENING_SEARCH_DAYS = 14;
+
+// Open around the clock with no limits, as before there was a schedule
+export const DEFAULT_CLINIC_SCHEDULE: ClinicSchedule = {
+  weeklyHours: null,
+  closures: [],
+  dailyCapacity: {
+    [Priority.Urgent]: null,
+    [Priority.LessUrgent]: null,
+    [Priority.NonUrgent]: null,
+  },
+  leftoverPatients: LeftoverPatients.CarryOver,
+  closeOutTime: null,
+};
+
+export interface QueueClosure {
+  closed: boolean;
+  reason: string | null;
+  closedBy: number | null;
+  closedAt: string | null;
+}
+
+const OPEN_QUEUE: QueueClosure = { closed: false, reason: null, closedBy: null, closedAt: null };
+
+export async function getClinicSchedule(): Promise<ClinicSchedule> {
+  const stored = (await storage.settings.getSetting(CLINIC_SCHEDULE_SETTING)) as ClinicSchedule | null;
+  // Schedules saved before closeOutTime existed lack it
+  return { ...DEFAULT_CLINIC_SCHEDULE, ...stored };
+}
+
+export async function setClinicSchedule(schedule: ClinicSchedule, updatedBy: number): Promise<void> {
+  await storage.settings.setSetting(CLINIC_SCHEDULE_SETTING, schedule, updatedBy);
+}
+
+export async function getQueueClosure(): Promise<QueueClosure> {
+  const stored = (await storage.settings.getSetting(QUEUE_CLOSURE_SETTING)) as QueueClosure | null;
+  return stored ?? OPEN_QUEUE;
+}
+
+export async function closeQueue(reason: string | null, closedBy: number): Promise<QueueClosure> {
+  const closure = { closed: true, reason, closedBy, closedAt: new Date().toISOString() };
+  await storage.settings.setSetting(QUEUE_CLOSURE_SETTING, closure, closedBy);
+  return closure;
+}
+
+export async function reopenQueue(updatedBy: number): Promise<QueueClosure> {
+  await storage.settings.setSetting(QUEUE_CLOSURE_SETTING, OPEN_QUEUE, updatedBy);
+  return OPEN_QUEUE;
+}
+
+// Schedule logic
+
+interface ClinicClock {
+  date: string;
+  // HH:MM, 24-hour
+  time: string;
+}
+
+const clinicClockFormat = new Intl.DateTimeFormat("en-CA", {
+  timeZone: CLINIC_TIMEZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+function clinicClock(now: Date = new Date()): ClinicClock {
+  const parts: Record<string, string> = {};
+  for (const part of clinicClockFormat.formatToParts(now)) {
+    parts[part.type] = part.value;
+  }
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+function weekdayOf(date: string): Weekday {
+  // getUTCDay counts from Sunday; WEEKDAYS starts on Monday
+  return WEEKDAYS[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7];
+}
+
+// Opening periods on a date, or null when the clinic is always open
+function periodsOn(schedule: ClinicSchedule, date: string): { open: string; close: string }[] | null {
+  if (schedule.closures.some((closure) => closure.date === date)) {
+    return [];
+  }
+  return schedule.weeklyHours === null ? null : schedule.weeklyHours[weekdayOf(date)];
+}
+
+function isOpenAt(schedule: ClinicSchedule, clock: ClinicClock): boolean {
+  const periods = periodsOn(schedule, clock.date);
+  return periods === null || periods.some((p) => p.open <= clock.time && clock.time < p.close);
+}
+
+function nextOpening(
+  schedule: ClinicSchedule,
+  clock: ClinicClock
+): { date: string; time: string } | null {
+  for (let offset = 0; offset <= NEXT_OPENING_SEARCH_DAYS; offset++) {
+    const date = addDays(clock.date, offset);
+    const opens = (periodsOn(schedule, date) ?? [])
+      .map((p) => p.open)
+      .filter((open) => offset > 0 || open > clock.time)
+      .sort();
+    if (opens.length > 0) {
+      return { date, time: opens[0] };
+    }
+  }
+  return null;
+}
+
+function closedMessage(schedule: ClinicSchedule, clock: ClinicClock, prefix: string): string {
+  const next = nextOpening(schedule, clock);
+  return next
+    ? `${prefix}; registration opens again on ${next.date} at ${next.time}`
+    : prefix;
+}
+
+// Legacy Normal registrations count as NonUrgent
+function triageLevelOf(priority: string): Priority {
+  return TRIAGE_LEVELS[Math.min(priorityLevel(priority), TRIAGE_LEVELS.length) - 1];
+}
+
+async function remainingCapacity(schedule: ClinicSchedule, date: string): Promise<DailyCapacity> {
+  const registrations = await storage.patients.countRegistrations(date);
+  const used: Record<string, number> = {};
+  for (const [priority, count] of Object.entries(registrations)) {
+    const level = triageLevelOf(priority);
+    used[level] = (used[level] ?? 0) + count;
+  }
+  const remaining: Partial<DailyCapacity> = {};
+  for (const level of CAPACITY_LEVELS) {
+    const capacity = schedule.dailyCapacity[level];
+    remaining[level] = capacity === null ? null : Math.max(0, capacity - (used[level] ?? 0));
+  }
+  return remaining as DailyCapacity;
+}
+
+export async function getClinicStatus(): Promise<ClinicStatus> {
+  const [schedule, closure] = await Promise.all([getClinicSchedule(), getQueueClosure()]);
+  const clock = clinicClock();
+  const status: ClinicStatus = {
+    open: true,
+    closedReason: null,
+    message: null,
+    remainingCapacity: await remainingCapacity(schedule, clock.date),
+  };
+
+  const holiday = schedule.closures.find((c) => c.date === clock.date);
+  if (closure.closed) {
+    status.closedReason = ClinicClosedReason.Manual;
+    status.message = closure.reason
+      ? `Registration is closed: ${closure.reason}`
+      : "Registration is closed";
+  } else if (holiday) {
+    status.closedReason = ClinicClosedReason.Holiday;
+    status.message = closedMessage(
+      schedule,
+      clock,
+      holiday.reason ? `The clinic is closed today (${holiday.reason})` : "The clinic is closed today"
+    );
+  } else if (!isOpenAt(schedule, clock)) {
+    status.closedReason = ClinicClosedReason.Hours;
+    status.message = closedMessage(schedule, clock, "The clinic is closed");
+  }
+  status.open = status.closedReason === null;
+  return status;
+}
+
+// Why a patient with this priority cannot join the queue now, or null when
+// they can. Capacity is checked by the storage when the patient is added,
+// with the limit from dailyLimitFor.
+export async function registrationError(priority: Priority): Promise<string | null> {
+  const status = await getClinicStatus();
+  if (
+    status.closedReason === ClinicClosedReason.Manual &&
+    priorityLevel(priority) <= PRIORITY_RANK[Priority.Emergent]
+  ) {
+    return null;
+  }
+  return status.open ? null : status.message;
+}
+
+// Registrations allowed per clinic day at the priority's level, or null
+// when there is no limit
+export async function dailyLimitFor(priority: Priority): Promise<number | null> {
+  const level = triageLevelOf(priority);
+  const schedule = await getClinicSchedule();
+  return schedule.dailyCapacity[level as keyof DailyCapacity] ?? null;
+}
+
+export function capacityFullMessage(priority: Priority): string {
+  return `Today's capacity for ${triageLevelOf(priority)} patients is full`;
+}
+
+// End of day
+
+async function handleLeftoverPatients(schedule: ClinicSchedule, clock: ClinicClock): Promise<void> {
+  // Only days with opening hours have a closing time
+  const periods = periodsOn(schedule, clock.date);
+  if (periods === null || periods.length === 0) {
+    return;
+  }
+  const closingTime = periods.map((p) => p.close).sort()[periods.length - 1];
+  if (clock.time < closingTime) {
+    return;
+  }
+  if (schedule.leftoverPatients !== LeftoverPatients.LeftWithoutBeingSeen) {
+    return;
+  }
+  const [count] = await storage.closeOuts.markLeftoverPatients(clock.date, null);
+  if (count) {
+    console.log(`[CLINIC] Closed for ${clock.date}; marked ${count} patient(s) LeftWithoutBeingSeen`);
+  }
+}
+
+// A close-out missed while the server was down is not made up; the next one
+// takes in the patients of the missed days as well
+async function closeOutIfDue(schedule: ClinicSchedule, clock: ClinicClock): Promise<void> {
+  if (schedule.closeOutTime === null || clock.time < schedule.closeOutTime) {
+    return;
+  }
+  if (await storage.closeOuts.getDailySummary(clock.date)) {
+    return;
+  }
+  const [summary] = await storage.closeOuts.closeOutDay(clock.date, null);
+  if (summary) {
+    console.log(
+      `[CLINIC] Closed out ${clock.date}: ${summary.markedUnserved} marked unserved, ` +
+        `${summary.archived} archived`
+    );
+  }
+}
+
+async function runEndOfDayIfDue(): Promise<void> {
+  const schedule = await getClinicSchedule();
+  const clock = clinicClock();
+  await handleLeftoverPatients(schedule, clock);
+  await closeOutIfDue(schedule, clock);
+}
+
+export function startEndOfDayRoutine(): void {
+  setInterval(() => {
+    runEndOfDayIfDue().catch((error) => {
+      console.error(`[CLINIC] End-of-day routine failed: ${error}`);
+    });
+  }, END_OF_DAY_CHECK_INTERVAL_MS).unref();
+}
@@ -0,0 +1,154 @@
+/**
+ * Real-time queue events delivered to clients over Server-Sent Events.
+ * The storage backend records every change as a numbered event and signals
+ * when new ones arrive (with Postgres, via NOTIFY, so every server process
+ * sees changes made by any other process). Reconnecting clients can resume
+ * from their Last-Event-ID. The session a stream was opened with is checked
+ * again at every heartbeat, and the stream ends once it no longer stands.
+ */
+import { Request, Response } from "express";
+import { isSignedIn } from "./auth";
+import { storage, QueueEvent } from "./storage";
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const CLIENT_RETRY_MS = 5 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const EVENT_RETENTION_HOURS = 24;
+
+interface SseClient {
+  res: Response;
+  lastEventId: number;
+  // Live events that arrive while missed events are still being replayed
+  pending: QueueEvent[];
+  replaying: boolean;
+}
+
+const sseClients = new Set<SseClient>();
+let lastBroadcastId = 0;
+let fetchChain: Promise<void> = Promise.resolve();
+
+function writeEvent(client: SseClient, event: QueueEvent): void {
+  client.res.write(
+    `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+  );
+  client.lastEventId = event.id;
+}
+
+function broadcast(event: QueueEvent): void {
+  for (const client of sseClients) {
+    if (client.replaying) {
+      client.pending.push(event);
+    } else if (event.id > client.lastEventId) {
+      writeEvent(client, event);
+    }
+  }
+}
+
+// Fetches are chained so events go out in order
+function scheduleFetch(): void {
+  fetchChain = fetchChain
+    .then(async () => {
+      const events = await storage.events.getEventsSince(lastBroadcastId);
+      for (const event of events) {
+        lastBroadcastId = event.id;
+        broadcast(event);
+      }
+    })
+    .catch((error) => {
+      console.error(`[EVENTS] Failed to fetch queue events: ${error}`);
+    });
+}
+
+export async function startQueueEventListener(): Promise<void> {
+  lastBroadcastId = await storage.events.getLatestEventId();
+  await storage.events.listen(scheduleFetch);
+
+  setInterval(() => {
+    storage.events.pruneEvents(EVENT_RETENTION_HOURS).catch((error) => {
+      console.error(`[EVENTS] Failed to prune queue events: ${error}`);
+    });
+  }, PRUNE_INTERVAL_MS).unref();
+}
+
+function parseLastEventId(req: Request): number | null {
+  const raw = req.header("Last-Event-ID") ?? req.query.lastEventId;
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return null;
+  }
+  const id = parseInt(raw, 10);
+  return Number.isNaN(id) ? null : id;
+}
+
+// GET handler streaming queue events. Clients that reconnect with a
+// Last-Event-ID first receive every event they missed, then live events.
+export async function streamQueueEvents(req: Request, res: Response): Promise<void> {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+  const lastEventId = parseLastEventId(req);
+  const client: SseClient = {
+    res,
+    lastEventId: lastEventId ?? lastBroadcastId,
+    pending: [],
+    replaying: lastEventId !== null,
+  };
+  sseClients.add(client);
+
+  const disconnect = () => {
+    clearInterval(heartbeat);
+    sseClients.delete(client);
+  };
+  const heartbeat = setInterval(() => {
+    isSignedIn((req as any).currentUser)
+      .then((signedIn) => {
+        if (signedIn) {
+          res.write(": heartbeat\n\n");
+        } else {
+          disconnect();
+          res.end();
+        }
+      })
+      .catch((error) => {
+        console.error(`[EVENTS] Failed to check the session of a stream: ${error}`);
+      });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", disconnect);
+
+  if (lastEventId === null) {
+    return;
+  }
+
+  try {
+    // Events after lastEventId may already have been pruned, or the client
+    // may have seen ids from before the in-memory backend restarted. Either
+    // way it must reload its state instead of relying on the replay.
+    const oldestId = await storage.events.getOldestEventId();
+    const latestId = await storage.events.getLatestEventId();
+    if ((oldestId !== null && oldestId > lastEventId + 1) || lastEventId > latestId) {
+      res.write(`event: resync\ndata: {}\n\n`);
+      client.lastEventId = Math.min(lastEventId, latestId);
+    }
+
+    const missed = await storage.events.getEventsSince(client.lastEventId);
+    for (const event of missed) {
+      writeEvent(client, event);
+    }
+  } catch (error) {
+    console.error(`[EVENTS] Failed to replay queue events: ${error}`);
+    res.write(`event: resync\ndata: {}\n\n`);
+  } finally {
+    client.replaying = false;
+    for (const event of client.pending) {
+      if (event.id > client.lastEventId) {
+        writeEvent(client, event);
+      }
+    }
+    client.pending = [];
+  }
+}
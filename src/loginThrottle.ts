@@ -0,0 +1,119 @@
+/**
+ * Brute-force protection for /auth/login.
+ * Failed logins are counted per account (the email, whether registered or
+ * not) and per client IP. After LOGIN_DELAY_AFTER_FAILURES failures for an
+ * account each further attempt has to wait a little longer, doubling up to
+ * LOGIN_DELAY_MAX_SECONDS; at LOGIN_LOCKOUT_THRESHOLD (per account) or
+ * LOGIN_IP_LOCKOUT_THRESHOLD (per IP) failures logins are refused for
+ * LOGIN_LOCKOUT_MINUTES. Counters live in the storage backend so every server
+ * process sees the same ones, and each lockout is kept as an event admins can
+ * review.
+ */
+import * as dotenv from "dotenv";
+import { storage, LoginAttempt, LoginAttemptScope } from "./storage";
+
+dotenv.config();
+
+const LOGIN_DELAY_AFTER_FAILURES = parseInt(process.env.LOGIN_DELAY_AFTER_FAILURES || "3", 10);
+const LOGIN_DELAY_BASE_SECONDS = parseInt(process.env.LOGIN_DELAY_BASE_SECONDS || "1", 10);
+const LOGIN_DELAY_MAX_SECONDS = parseInt(process.env.LOGIN_DELAY_MAX_SECONDS || "30", 10);
+const LOGIN_LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || "10", 10);
+const LOGIN_IP_LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_IP_LOCKOUT_THRESHOLD || "50", 10);
+const LOGIN_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "15", 10);
+// Failures further apart than this are not counted together
+const LOGIN_ATTEMPT_WINDOW_MINUTES = parseInt(
+  process.env.LOGIN_ATTEMPT_WINDOW_MINUTES || "15",
+  10
+);
+
+function accountKey(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function lockoutThreshold(scope: LoginAttemptScope): number {
+  return scope === "account" ? LOGIN_LOCKOUT_THRESHOLD : LOGIN_IP_LOCKOUT_THRESHOLD;
+}
+
+function isLocked(attempt: LoginAttempt, now: number): boolean {
+  return attempt.lockedUntil !== null && Date.parse(attempt.lockedUntil) > now;
+}
+
+// Seconds until the next attempt is allowed, 0 when it is allowed now. Only
+// accounts are slowed down progressively; an IP (possibly a whole clinic
+// behind one address) is only stopped once it reaches its lockout threshold.
+function secondsUntilAllowed(attempt: LoginAttempt | null, now: number): number {
+  if (!attempt) {
+    return 0;
+  }
+  if (isLocked(attempt, now)) {
+    return Math.ceil((Date.parse(attempt.lockedUntil as string) - now) / 1000);
+  }
+  if (attempt.scope === "ip" || attempt.failures < LOGIN_DELAY_AFTER_FAILURES) {
+    return 0;
+  }
+  const lastFailureAt = Date.parse(attempt.lastFailureAt);
+  if (lastFailureAt < now - LOGIN_ATTEMPT_WINDOW_MINUTES * 60 * 1000) {
+    return 0;
+  }
+  const delaySeconds = Math.min(
+    LOGIN_DELAY_BASE_SECONDS * 2 ** (attempt.failures - LOGIN_DELAY_AFTER_FAILURES),
+    LOGIN_DELAY_MAX_SECONDS
+  );
+  return Math.max(0, Math.ceil((lastFailureAt + delaySeconds * 1000 - now) / 1000));
+}
+
+// Seconds the client has to wait before trying again, or null when the
+// attempt may go ahead. Checked before the password, so a correct password
+// does not get through a lockout either.
+export async function getLoginRetryAfter(email: string, ip: string): Promise<number | null> {
+  const [accountAttempt, ipAttempt] = await Promise.all([
+    storage.loginAttempts.getAttempt("account", accountKey(email)),
+    storage.loginAttempts.getAttempt("ip", ip),
+  ]);
+  const now = Date.now();
+  const retryAfter = Math.max(
+    secondsUntilAllowed(accountAttempt, now),
+    secondsUntilAllowed(ipAttempt, now)
+  );
+  return retryAfter > 0 ? retryAfter : null;
+}
+
+async function countFailure(
+  scope: LoginAttemptScope,
+  key: string,
+  userId: number | null
+): Promise<void> {
+  const attempt = await storage.loginAttempts.recordFailure(
+    scope,
+    key,
+    LOGIN_ATTEMPT_WINDOW_MINUTES
+  );
+  if (attempt.failures < lockoutThreshold(scope) || isLocked(attempt, Date.now())) {
+    return;
+  }
+  const lockedUntil = new Date(Date.now() + LOGIN_LOCKOUT_MINUTES * 60 * 1000).toISOString();
+  await storage.loginAttempts.lockOut(scope, key, lockedUntil, userId);
+  console.warn(
+    `[LOGIN] Locked out ${scope} ${key} until ${lockedUntil} after ${attempt.failures} failed attempts`
+  );
+}
+
+// userId is null when the email does not belong to any account
+export async function recordLoginFailure(
+  email: string,
+  ip: string,
+  userId: number | null
+): Promise<void> {
+  await countFailure("account", accountKey(email), userId);
+  await countFailure("ip", ip, null);
+}
+
+// The IP counter is left alone: one good account must not reset the count
+// for guesses against others from the same address
+export async function recordLoginSuccess(email: string): Promise<void> {
+  await storage.loginAttempts.clearAttempts("account", accountKey(email));
+}
+
+export async function unlockAccount(email: string, unlockedBy: number): Promise<boolean> {
+  return storage.loginAttempts.unlock("account", accountKey(email), unlockedBy);
+}
@@ -0,0 +1,72 @@
+/**
+ * Outgoing mail.
+ * MAIL_TRANSPORT picks where messages go: "outbox" (default) keeps them in the
+ * storage backend, readable by admins at GET /mail/outbox; "directory" writes
+ * one .eml file per message to MAIL_OUTBOX_DIR. Neither needs an SMTP server.
+ * Other transports (e.g. SMTP) can be plugged in with setMailTransport.
+ */
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import * as dotenv from "dotenv";
+import { storage, MailMessage } from "./storage";
+
+dotenv.config();
+
+export const MAIL_FROM = process.env.MAIL_FROM || "Clinic Queue <no-reply@clinic.local>";
+const MAIL_TRANSPORT = process.env.MAIL_TRANSPORT || "outbox";
+const MAIL_OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || "./outbox";
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const outboxTransport: MailTransport = {
+  name: "outbox",
+  async send(message: MailMessage): Promise<void> {
+    await storage.outbox.addMessage(message);
+  },
+};
+
+function directoryTransport(directory: string): MailTransport {
+  return {
+    name: "directory",
+    async send(message: MailMessage): Promise<void> {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const fileName = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.eml`;
+      const content = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        message.text,
+      ].join("\r\n");
+      await fs.promises.writeFile(path.join(directory, fileName), content);
+    },
+  };
+}
+
+function createTransport(name: string): MailTransport {
+  switch (name) {
+    case "outbox":
+      return outboxTransport;
+    case "directory":
+      return directoryTransport(MAIL_OUTBOX_DIR);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}". Use one of: outbox, directory`);
+  }
+}
+
+let transport = createTransport(MAIL_TRANSPORT);
+
+export function setMailTransport(mailTransport: MailTransport): void {
+  transport = mailTransport;
+}
+
+export async function sendMail(message: Omit<MailMessage, "from">): Promise<void> {
+  await transport.send({ from: MAIL_FROM, ...message });
+  console.log(`[MAIL] "${message.subject}" to ${message.to} sent via ${transport.name}`);
+}
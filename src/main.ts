@@ -3,50 +3,260 @@ import cors from "cors";
 import cookieParser from "cookie-parser";
 import * as dotenv from "dotenv";
 import {
-  initDb,
-  getAllPatients,
-  addPatient,
-  markVisited,
-  getStats,
-  createUser,
-  getUserByEmail,
-  getUserById,
-  getDbConnection,
-  DATABASE_URL,
-} from "./db";
+  storage,
+  initStorage,
+  STORAGE_BACKEND,
+  SessionRecord,
+  UserRecord,
+} from "./storage";
+import { DATABASE_URL } from "./db";
 import {
   PatientIn,
-  Patient,
   SignupRequest,
   LoginRequest,
+  RefreshTokenRequest,
+  ChangePasswordRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  OutboxQuery,
+  OutboxMessage,
+  LockoutQuery,
+  LockoutEvent,
+  AuditQuery,
+  PatientHistoryQuery,
+  PatientHistoryPage,
+  PatientRecordIn,
+  PatientRecordUpdate,
+  PatientRecordDetail,
+  PatientRecordQuery,
+  PatientRecordVisitIn,
+  AuditEntry,
+  LoginTwoFactorRequest,
+  TwoFactorCodeRequest,
+  PasswordConfirmationRequest,
+  TwoFactorPolicy,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  RecoveryCodes,
   AuthResponse,
+  Session,
   UserResponse,
   MessageResponse,
+  ManagedUser,
+  UpdateUserRoleRequest,
+  PatientStatusUpdate,
+  PatientTransfer,
+  PatientUpdate,
+  QueueNextRequest,
+  TriagePolicy,
+  PatientStats,
+  ClinicSchedule,
+  ClinicStatus,
+  QueueCloseRequest,
+  CloseOutRequest,
+  DailySummary,
+  PatientRecord,
+  AppointmentIn,
+  AppointmentQuery,
+  AppointmentCheckIn,
+  TodaySchedule,
+  PriorityRuleSet,
+  PriorityRuleDryRun,
+  PriorityRuleResult,
+  TicketLookupRequest,
+  ReportQuery,
+  ReportFormat,
+  VolumeReportRow,
+  HourlyReportRow,
+  StaffReportRow,
+  QueueIn,
+  QueueUpdate,
   validatePatientIn,
   validateSignupRequest,
   validateLoginRequest,
-  patientSchema,
-  signupRequestSchema,
-  loginRequestSchema,
-  userResponseSchema,
-  authResponseSchema,
-  messageResponseSchema,
-  Priority,
+  validateRefreshTokenRequest,
+  validateChangePasswordRequest,
+  validateForgotPasswordRequest,
+  validateResetPasswordRequest,
+  validateOutboxQuery,
+  validateLockoutQuery,
+  validateAuditQuery,
+  validatePatientHistoryQuery,
+  validatePatientRecordIn,
+  validatePatientRecordUpdate,
+  validatePatientRecordQuery,
+  validatePatientRecordVisitIn,
+  validateLoginTwoFactorRequest,
+  validateTwoFactorCodeRequest,
+  validatePasswordConfirmationRequest,
+  validateTwoFactorPolicy,
+  validateUpdateUserRoleRequest,
+  validatePatientStatusUpdate,
+  validatePatientTransfer,
+  validatePatientUpdate,
+  validateQueueNextRequest,
+  validateTriagePolicy,
+  validateClinicSchedule,
+  validateQueueCloseRequest,
+  validateCloseOutRequest,
+  validateAppointmentIn,
+  validateAppointmentQuery,
+  validateAppointmentCheckIn,
+  validatePriorityRuleSet,
+  validatePriorityRuleDryRun,
+  validateTicketLookupRequest,
+  validateReportQuery,
+  validateQueueIn,
+  validateQueueUpdate,
+  PatientStatus,
+  AppointmentStatus,
+  Role,
 } from "./classes";
 import {
   verifyPassword,
-  createAccessToken,
-  getCurrentUser,
+  DUMMY_PASSWORD_HASH,
   authMiddleware,
-  JWT_COOKIE_NAME,
+  startSession,
+  refreshSession,
+  getRequestSessionId,
+  isSessionActive,
+  setAuthCookies,
+  clearAuthCookies,
+  changePassword,
+  requestPasswordReset,
+  resetPassword,
+  getTwoFactorPolicy,
+  setTwoFactorPolicy,
+  isTwoFactorEnabled,
+  getTwoFactorStatus,
+  startTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  createLoginChallenge,
+  readLoginChallenge,
+  verifySecondFactor,
+  IssuedTokens,
+  SessionClient,
+  REFRESH_COOKIE_NAME,
   ACCESS_TOKEN_EXPIRE_MINUTES,
 } from "./auth";
+import { startQueueEventListener, streamQueueEvents } from "./events";
+import { AuditAction, auditContext, recordAudit, requestIdMiddleware } from "./audit";
+import {
+  APPOINTMENT_EARLY_CHECK_IN_MINUTES,
+  APPOINTMENT_GRACE_MINUTES,
+  startNoShowSweep,
+} from "./appointments";
+import {
+  capacityFullMessage,
+  closeQueue,
+  dailyLimitFor,
+  getClinicSchedule,
+  getClinicStatus,
+  getQueueClosure,
+  registrationError,
+  reopenQueue,
+  setClinicSchedule,
+  startEndOfDayRoutine,
+} from "./clinicSchedule";
+import {
+  ageFromDateOfBirth,
+  evaluatePriorityRules,
+  getPriorityRules,
+  getTriagePolicy,
+  prioritizeRegistration,
+  setPriorityRules,
+  setTriagePolicy,
+} from "./triage";
+import { rateLimit } from "./rateLimit";
+import {
+  getLoginRetryAfter,
+  recordLoginFailure,
+  recordLoginSuccess,
+  unlockAccount,
+} from "./loginThrottle";
+import { SchemaAheadOfCodeError, SchemaOutOfDateError } from "./migrate";
+import { ReportRange, resolveReportRange, toCsv, todayInClinicTimezone } from "./reports";
+import { buildOpenApiDocument, renderDocsPage } from "./openapi";
+import swaggerUiDist from "swagger-ui-dist";
 
 dotenv.config();
 
 const app = express();
 
+// Parse a numeric route parameter, returning null when it is not a valid id
+function parseIdParam(value: string): number | null {
+  const id = parseInt(value, 10);
+  return Number.isNaN(id) ? null : id;
+}
+
+// Parse an optional numeric query parameter: undefined when absent, null when
+// present but not a valid id
+function parseIdQuery(value: unknown): number | null | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  return typeof value === "string" ? parseIdParam(value) : null;
+}
+
+// Opaque page cursors for GET /patients/history. They name the last patient
+// of the page and the ordering they belong to, so a cursor is rejected when
+// reused with a different sort.
+function encodePatientCursor(query: PatientHistoryQuery, lastId: number): string {
+  return Buffer.from(JSON.stringify([query.sort, query.order, lastId])).toString("base64url");
+}
+
+function decodePatientCursor(query: PatientHistoryQuery, cursor: string): number | null {
+  try {
+    const [sort, order, lastId] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    return sort === query.sort && order === query.order && Number.isInteger(lastId)
+      ? lastId
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function sessionClient(req: Request, deviceName?: string): SessionClient {
+  return {
+    deviceName: deviceName || null,
+    userAgent: req.get("user-agent") || null,
+    ipAddress: req.ip || null,
+  };
+}
+
+function toAuthResponse(user: UserRecord, tokens: IssuedTokens): AuthResponse {
+  return {
+    token: tokens.accessToken,
+    expiresIn: ACCESS_TOKEN_EXPIRE_MINUTES * 60,
+    refreshToken: tokens.refreshToken,
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role as Role,
+      mustChangePassword: user.mustChangePassword,
+    },
+  };
+}
+
+function toSession(session: SessionRecord, currentSessionId?: number): Session {
+  return {
+    id: session.id,
+    userId: session.userId,
+    deviceName: session.deviceName,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId,
+  };
+}
+
 // Middleware
+app.use(requestIdMiddleware);
 app.use(cors({
   origin: [
     "http://localhost:5173", // Vite default port
@@ -58,6 +268,7 @@ app.use(cors({
   credentials: true,
   methods: ["*"],
   allowedHeaders: ["*"],
+  exposedHeaders: ["X-Request-Id"],
 }));
 app.use(cookieParser());
 app.use(express.json());
@@ -65,16 +276,30 @@ app.use(express.json());
 // Initialize database on startup (non-blocking - app will start even if DB is unavailable)
 const initializeDatabase = async () => {
   try {
-    await initDb();
-    console.log("✅ Database initialized successfully");
+    await initStorage();
+    console.log(`✅ Storage initialized (${STORAGE_BACKEND})`);
+    await startQueueEventListener();
+    startNoShowSweep();
+    startEndOfDayRoutine();
   } catch (error) {
+    // Running against an old schema would fail in confusing ways later
+    if (error instanceof SchemaOutOfDateError) {
+      console.error(`❌ ${error.message}`);
+      console.error("   Run `npm run migrate -- up` and start the server again.");
+      process.exit(1);
+    }
+    if (error instanceof SchemaAheadOfCodeError) {
+      console.error(`❌ ${error.message}`);
+      console.error("   Deploy the release that migrated the database, or roll its migrations back first.");
+      process.exit(1);
+    }
     console.error(`⚠️  Warning: Database initialization failed: ${error}`);
     console.error("   The app will start, but database operations may fail until connection is established.");
   }
 };
 
 // Root endpoint
-app.get("/", (req: Request, res: Response) => {
+app.get("/", (_req: Request, res: Response) => {
   res.json({
     message: "Clinic Patient Queue API",
     version: "1.0.0",
@@ -84,16 +309,17 @@ app.get("/", (req: Request, res: Response) => {
 });
 
 // Health check endpoint
-app.get("/health", (req: Request, res: Response) => {
+app.get("/health", (_req: Request, res: Response) => {
   res.json({ status: "healthy" });
 });
 
 // Database diagnostic endpoint (for debugging)
-app.get("/debug/db-info", async (req: Request, res: Response) => {
+app.get("/debug/db-info", async (_req: Request, res: Response) => {
   try {
     const parsed = DATABASE_URL ? new URL(DATABASE_URL) : null;
 
     const info: any = {
+      storage_backend: STORAGE_BACKEND,
       database_url: parsed
         ? `${parsed.protocol}//${parsed.username}@${parsed.hostname}:${parsed.port}${parsed.pathname}`
         : "Not configured",
@@ -101,32 +327,14 @@ app.get("/debug/db-info", async (req: Request, res: Response) => {
     };
 
     try {
-      const pool = getDbConnection();
-      const client = await pool.connect();
-
-      // Get user count
-      const userCountResult = await client.query(
-        "SELECT COUNT(*) as count FROM users"
-      );
-      const userCount = parseInt(userCountResult.rows[0].count, 10);
-
-      // Get patient count
-      const patientCountResult = await client.query(
-        "SELECT COUNT(*) as count FROM patients"
-      );
-      const patientCount = parseInt(patientCountResult.rows[0].count, 10);
-
-      // Get all user emails (for verification)
-      const emailsResult = await client.query(
-        "SELECT email FROM users ORDER BY id"
+      const users = await storage.users.getAllUsers();
+      const patients = await storage.patients.getAllPatients(
+        Object.values(PatientStatus)
       );
-      const emails = emailsResult.rows.map((row) => row.email);
 
-      client.release();
-
-      info.user_count = userCount;
-      info.patient_count = patientCount;
-      info.user_emails = emails;
+      info.user_count = users.length;
+      info.patient_count = patients.length;
+      info.user_emails = users.map((user) => user.email);
       info.connection_status = "connected";
     } catch (error: any) {
       info.error = error.message;
@@ -139,12 +347,93 @@ app.get("/debug/db-info", async (req: Request, res: Response) => {
   }
 });
 
+// Public waiting-room display (no authentication; ticket numbers only)
+app.get("/display", async (req: Request, res: Response) => {
+  try {
+    const queueId = parseIdQuery(req.query.queueId);
+    if (queueId === null) {
+      return res.status(400).json({ message: "Invalid queue id" });
+    }
+
+    const board = await storage.patients.getDisplayBoard(queueId);
+    return res.json(board);
+  } catch (error: any) {
+    console.error("[GET /display] Error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Public ticket lookup: a patient enters the ticket number and secret printed
+// on their slip. Rate limited per IP to stop secrets being guessed.
+app.post(
+  "/tickets/lookup",
+  rateLimit({
+    windowMs: 60 * 1000,
+    max: parseInt(process.env.TICKET_LOOKUP_RATE_LIMIT || "10", 10),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const validation = validateTicketLookupRequest(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: validation.error.errors.map((e) => e.message).join(", "),
+        });
+      }
+
+      const payload: TicketLookupRequest = validation.data;
+      const ticket = await storage.patients.getTicketStatus(
+        payload.ticketNumber,
+        payload.secret
+      );
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found or code incorrect" });
+      }
+      return res.json(ticket);
+    } catch (error: any) {
+      console.error("[POST /tickets/lookup] Error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  }
+);
+
 // Favicon endpoint (prevents 404 errors from browsers)
-app.get("/favicon.ico", (req: Request, res: Response) => {
+app.get("/favicon.ico", (_req: Request, res: Response) => {
   res.status(204).send();
 });
 
 // Authentication Endpoints
+// Failed logins are recorded with the email as typed, whether or not it
+// belongs to an account; the caller is anonymous
+async function auditLoginFailure(
+  req: Request,
+  email: string,
+  userId: number | null,
+  reason: string
+): Promise<void> {
+  await recordAudit(req, {
+    action: AuditAction.LoginFailure,
+    targetType: "user",
+    targetId: userId,
+    after: { email, reason },
+    actor: null,
+  });
+}
+
+async function auditLoginSuccess(
+  req: Request,
+  user: UserRecord,
+  tokens: IssuedTokens,
+  usedRecoveryCode: boolean = false
+): Promise<void> {
+  await recordAudit(req, {
+    action: AuditAction.LoginSuccess,
+    targetType: "user",
+    targetId: user.id,
+    after: { sessionId: tokens.session.id, ...(usedRecoveryCode ? { recoveryCode: true } : {}) },
+    actor: user,
+  });
+}
+
 app.post("/auth/signup", async (req: Request, res: Response) => {
   try {
     // Validate request body
@@ -159,7 +448,12 @@ app.post("/auth/signup", async (req: Request, res: Response) => {
 
     let user;
     try {
-      user = await createUser(payload.name, payload.email, payload.password, "user");
+      user = await storage.users.createUser(
+        payload.name,
+        payload.email,
+        payload.password,
+        "user"
+      );
     } catch (error: any) {
       if (error.message === "Email already exists") {
         return res.status(400).json({ message: error.message });
@@ -167,40 +461,27 @@ app.post("/auth/signup", async (req: Request, res: Response) => {
       throw error;
     }
 
-    // Create JWT token (ensure sub is an integer for consistency)
-    const token = createAccessToken({
-      sub: user.id,
-      email: user.email,
-      role: user.role,
+    await recordAudit(req, {
+      action: AuditAction.UserSignup,
+      targetType: "user",
+      targetId: user.id,
+      after: { name: user.name, email: user.email, role: user.role },
+      actor: user,
     });
 
-    // Set HttpOnly cookie for the JWT so the frontend can rely on cookies
-    res.cookie(JWT_COOKIE_NAME || "access_token", token, {
-      maxAge: ACCESS_TOKEN_EXPIRE_MINUTES * 60 * 1000,
-      httpOnly: true,
-      secure: false, // set to true in production when using HTTPS
-      sameSite: "lax",
-      path: "/",
-    });
-    console.log(`[SIGNUP] Cookie set: ${JWT_COOKIE_NAME}=${token.substring(0, 20)}...`);
+    const tokens = await startSession(user, sessionClient(req, payload.deviceName));
+    setAuthCookies(res, tokens);
+    console.log(`[SIGNUP] Session ${tokens.session.id} started for ${user.email}`);
 
-    const authResponse: AuthResponse = {
-      token,
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role as any,
-      },
-    };
+    const authResponse = toAuthResponse(user, tokens);
 
     // Log successful signup for debugging
     console.log(`[SIGNUP] New user created: ${user.email} (ID: ${user.id})`);
 
-    res.status(201).json(authResponse);
+    return res.status(201).json(authResponse);
   } catch (error: any) {
     console.error("[SIGNUP] Error:", error);
-    res.status(500).json({ message: error.message || "Internal server error" });
+    return res.status(500).json({ message: error.message || "Internal server error" });
   }
 });
 
@@ -215,180 +496,2262 @@ app.post("/auth/login", async (req: Request, res: Response) => {
     }
 
     const payload: LoginRequest = validation.data;
+    const ip = req.ip || "unknown";
+
+    // Throttled the same way whether or not the email belongs to an account
+    const retryAfter = await getLoginRetryAfter(payload.email, ip);
+    if (retryAfter !== null) {
+      res.setHeader("Retry-After", String(retryAfter));
+      return res.status(429).json({ message: "Too many login attempts, please try again later" });
+    }
 
-    const user = await getUserByEmail(payload.email);
+    const user = await storage.users.getUserByEmail(payload.email);
 
     if (!user) {
+      await verifyPassword(payload.password, DUMMY_PASSWORD_HASH);
+      await recordLoginFailure(payload.email, ip, null);
+      await auditLoginFailure(req, payload.email, null, "unknown_email");
       return res.status(401).json({ message: "Invalid email or password" });
     }
 
     const isPasswordValid = await verifyPassword(payload.password, user.password);
     if (!isPasswordValid) {
+      await recordLoginFailure(payload.email, ip, user.id);
+      await auditLoginFailure(req, payload.email, user.id, "wrong_password");
       return res.status(401).json({ message: "Invalid email or password" });
     }
 
-    // Create JWT token (ensure sub is an integer for consistency)
-    const token = createAccessToken({
-      sub: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    if (user.disabled) {
+      await auditLoginFailure(req, payload.email, user.id, "disabled");
+      return res.status(403).json({ message: "Account is disabled" });
+    }
 
-    // Set HttpOnly cookie for the JWT so the frontend can rely on cookies
-    res.cookie(JWT_COOKIE_NAME || "access_token", token, {
-      maxAge: ACCESS_TOKEN_EXPIRE_MINUTES * 60 * 1000,
-      httpOnly: true,
-      secure: false, // set to true in production when using HTTPS
-      sameSite: "lax",
-      path: "/",
-    });
-    console.log(`[LOGIN] Cookie set: ${JWT_COOKIE_NAME}=${token.substring(0, 20)}...`);
+    // The session only starts once the second factor checks out
+    if (await isTwoFactorEnabled(user.id)) {
+      console.log(`[LOGIN] Two-factor challenge issued for ${user.email}`);
+      return res.status(202).json(createLoginChallenge(user, payload.deviceName));
+    }
 
-    const authResponse: AuthResponse = {
-      token,
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role as any,
-      },
-    };
+    await recordLoginSuccess(payload.email);
 
-    res.json(authResponse);
+    const tokens = await startSession(user, sessionClient(req, payload.deviceName));
+    setAuthCookies(res, tokens);
+    await auditLoginSuccess(req, user, tokens);
+    console.log(`[LOGIN] Session ${tokens.session.id} started for ${user.email}`);
+
+    const authResponse = toAuthResponse(user, tokens);
+
+    return res.json(authResponse);
   } catch (error: any) {
     console.error("[LOGIN] Error:", error);
-    res.status(500).json({ message: error.message || "Internal server error" });
+    return res.status(500).json({ message: error.message || "Internal server error" });
   }
 });
 
-app.post("/auth/logout", (req: Request, res: Response) => {
-  res.cookie(JWT_COOKIE_NAME || "access_token", "", {
-    maxAge: 0,
-    httpOnly: true,
-    secure: false, // set to true in production when using HTTPS
-    sameSite: "lax",
-    path: "/",
-  });
-  const response: MessageResponse = { message: "Logged out successfully" };
-  res.json(response);
+app.post("/auth/login/2fa", async (req: Request, res: Response) => {
+  try {
+    const validation = validateLoginTwoFactorRequest(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: LoginTwoFactorRequest = validation.data;
+    const challenge = readLoginChallenge(payload.challengeToken);
+    const user = challenge ? await storage.users.getUserById(challenge.userId) : null;
+    if (!challenge || !user) {
+      return res.status(401).json({ message: "Login challenge expired or invalid" });
+    }
+
+    // Wrong codes count as failed logins, so guessing codes is throttled too
+    const ip = req.ip || "unknown";
+    const retryAfter = await getLoginRetryAfter(user.email, ip);
+    if (retryAfter !== null) {
+      res.setHeader("Retry-After", String(retryAfter));
+      return res.status(429).json({ message: "Too many login attempts, please try again later" });
+    }
+
+    if (user.disabled) {
+      await auditLoginFailure(req, user.email, user.id, "disabled");
+      return res.status(403).json({ message: "Account is disabled" });
+    }
+
+    const err = await verifySecondFactor(user.id, payload.code, payload.recoveryCode);
+    if (err) {
+      await recordLoginFailure(user.email, ip, user.id);
+      await auditLoginFailure(req, user.email, user.id, "invalid_code");
+      return res.status(401).json({ message: "Invalid two-factor code" });
+    }
+    await recordLoginSuccess(user.email);
+    if (payload.recoveryCode !== undefined) {
+      console.log(`[LOGIN] ${user.email} signed in with a recovery code`);
+    }
+
+    const tokens = await startSession(user, sessionClient(req, challenge.deviceName));
+    setAuthCookies(res, tokens);
+    await auditLoginSuccess(req, user, tokens, payload.recoveryCode !== undefined);
+    console.log(`[LOGIN] Session ${tokens.session.id} started for ${user.email}`);
+
+    const authResponse = toAuthResponse(user, tokens);
+
+    return res.json(authResponse);
+  } catch (error: any) {
+    console.error("[LOGIN/2FA] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
 });
 
-app.get("/auth/me", authMiddleware(), async (req: Request, res: Response) => {
+app.post("/auth/refresh", async (req: Request, res: Response) => {
   try {
-    const currentUser = (req as any).currentUser;
-    const user_id = currentUser.user_id;
-    const user = await getUserById(user_id);
+    const validation = validateRefreshTokenRequest(req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: RefreshTokenRequest = validation.data;
+    const refreshToken = payload.refreshToken || req.cookies?.[REFRESH_COOKIE_NAME];
+    if (!refreshToken) {
+      return res.status(401).json({ message: "Invalid or expired refresh token" });
+    }
 
+    const [tokens, err] = await refreshSession(refreshToken);
+    if (err === "disabled") {
+      clearAuthCookies(res);
+      return res.status(403).json({ message: "Account is disabled" });
+    }
+    if (err || !tokens) {
+      clearAuthCookies(res);
+      return res.status(401).json({ message: "Invalid or expired refresh token" });
+    }
+
+    const user = await storage.users.getUserById(tokens.session.userId);
     if (!user) {
-      console.log(`[AUTH/ME] User not found for ID: ${user_id}`);
-      return res.status(404).json({ message: "User not found" });
+      return res.status(401).json({ message: "Invalid or expired refresh token" });
     }
 
-    console.log(`[AUTH/ME] User found: ${user.email} (ID: ${user.id})`);
-    const userResponse: UserResponse = {
-      id: user.id,
-      name: user.name,
-      email: user.email,
-      role: user.role as any,
-    };
-    res.json(userResponse);
+    setAuthCookies(res, tokens);
+    return res.json(toAuthResponse(user, tokens));
   } catch (error: any) {
-    console.error("[AUTH/ME] Error:", error);
-    res.status(500).json({ message: error.message || "Internal server error" });
+    console.error("[REFRESH] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
   }
 });
 
-// Patient Endpoints (all require authentication)
-app.get("/patients", authMiddleware(), async (req: Request, res: Response) => {
+// Ends the session the request was made with (if any) and clears the cookies.
+// No authentication required, so an expired access token can still log out.
+app.post("/auth/logout", async (req: Request, res: Response) => {
   try {
-    const patients = await getAllPatients();
-    res.json(patients);
+    const sessionId = await getRequestSessionId(req);
+    if (sessionId !== null) {
+      await storage.sessions.revokeSession(sessionId);
+      console.log(`[LOGOUT] Session ${sessionId} revoked`);
+    }
+    clearAuthCookies(res);
+    const response: MessageResponse = { message: "Logged out successfully" };
+    res.json(response);
   } catch (error: any) {
-    console.error("[GET /patients] Error:", error);
+    console.error("[LOGOUT] Error:", error);
     res.status(500).json({ message: error.message || "Internal server error" });
   }
 });
 
-app.post("/patients", authMiddleware(), async (req: Request, res: Response) => {
-  try {
-    const currentUser = (req as any).currentUser;
-    console.log(`[CREATE_PATIENT] Request from user: ${currentUser.email} (ID: ${currentUser.user_id})`);
+app.get(
+  "/auth/me",
+  authMiddleware({ allowPendingPasswordChange: true, allowPendingTwoFactorSetup: true }),
+  async (req: Request, res: Response) => {
+    try {
+      const currentUser = (req as any).currentUser;
+      const user_id = currentUser.user_id;
+      const user = await storage.users.getUserById(user_id);
 
-    // Validate request body
-    const validation = validatePatientIn(req.body);
-    if (!validation.success) {
-      return res.status(400).json({
-        message: validation.error.errors.map((e) => e.message).join(", "),
-      });
+      if (!user) {
+        console.log(`[AUTH/ME] User not found for ID: ${user_id}`);
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      console.log(`[AUTH/ME] User found: ${user.email} (ID: ${user.id})`);
+      const userResponse: UserResponse = {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role as any,
+        mustChangePassword: user.mustChangePassword,
+      };
+      return res.json(userResponse);
+    } catch (error: any) {
+      console.error("[AUTH/ME] Error:", error);
+      return res.status(500).json({ message: error.message || "Internal server error" });
     }
+  }
+);
 
-    const payload: PatientIn = validation.data;
-    console.log(`[CREATE_PATIENT] Patient data: name=${payload.name}, problem=${payload.problem}, priority=${payload.priority}`);
+// Password endpoints
 
+app.post(
+  "/auth/change-password",
+  authMiddleware({ allowPendingPasswordChange: true }),
+  async (req: Request, res: Response) => {
     try {
-      const patient = await addPatient(
-        payload.name.trim(),
-        payload.problem.trim(),
-        payload.priority === Priority.Emergency ? "Emergency" : "Normal"
+      const currentUser = (req as any).currentUser;
+      const validation = validateChangePasswordRequest(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: validation.error.errors.map((e) => e.message).join(", "),
+        });
+      }
+
+      const payload: ChangePasswordRequest = validation.data;
+      const [user, err] = await changePassword(
+        currentUser.user_id,
+        payload.currentPassword,
+        payload.newPassword,
+        currentUser.session_id
       );
-      console.log(`[CREATE_PATIENT] Patient created successfully: ID=${patient.id}`);
-      res.status(201).json(patient);
+
+      if (err === "wrong_password") {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+      if (err === "same_password") {
+        return res.status(400).json({ message: "New password must differ from the current password" });
+      }
+      if (err === "not_found" || !user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await recordAudit(req, {
+        action: AuditAction.PasswordChange,
+        targetType: "user",
+        targetId: user.id,
+      });
+      console.log(`[PASSWORD] ${user.email} (ID: ${user.id}) changed their password`);
+      const response: MessageResponse = { message: "Password changed" };
+      return res.json(response);
     } catch (error: any) {
-      console.error(`[CREATE_PATIENT] Error creating patient: ${error.message}`);
-      res.status(500).json({ message: `Failed to create patient: ${error.message}` });
+      console.error("[POST /auth/change-password] Error:", error);
+      return res.status(500).json({ message: error.message || "Internal server error" });
     }
-  } catch (error: any) {
-    console.error("[CREATE_PATIENT] Error:", error);
-    res.status(500).json({ message: error.message || "Internal server error" });
   }
+);
+
+// Both public password reset endpoints are rate limited per IP
+const passwordResetRateLimit = rateLimit({
+  windowMs: 60 * 1000,
+  max: parseInt(process.env.PASSWORD_RESET_RATE_LIMIT || "5", 10),
 });
 
-app.put("/patients/:patient_id/visit", authMiddleware(), async (req: Request, res: Response) => {
+app.post("/auth/forgot-password", passwordResetRateLimit, async (req: Request, res: Response) => {
   try {
-    const patient_id = parseInt(req.params.patient_id, 10);
-    const [patient, err] = await markVisited(patient_id);
-
-    if (err === "not_found") {
-      return res.status(404).json({ message: "Patient not found" });
-    }
-    if (err === "already_visited") {
-      return res.status(400).json({ message: "Patient already visited" });
+    const validation = validateForgotPasswordRequest(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
     }
 
+    const payload: ForgotPasswordRequest = validation.data;
+    await requestPasswordReset(payload.email);
+
+    // Same answer whether or not the address is registered
     const response: MessageResponse = {
-      message: "Patient marked as visited successfully",
+      message: "If that email belongs to an account, a reset link has been sent",
     };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[POST /auth/forgot-password] Error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+app.post("/auth/reset-password", passwordResetRateLimit, async (req: Request, res: Response) => {
+  try {
+    const validation = validateResetPasswordRequest(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: ResetPasswordRequest = validation.data;
+    const [user, err] = await resetPassword(payload.token, payload.newPassword);
+    if (err || !user) {
+      return res.status(400).json({ message: "Invalid or expired reset token" });
+    }
+
+    await recordAudit(req, {
+      action: AuditAction.PasswordReset,
+      targetType: "user",
+      targetId: user.id,
+      actor: user,
+    });
+    console.log(`[PASSWORD] ${user.email} (ID: ${user.id}) reset their password`);
+    const response: MessageResponse = { message: "Password reset. Please log in again." };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[POST /auth/reset-password] Error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Sessions of the signed-in user, e.g. "Reception PC" and "Doctor tablet"
+app.get("/auth/sessions", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const sessions = await storage.sessions.getActiveSessions(currentUser.user_id);
+    const response: Session[] = sessions.map((session) =>
+      toSession(session, currentUser.session_id)
+    );
     res.json(response);
   } catch (error: any) {
-    console.error("[PUT /patients/:id/visit] Error:", error);
+    console.error("[GET /auth/sessions] Error:", error);
     res.status(500).json({ message: error.message || "Internal server error" });
   }
 });
 
-app.get("/patients/stats", authMiddleware(), async (req: Request, res: Response) => {
+// Sign out every other device
+app.delete("/auth/sessions", authMiddleware(), async (req: Request, res: Response) => {
   try {
-    const stats = await getStats();
-    res.json(stats);
+    const currentUser = (req as any).currentUser;
+    const revoked = await storage.sessions.revokeUserSessions(
+      currentUser.user_id,
+      currentUser.session_id
+    );
+    console.log(`[SESSIONS] ${currentUser.email} revoked ${revoked} other session(s)`);
+    const response: MessageResponse = { message: `Revoked ${revoked} session(s)` };
+    res.json(response);
   } catch (error: any) {
-    console.error("[GET /patients/stats] Error:", error);
+    console.error("[DELETE /auth/sessions] Error:", error);
     res.status(500).json({ message: error.message || "Internal server error" });
   }
 });
 
-// Error handlers
-app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error("Unhandled error:", err);
-  res.status(500).json({ message: err.message || "Internal server error" });
+app.delete("/auth/sessions/:session_id", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const session_id = parseIdParam(req.params.session_id);
+    if (session_id === null) {
+      return res.status(400).json({ message: "Invalid session id" });
+    }
+
+    // Other users' sessions look the same as missing ones
+    const session = await storage.sessions.getSession(session_id);
+    if (!session || session.userId !== currentUser.user_id || !isSessionActive(session)) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+
+    await storage.sessions.revokeSession(session_id);
+    if (session_id === currentUser.session_id) {
+      clearAuthCookies(res);
+    }
+    console.log(`[SESSIONS] ${currentUser.email} revoked session ${session_id}`);
+    const response: MessageResponse = { message: "Session revoked" };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[DELETE /auth/sessions/:id] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
 });
 
-// Start server
-const PORT = process.env.PORT || 8000;
+// Two-factor authentication endpoints
 
-initializeDatabase().then(() => {
-  app.listen(PORT, () => {
-    console.log(`🚀 Server running on http://localhost:${PORT}`);
-  });
+// Reachable while the admin policy still requires this account to enroll
+const twoFactorSetupAuth = authMiddleware({ allowPendingTwoFactorSetup: true });
+
+app.get("/auth/2fa", twoFactorSetupAuth, async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const user = await storage.users.getUserById(currentUser.user_id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const response: TwoFactorStatus = await getTwoFactorStatus(user);
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[GET /auth/2fa] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/auth/2fa/setup", twoFactorSetupAuth, async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const validation = validatePasswordConfirmationRequest(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const user = await storage.users.getUserById(currentUser.user_id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const payload: PasswordConfirmationRequest = validation.data;
+    const [setup, err] = await startTwoFactorSetup(user, payload.password);
+    if (err === "wrong_password") {
+      return res.status(400).json({ message: "Password is incorrect" });
+    }
+    if (err === "not_found") {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (err === "already_enabled" || !setup) {
+      return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+    }
+
+    const response: TwoFactorSetup = setup;
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[POST /auth/2fa/setup] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/auth/2fa/enable", twoFactorSetupAuth, async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const validation = validateTwoFactorCodeRequest(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: TwoFactorCodeRequest = validation.data;
+    const [recoveryCodes, err] = await enableTwoFactor(currentUser.user_id, payload.code);
+
+    if (err === "not_started") {
+      return res.status(400).json({ message: "Start two-factor setup first" });
+    }
+    if (err === "already_enabled") {
+      return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+    }
+    if (err === "invalid_code" || !recoveryCodes) {
+      return res.status(400).json({ message: "Invalid two-factor code" });
+    }
+
+    await recordAudit(req, {
+      action: AuditAction.TwoFactorEnable,
+      targetType: "user",
+      targetId: currentUser.user_id,
+    });
+    console.log(`[2FA] ${currentUser.email} (ID: ${currentUser.user_id}) enabled two-factor authentication`);
+    const response: RecoveryCodes = { recoveryCodes };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[POST /auth/2fa/enable] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
 });
 
+app.post("/auth/2fa/disable", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const validation = validatePasswordConfirmationRequest(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: PasswordConfirmationRequest = validation.data;
+    const err = await disableTwoFactor(currentUser.user_id, payload.password);
+
+    if (err === "wrong_password") {
+      return res.status(400).json({ message: "Password is incorrect" });
+    }
+    if (err === "required") {
+      return res.status(400).json({ message: "Two-factor authentication is required for admins" });
+    }
+    if (err === "not_enabled") {
+      return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+    }
+    if (err === "not_found") {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    await recordAudit(req, {
+      action: AuditAction.TwoFactorDisable,
+      targetType: "user",
+      targetId: currentUser.user_id,
+    });
+    console.log(`[2FA] ${currentUser.email} (ID: ${currentUser.user_id}) disabled two-factor authentication`);
+    const response: MessageResponse = { message: "Two-factor authentication disabled" };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[POST /auth/2fa/disable] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/auth/2fa/recovery-codes", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const validation = validatePasswordConfirmationRequest(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: PasswordConfirmationRequest = validation.data;
+    const [recoveryCodes, err] = await regenerateRecoveryCodes(currentUser.user_id, payload.password);
+
+    if (err === "wrong_password") {
+      return res.status(400).json({ message: "Password is incorrect" });
+    }
+    if (err === "not_enabled") {
+      return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+    }
+    if (err === "not_found" || !recoveryCodes) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const response: RecoveryCodes = { recoveryCodes };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[POST /auth/2fa/recovery-codes] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.get("/auth/2fa/policy", authMiddleware({ roles: [Role.admin] }), async (_req: Request, res: Response) => {
+  try {
+    const response: TwoFactorPolicy = await getTwoFactorPolicy();
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[GET /auth/2fa/policy] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.put("/auth/2fa/policy", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const validation = validateTwoFactorPolicy(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const policy: TwoFactorPolicy = validation.data;
+    const before = await getTwoFactorPolicy();
+    const err = await setTwoFactorPolicy(policy, currentUser.user_id);
+    if (err === "not_enrolled") {
+      return res.status(400).json({
+        message: "Enable two-factor authentication on your own account first",
+      });
+    }
+
+    await recordAudit(req, {
+      action: AuditAction.TwoFactorPolicyChange,
+      targetType: "settings",
+      targetId: null,
+      before,
+      after: policy,
+    });
+
+    console.log(
+      `[2FA] ${currentUser.email} ${policy.requireForAdmins ? "now requires" : "no longer requires"} 2FA for admins`
+    );
+    return res.json(policy);
+  } catch (error: any) {
+    console.error("[PUT /auth/2fa/policy] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// User Management Endpoints (admin only)
+app.get("/users", authMiddleware({ roles: [Role.admin] }), async (_req: Request, res: Response) => {
+  try {
+    const users = await storage.users.getAllUsers();
+    const response: ManagedUser[] = users.map((user) => ({
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role as Role,
+      mustChangePassword: user.mustChangePassword,
+      disabled: user.disabled,
+    }));
+    res.json(response);
+  } catch (error: any) {
+    console.error("[GET /users] Error:", error);
+    res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.put("/users/:user_id/role", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const user_id = parseIdParam(req.params.user_id);
+    if (user_id === null) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+
+    const validation = validateUpdateUserRoleRequest(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: UpdateUserRoleRequest = validation.data;
+    const [user, err] = await storage.users.updateUserRole(
+      user_id,
+      payload.role,
+      auditContext(req)
+    );
+
+    if (err === "last_admin") {
+      return res.status(400).json({ message: "Cannot remove the last active admin" });
+    }
+    if (err === "not_found" || !user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    console.log(`[USERS] Role of ${user.email} (ID: ${user.id}) set to ${user.role}`);
+    const response: ManagedUser = {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role as Role,
+      mustChangePassword: user.mustChangePassword,
+      disabled: user.disabled,
+    };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[PUT /users/:id/role] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+const setDisabledHandler = (disabled: boolean) =>
+  async (req: Request, res: Response) => {
+    try {
+      const currentUser = (req as any).currentUser;
+      const user_id = parseIdParam(req.params.user_id);
+      if (user_id === null) {
+        return res.status(400).json({ message: "Invalid user id" });
+      }
+      if (disabled && user_id === currentUser.user_id) {
+        return res.status(400).json({ message: "You cannot disable your own account" });
+      }
+
+      const [user, err] = await storage.users.setUserDisabled(
+        user_id,
+        disabled,
+        auditContext(req)
+      );
+
+      if (err === "last_admin") {
+        return res.status(400).json({ message: "Cannot remove the last active admin" });
+      }
+      if (err === "not_found" || !user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // A disabled account is signed out everywhere
+      if (disabled) {
+        await storage.sessions.revokeUserSessions(user.id);
+      }
+
+      console.log(`[USERS] ${user.email} (ID: ${user.id}) ${disabled ? "disabled" : "enabled"}`);
+      const response: ManagedUser = {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role as Role,
+        mustChangePassword: user.mustChangePassword,
+        disabled: user.disabled,
+      };
+      return res.json(response);
+    } catch (error: any) {
+      console.error(`[PUT /users/:id/${disabled ? "disable" : "enable"}] Error:`, error);
+      return res.status(500).json({ message: error.message || "Internal server error" });
+    }
+  };
+
+app.put("/users/:user_id/disable", authMiddleware({ roles: [Role.admin] }), setDisabledHandler(true));
+app.put("/users/:user_id/enable", authMiddleware({ roles: [Role.admin] }), setDisabledHandler(false));
+
+app.delete("/users/:user_id", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const user_id = parseIdParam(req.params.user_id);
+    if (user_id === null) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+    if (user_id === currentUser.user_id) {
+      return res.status(400).json({ message: "You cannot delete your own account" });
+    }
+
+    const err = await storage.users.deleteUser(user_id, auditContext(req));
+
+    if (err === "not_found") {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (err === "last_admin") {
+      return res.status(400).json({ message: "Cannot remove the last active admin" });
+    }
+
+    console.log(`[USERS] User ID ${user_id} deleted by ${currentUser.email}`);
+    const response: MessageResponse = { message: "User deleted successfully" };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[DELETE /users/:id] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Force-logout: list and revoke another user's sessions
+app.get("/users/:user_id/sessions", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const user_id = parseIdParam(req.params.user_id);
+    if (user_id === null) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+    if (!(await storage.users.getUserById(user_id))) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const sessions = await storage.sessions.getActiveSessions(user_id);
+    const response: Session[] = sessions.map((session) =>
+      toSession(session, currentUser.session_id)
+    );
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[GET /users/:id/sessions] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.delete("/users/:user_id/sessions", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const user_id = parseIdParam(req.params.user_id);
+    if (user_id === null) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+    const user = await storage.users.getUserById(user_id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const revoked = await storage.sessions.revokeUserSessions(user_id);
+    console.log(`[SESSIONS] Revoked ${revoked} session(s) of ${user.email} (ID: ${user.id})`);
+    const response: MessageResponse = { message: `Revoked ${revoked} session(s)` };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[DELETE /users/:id/sessions] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/users/:user_id/unlock", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const user_id = parseIdParam(req.params.user_id);
+    if (user_id === null) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+    const user = await storage.users.getUserById(user_id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const unlocked = await unlockAccount(user.email, currentUser.user_id);
+    if (unlocked) {
+      await recordAudit(req, { action: AuditAction.UserUnlock, targetType: "user", targetId: user.id });
+      console.log(`[LOGIN] ${user.email} (ID: ${user.id}) unlocked by ${currentUser.email}`);
+    }
+    const response: MessageResponse = {
+      message: unlocked ? "Account unlocked" : "Account was not locked",
+    };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[POST /users/:id/unlock] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// For users who lost their authenticator app and recovery codes
+app.delete("/users/:user_id/2fa", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const user_id = parseIdParam(req.params.user_id);
+    if (user_id === null) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+    const user = await storage.users.getUserById(user_id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    if (!(await storage.twoFactor.disable(user_id))) {
+      return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+    }
+    await recordAudit(req, {
+      action: AuditAction.UserTwoFactorReset,
+      targetType: "user",
+      targetId: user.id,
+    });
+    console.log(`[2FA] Two-factor authentication of ${user.email} (ID: ${user.id}) reset by ${currentUser.email}`);
+    const response: MessageResponse = { message: "Two-factor authentication reset" };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[DELETE /users/:id/2fa] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.get("/auth/lockouts", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const validation = validateLockoutQuery(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const query: LockoutQuery = validation.data;
+    const events: LockoutEvent[] = await storage.loginAttempts.getLockoutEvents(query.limit);
+    return res.json(events);
+  } catch (error: any) {
+    console.error("[GET /auth/lockouts] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.delete(
+  "/users/:user_id/sessions/:session_id",
+  authMiddleware({ roles: [Role.admin] }),
+  async (req: Request, res: Response) => {
+    try {
+      const user_id = parseIdParam(req.params.user_id);
+      const session_id = parseIdParam(req.params.session_id);
+      if (user_id === null || session_id === null) {
+        return res.status(400).json({ message: "Invalid user or session id" });
+      }
+
+      const session = await storage.sessions.getSession(session_id);
+      if (!session || session.userId !== user_id || !isSessionActive(session)) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.sessions.revokeSession(session_id);
+      console.log(`[SESSIONS] Revoked session ${session_id} of user ${user_id}`);
+      const response: MessageResponse = { message: "Session revoked" };
+      return res.json(response);
+    } catch (error: any) {
+      console.error("[DELETE /users/:id/sessions/:id] Error:", error);
+      return res.status(500).json({ message: error.message || "Internal server error" });
+    }
+  }
+);
+
+// Patient Endpoints (all require authentication)
+app.get("/patients", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    // Optional ?status=Waiting,Called filter; defaults to the waiting queue
+    let statuses: string[] | undefined;
+    if (typeof req.query.status === "string" && req.query.status.trim()) {
+      statuses = req.query.status.split(",").map((s) => s.trim());
+      const validStatuses = Object.values(PatientStatus) as string[];
+      const invalid = statuses.filter((s) => !validStatuses.includes(s));
+      if (invalid.length > 0) {
+        return res.status(400).json({
+          message: `Invalid status: ${invalid.join(", ")}`,
+        });
+      }
+    }
+
+    const queueId = parseIdQuery(req.query.queueId);
+    if (queueId === null) {
+      return res.status(400).json({ message: "Invalid queue id" });
+    }
+
+    const patients = await storage.patients.getAllPatients(statuses, queueId);
+    return res.json(patients);
+  } catch (error: any) {
+    console.error("[GET /patients] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Patients of any status, not just the waiting queue, for looking back at
+// earlier days
+app.get("/patients/history", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const validation = validatePatientHistoryQuery(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const query: PatientHistoryQuery = validation.data;
+    let afterId: number | undefined;
+    if (query.cursor !== undefined) {
+      const lastId = decodePatientCursor(query, query.cursor);
+      if (lastId === null) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      afterId = lastId;
+    }
+
+    const [result, err] = await storage.patients.searchPatients({
+      statuses: query.status,
+      priorities: query.priority,
+      queueId: query.queueId,
+      from: query.from,
+      to: query.to,
+      search: query.q || undefined,
+      sort: query.sort,
+      order: query.order,
+      afterId,
+      limit: query.limit,
+    });
+    if (err || !result) {
+      return res.status(400).json({ message: "Invalid cursor" });
+    }
+
+    const lastPatient = result.patients[result.patients.length - 1];
+    const page: PatientHistoryPage = {
+      patients: result.patients,
+      nextCursor: result.hasMore ? encodePatientCursor(query, lastPatient.id) : null,
+    };
+    return res.json(page);
+  } catch (error: any) {
+    console.error("[GET /patients/history] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/patients", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    console.log(`[CREATE_PATIENT] Request from user: ${currentUser.email} (ID: ${currentUser.user_id})`);
+
+    // Validate request body
+    const validation = validatePatientIn(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: PatientIn = validation.data;
+    console.log(`[CREATE_PATIENT] Patient data: name=${payload.name}, problem=${payload.problem}, priority=${payload.priority}`);
+    return await registerPatient(req, res, payload, null);
+  } catch (error: any) {
+    console.error("[CREATE_PATIENT] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+const ACTIVE_VISIT_MESSAGE = "This patient already has a visit in the queue";
+
+// Puts a patient in a queue; shared by walk-in registration and visits of
+// patients already in the registry. Priority rules fill in the priority when
+// staff leave it out.
+async function registerPatient(
+  req: Request,
+  res: Response,
+  payload: PatientIn,
+  record: PatientRecord | null
+) {
+  const currentUser = (req as any).currentUser;
+  const queue =
+    payload.queueId !== undefined
+      ? await storage.queues.getQueueById(payload.queueId)
+      : await storage.queues.getDefaultQueue();
+  if (!queue || !queue.active) {
+    return res.status(400).json({ message: "Queue not found or inactive" });
+  }
+
+  try {
+    const { priority, ruleMatch } = await prioritizeRegistration({
+      problem: payload.problem,
+      priority: payload.priority,
+      age: payload.age ?? (record ? ageFromDateOfBirth(record.dateOfBirth) : undefined),
+      pregnant: payload.pregnant,
+    });
+    const refusal = await registrationError(priority);
+    if (refusal) {
+      return res.status(400).json({ message: refusal });
+    }
+    const [patient, err] = await storage.patients.addPatient(
+      payload.name.trim(),
+      payload.problem.trim(),
+      priority,
+      queue.id,
+      currentUser.user_id,
+      record ? record.id : null,
+      ruleMatch,
+      await dailyLimitFor(priority),
+      auditContext(req)
+    );
+    if (err === "capacity_full") {
+      return res.status(400).json({ message: capacityFullMessage(priority) });
+    }
+    if (err === "active_visit" || !patient) {
+      return res.status(400).json({ message: ACTIVE_VISIT_MESSAGE });
+    }
+    console.log(`[CREATE_PATIENT] Patient created successfully: ID=${patient.id}`);
+    return res.status(201).json(patient);
+  } catch (error: any) {
+    console.error(`[CREATE_PATIENT] Error creating patient: ${error.message}`);
+    return res.status(500).json({ message: `Failed to create patient: ${error.message}` });
+  }
+}
+
+app.put("/patients/:patient_id/visit", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const patient_id = parseInt(req.params.patient_id, 10);
+    const [, err] = await storage.patients.markVisited(
+      patient_id,
+      currentUser.user_id,
+      auditContext(req)
+    );
+
+    if (err === "not_found") {
+      return res.status(404).json({ message: "Patient not found" });
+    }
+    if (err === "already_visited") {
+      return res.status(400).json({ message: "Patient already visited" });
+    }
+    if (err === "invalid_transition") {
+      return res.status(400).json({ message: "Patient is no longer in the queue" });
+    }
+
+    const response: MessageResponse = {
+      message: "Patient marked as visited successfully",
+    };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[PUT /patients/:id/visit] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.put("/patients/:patient_id/status", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const patient_id = parseIdParam(req.params.patient_id);
+    if (patient_id === null) {
+      return res.status(400).json({ message: "Invalid patient id" });
+    }
+
+    const validation = validatePatientStatusUpdate(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: PatientStatusUpdate = validation.data;
+    const [patient, err] = await storage.patients.transitionPatientStatus(
+      patient_id,
+      payload.status,
+      currentUser.user_id,
+      auditContext(req)
+    );
+
+    if (err === "invalid_transition") {
+      return res.status(400).json({
+        message: `Patient cannot move to ${payload.status} from its current status`,
+      });
+    }
+    if (err === "not_found" || !patient) {
+      return res.status(404).json({ message: "Patient not found" });
+    }
+
+    console.log(`[PATIENT_STATUS] Patient ${patient_id} -> ${payload.status} by user ${currentUser.user_id}`);
+    return res.json(patient);
+  } catch (error: any) {
+    console.error("[PUT /patients/:id/status] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.patch("/patients/:patient_id", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const patient_id = parseIdParam(req.params.patient_id);
+    if (patient_id === null) {
+      return res.status(400).json({ message: "Invalid patient id" });
+    }
+
+    const validation = validatePatientUpdate(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: PatientUpdate = validation.data;
+    const [patient, err] = await storage.patients.updatePatient(
+      patient_id,
+      payload,
+      currentUser.user_id,
+      payload.priority !== undefined ? await dailyLimitFor(payload.priority) : null,
+      auditContext(req)
+    );
+
+    if (err === "not_active") {
+      return res.status(400).json({ message: "Only patients still in the queue can be edited" });
+    }
+    if (err === "capacity_full" && payload.priority !== undefined) {
+      return res.status(400).json({ message: capacityFullMessage(payload.priority) });
+    }
+    if (err === "not_found" || !patient) {
+      return res.status(404).json({ message: "Patient not found" });
+    }
+
+    const fields = Object.keys(payload) as (keyof PatientUpdate)[];
+    console.log(`[UPDATE_PATIENT] Patient ${patient_id} updated by user ${currentUser.user_id}: ${fields.join(", ")}`);
+    return res.json(patient);
+  } catch (error: any) {
+    console.error("[PATCH /patients/:id] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/patients/:patient_id/cancel", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const patient_id = parseIdParam(req.params.patient_id);
+    if (patient_id === null) {
+      return res.status(400).json({ message: "Invalid patient id" });
+    }
+
+    const [patient, err] = await storage.patients.transitionPatientStatus(
+      patient_id,
+      PatientStatus.Cancelled,
+      currentUser.user_id,
+      auditContext(req)
+    );
+
+    if (err === "invalid_transition") {
+      return res.status(400).json({ message: "Only waiting or called patients can be cancelled" });
+    }
+    if (err === "not_found" || !patient) {
+      return res.status(404).json({ message: "Patient not found" });
+    }
+
+    console.log(`[CANCEL_PATIENT] Patient ${patient_id} cancelled by user ${currentUser.user_id}`);
+    return res.json(patient);
+  } catch (error: any) {
+    console.error("[POST /patients/:id/cancel] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// How long after a visit was marked it can still be undone
+const UNDO_VISIT_MINUTES = parseInt(process.env.UNDO_VISIT_MINUTES || "30", 10);
+
+app.post("/patients/:patient_id/undo-visit", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const patient_id = parseIdParam(req.params.patient_id);
+    if (patient_id === null) {
+      return res.status(400).json({ message: "Invalid patient id" });
+    }
+
+    const [patient, err] = await storage.patients.undoVisit(
+      patient_id,
+      UNDO_VISIT_MINUTES,
+      currentUser.user_id,
+      auditContext(req)
+    );
+
+    if (err === "not_visited") {
+      return res.status(400).json({ message: "Patient is not marked as visited" });
+    }
+    if (err === "too_late") {
+      return res.status(400).json({
+        message: `Visits can only be undone within ${UNDO_VISIT_MINUTES} minutes`,
+      });
+    }
+    if (err === "active_visit") {
+      return res.status(400).json({ message: ACTIVE_VISIT_MESSAGE });
+    }
+    if (err === "not_found" || !patient) {
+      return res.status(404).json({ message: "Patient not found" });
+    }
+
+    console.log(`[UNDO_VISIT] Patient ${patient_id} back to ${patient.status} by user ${currentUser.user_id}`);
+    return res.json(patient);
+  } catch (error: any) {
+    console.error("[POST /patients/:id/undo-visit] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/patients/:patient_id/transfer", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const patient_id = parseIdParam(req.params.patient_id);
+    if (patient_id === null) {
+      return res.status(400).json({ message: "Invalid patient id" });
+    }
+
+    const validation = validatePatientTransfer(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: PatientTransfer = validation.data;
+    const [patient, err] = await storage.patients.transferPatient(
+      patient_id,
+      payload.queueId,
+      currentUser.user_id,
+      auditContext(req)
+    );
+
+    if (err === "not_waiting") {
+      return res.status(400).json({ message: "Only waiting patients can be transferred" });
+    }
+    if (err === "same_queue") {
+      return res.status(400).json({ message: "Patient is already in that queue" });
+    }
+    if (err === "queue_not_found") {
+      return res.status(400).json({ message: "Queue not found or inactive" });
+    }
+    if (err === "not_found" || !patient) {
+      return res.status(404).json({ message: "Patient not found" });
+    }
+
+    console.log(`[TRANSFER] Patient ${patient_id} moved to queue ${payload.queueId} by user ${currentUser.user_id}`);
+    return res.json(patient);
+  } catch (error: any) {
+    console.error("[POST /patients/:id/transfer] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.get("/patients/:patient_id/history", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const patient_id = parseIdParam(req.params.patient_id);
+    if (patient_id === null) {
+      return res.status(400).json({ message: "Invalid patient id" });
+    }
+
+    const history = await storage.patients.getPatientStatusHistory(patient_id);
+    if (!history) {
+      return res.status(404).json({ message: "Patient not found" });
+    }
+    return res.json(history);
+  } catch (error: any) {
+    console.error("[GET /patients/:id/history] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.get("/patients/stats", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const queueId = parseIdQuery(req.query.queueId);
+    if (queueId === null) {
+      return res.status(400).json({ message: "Invalid queue id" });
+    }
+
+    const stats = await storage.patients.getStats(queueId);
+    const { remainingCapacity } = await getClinicStatus();
+    const response: PatientStats = { ...stats, remainingCapacity };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[GET /patients/stats] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Patient Registry Endpoints (all require authentication)
+const DUPLICATE_NATIONAL_ID = "A patient record with this national ID already exists";
+
+app.get("/patient-records", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const validation = validatePatientRecordQuery(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const query: PatientRecordQuery = validation.data;
+    const records = await storage.records.findRecords({
+      search: query.q || undefined,
+      phone: query.phone || undefined,
+      nationalId: query.nationalId || undefined,
+      dateOfBirth: query.dateOfBirth,
+      limit: query.limit,
+    });
+    return res.json(records);
+  } catch (error: any) {
+    console.error("[GET /patient-records] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/patient-records", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const validation = validatePatientRecordIn(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: PatientRecordIn = validation.data;
+    let record;
+    try {
+      record = await storage.records.createRecord({
+        name: payload.name,
+        dateOfBirth: payload.dateOfBirth,
+        phone: payload.phone,
+        nationalId: payload.nationalId ?? null,
+      });
+    } catch (error: any) {
+      if (error.message === DUPLICATE_NATIONAL_ID) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+
+    await recordAudit(req, {
+      action: AuditAction.PatientRecordCreate,
+      targetType: "patient_record",
+      targetId: record.id,
+      after: record,
+    });
+    return res.status(201).json(record);
+  } catch (error: any) {
+    console.error("[POST /patient-records] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.get("/patient-records/:record_id", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const record_id = parseIdParam(req.params.record_id);
+    if (record_id === null) {
+      return res.status(400).json({ message: "Invalid patient record id" });
+    }
+
+    const record = await storage.records.getRecordById(record_id);
+    if (!record) {
+      return res.status(404).json({ message: "Patient record not found" });
+    }
+    const detail: PatientRecordDetail = {
+      ...record,
+      visits: await storage.records.getRecordVisits(record_id),
+    };
+    return res.json(detail);
+  } catch (error: any) {
+    console.error("[GET /patient-records/:id] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.patch("/patient-records/:record_id", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const record_id = parseIdParam(req.params.record_id);
+    if (record_id === null) {
+      return res.status(400).json({ message: "Invalid patient record id" });
+    }
+
+    const validation = validatePatientRecordUpdate(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: PatientRecordUpdate = validation.data;
+    const previous = await storage.records.getRecordById(record_id);
+    let record;
+    try {
+      record = await storage.records.updateRecord(record_id, payload);
+    } catch (error: any) {
+      if (error.message === DUPLICATE_NATIONAL_ID) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+    if (!record) {
+      return res.status(404).json({ message: "Patient record not found" });
+    }
+
+    const fields = Object.keys(payload) as (keyof PatientRecordUpdate)[];
+    await recordAudit(req, {
+      action: AuditAction.PatientRecordUpdate,
+      targetType: "patient_record",
+      targetId: record.id,
+      before: Object.fromEntries(fields.map((field) => [field, previous?.[field] ?? null])),
+      after: Object.fromEntries(fields.map((field) => [field, record[field]])),
+    });
+    return res.json(record);
+  } catch (error: any) {
+    console.error("[PATCH /patient-records/:id] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Queue a patient who is already in the registry, without retyping their details
+app.post("/patient-records/:record_id/visits", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const record_id = parseIdParam(req.params.record_id);
+    if (record_id === null) {
+      return res.status(400).json({ message: "Invalid patient record id" });
+    }
+
+    const validation = validatePatientRecordVisitIn(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const record = await storage.records.getRecordById(record_id);
+    if (!record) {
+      return res.status(404).json({ message: "Patient record not found" });
+    }
+
+    const payload: PatientRecordVisitIn = validation.data;
+    return await registerPatient(req, res, { ...payload, name: record.name }, record);
+  } catch (error: any) {
+    console.error("[POST /patient-records/:id/visits] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Appointment Endpoints (all require authentication)
+const APPOINTMENT_CONFLICT_MESSAGES: Record<string, string> = {
+  queue_conflict: "This queue already has an appointment at that time",
+  patient_conflict: "The patient already has an appointment at that time",
+};
+
+app.get("/appointments", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const validation = validateAppointmentQuery(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const query: AppointmentQuery = validation.data;
+    const appointments = await storage.appointments.findAppointments({
+      date: query.date ?? todayInClinicTimezone(),
+      queueId: query.queueId ?? null,
+      statuses: query.status,
+    });
+    return res.json(appointments);
+  } catch (error: any) {
+    console.error("[GET /appointments] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Reception's view of the day: who is booked, next to who is already waiting
+app.get("/appointments/today", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const queueId = parseIdQuery(req.query.queueId);
+    if (queueId === null) {
+      return res.status(400).json({ message: "Invalid queue id" });
+    }
+
+    const date = todayInClinicTimezone();
+    const [appointments, waiting] = await Promise.all([
+      storage.appointments.findAppointments({ date, queueId }),
+      storage.patients.getAllPatients([PatientStatus.Waiting], queueId ?? null),
+    ]);
+    const response: TodaySchedule = { date, appointments, waiting };
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[GET /appointments/today] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.get("/appointments/:appointment_id", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const appointment_id = parseIdParam(req.params.appointment_id);
+    if (appointment_id === null) {
+      return res.status(400).json({ message: "Invalid appointment id" });
+    }
+
+    const appointment = await storage.appointments.getAppointmentById(appointment_id);
+    if (!appointment) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+    return res.json(appointment);
+  } catch (error: any) {
+    console.error("[GET /appointments/:id] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/appointments", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const validation = validateAppointmentIn(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: AppointmentIn = validation.data;
+    const record = await storage.records.getRecordById(payload.recordId);
+    if (!record) {
+      return res.status(400).json({ message: "Patient record not found" });
+    }
+    const queue = await storage.queues.getQueueById(payload.queueId);
+    if (!queue || !queue.active) {
+      return res.status(400).json({ message: "Queue not found or inactive" });
+    }
+
+    const [appointment, err] = await storage.appointments.createAppointment(
+      payload,
+      currentUser.user_id
+    );
+    if (!appointment) {
+      return res.status(400).json({ message: APPOINTMENT_CONFLICT_MESSAGES[err as string] });
+    }
+
+    await recordAudit(req, {
+      action: AuditAction.AppointmentCreate,
+      targetType: "appointment",
+      targetId: appointment.id,
+      after: appointment,
+    });
+    console.log(
+      `[APPOINTMENTS] Appointment ${appointment.id} booked for record ${record.id} in queue ${queue.id}`
+    );
+    return res.status(201).json(appointment);
+  } catch (error: any) {
+    console.error("[POST /appointments] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/appointments/:appointment_id/cancel", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const appointment_id = parseIdParam(req.params.appointment_id);
+    if (appointment_id === null) {
+      return res.status(400).json({ message: "Invalid appointment id" });
+    }
+
+    const [appointment, err] = await storage.appointments.cancelAppointment(appointment_id);
+    if (err === "not_found") {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+    if (!appointment) {
+      return res.status(400).json({ message: "Only booked appointments can be cancelled" });
+    }
+
+    await recordAudit(req, {
+      action: AuditAction.AppointmentCancel,
+      targetType: "appointment",
+      targetId: appointment.id,
+      before: { status: AppointmentStatus.Booked },
+      after: { status: appointment.status },
+    });
+    return res.json(appointment);
+  } catch (error: any) {
+    console.error("[POST /appointments/:id/cancel] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Queues the patient in the appointment's queue, positioned by the start of
+// their slot rather than the time they checked in
+app.post("/appointments/:appointment_id/check-in", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const appointment_id = parseIdParam(req.params.appointment_id);
+    if (appointment_id === null) {
+      return res.status(400).json({ message: "Invalid appointment id" });
+    }
+
+    const validation = validateAppointmentCheckIn(req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const booked = await storage.appointments.getAppointmentById(appointment_id);
+    if (!booked) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+    const queue = await storage.queues.getQueueById(booked.queueId);
+    if (!queue || !queue.active) {
+      return res.status(400).json({ message: "Queue not found or inactive" });
+    }
+    const record = await storage.records.getRecordById(booked.recordId);
+
+    const payload: AppointmentCheckIn = validation.data;
+    const { priority, ruleMatch } = await prioritizeRegistration({
+      problem: booked.reason,
+      priority: payload.priority,
+      age: record ? ageFromDateOfBirth(record.dateOfBirth) : undefined,
+      pregnant: payload.pregnant,
+    });
+    // The slot was reserved when it was booked, so only closure applies
+    const refusal = await registrationError(priority);
+    if (refusal) {
+      return res.status(400).json({ message: refusal });
+    }
+    const [result, err] = await storage.appointments.checkInAppointment(
+      appointment_id,
+      {
+        priority,
+        ruleMatch,
+        earlyMinutes: APPOINTMENT_EARLY_CHECK_IN_MINUTES,
+        graceMinutes: APPOINTMENT_GRACE_MINUTES,
+      },
+      currentUser.user_id,
+      auditContext(req)
+    );
+    if (err === "not_found") {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+    if (err === "not_booked") {
+      return res.status(400).json({ message: "Only booked appointments can be checked in" });
+    }
+    if (err === "too_early") {
+      return res.status(400).json({
+        message: `Check-in opens ${APPOINTMENT_EARLY_CHECK_IN_MINUTES} minutes before the appointment`,
+      });
+    }
+    if (err === "active_visit") {
+      return res.status(400).json({ message: ACTIVE_VISIT_MESSAGE });
+    }
+    if (!result) {
+      return res.status(400).json({
+        message: "The appointment was missed; register the patient as a walk-in instead",
+      });
+    }
+
+    await recordAudit(req, {
+      action: AuditAction.AppointmentCheckIn,
+      targetType: "appointment",
+      targetId: appointment_id,
+      before: { status: AppointmentStatus.Booked },
+      after: { status: result.appointment.status, patientId: result.patient.id },
+    });
+    console.log(`[APPOINTMENTS] Appointment ${appointment_id} checked in as patient ${result.patient.id}`);
+    return res.status(201).json(result);
+  } catch (error: any) {
+    console.error("[POST /appointments/:id/check-in] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Queue Endpoints (all require authentication)
+app.get("/queues", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const queues = await storage.queues.getAllQueues(req.query.all === "true");
+    res.json(queues);
+  } catch (error: any) {
+    console.error("[GET /queues] Error:", error);
+    res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.get("/queues/:queue_id", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const queue_id = parseIdParam(req.params.queue_id);
+    if (queue_id === null) {
+      return res.status(400).json({ message: "Invalid queue id" });
+    }
+
+    const queue = await storage.queues.getQueueById(queue_id);
+    if (!queue) {
+      return res.status(404).json({ message: "Queue not found" });
+    }
+    return res.json(queue);
+  } catch (error: any) {
+    console.error("[GET /queues/:id] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/queues", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const validation = validateQueueIn(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: QueueIn = validation.data;
+    let queue;
+    try {
+      queue = await storage.queues.createQueue(
+        payload.name.trim(),
+        payload.type,
+        payload.description ?? null
+      );
+    } catch (error: any) {
+      if (error.message === "Queue already exists") {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+
+    await recordAudit(req, {
+      action: AuditAction.QueueCreate,
+      targetType: "queue",
+      targetId: queue.id,
+      after: queue,
+    });
+    console.log(`[QUEUES] Queue created: ${queue.name} (ID: ${queue.id})`);
+    return res.status(201).json(queue);
+  } catch (error: any) {
+    console.error("[POST /queues] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.put("/queues/:queue_id", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const queue_id = parseIdParam(req.params.queue_id);
+    if (queue_id === null) {
+      return res.status(400).json({ message: "Invalid queue id" });
+    }
+
+    const validation = validateQueueUpdate(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: QueueUpdate = validation.data;
+    const previous = await storage.queues.getQueueById(queue_id);
+    let queue;
+    try {
+      queue = await storage.queues.updateQueue(queue_id, {
+        ...payload,
+        name: payload.name?.trim(),
+      });
+    } catch (error: any) {
+      if (error.message === "Queue already exists") {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+
+    if (!queue) {
+      return res.status(404).json({ message: "Queue not found" });
+    }
+    await recordAudit(req, {
+      action: AuditAction.QueueUpdate,
+      targetType: "queue",
+      targetId: queue.id,
+      before: previous,
+      after: queue,
+    });
+    return res.json(queue);
+  } catch (error: any) {
+    console.error("[PUT /queues/:id] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/queue/next", authMiddleware(), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+
+    const validation = validateQueueNextRequest(req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: QueueNextRequest = validation.data;
+    const patient = await storage.patients.claimNextPatient(
+      currentUser.user_id,
+      payload.queueId,
+      auditContext(req)
+    );
+
+    if (!patient) {
+      return res.status(404).json({ message: "No patients waiting" });
+    }
+
+    console.log(`[QUEUE_NEXT] Patient ${patient.id} claimed by ${currentUser.email} (ID: ${currentUser.user_id})`);
+    return res.json(patient);
+  } catch (error: any) {
+    console.error("[POST /queue/next] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.get("/queue/events", authMiddleware(), streamQueueEvents);
+
+// Triage policy: how waiting patients age up the queue and the maximum wait
+// targets per level. Readable by all staff, changed by admins.
+app.get("/triage/policy", authMiddleware(), async (_req: Request, res: Response) => {
+  try {
+    const response: TriagePolicy = await getTriagePolicy();
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[GET /triage/policy] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.put("/triage/policy", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const validation = validateTriagePolicy(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const policy: TriagePolicy = validation.data;
+    const before = await getTriagePolicy();
+    await setTriagePolicy(policy, currentUser.user_id);
+
+    await recordAudit(req, {
+      action: AuditAction.TriagePolicyChange,
+      targetType: "settings",
+      targetId: null,
+      before,
+      after: policy,
+    });
+
+    console.log(`[TRIAGE] ${currentUser.email} updated the triage policy`);
+    return res.json(policy);
+  } catch (error: any) {
+    console.error("[PUT /triage/policy] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Priority rules applied at registration. Readable by all staff, so reception
+// can see why a priority was chosen; changed and tested by admins.
+app.get("/triage/rules", authMiddleware(), async (_req: Request, res: Response) => {
+  try {
+    const response: PriorityRuleSet = await getPriorityRules();
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[GET /triage/rules] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.put("/triage/rules", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const validation = validatePriorityRuleSet(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const ruleSet: PriorityRuleSet = validation.data;
+    const before = await getPriorityRules();
+    await setPriorityRules(ruleSet, currentUser.user_id);
+
+    await recordAudit(req, {
+      action: AuditAction.PriorityRulesChange,
+      targetType: "settings",
+      targetId: null,
+      before,
+      after: ruleSet,
+    });
+
+    console.log(`[TRIAGE] ${currentUser.email} saved ${ruleSet.rules.length} priority rule(s)`);
+    return res.json(ruleSet);
+  } catch (error: any) {
+    console.error("[PUT /triage/rules] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Runs sample registrations through a rule set (the saved one by default)
+// without registering anyone
+app.post("/triage/rules/dry-run", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const validation = validatePriorityRuleDryRun(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: PriorityRuleDryRun = validation.data;
+    const rules = payload.rules ?? (await getPriorityRules()).rules;
+    const response: PriorityRuleResult[] = payload.samples.map((sample) =>
+      evaluatePriorityRules(rules, sample)
+    );
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[POST /triage/rules/dry-run] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Clinic schedule and status. Readable by all staff; changed by admins.
+app.get("/clinic/status", authMiddleware(), async (_req: Request, res: Response) => {
+  try {
+    const response: ClinicStatus = await getClinicStatus();
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[GET /clinic/status] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.get("/clinic/schedule", authMiddleware(), async (_req: Request, res: Response) => {
+  try {
+    const response: ClinicSchedule = await getClinicSchedule();
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[GET /clinic/schedule] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.put("/clinic/schedule", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const validation = validateClinicSchedule(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const schedule: ClinicSchedule = validation.data;
+    const before = await getClinicSchedule();
+    await setClinicSchedule(schedule, currentUser.user_id);
+
+    await recordAudit(req, {
+      action: AuditAction.ClinicScheduleChange,
+      targetType: "settings",
+      targetId: null,
+      before,
+      after: schedule,
+    });
+
+    console.log(`[CLINIC] ${currentUser.email} updated the clinic schedule`);
+    return res.json(schedule);
+  } catch (error: any) {
+    console.error("[PUT /clinic/schedule] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Stops new registrations until reopened, whatever the schedule says.
+// Patients already in the queue are still called and seen.
+app.post("/clinic/close", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const validation = validateQueueCloseRequest(req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: QueueCloseRequest = validation.data;
+    const before = await getQueueClosure();
+    const closure = await closeQueue(payload.reason || null, currentUser.user_id);
+
+    await recordAudit(req, {
+      action: AuditAction.QueueClose,
+      targetType: "settings",
+      targetId: null,
+      before,
+      after: closure,
+    });
+
+    console.log(`[CLINIC] ${currentUser.email} closed the queue to new registrations`);
+    const response: ClinicStatus = await getClinicStatus();
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[POST /clinic/close] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+app.post("/clinic/reopen", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const before = await getQueueClosure();
+    if (!before.closed) {
+      return res.status(400).json({ message: "The queue is not closed" });
+    }
+    const closure = await reopenQueue(currentUser.user_id);
+
+    await recordAudit(req, {
+      action: AuditAction.QueueReopen,
+      targetType: "settings",
+      targetId: null,
+      before,
+      after: closure,
+    });
+
+    console.log(`[CLINIC] ${currentUser.email} reopened the queue`);
+    const response: ClinicStatus = await getClinicStatus();
+    return res.json(response);
+  } catch (error: any) {
+    console.error("[POST /clinic/reopen] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Ends a clinic day by hand (see CloseOutRepository). The schedule's
+// closeOutTime does the same automatically.
+app.post("/clinic/close-out", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const currentUser = (req as any).currentUser;
+    const validation = validateCloseOutRequest(req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const payload: CloseOutRequest = validation.data;
+    const today = todayInClinicTimezone();
+    const date = payload.date ?? today;
+    if (date > today) {
+      return res.status(400).json({ message: "A day cannot be closed out before it starts" });
+    }
+
+    const [summary, err] = await storage.closeOuts.closeOutDay(
+      date,
+      currentUser.user_id,
+      auditContext(req)
+    );
+    if (err === "already_closed" || !summary) {
+      return res.status(400).json({ message: `${date} has already been closed out` });
+    }
+
+    console.log(
+      `[CLINIC] ${currentUser.email} closed out ${date}: ${summary.markedUnserved} marked unserved, ` +
+        `${summary.archived} archived`
+    );
+    const response: DailySummary = summary;
+    return res.status(201).json(response);
+  } catch (error: any) {
+    console.error("[POST /clinic/close-out] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Audit log (admin only)
+app.get("/audit", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const validation = validateAuditQuery(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const query: AuditQuery = validation.data;
+    const entries: AuditEntry[] = await storage.audit.query({
+      actorId: query.userId,
+      patientId: query.patientId,
+      action: query.action,
+      from: query.from,
+      to: query.to,
+      beforeId: query.before,
+      limit: query.limit,
+    });
+    return res.json(entries);
+  } catch (error: any) {
+    console.error("[GET /audit] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Mail kept by the default "outbox" transport (admin only)
+app.get("/mail/outbox", authMiddleware({ roles: [Role.admin] }), async (req: Request, res: Response) => {
+  try {
+    const validation = validateOutboxQuery(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const query: OutboxQuery = validation.data;
+    const messages: OutboxMessage[] = await storage.outbox.getMessages(query.limit);
+    return res.json(messages);
+  } catch (error: any) {
+    console.error("[GET /mail/outbox] Error:", error);
+    return res.status(500).json({ message: error.message || "Internal server error" });
+  }
+});
+
+// Report Endpoints (admin only)
+
+// Shared handling for reports: validates the query and the date range, then
+// responds with JSON or, for ?format=csv, a CSV download
+const reportHandler = <T extends object>(
+  name: string,
+  columns: Array<keyof T>,
+  load: (range: ReportRange, queueId: number | null) => Promise<T[]>
+) =>
+  async (req: Request, res: Response) => {
+    try {
+      const validation = validateReportQuery(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: validation.error.errors.map((e) => e.message).join(", "),
+        });
+      }
+
+      const query: ReportQuery = validation.data;
+      const range = resolveReportRange(query);
+      if (typeof range === "string") {
+        return res.status(400).json({ message: range });
+      }
+
+      const rows = await load(range, query.queueId ?? null);
+
+      if (query.format === ReportFormat.csv) {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${name}-${range.from}-${range.to}.csv"`
+        );
+        return res.send(toCsv(rows, columns));
+      }
+      return res.json({
+        from: range.from,
+        to: range.to,
+        queueId: query.queueId ?? null,
+        rows,
+      });
+    } catch (error: any) {
+      console.error(`[GET /reports/${name}] Error:`, error);
+      return res.status(500).json({ message: error.message || "Internal server error" });
+    }
+  };
+
+const VOLUME_REPORT_COLUMNS: Array<keyof VolumeReportRow> = [
+  "period",
+  "registered",
+  "visited",
+  "emergencies",
+  "noShows",
+  "emergencyShare",
+  "noShowRate",
+  "averageWaitMinutes",
+  "p90WaitMinutes",
+];
+
+app.get(
+  "/reports/daily",
+  authMiddleware({ roles: [Role.admin] }),
+  reportHandler("daily", VOLUME_REPORT_COLUMNS, (range, queueId) =>
+    storage.reports.getVolumeReport(range, "day", queueId)
+  )
+);
+
+app.get(
+  "/reports/weekly",
+  authMiddleware({ roles: [Role.admin] }),
+  reportHandler("weekly", VOLUME_REPORT_COLUMNS, (range, queueId) =>
+    storage.reports.getVolumeReport(range, "week", queueId)
+  )
+);
+
+app.get(
+  "/reports/hourly",
+  authMiddleware({ roles: [Role.admin] }),
+  reportHandler<HourlyReportRow>(
+    "hourly",
+    ["hour", "arrivals", "averagePerDay"],
+    storage.reports.getHourlyReport
+  )
+);
+
+app.get(
+  "/reports/staff",
+  authMiddleware({ roles: [Role.admin] }),
+  reportHandler<StaffReportRow>(
+    "staff",
+    ["userId", "name", "email", "called", "visited", "averageConsultationMinutes"],
+    storage.reports.getStaffReport
+  )
+);
+
+// Closed-out days; queueId does not apply, summaries are clinic-wide
+app.get(
+  "/reports/daily-summaries",
+  authMiddleware({ roles: [Role.admin] }),
+  reportHandler<DailySummary>(
+    "daily-summaries",
+    [
+      "date",
+      "totalVisited",
+      "totalNoShow",
+      "totalCancelled",
+      "totalLeftWithoutBeingSeen",
+      "totalInConsultation",
+      "totalWaiting",
+      "totalCalled",
+      "totalEmergency",
+      "markedUnserved",
+      "archived",
+      "closedBy",
+      "closedAt",
+    ],
+    (range) => storage.closeOuts.getDailySummaries(range)
+  )
+);
+
+// API documentation. Built on first request, once every route is registered.
+let openApiDocument: object | null = null;
+
+app.get("/openapi.json", (_req: Request, res: Response) => {
+  openApiDocument = openApiDocument || buildOpenApiDocument(app);
+  res.json(openApiDocument);
+});
+
+app.get("/docs", (_req: Request, res: Response) => {
+  res.type("html").send(renderDocsPage("/openapi.json", "/docs"));
+});
+app.use("/docs", express.static(swaggerUiDist.getAbsoluteFSPath(), { index: false }));
+
+// Error handlers
+app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+  console.error("Unhandled error:", err);
+  res.status(500).json({ message: err.message || "Internal server error" });
+});
+
+// Start server. Under Jest (NODE_ENV=test) the tests import the app and
+// initialize the storage themselves.
+const PORT = process.env.PORT || 8000;
+
+if (process.env.NODE_ENV !== "test") {
+  initializeDatabase().then(() => {
+    app.listen(PORT, () => {
+      console.log(`🚀 Server running on http://localhost:${PORT}`);
+    });
+  });
+}
+
 export default app;
 
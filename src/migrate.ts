@@ -0,0 +1,247 @@
+/**
+ * Versioned schema migrations.
+ * Each migration in src/migrations has a version number and up/down steps.
+ * Applied versions are recorded in the schema_migrations table, and every
+ * migration runs in its own transaction.
+ *
+ * Usage (after `npm run build`):
+ *   npm run migrate -- up [version]   apply pending migrations
+ *   npm run migrate -- down [steps]   roll back the most recent migration(s)
+ *   npm run migrate -- status         list applied and pending migrations
+ */
+import { PoolClient } from "pg";
+import { getDbClient, getDbConnection } from "./db";
+import { migrations } from "./migrations";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(client: PoolClient): Promise<void>;
+  down(client: PoolClient): Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+// Thrown at startup when the database is behind the code
+export class SchemaOutOfDateError extends Error {
+  constructor(public pending: Migration[]) {
+    super(
+      `Database schema is out of date: ${pending.length} pending migration(s) ` +
+        `(${pending.map(migrationLabel).join(", ")})`
+    );
+    this.name = "SchemaOutOfDateError";
+  }
+}
+
+// Thrown at startup when the database has migrations this code does not know,
+// i.e. it was migrated by a newer release
+export class SchemaAheadOfCodeError extends Error {
+  constructor(public unknownVersions: number[]) {
+    super(
+      `Database schema is newer than this code: unknown applied migration(s) ` +
+        `${unknownVersions.join(", ")}`
+    );
+    this.name = "SchemaAheadOfCodeError";
+  }
+}
+
+// Serializes migration runs across processes
+const MIGRATION_LOCK = "schema_migrations";
+
+// Matches the migration's file name, e.g. "0001_initial_schema"
+function migrationLabel(m: { version: number; name: string }): string {
+  return `${String(m.version).padStart(4, "0")}_${m.name}`;
+}
+
+function sortedMigrations(): Migration[] {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].version === sorted[i - 1].version) {
+      throw new Error(`Duplicate migration version ${sorted[i].version}`);
+    }
+  }
+  return sorted;
+}
+
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      "appliedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+}
+
+async function getAppliedVersions(client: PoolClient): Promise<Map<number, Date>> {
+  await ensureMigrationsTable(client);
+  const result = await client.query(
+    `SELECT version, "appliedAt" FROM schema_migrations ORDER BY version`
+  );
+  return new Map(result.rows.map((r) => [r.version, r.appliedAt]));
+}
+
+async function withMigrationLock<T>(
+  fn: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  const client = await getDbClient();
+  try {
+    await client.query("SELECT pg_advisory_lock(hashtext($1))", [MIGRATION_LOCK]);
+    try {
+      return await fn(client);
+    } finally {
+      await client.query("SELECT pg_advisory_unlock(hashtext($1))", [
+        MIGRATION_LOCK,
+      ]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function runStep(
+  client: PoolClient,
+  migration: Migration,
+  direction: "up" | "down"
+): Promise<void> {
+  await client.query("BEGIN");
+  try {
+    await migration[direction](client);
+    if (direction === "up") {
+      await client.query(
+        "INSERT INTO schema_migrations (version, name) VALUES ($1, $2)",
+        [migration.version, migration.name]
+      );
+    } else {
+      await client.query("DELETE FROM schema_migrations WHERE version = $1", [
+        migration.version,
+      ]);
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw new Error(
+      `Migration ${migrationLabel(migration)} (${direction}) failed: ${error}`
+    );
+  }
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const client = await getDbClient();
+  try {
+    const applied = await getAppliedVersions(client);
+    return sortedMigrations().map((m) => {
+      const appliedAt = applied.get(m.version);
+      return {
+        version: m.version,
+        name: m.name,
+        appliedAt: appliedAt ? appliedAt.toISOString() : null,
+      };
+    });
+  } finally {
+    client.release();
+  }
+}
+
+// Apply pending migrations in order, up to and including targetVersion
+export async function migrateUp(targetVersion?: number): Promise<Migration[]> {
+  return withMigrationLock(async (client) => {
+    const applied = await getAppliedVersions(client);
+    const pending = sortedMigrations().filter(
+      (m) =>
+        !applied.has(m.version) &&
+        (targetVersion === undefined || m.version <= targetVersion)
+    );
+    for (const migration of pending) {
+      console.log(`[MIGRATE] Applying ${migrationLabel(migration)}`);
+      await runStep(client, migration, "up");
+    }
+    return pending;
+  });
+}
+
+// Roll back the most recently applied migrations
+export async function migrateDown(steps: number = 1): Promise<Migration[]> {
+  return withMigrationLock(async (client) => {
+    const applied = await getAppliedVersions(client);
+    const byVersion = new Map(sortedMigrations().map((m) => [m.version, m]));
+    const versions = [...applied.keys()].sort((a, b) => b - a).slice(0, steps);
+
+    const rolledBack: Migration[] = [];
+    for (const version of versions) {
+      const migration = byVersion.get(version);
+      if (!migration) {
+        throw new Error(`Applied migration ${version} has no migration file`);
+      }
+      console.log(`[MIGRATE] Rolling back ${migrationLabel(migration)}`);
+      await runStep(client, migration, "down");
+      rolledBack.push(migration);
+    }
+    return rolledBack;
+  });
+}
+
+export async function assertSchemaUpToDate(): Promise<void> {
+  const client = await getDbClient();
+  try {
+    const applied = await getAppliedVersions(client);
+    const known = new Set(sortedMigrations().map((m) => m.version));
+    const unknownVersions = [...applied.keys()].filter((version) => !known.has(version));
+    if (unknownVersions.length > 0) {
+      throw new SchemaAheadOfCodeError(unknownVersions);
+    }
+    const pending = sortedMigrations().filter((m) => !applied.has(m.version));
+    if (pending.length > 0) {
+      throw new SchemaOutOfDateError(pending);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+function parsePositiveInt(value: string | undefined, label: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive integer`);
+  }
+  return parsed;
+}
+
+async function main(args: string[]): Promise<void> {
+  const [command, arg] = args;
+
+  if (command === "up") {
+    const applied = await migrateUp(parsePositiveInt(arg, "version"));
+    console.log(
+      applied.length > 0
+        ? `[MIGRATE] Applied ${applied.length} migration(s)`
+        : "[MIGRATE] Schema is up to date"
+    );
+  } else if (command === "down") {
+    const rolledBack = await migrateDown(parsePositiveInt(arg, "steps") ?? 1);
+    console.log(`[MIGRATE] Rolled back ${rolledBack.length} migration(s)`);
+  } else if (command === "status") {
+    for (const m of await getMigrationStatus()) {
+      const state = m.appliedAt ? `applied ${m.appliedAt}` : "pending";
+      console.log(`${migrationLabel(m)}  ${state}`);
+    }
+  } else {
+    throw new Error("Usage: migrate <up [version] | down [steps] | status>");
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2))
+    .catch((error) => {
+      console.error(`❌ ${error instanceof Error ? error.message : error}`);
+      process.exitCode = 1;
+    })
+    .finally(() => getDbConnection().end());
+}
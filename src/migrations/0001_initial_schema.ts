@@ -0,0 +1,130 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// Baseline: the schema previously created by initDb. Every statement is
+// idempotent so databases created before migrations existed can adopt it.
+export const migration: Migration = {
+  version: 1,
+  name: "initial_schema",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS users (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        email VARCHAR(255) NOT NULL UNIQUE,
+        password VARCHAR(255) NOT NULL,
+        role VARCHAR(50) NOT NULL DEFAULT 'user',
+        disabled BOOLEAN NOT NULL DEFAULT FALSE
+      )
+    `);
+    await client.query(`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS disabled BOOLEAN NOT NULL DEFAULT FALSE
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS queues (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL UNIQUE,
+        type VARCHAR(50) NOT NULL DEFAULT 'department',
+        description TEXT,
+        active BOOLEAN NOT NULL DEFAULT TRUE
+      )
+    `);
+    await client.query(`
+      INSERT INTO queues (name, type)
+      SELECT 'General', 'department'
+      WHERE NOT EXISTS (SELECT 1 FROM queues)
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS patients (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        problem TEXT NOT NULL,
+        priority VARCHAR(50) NOT NULL,
+        "arrivalTime" VARCHAR(255) NOT NULL,
+        status VARCHAR(50) NOT NULL
+      )
+    `);
+    await client.query(`
+      ALTER TABLE patients
+        ADD COLUMN IF NOT EXISTS "queueId" INTEGER REFERENCES queues(id),
+        ADD COLUMN IF NOT EXISTS "ticketNumber" VARCHAR(20),
+        ADD COLUMN IF NOT EXISTS "ticketSecret" VARCHAR(255),
+        ADD COLUMN IF NOT EXISTS "claimedBy" INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS "claimedAt" TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS "seenAt" TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS "visitedAt" TIMESTAMPTZ
+    `);
+    await client.query(`
+      UPDATE patients SET "queueId" = (SELECT MIN(id) FROM queues)
+      WHERE "queueId" IS NULL
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS patients_ticket_number_idx ON patients ("ticketNumber")
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ticket_counters (
+        day DATE NOT NULL,
+        prefix VARCHAR(10) NOT NULL,
+        "lastNumber" INTEGER NOT NULL,
+        PRIMARY KEY (day, prefix)
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS patient_status_history (
+        id SERIAL PRIMARY KEY,
+        "patientId" INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+        "fromStatus" VARCHAR(50),
+        "toStatus" VARCHAR(50) NOT NULL,
+        "changedBy" INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        "changedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await client.query(`
+      UPDATE patients p SET
+        "visitedAt" = (
+          SELECT MIN(h."changedAt") FROM patient_status_history h
+          WHERE h."patientId" = p.id AND h."toStatus" = 'Visited'
+        ),
+        "seenAt" = (
+          SELECT MIN(h."changedAt") FROM patient_status_history h
+          WHERE h."patientId" = p.id AND h."toStatus" IN ('InConsultation', 'Visited')
+        )
+      WHERE p.status = 'Visited' AND p."visitedAt" IS NULL
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS queue_events (
+        id BIGSERIAL PRIMARY KEY,
+        type VARCHAR(50) NOT NULL,
+        data JSONB NOT NULL,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+  },
+
+  // Drops every table, so it only runs once all later migrations are rolled back
+  async down(client: PoolClient): Promise<void> {
+    const later = await client.query(
+      "SELECT version FROM schema_migrations WHERE version > 1 ORDER BY version"
+    );
+    if (later.rows.length > 0) {
+      throw new Error(
+        `later migrations are still applied (${later.rows.map((r) => r.version).join(", ")})`
+      );
+    }
+    await client.query(`
+      DROP TABLE IF EXISTS
+        queue_events,
+        patient_status_history,
+        ticket_counters,
+        patients,
+        queues,
+        users
+    `);
+  },
+};
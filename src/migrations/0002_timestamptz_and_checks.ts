@@ -0,0 +1,39 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// Store arrival times as real timestamps and reject unknown priorities and
+// statuses at the database level
+export const migration: Migration = {
+  version: 2,
+  name: "timestamptz_and_checks",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      ALTER TABLE patients
+        ALTER COLUMN "arrivalTime" TYPE TIMESTAMPTZ USING "arrivalTime"::timestamptz
+    `);
+    await client.query(`
+      ALTER TABLE patients
+        ADD CONSTRAINT patients_priority_check
+          CHECK (priority IN ('Normal', 'Emergency')),
+        ADD CONSTRAINT patients_status_check
+          CHECK (status IN (
+            'Waiting', 'Called', 'InConsultation', 'Visited',
+            'NoShow', 'Cancelled', 'LeftWithoutBeingSeen'
+          ))
+    `);
+  },
+
+  async down(client: PoolClient): Promise<void> {
+    await client.query(`
+      ALTER TABLE patients
+        DROP CONSTRAINT IF EXISTS patients_status_check,
+        DROP CONSTRAINT IF EXISTS patients_priority_check
+    `);
+    await client.query(`
+      ALTER TABLE patients
+        ALTER COLUMN "arrivalTime" TYPE VARCHAR(255)
+        USING to_char("arrivalTime" AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"')
+    `);
+  },
+};
@@ -0,0 +1,30 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// Server-side login sessions holding the current refresh token hash
+export const migration: Migration = {
+  version: 3,
+  name: "sessions",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE sessions (
+        id SERIAL PRIMARY KEY,
+        "userId" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "refreshTokenHash" VARCHAR(64) NOT NULL,
+        "deviceName" VARCHAR(100),
+        "userAgent" TEXT,
+        "ipAddress" VARCHAR(64),
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "lastUsedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "expiresAt" TIMESTAMPTZ NOT NULL,
+        "revokedAt" TIMESTAMPTZ
+      )
+    `);
+    await client.query(`CREATE INDEX sessions_user_id_idx ON sessions ("userId")`);
+  },
+
+  async down(client: PoolClient): Promise<void> {
+    await client.query("DROP TABLE IF EXISTS sessions");
+  },
+};
@@ -0,0 +1,42 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// Forced password changes, single-use password reset tokens, and the local
+// mail outbox used when no other mail transport is configured
+export const migration: Migration = {
+  version: 4,
+  name: "password_reset_and_outbox",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      ALTER TABLE users
+        ADD COLUMN "mustChangePassword" BOOLEAN NOT NULL DEFAULT FALSE
+    `);
+    await client.query(`
+      CREATE TABLE password_reset_tokens (
+        id SERIAL PRIMARY KEY,
+        "userId" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "tokenHash" VARCHAR(64) NOT NULL UNIQUE,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "expiresAt" TIMESTAMPTZ NOT NULL,
+        "usedAt" TIMESTAMPTZ
+      )
+    `);
+    await client.query(`
+      CREATE TABLE mail_outbox (
+        id SERIAL PRIMARY KEY,
+        "from" VARCHAR(255) NOT NULL,
+        "to" VARCHAR(255) NOT NULL,
+        subject VARCHAR(255) NOT NULL,
+        text TEXT NOT NULL,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+  },
+
+  async down(client: PoolClient): Promise<void> {
+    await client.query("DROP TABLE IF EXISTS mail_outbox");
+    await client.query("DROP TABLE IF EXISTS password_reset_tokens");
+    await client.query(`ALTER TABLE users DROP COLUMN IF EXISTS "mustChangePassword"`);
+  },
+};
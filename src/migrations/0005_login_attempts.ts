@@ -0,0 +1,39 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// Failed login tracking per account and per IP, and a record of lockouts
+export const migration: Migration = {
+  version: 5,
+  name: "login_attempts",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE login_attempts (
+        scope VARCHAR(16) NOT NULL,
+        key VARCHAR(255) NOT NULL,
+        failures INTEGER NOT NULL,
+        "lastFailureAt" TIMESTAMPTZ NOT NULL,
+        "lockedUntil" TIMESTAMPTZ,
+        PRIMARY KEY (scope, key)
+      )
+    `);
+    await client.query(`
+      CREATE TABLE lockout_events (
+        id SERIAL PRIMARY KEY,
+        scope VARCHAR(16) NOT NULL,
+        key VARCHAR(255) NOT NULL,
+        "userId" INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        failures INTEGER NOT NULL,
+        "lockedUntil" TIMESTAMPTZ NOT NULL,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "unlockedAt" TIMESTAMPTZ,
+        "unlockedBy" INTEGER REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+  },
+
+  async down(client: PoolClient): Promise<void> {
+    await client.query("DROP TABLE IF EXISTS lockout_events");
+    await client.query("DROP TABLE IF EXISTS login_attempts");
+  },
+};
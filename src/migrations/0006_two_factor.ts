@@ -0,0 +1,44 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// TOTP secrets and recovery codes, and a key/value table for settings admins
+// change at runtime (such as requiring 2FA for admins)
+export const migration: Migration = {
+  version: 6,
+  name: "two_factor",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE user_two_factor (
+        "userId" INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        secret VARCHAR(64) NOT NULL,
+        "enabledAt" TIMESTAMPTZ,
+        "lastUsedStep" BIGINT,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await client.query(`
+      CREATE TABLE recovery_codes (
+        id SERIAL PRIMARY KEY,
+        "userId" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "codeHash" VARCHAR(64) NOT NULL,
+        "usedAt" TIMESTAMPTZ,
+        UNIQUE ("userId", "codeHash")
+      )
+    `);
+    await client.query(`
+      CREATE TABLE settings (
+        key VARCHAR(64) PRIMARY KEY,
+        value JSONB NOT NULL,
+        "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "updatedBy" INTEGER REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+  },
+
+  async down(client: PoolClient): Promise<void> {
+    await client.query("DROP TABLE IF EXISTS settings");
+    await client.query("DROP TABLE IF EXISTS recovery_codes");
+    await client.query("DROP TABLE IF EXISTS user_two_factor");
+  },
+};
@@ -0,0 +1,50 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// Append-only audit log. Actors and targets are not foreign keys so entries
+// outlive the users and patients they mention, and a trigger refuses any
+// UPDATE or DELETE.
+export const migration: Migration = {
+  version: 7,
+  name: "audit_log",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE audit_log (
+        id BIGSERIAL PRIMARY KEY,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "actorId" INTEGER,
+        "actorEmail" VARCHAR(255),
+        action VARCHAR(64) NOT NULL,
+        "targetType" VARCHAR(32) NOT NULL,
+        "targetId" INTEGER,
+        before JSONB,
+        after JSONB,
+        "ipAddress" VARCHAR(64),
+        "requestId" VARCHAR(128)
+      )
+    `);
+    await client.query(`CREATE INDEX audit_log_created_idx ON audit_log ("createdAt")`);
+    await client.query(`CREATE INDEX audit_log_actor_idx ON audit_log ("actorId", id)`);
+    await client.query(
+      `CREATE INDEX audit_log_target_idx ON audit_log ("targetType", "targetId", id)`
+    );
+    await client.query(`
+      CREATE FUNCTION audit_log_append_only() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'audit_log is append-only';
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await client.query(`
+      CREATE TRIGGER audit_log_append_only
+      BEFORE UPDATE OR DELETE ON audit_log
+      FOR EACH ROW EXECUTE FUNCTION audit_log_append_only()
+    `);
+  },
+
+  async down(client: PoolClient): Promise<void> {
+    await client.query("DROP TABLE IF EXISTS audit_log");
+    await client.query("DROP FUNCTION IF EXISTS audit_log_append_only()");
+  },
+};
@@ -0,0 +1,41 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// Indexes for GET /patients/history: keyset pages by arrival time or name,
+// the common filters, and trigram indexes so substring search over names and
+// problems does not scan the whole table. pg_trgm ships with PostgreSQL but
+// creating the extension needs the CREATE privilege on the database.
+export const migration: Migration = {
+  version: 8,
+  name: "patient_search_indexes",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    await client.query(`CREATE INDEX patients_arrival_idx ON patients ("arrivalTime", id)`);
+    await client.query(
+      `CREATE INDEX patients_name_sort_idx ON patients ((LOWER(name) COLLATE "C"), id)`
+    );
+    await client.query(
+      `CREATE INDEX patients_status_arrival_idx ON patients (status, "arrivalTime", id)`
+    );
+    await client.query(
+      `CREATE INDEX patients_queue_arrival_idx ON patients ("queueId", "arrivalTime", id)`
+    );
+    await client.query(
+      `CREATE INDEX patients_name_trgm_idx ON patients USING GIN (name gin_trgm_ops)`
+    );
+    await client.query(
+      `CREATE INDEX patients_problem_trgm_idx ON patients USING GIN (problem gin_trgm_ops)`
+    );
+  },
+
+  // The extension is left installed; other schemas may rely on it
+  async down(client: PoolClient): Promise<void> {
+    await client.query(`DROP INDEX IF EXISTS patients_problem_trgm_idx`);
+    await client.query(`DROP INDEX IF EXISTS patients_name_trgm_idx`);
+    await client.query(`DROP INDEX IF EXISTS patients_queue_arrival_idx`);
+    await client.query(`DROP INDEX IF EXISTS patients_status_arrival_idx`);
+    await client.query(`DROP INDEX IF EXISTS patients_name_sort_idx`);
+    await client.query(`DROP INDEX IF EXISTS patients_arrival_idx`);
+  },
+};
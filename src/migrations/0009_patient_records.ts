@@ -0,0 +1,43 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// Patient registry: one record per person, with each queue entry in
+// "patients" optionally linked to it. National IDs are unique when given.
+export const migration: Migration = {
+  version: 9,
+  name: "patient_records",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE patient_records (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        "dateOfBirth" DATE NOT NULL,
+        phone VARCHAR(32) NOT NULL,
+        "nationalId" VARCHAR(50),
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await client.query(`
+      CREATE UNIQUE INDEX patient_records_national_id_idx ON patient_records ("nationalId")
+      WHERE "nationalId" IS NOT NULL
+    `);
+    await client.query(`CREATE INDEX patient_records_phone_idx ON patient_records (phone)`);
+    await client.query(
+      `CREATE INDEX patient_records_name_trgm_idx ON patient_records USING GIN (name gin_trgm_ops)`
+    );
+    await client.query(`
+      ALTER TABLE patients
+        ADD COLUMN "recordId" INTEGER REFERENCES patient_records(id) ON DELETE SET NULL
+    `);
+    await client.query(
+      `CREATE INDEX patients_record_idx ON patients ("recordId", "arrivalTime")`
+    );
+  },
+
+  async down(client: PoolClient): Promise<void> {
+    await client.query(`ALTER TABLE patients DROP COLUMN IF EXISTS "recordId"`);
+    await client.query("DROP TABLE IF EXISTS patient_records");
+  },
+};
@@ -0,0 +1,38 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// Five-level triage. The old Normal/Emergency priorities stay valid for
+// existing rows and clients.
+export const migration: Migration = {
+  version: 10,
+  name: "triage_levels",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      ALTER TABLE patients
+        DROP CONSTRAINT patients_priority_check,
+        ADD CONSTRAINT patients_priority_check
+          CHECK (priority IN (
+            'Resuscitation', 'Emergent', 'Urgent', 'LessUrgent', 'NonUrgent',
+            'Emergency', 'Normal'
+          ))
+    `);
+  },
+
+  // Levels 1-2 fold back into Emergency and 3-5 into Normal
+  async down(client: PoolClient): Promise<void> {
+    await client.query(`
+      UPDATE patients SET priority = CASE
+        WHEN priority IN ('Resuscitation', 'Emergent') THEN 'Emergency'
+        ELSE 'Normal'
+      END
+      WHERE priority NOT IN ('Emergency', 'Normal')
+    `);
+    await client.query(`
+      ALTER TABLE patients
+        DROP CONSTRAINT patients_priority_check,
+        ADD CONSTRAINT patients_priority_check
+          CHECK (priority IN ('Normal', 'Emergency'))
+    `);
+  },
+};
@@ -0,0 +1,25 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// The priority rule that matched each patient at registration. The rules
+// themselves are kept in settings.
+export const migration: Migration = {
+  version: 11,
+  name: "priority_rules",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      ALTER TABLE patients
+        ADD COLUMN "priorityRule" VARCHAR(100),
+        ADD COLUMN "suggestedPriority" VARCHAR(20)
+    `);
+  },
+
+  async down(client: PoolClient): Promise<void> {
+    await client.query(`
+      ALTER TABLE patients
+        DROP COLUMN IF EXISTS "suggestedPriority",
+        DROP COLUMN IF EXISTS "priorityRule"
+    `);
+  },
+};
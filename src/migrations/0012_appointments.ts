@@ -0,0 +1,43 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// Appointments booked for a registry record in a queue. Checking in creates
+// the patient's queue entry, linked through "patientId".
+export const migration: Migration = {
+  version: 12,
+  name: "appointments",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE appointments (
+        id SERIAL PRIMARY KEY,
+        "recordId" INTEGER NOT NULL REFERENCES patient_records(id) ON DELETE CASCADE,
+        "queueId" INTEGER NOT NULL REFERENCES queues(id),
+        "startTime" TIMESTAMPTZ NOT NULL,
+        "durationMinutes" INTEGER NOT NULL CHECK ("durationMinutes" > 0),
+        reason TEXT NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'Booked'
+          CHECK (status IN ('Booked', 'CheckedIn', 'Cancelled', 'NoShow')),
+        "patientId" INTEGER REFERENCES patients(id) ON DELETE SET NULL,
+        "createdBy" INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "checkedInAt" TIMESTAMPTZ
+      )
+    `);
+    await client.query(
+      `CREATE INDEX appointments_queue_start_idx ON appointments ("queueId", "startTime")`
+    );
+    await client.query(
+      `CREATE INDEX appointments_record_start_idx ON appointments ("recordId", "startTime")`
+    );
+    // The no-show sweep only looks at booked appointments
+    await client.query(`
+      CREATE INDEX appointments_booked_start_idx ON appointments ("startTime")
+      WHERE status = 'Booked'
+    `);
+  },
+
+  async down(client: PoolClient): Promise<void> {
+    await client.query("DROP TABLE IF EXISTS appointments");
+  },
+};
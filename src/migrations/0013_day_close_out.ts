@@ -0,0 +1,66 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// End-of-day close-out. Finished visits of closed-out days move from patients
+// to patient_archive, which has the same columns in the same order; a later
+// migration that changes patients has to change the archive the same way.
+// Status history and appointments keep pointing at archived ids, so their
+// foreign keys to patients go. daily_summaries holds one row per closed day.
+export const migration: Migration = {
+  version: 13,
+  name: "day_close_out",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE patient_archive (
+        LIKE patients INCLUDING DEFAULTS INCLUDING CONSTRAINTS INCLUDING INDEXES
+      )
+    `);
+    await client.query(`
+      ALTER TABLE patient_archive
+        ADD FOREIGN KEY ("queueId") REFERENCES queues(id),
+        ADD FOREIGN KEY ("claimedBy") REFERENCES users(id) ON DELETE SET NULL,
+        ADD FOREIGN KEY ("recordId") REFERENCES patient_records(id) ON DELETE SET NULL
+    `);
+    await client.query(`
+      ALTER TABLE patient_status_history
+        DROP CONSTRAINT "patient_status_history_patientId_fkey"
+    `);
+    await client.query(`ALTER TABLE appointments DROP CONSTRAINT "appointments_patientId_fkey"`);
+
+    await client.query(`
+      CREATE TABLE daily_summaries (
+        day DATE PRIMARY KEY,
+        "totalWaiting" INTEGER NOT NULL,
+        "totalEmergency" INTEGER NOT NULL,
+        "totalVisited" INTEGER NOT NULL,
+        "totalCalled" INTEGER NOT NULL,
+        "totalInConsultation" INTEGER NOT NULL,
+        "totalNoShow" INTEGER NOT NULL,
+        "totalCancelled" INTEGER NOT NULL,
+        "totalLeftWithoutBeingSeen" INTEGER NOT NULL,
+        "markedUnserved" INTEGER NOT NULL,
+        archived INTEGER NOT NULL,
+        "closedBy" INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        "closedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+  },
+
+  // Archived visits go back into patients; restarted ticket counters stay
+  async down(client: PoolClient): Promise<void> {
+    await client.query("DROP TABLE IF EXISTS daily_summaries");
+    await client.query("INSERT INTO patients SELECT * FROM patient_archive");
+    await client.query("DROP TABLE IF EXISTS patient_archive");
+    await client.query(`
+      ALTER TABLE appointments
+        ADD CONSTRAINT "appointments_patientId_fkey"
+        FOREIGN KEY ("patientId") REFERENCES patients(id) ON DELETE SET NULL
+    `);
+    await client.query(`
+      ALTER TABLE patient_status_history
+        ADD CONSTRAINT "patient_status_history_patientId_fkey"
+        FOREIGN KEY ("patientId") REFERENCES patients(id) ON DELETE CASCADE
+    `);
+  },
+};
@@ -0,0 +1,21 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// The append-only trigger of 0007_audit_log fires per row, which TRUNCATE
+// skips; a statement-level trigger refuses TRUNCATE as well
+export const migration: Migration = {
+  version: 14,
+  name: "audit_log_no_truncate",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TRIGGER audit_log_no_truncate
+      BEFORE TRUNCATE ON audit_log
+      FOR EACH STATEMENT EXECUTE FUNCTION audit_log_append_only()
+    `);
+  },
+
+  async down(client: PoolClient): Promise<void> {
+    await client.query("DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log");
+  },
+};
@@ -0,0 +1,20 @@
+import { PoolClient } from "pg";
+import { Migration } from "../migrate";
+
+// National IDs are stored trimmed and upper-cased, so the unique index treats
+// "ab123" and "AB123" as the same ID. Existing IDs that only differ in case
+// or spacing make this migration fail; merge those records first.
+export const migration: Migration = {
+  version: 15,
+  name: "national_id_case",
+
+  async up(client: PoolClient): Promise<void> {
+    await client.query(`
+      UPDATE patient_records SET "nationalId" = UPPER(TRIM("nationalId"))
+      WHERE "nationalId" <> UPPER(TRIM("nationalId"))
+    `);
+  },
+
+  // The original spelling is not kept, so there is nothing to undo
+  async down(): Promise<void> {},
+};
@@ -0,0 +1,35 @@
+import { Migration } from "../migrate";
+import { migration as initialSchema } from "./0001_initial_schema";
+import { migration as timestamptzAndChecks } from "./0002_timestamptz_and_checks";
+import { migration as sessions } from "./0003_sessions";
+import { migration as passwordResetAndOutbox } from "./0004_password_reset_and_outbox";
+import { migration as loginAttempts } from "./0005_login_attempts";
+import { migration as twoFactor } from "./0006_two_factor";
+import { migration as auditLog } from "./0007_audit_log";
+import { migration as patientSearchIndexes } from "./0008_patient_search_indexes";
+import { migration as patientRecords } from "./0009_patient_records";
+import { migration as triageLevels } from "./0010_triage_levels";
+import { migration as priorityRules } from "./0011_priority_rules";
+import { migration as appointments } from "./0012_appointments";
+import { migration as dayCloseOut } from "./0013_day_close_out";
+import { migration as auditLogNoTruncate } from "./0014_audit_log_no_truncate";
+import { migration as nationalIdCase } from "./0015_national_id_case";
+
+// Every migration, in version order. New migrations are added at the end.
+export const migrations: Migration[] = [
+  initialSchema,
+  timestamptzAndChecks,
+  sessions,
+  passwordResetAndOutbox,
+  loginAttempts,
+  twoFactor,
+  auditLog,
+  patientSearchIndexes,
+  patientRecords,
+  triageLevels,
+  priorityRules,
+  appointments,
+  dayCloseOut,
+  auditLogNoTruncate,
+  nationalIdCase,
+];
@@ -0,0 +1,1163 @@
+/**
+ * OpenAPI 3.1 document for the API, served at /openapi.json and rendered at
+ * /docs. Paths come from the routes registered on the Express app; payload
+ * schemas are generated from the zod schemas in classes.ts, so the document
+ * follows the validation the handlers actually perform.
+ */
+import { Application } from "express";
+import { z } from "zod";
+import { zodToJsonSchema, Options } from "zod-to-json-schema";
+import {
+  patientInSchema,
+  patientSchema,
+  registeredPatientSchema,
+  patientStatusUpdateSchema,
+  patientTransferSchema,
+  patientUpdateSchema,
+  queueNextRequestSchema,
+  queueInSchema,
+  queueUpdateSchema,
+  queueSchema,
+  displayBoardSchema,
+  ticketLookupRequestSchema,
+  ticketStatusSchema,
+  reportQuerySchema,
+  volumeReportRowSchema,
+  hourlyReportRowSchema,
+  staffReportRowSchema,
+  patientStatusChangeSchema,
+  patientStatsSchema,
+  signupRequestSchema,
+  loginRequestSchema,
+  refreshTokenRequestSchema,
+  changePasswordRequestSchema,
+  forgotPasswordRequestSchema,
+  resetPasswordRequestSchema,
+  userResponseSchema,
+  managedUserSchema,
+  updateUserRoleRequestSchema,
+  authResponseSchema,
+  sessionSchema,
+  messageResponseSchema,
+  outboxQuerySchema,
+  outboxMessageSchema,
+  lockoutQuerySchema,
+  lockoutEventSchema,
+  auditQuerySchema,
+  patientHistoryQuerySchema,
+  patientHistoryPageSchema,
+  patientRecordInSchema,
+  patientRecordUpdateSchema,
+  patientRecordSchema,
+  patientRecordDetailSchema,
+  patientRecordQuerySchema,
+  patientRecordVisitInSchema,
+  appointmentInSchema,
+  appointmentSchema,
+  appointmentQuerySchema,
+  appointmentCheckInSchema,
+  appointmentCheckInResultSchema,
+  todayScheduleSchema,
+  auditEntrySchema,
+  loginTwoFactorRequestSchema,
+  twoFactorCodeRequestSchema,
+  passwordConfirmationRequestSchema,
+  twoFactorPolicySchema,
+  triagePolicySchema,
+  clinicScheduleSchema,
+  clinicStatusSchema,
+  queueCloseRequestSchema,
+  closeOutRequestSchema,
+  dailySummarySchema,
+  priorityRuleSetSchema,
+  priorityRuleDryRunSchema,
+  priorityRuleResultSchema,
+  loginChallengeSchema,
+  twoFactorStatusSchema,
+  twoFactorSetupSchema,
+  recoveryCodesSchema,
+  PatientStatus,
+  Role,
+} from "./classes";
+import { JWT_COOKIE_NAME, REFRESH_COOKIE_NAME } from "./auth";
+
+type JsonSchema = Record<string, unknown>;
+
+// Named schemas, published under #/components/schemas
+const COMPONENT_SCHEMAS = {
+  PatientIn: patientInSchema,
+  Patient: patientSchema,
+  RegisteredPatient: registeredPatientSchema,
+  PatientStatusUpdate: patientStatusUpdateSchema,
+  PatientTransfer: patientTransferSchema,
+  PatientUpdate: patientUpdateSchema,
+  PatientHistoryPage: patientHistoryPageSchema,
+  PatientRecordIn: patientRecordInSchema,
+  PatientRecordUpdate: patientRecordUpdateSchema,
+  PatientRecord: patientRecordSchema,
+  PatientRecordDetail: patientRecordDetailSchema,
+  PatientRecordVisitIn: patientRecordVisitInSchema,
+  AppointmentIn: appointmentInSchema,
+  Appointment: appointmentSchema,
+  AppointmentCheckIn: appointmentCheckInSchema,
+  AppointmentCheckInResult: appointmentCheckInResultSchema,
+  TodaySchedule: todayScheduleSchema,
+  PatientStatusChange: patientStatusChangeSchema,
+  PatientStats: patientStatsSchema,
+  QueueNextRequest: queueNextRequestSchema,
+  QueueIn: queueInSchema,
+  QueueUpdate: queueUpdateSchema,
+  Queue: queueSchema,
+  DisplayBoard: displayBoardSchema,
+  TicketLookupRequest: ticketLookupRequestSchema,
+  TicketStatus: ticketStatusSchema,
+  VolumeReportRow: volumeReportRowSchema,
+  HourlyReportRow: hourlyReportRowSchema,
+  StaffReportRow: staffReportRowSchema,
+  SignupRequest: signupRequestSchema,
+  LoginRequest: loginRequestSchema,
+  RefreshTokenRequest: refreshTokenRequestSchema,
+  ChangePasswordRequest: changePasswordRequestSchema,
+  ForgotPasswordRequest: forgotPasswordRequestSchema,
+  ResetPasswordRequest: resetPasswordRequestSchema,
+  LoginTwoFactorRequest: loginTwoFactorRequestSchema,
+  TwoFactorCodeRequest: twoFactorCodeRequestSchema,
+  PasswordConfirmationRequest: passwordConfirmationRequestSchema,
+  TwoFactorPolicy: twoFactorPolicySchema,
+  TriagePolicy: triagePolicySchema,
+  ClinicSchedule: clinicScheduleSchema,
+  ClinicStatus: clinicStatusSchema,
+  QueueCloseRequest: queueCloseRequestSchema,
+  CloseOutRequest: closeOutRequestSchema,
+  DailySummary: dailySummarySchema,
+  PriorityRuleSet: priorityRuleSetSchema,
+  PriorityRuleDryRun: priorityRuleDryRunSchema,
+  PriorityRuleResult: priorityRuleResultSchema,
+  UserResponse: userResponseSchema,
+  ManagedUser: managedUserSchema,
+  UpdateUserRoleRequest: updateUserRoleRequestSchema,
+  AuthResponse: authResponseSchema,
+  LoginChallenge: loginChallengeSchema,
+  TwoFactorStatus: twoFactorStatusSchema,
+  TwoFactorSetup: twoFactorSetupSchema,
+  RecoveryCodes: recoveryCodesSchema,
+  Session: sessionSchema,
+  MessageResponse: messageResponseSchema,
+  OutboxMessage: outboxMessageSchema,
+  LockoutEvent: lockoutEventSchema,
+  AuditEntry: auditEntrySchema,
+};
+
+type ComponentName = keyof typeof COMPONENT_SCHEMAS;
+
+interface ResponseDoc {
+  description: string;
+  // A component name, or an inline JSON schema
+  schema?: ComponentName | JsonSchema;
+  contentType?: string;
+  headers?: Record<string, unknown>;
+}
+
+interface RouteDoc {
+  summary: string;
+  description?: string;
+  tag: string;
+  // true: any signed-in user; a list: only users holding one of these roles
+  auth?: boolean | Role[];
+  query?: z.AnyZodObject;
+  body?: ComponentName;
+  responses: Record<number, ResponseDoc>;
+  // Error statuses besides the ones implied by auth (401, 403) and 500
+  errors?: number[];
+}
+
+function ref(name: ComponentName): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function arrayOf(name: ComponentName): JsonSchema {
+  return { type: "array", items: ref(name) };
+}
+
+const JSON_SCHEMA_OPTIONS: Partial<Options> = {
+  $refStrategy: "none",
+  // Requests are documented as clients send them, before any transforms
+  effectStrategy: "input",
+  // Unknown keys are stripped, not rejected, so don't forbid them
+  rejectedAdditionalProperties: undefined,
+};
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  // zod-to-json-schema types its input against its own copy of zod's types
+  const input = schema as unknown as Parameters<typeof zodToJsonSchema>[0];
+  const { $schema, ...json } = zodToJsonSchema(input, JSON_SCHEMA_OPTIONS) as JsonSchema;
+  return json;
+}
+
+const queueIdQuery = z.object({
+  queueId: z.number().int().optional().describe("Limit to one queue"),
+});
+
+function reportResponse(row: ComponentName): ResponseDoc {
+  return {
+    description: "Report rows, or a CSV download when format=csv",
+    schema: {
+      type: "object",
+      properties: {
+        from: { type: "string", format: "date" },
+        to: { type: "string", format: "date" },
+        queueId: { type: ["integer", "null"] },
+        rows: arrayOf(row),
+      },
+      required: ["from", "to", "queueId", "rows"],
+    },
+  };
+}
+
+const admin = [Role.admin];
+
+// Keyed by method and Express path. Routes registered on the app but missing
+// here still appear in the document, with a generic response.
+const ROUTE_DOCS: Record<string, RouteDoc> = {
+  "GET /": {
+    summary: "API information",
+    tag: "Meta",
+    responses: { 200: { description: "API name, version and documentation links" } },
+  },
+  "GET /health": {
+    summary: "Health check",
+    tag: "Meta",
+    responses: { 200: { description: "The server is running" } },
+  },
+  "GET /debug/db-info": {
+    summary: "Storage diagnostics",
+    tag: "Meta",
+    responses: { 200: { description: "Storage backend, connection status and counts" } },
+  },
+  "GET /openapi.json": {
+    summary: "This OpenAPI document",
+    tag: "Meta",
+    responses: { 200: { description: "OpenAPI 3.1 document" } },
+  },
+  "GET /display": {
+    summary: "Public waiting-room display",
+    tag: "Public",
+    query: queueIdQuery,
+    responses: { 200: { description: "Tickets being served and waiting", schema: "DisplayBoard" } },
+    errors: [400],
+  },
+  "POST /tickets/lookup": {
+    summary: "Look up a ticket with the secret printed on the slip",
+    tag: "Public",
+    body: "TicketLookupRequest",
+    responses: { 200: { description: "Ticket status", schema: "TicketStatus" } },
+    errors: [400, 404, 429],
+  },
+  "POST /auth/signup": {
+    summary: "Create an account",
+    tag: "Auth",
+    body: "SignupRequest",
+    responses: {
+      201: { description: "Account created and signed in", schema: "AuthResponse" },
+    },
+    errors: [400],
+  },
+  "POST /auth/login": {
+    summary: "Sign in",
+    description:
+      "Repeated failures slow further attempts down and eventually lock the account " +
+      "or client IP out for a while (429).",
+    tag: "Auth",
+    body: "LoginRequest",
+    responses: {
+      200: {
+        description: `Signed in. The token is also set in the ${JWT_COOKIE_NAME} cookie.`,
+        schema: "AuthResponse",
+      },
+      202: {
+        description: "Password accepted; the account has 2FA, so finish at POST /auth/login/2fa",
+        schema: "LoginChallenge",
+      },
+    },
+    errors: [400, 401, 403, 429],
+  },
+  "POST /auth/login/2fa": {
+    summary: "Finish a login with a two-factor code",
+    description:
+      "Takes the challenge from POST /auth/login and either a code from the " +
+      "authenticator app or a recovery code. Wrong codes count as failed logins.",
+    tag: "Auth",
+    body: "LoginTwoFactorRequest",
+    responses: {
+      200: {
+        description: `Signed in. The token is also set in the ${JWT_COOKIE_NAME} cookie.`,
+        schema: "AuthResponse",
+      },
+    },
+    errors: [400, 401, 403, 429],
+  },
+  "POST /auth/refresh": {
+    summary: "Exchange a refresh token for new tokens",
+    tag: "Auth",
+    body: "RefreshTokenRequest",
+    responses: {
+      200: {
+        description:
+          `New access and refresh tokens. The refresh token may be sent in the body or ` +
+          `the ${REFRESH_COOKIE_NAME} cookie; a reused one revokes its session.`,
+        schema: "AuthResponse",
+      },
+    },
+    errors: [400, 401, 403],
+  },
+  "POST /auth/logout": {
+    summary: "Sign out: revokes the current session and clears the cookies",
+    tag: "Auth",
+    responses: { 200: { description: "Signed out", schema: "MessageResponse" } },
+  },
+  "GET /auth/me": {
+    summary: "Current user",
+    tag: "Auth",
+    auth: true,
+    responses: { 200: { description: "The signed-in user", schema: "UserResponse" } },
+    errors: [404],
+  },
+  "POST /auth/change-password": {
+    summary: "Change the current user's password",
+    description: "Allowed while a password change is required. Signs out the user's other sessions.",
+    tag: "Auth",
+    auth: true,
+    body: "ChangePasswordRequest",
+    responses: { 200: { description: "Password changed", schema: "MessageResponse" } },
+    errors: [400, 404],
+  },
+  "POST /auth/forgot-password": {
+    summary: "Email a password reset link",
+    description: "Answers the same whether or not the email is registered.",
+    tag: "Auth",
+    body: "ForgotPasswordRequest",
+    responses: { 200: { description: "Request accepted", schema: "MessageResponse" } },
+    errors: [400, 429],
+  },
+  "POST /auth/reset-password": {
+    summary: "Set a new password with a reset token",
+    description: "Each token works once. Signs the user out everywhere.",
+    tag: "Auth",
+    body: "ResetPasswordRequest",
+    responses: { 200: { description: "Password reset", schema: "MessageResponse" } },
+    errors: [400, 429],
+  },
+  "GET /auth/sessions": {
+    summary: "Sessions of the current user",
+    tag: "Auth",
+    auth: true,
+    responses: {
+      200: { description: "Active sessions, most recently used first", schema: arrayOf("Session") },
+    },
+  },
+  "DELETE /auth/sessions": {
+    summary: "Sign out every other session of the current user",
+    tag: "Auth",
+    auth: true,
+    responses: { 200: { description: "Sessions revoked", schema: "MessageResponse" } },
+  },
+  "DELETE /auth/sessions/:session_id": {
+    summary: "Revoke one of the current user's sessions",
+    tag: "Auth",
+    auth: true,
+    responses: { 200: { description: "Session revoked", schema: "MessageResponse" } },
+    errors: [400, 404],
+  },
+  "GET /auth/2fa": {
+    summary: "Two-factor status of the current user",
+    tag: "Auth",
+    auth: true,
+    responses: { 200: { description: "Two-factor status", schema: "TwoFactorStatus" } },
+    errors: [404],
+  },
+  "POST /auth/2fa/setup": {
+    summary: "Start two-factor enrollment",
+    description:
+      "Requires the current password. Returns a new secret; nothing changes until it is confirmed at POST /auth/2fa/enable.",
+    tag: "Auth",
+    auth: true,
+    body: "PasswordConfirmationRequest",
+    responses: { 200: { description: "Secret and provisioning URI", schema: "TwoFactorSetup" } },
+    errors: [400, 404],
+  },
+  "POST /auth/2fa/enable": {
+    summary: "Confirm two-factor enrollment with a first code",
+    tag: "Auth",
+    auth: true,
+    body: "TwoFactorCodeRequest",
+    responses: { 200: { description: "Recovery codes, shown only once", schema: "RecoveryCodes" } },
+    errors: [400],
+  },
+  "POST /auth/2fa/disable": {
+    summary: "Turn two-factor authentication off",
+    tag: "Auth",
+    auth: true,
+    body: "PasswordConfirmationRequest",
+    responses: { 200: { description: "Two-factor authentication disabled", schema: "MessageResponse" } },
+    errors: [400, 404],
+  },
+  "POST /auth/2fa/recovery-codes": {
+    summary: "Replace the recovery codes",
+    tag: "Auth",
+    auth: true,
+    body: "PasswordConfirmationRequest",
+    responses: { 200: { description: "New recovery codes, shown only once", schema: "RecoveryCodes" } },
+    errors: [400, 404],
+  },
+  "GET /auth/2fa/policy": {
+    summary: "Two-factor policy",
+    tag: "Auth",
+    auth: admin,
+    responses: { 200: { description: "Current policy", schema: "TwoFactorPolicy" } },
+  },
+  "PUT /auth/2fa/policy": {
+    summary: "Require two-factor authentication for admins",
+    description: "Admins without 2FA can then only reach the enrollment endpoints.",
+    tag: "Auth",
+    auth: admin,
+    body: "TwoFactorPolicy",
+    responses: { 200: { description: "Updated policy", schema: "TwoFactorPolicy" } },
+    errors: [400],
+  },
+  "GET /users": {
+    summary: "List users",
+    tag: "Users",
+    auth: admin,
+    responses: { 200: { description: "All users", schema: arrayOf("ManagedUser") } },
+  },
+  "PUT /users/:user_id/role": {
+    summary: "Change a user's role",
+    tag: "Users",
+    auth: admin,
+    body: "UpdateUserRoleRequest",
+    responses: { 200: { description: "Updated user", schema: "ManagedUser" } },
+    errors: [400, 404],
+  },
+  "PUT /users/:user_id/disable": {
+    summary: "Disable a user",
+    tag: "Users",
+    auth: admin,
+    responses: { 200: { description: "Updated user", schema: "ManagedUser" } },
+    errors: [400, 404],
+  },
+  "PUT /users/:user_id/enable": {
+    summary: "Enable a user",
+    tag: "Users",
+    auth: admin,
+    responses: { 200: { description: "Updated user", schema: "ManagedUser" } },
+    errors: [400, 404],
+  },
+  "DELETE /users/:user_id": {
+    summary: "Delete a user",
+    tag: "Users",
+    auth: admin,
+    responses: { 200: { description: "User deleted", schema: "MessageResponse" } },
+    errors: [400, 404],
+  },
+  "GET /users/:user_id/sessions": {
+    summary: "A user's active sessions",
+    tag: "Users",
+    auth: admin,
+    responses: { 200: { description: "Active sessions", schema: arrayOf("Session") } },
+    errors: [400, 404],
+  },
+  "DELETE /users/:user_id/sessions": {
+    summary: "Sign a user out everywhere",
+    tag: "Users",
+    auth: admin,
+    responses: { 200: { description: "Sessions revoked", schema: "MessageResponse" } },
+    errors: [400, 404],
+  },
+  "POST /users/:user_id/unlock": {
+    summary: "Lift a login lockout",
+    description: "Clears the account's failed login attempts",
+    tag: "Users",
+    auth: admin,
+    responses: { 200: { description: "Account unlocked", schema: "MessageResponse" } },
+    errors: [400, 404],
+  },
+  "DELETE /users/:user_id/2fa": {
+    summary: "Reset a user's two-factor authentication",
+    description: "For users who lost their authenticator app and recovery codes",
+    tag: "Users",
+    auth: admin,
+    responses: { 200: { description: "Two-factor authentication reset", schema: "MessageResponse" } },
+    errors: [400, 404],
+  },
+  "GET /auth/lockouts": {
+    summary: "Login lockouts for review",
+    tag: "Auth",
+    auth: admin,
+    query: lockoutQuerySchema,
+    responses: { 200: { description: "Lockouts, newest first", schema: arrayOf("LockoutEvent") } },
+    errors: [400],
+  },
+  "DELETE /users/:user_id/sessions/:session_id": {
+    summary: "Revoke one of a user's sessions",
+    tag: "Users",
+    auth: admin,
+    responses: { 200: { description: "Session revoked", schema: "MessageResponse" } },
+    errors: [400, 404],
+  },
+  "GET /patients": {
+    summary: "List patients in queue order",
+    tag: "Patients",
+    auth: true,
+    query: z.object({
+      status: z
+        .string()
+        .optional()
+        .describe(
+          `Comma-separated statuses (${Object.values(PatientStatus).join(", ")}). ` +
+            "Defaults to Waiting."
+        ),
+      queueId: queueIdQuery.shape.queueId,
+    }),
+    responses: { 200: { description: "Patients", schema: arrayOf("Patient") } },
+    errors: [400],
+  },
+  "GET /patients/history": {
+    summary: "Search patients of any status",
+    description:
+      "Filter by status, priority, queue and arrival time, search name and problem with ?q=, " +
+      "and sort by arrivalTime or name. Pass nextCursor back as ?cursor= (with the same sort " +
+      "and order) for the next page.",
+    tag: "Patients",
+    auth: true,
+    query: patientHistoryQuerySchema,
+    responses: { 200: { description: "One page of patients", schema: "PatientHistoryPage" } },
+    errors: [400],
+  },
+  "POST /patients": {
+    summary: "Register a patient",
+    description:
+      "Without a priority, the most urgent matching \"set\" priority rule decides it (NonUrgent when none matches). The matched rule is returned in priorityRule and suggestedPriority. " +
+      "Refused with 400 while the clinic is closed or the patient's level has no capacity left today. " +
+      "Resuscitation and Emergent patients are accepted despite a manual close and have no capacity limit.",
+    tag: "Patients",
+    auth: true,
+    body: "PatientIn",
+    responses: {
+      201: {
+        description: "Registered patient, including the ticket secret (shown only once)",
+        schema: "RegisteredPatient",
+      },
+    },
+    errors: [400],
+  },
+  "PUT /patients/:patient_id/visit": {
+    summary: "Mark a patient as visited",
+    tag: "Patients",
+    auth: true,
+    responses: { 200: { description: "Updated patient", schema: "Patient" } },
+    errors: [400, 404],
+  },
+  "PUT /patients/:patient_id/status": {
+    summary: "Change a patient's status",
+    tag: "Patients",
+    auth: true,
+    body: "PatientStatusUpdate",
+    responses: { 200: { description: "Updated patient", schema: "Patient" } },
+    errors: [400, 404],
+  },
+  "PATCH /patients/:patient_id": {
+    summary: "Edit a patient who is still in the queue",
+    description:
+      "Changes name, problem and/or priority. A new priority reorders the queue; the ticket number is kept.",
+    tag: "Patients",
+    auth: true,
+    body: "PatientUpdate",
+    responses: { 200: { description: "Updated patient", schema: "Patient" } },
+    errors: [400, 404],
+  },
+  "POST /patients/:patient_id/cancel": {
+    summary: "Remove a waiting or called patient from the queue",
+    tag: "Patients",
+    auth: true,
+    responses: { 200: { description: "Cancelled patient", schema: "Patient" } },
+    errors: [400, 404],
+  },
+  "POST /patients/:patient_id/undo-visit": {
+    summary: "Undo a visit marked by mistake",
+    description:
+      "Puts the patient back in the status they had before the visit, in their original place in the queue. Only possible within UNDO_VISIT_MINUTES of the visit.",
+    tag: "Patients",
+    auth: true,
+    responses: { 200: { description: "Restored patient", schema: "Patient" } },
+    errors: [400, 404],
+  },
+  "POST /patients/:patient_id/transfer": {
+    summary: "Move a waiting patient to another queue",
+    tag: "Patients",
+    auth: true,
+    body: "PatientTransfer",
+    responses: { 200: { description: "Updated patient", schema: "Patient" } },
+    errors: [400, 404],
+  },
+  "GET /patients/:patient_id/history": {
+    summary: "Status history of a patient",
+    tag: "Patients",
+    auth: true,
+    responses: {
+      200: { description: "Status changes, oldest first", schema: arrayOf("PatientStatusChange") },
+    },
+    errors: [400, 404],
+  },
+  "GET /patients/stats": {
+    summary: "Queue statistics",
+    tag: "Patients",
+    auth: true,
+    query: queueIdQuery,
+    responses: {
+      200: {
+        description: "Counts, estimated waits and today's remaining capacity",
+        schema: "PatientStats",
+      },
+    },
+    errors: [400],
+  },
+  "GET /patient-records": {
+    summary: "Look up patients in the registry",
+    description: "Filters combine; phone numbers match however they were typed.",
+    tag: "Patient Registry",
+    auth: true,
+    query: patientRecordQuerySchema,
+    responses: { 200: { description: "Records ordered by name", schema: arrayOf("PatientRecord") } },
+    errors: [400],
+  },
+  "POST /patient-records": {
+    summary: "Add a person to the patient registry",
+    tag: "Patient Registry",
+    auth: true,
+    body: "PatientRecordIn",
+    responses: { 201: { description: "Created record", schema: "PatientRecord" } },
+    errors: [400],
+  },
+  "GET /patient-records/:record_id": {
+    summary: "A registry record with all past and current visits",
+    tag: "Patient Registry",
+    auth: true,
+    responses: { 200: { description: "Record and visits, newest first", schema: "PatientRecordDetail" } },
+    errors: [400, 404],
+  },
+  "PATCH /patient-records/:record_id": {
+    summary: "Correct a registry record",
+    description: "Past visits keep the name they were registered with.",
+    tag: "Patient Registry",
+    auth: true,
+    body: "PatientRecordUpdate",
+    responses: { 200: { description: "Updated record", schema: "PatientRecord" } },
+    errors: [400, 404],
+  },
+  "POST /patient-records/:record_id/visits": {
+    summary: "Queue a patient from the registry",
+    description:
+      "Like POST /patients, with the name taken from the record and the visit linked to it. Refused with 400 while the record already has a visit in the queue.",
+    tag: "Patient Registry",
+    auth: true,
+    body: "PatientRecordVisitIn",
+    responses: {
+      201: {
+        description: "Registered patient, including the ticket secret (shown only once)",
+        schema: "RegisteredPatient",
+      },
+    },
+    errors: [400, 404],
+  },
+  "GET /appointments": {
+    summary: "List a day's appointments",
+    tag: "Appointments",
+    auth: true,
+    query: appointmentQuerySchema,
+    responses: { 200: { description: "Appointments by start time", schema: arrayOf("Appointment") } },
+    errors: [400],
+  },
+  "GET /appointments/today": {
+    summary: "Today's appointments and waiting list",
+    tag: "Appointments",
+    auth: true,
+    query: z.object({ queueId: z.number().int().optional() }),
+    responses: { 200: { description: "Today's schedule", schema: "TodaySchedule" } },
+    errors: [400],
+  },
+  "GET /appointments/:appointment_id": {
+    summary: "Get an appointment",
+    tag: "Appointments",
+    auth: true,
+    responses: { 200: { description: "Appointment", schema: "Appointment" } },
+    errors: [400, 404],
+  },
+  "POST /appointments": {
+    summary: "Book an appointment",
+    description:
+      "Rejected when the queue or the patient already has a booked or checked-in appointment overlapping the slot.",
+    tag: "Appointments",
+    auth: true,
+    body: "AppointmentIn",
+    responses: { 201: { description: "Booked appointment", schema: "Appointment" } },
+    errors: [400],
+  },
+  "POST /appointments/:appointment_id/cancel": {
+    summary: "Cancel a booked appointment",
+    tag: "Appointments",
+    auth: true,
+    responses: { 200: { description: "Cancelled appointment", schema: "Appointment" } },
+    errors: [400, 404],
+  },
+  "POST /appointments/:appointment_id/check-in": {
+    summary: "Check in and join the queue",
+    description:
+      "Open from APPOINTMENT_EARLY_CHECK_IN_MINUTES before the start until APPOINTMENT_GRACE_MINUTES after it. The patient is ordered as if they arrived at the start of the slot. Priority rules apply as for POST /patients. Refused while the clinic is closed or the record already has a visit in the queue; daily capacity does not apply.",
+    tag: "Appointments",
+    auth: true,
+    body: "AppointmentCheckIn",
+    responses: {
+      201: {
+        description: "The appointment and the new queue entry, including the ticket secret (shown only once)",
+        schema: "AppointmentCheckInResult",
+      },
+    },
+    errors: [400, 404],
+  },
+  "GET /queues": {
+    summary: "List queues",
+    tag: "Queues",
+    auth: true,
+    query: z.object({
+      all: z.boolean().optional().describe("Include inactive queues"),
+    }),
+    responses: { 200: { description: "Queues", schema: arrayOf("Queue") } },
+  },
+  "GET /queues/:queue_id": {
+    summary: "Get a queue",
+    tag: "Queues",
+    auth: true,
+    responses: { 200: { description: "Queue", schema: "Queue" } },
+    errors: [400, 404],
+  },
+  "POST /queues": {
+    summary: "Create a queue",
+    tag: "Queues",
+    auth: admin,
+    body: "QueueIn",
+    responses: { 201: { description: "Created queue", schema: "Queue" } },
+    errors: [400],
+  },
+  "PUT /queues/:queue_id": {
+    summary: "Update a queue",
+    tag: "Queues",
+    auth: admin,
+    body: "QueueUpdate",
+    responses: { 200: { description: "Updated queue", schema: "Queue" } },
+    errors: [400, 404],
+  },
+  "POST /queue/next": {
+    summary: "Call the next waiting patient",
+    tag: "Queues",
+    auth: true,
+    body: "QueueNextRequest",
+    responses: { 200: { description: "The claimed patient", schema: "Patient" } },
+    errors: [400, 404],
+  },
+  "GET /queue/events": {
+    summary: "Live queue updates (Server-Sent Events)",
+    tag: "Queues",
+    auth: true,
+    responses: {
+      200: {
+        description:
+          "Event stream. Reconnect with Last-Event-ID to replay missed events.",
+        schema: { type: "string" },
+        contentType: "text/event-stream",
+      },
+    },
+  },
+  "GET /triage/policy": {
+    summary: "Triage policy",
+    tag: "Queues",
+    auth: true,
+    responses: { 200: { description: "Current policy", schema: "TriagePolicy" } },
+  },
+  "PUT /triage/policy": {
+    summary: "Update the triage policy",
+    description:
+      "With aging on, every agingMinutes a patient waits raises their effective level by one, never above maxAgedLevel. Patients waiting longer than their level's maxWaitMinutes are flagged with maxWaitBreached.",
+    tag: "Queues",
+    auth: admin,
+    body: "TriagePolicy",
+    responses: { 200: { description: "Updated policy", schema: "TriagePolicy" } },
+    errors: [400],
+  },
+  "GET /triage/rules": {
+    summary: "Priority rules",
+    tag: "Queues",
+    auth: true,
+    responses: { 200: { description: "Current rules, in order", schema: "PriorityRuleSet" } },
+  },
+  "PUT /triage/rules": {
+    summary: "Replace the priority rules",
+    description:
+      "A rule matches when all of its conditions hold; keywords match when the problem contains any of them. The most urgent match wins, then the first listed.",
+    tag: "Queues",
+    auth: admin,
+    body: "PriorityRuleSet",
+    responses: { 200: { description: "Saved rules", schema: "PriorityRuleSet" } },
+    errors: [400],
+  },
+  "POST /triage/rules/dry-run": {
+    summary: "Test priority rules against sample registrations",
+    description: "Uses the saved rules unless a rule set is given. Nothing is saved.",
+    tag: "Queues",
+    auth: admin,
+    body: "PriorityRuleDryRun",
+    responses: {
+      200: { description: "One result per sample, in order", schema: arrayOf("PriorityRuleResult") },
+    },
+    errors: [400],
+  },
+
+  "GET /clinic/status": {
+    summary: "Whether registration is open",
+    tag: "Clinic",
+    auth: true,
+    responses: {
+      200: { description: "Open or closed, and today's remaining capacity", schema: "ClinicStatus" },
+    },
+  },
+  "GET /clinic/schedule": {
+    summary: "Clinic schedule",
+    tag: "Clinic",
+    auth: true,
+    responses: { 200: { description: "Current schedule", schema: "ClinicSchedule" } },
+  },
+  "PUT /clinic/schedule": {
+    summary: "Update the clinic schedule",
+    description:
+      "Opening hours per weekday in clinic-local time (weeklyHours null: always open), closure days, " +
+      "daily capacity for Urgent, LessUrgent and NonUrgent (null: unlimited), and what happens to " +
+      "patients still waiting at closing time.",
+    tag: "Clinic",
+    auth: admin,
+    body: "ClinicSchedule",
+    responses: { 200: { description: "Updated schedule", schema: "ClinicSchedule" } },
+    errors: [400],
+  },
+  "POST /clinic/close": {
+    summary: "Close the queue to new registrations",
+    description:
+      "Applies until reopened, whatever the schedule says. Resuscitation and Emergent patients can still be registered, and patients already queued are still seen.",
+    tag: "Clinic",
+    auth: admin,
+    body: "QueueCloseRequest",
+    responses: { 200: { description: "Clinic status", schema: "ClinicStatus" } },
+    errors: [400],
+  },
+  "POST /clinic/reopen": {
+    summary: "Reopen the queue after a manual close",
+    tag: "Clinic",
+    auth: admin,
+    responses: { 200: { description: "Clinic status", schema: "ClinicStatus" } },
+    errors: [400],
+  },
+  "POST /clinic/close-out": {
+    summary: "Close out a day",
+    description:
+      "For patients who arrived on or before the date (default today): waiting and called patients are marked LeftWithoutBeingSeen, " +
+      "the day's counters are saved, finished visits move to the archive, and ticket numbers start again at 1. " +
+      "Patients in consultation stay in the queue. Each day can be closed out once.",
+    tag: "Clinic",
+    auth: admin,
+    body: "CloseOutRequest",
+    responses: { 201: { description: "The day's summary", schema: "DailySummary" } },
+    errors: [400],
+  },
+
+  "GET /audit": {
+    summary: "Query the audit log",
+    description:
+      "Patient, queue and account changes and login attempts, with actor, before/after " +
+      "values, IP and request id. Page back with ?before=<id of the last entry>.",
+    tag: "Audit",
+    auth: admin,
+    query: auditQuerySchema,
+    responses: { 200: { description: "Entries, newest first", schema: arrayOf("AuditEntry") } },
+    errors: [400],
+  },
+  "GET /mail/outbox": {
+    summary: "Mail kept by the local outbox transport",
+    tag: "Mail",
+    auth: admin,
+    query: outboxQuerySchema,
+    responses: { 200: { description: "Messages, newest first", schema: arrayOf("OutboxMessage") } },
+    errors: [400],
+  },
+  "GET /reports/daily": {
+    summary: "Daily volume report",
+    tag: "Reports",
+    auth: admin,
+    query: reportQuerySchema,
+    responses: { 200: reportResponse("VolumeReportRow") },
+    errors: [400],
+  },
+  "GET /reports/weekly": {
+    summary: "Weekly volume report",
+    tag: "Reports",
+    auth: admin,
+    query: reportQuerySchema,
+    responses: { 200: reportResponse("VolumeReportRow") },
+    errors: [400],
+  },
+  "GET /reports/hourly": {
+    summary: "Arrivals by hour of day",
+    tag: "Reports",
+    auth: admin,
+    query: reportQuerySchema,
+    responses: { 200: reportResponse("HourlyReportRow") },
+    errors: [400],
+  },
+  "GET /reports/staff": {
+    summary: "Per-staff activity",
+    tag: "Reports",
+    auth: admin,
+    query: reportQuerySchema,
+    responses: { 200: reportResponse("StaffReportRow") },
+    errors: [400],
+  },
+  "GET /reports/daily-summaries": {
+    summary: "Summaries of closed-out days",
+    description: "One row per day closed out with POST /clinic/close-out or at the scheduled closeOutTime. queueId is ignored.",
+    tag: "Reports",
+    auth: admin,
+    query: reportQuerySchema,
+    responses: { 200: reportResponse("DailySummary") },
+    errors: [400],
+  },
+};
+
+// Registered routes that are not part of the API
+const HIDDEN_PATHS = new Set(["/docs", "/favicon.ico"]);
+
+const ERROR_RESPONSES: Record<number, { name: string; description: string; headers?: JsonSchema }> = {
+  400: { name: "BadRequest", description: "Invalid request" },
+  401: {
+    name: "Unauthorized",
+    description: "Missing or invalid credentials",
+    headers: { "WWW-Authenticate": { schema: { type: "string" } } },
+  },
+  403: {
+    name: "Forbidden",
+    description:
+      "Account disabled, role not allowed, or password change or two-factor setup required",
+  },
+  404: { name: "NotFound", description: "Not found" },
+  429: {
+    name: "TooManyRequests",
+    description: "Rate limit exceeded",
+    headers: {
+      "Retry-After": {
+        description: "Seconds until the limit resets",
+        schema: { type: "integer" },
+      },
+    },
+  },
+  500: { name: "InternalError", description: "Unexpected server error" },
+};
+
+interface RegisteredRoute {
+  method: string;
+  path: string;
+}
+
+// Routes registered directly on the app, in registration order
+function listRoutes(app: Application): RegisteredRoute[] {
+  const stack: any[] = (app as any)._router?.stack || [];
+  const routes: RegisteredRoute[] = [];
+  for (const layer of stack) {
+    if (!layer.route || typeof layer.route.path !== "string") {
+      continue;
+    }
+    for (const method of Object.keys(layer.route.methods)) {
+      if (method !== "_all") {
+        routes.push({ method: method.toUpperCase(), path: layer.route.path });
+      }
+    }
+  }
+  return routes;
+}
+
+function responseObject(response: ResponseDoc): JsonSchema {
+  const result: JsonSchema = { description: response.description };
+  if (response.headers) {
+    result.headers = response.headers;
+  }
+  if (response.schema) {
+    result.content = {
+      [response.contentType || "application/json"]: {
+        schema: typeof response.schema === "string" ? ref(response.schema) : response.schema,
+      },
+    };
+  }
+  return result;
+}
+
+function queryParameters(schema: z.AnyZodObject): JsonSchema[] {
+  const json = toJsonSchema(schema);
+  const properties = (json.properties || {}) as Record<string, JsonSchema>;
+  const required = new Set((json.required || []) as string[]);
+  return Object.entries(properties).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: "query",
+      required: required.has(name),
+      ...(description ? { description } : {}),
+      schema: propertySchema,
+    };
+  });
+}
+
+function operationFor(route: RegisteredRoute, doc: RouteDoc | undefined): JsonSchema {
+  // Express ":param" segments become OpenAPI "{param}" path parameters
+  const pathParams = [...route.path.matchAll(/:(\w+)/g)].map((m) => m[1]);
+  const parameters: JsonSchema[] = pathParams.map((name) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "integer" },
+  }));
+
+  if (!doc) {
+    return {
+      ...(parameters.length > 0 ? { parameters } : {}),
+      responses: { 200: { description: "Successful response" } },
+    };
+  }
+
+  if (doc.query) {
+    parameters.push(...queryParameters(doc.query));
+  }
+
+  const responses: JsonSchema = {};
+  for (const [status, response] of Object.entries(doc.responses)) {
+    responses[status] = responseObject(response);
+  }
+  const errors = new Set(doc.errors || []);
+  if (doc.auth) {
+    errors.add(401);
+    errors.add(403);
+  }
+  errors.add(500);
+  for (const status of [...errors].sort((a, b) => a - b)) {
+    responses[status] = { $ref: `#/components/responses/${ERROR_RESPONSES[status].name}` };
+  }
+
+  const operation: JsonSchema = {
+    summary: doc.summary,
+    tags: [doc.tag],
+    operationId: `${route.method.toLowerCase()}${route.path
+      .replace(/:(\w+)/g, "by_$1")
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map((part) => part[0].toUpperCase() + part.slice(1))
+      .join("")}`,
+  };
+  const description = [
+    doc.description,
+    Array.isArray(doc.auth) ? `Requires role: ${doc.auth.join(" or ")}.` : undefined,
+  ].filter(Boolean);
+  if (description.length > 0) {
+    operation.description = description.join(" ");
+  }
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+  if (doc.body) {
+    operation.requestBody = {
+      required: true,
+      content: { "application/json": { schema: ref(doc.body) } },
+    };
+  }
+  operation.responses = responses;
+  // Operations without auth explicitly opt out of the global requirement
+  operation.security = doc.auth ? [{ bearerAuth: [] }, { cookieAuth: [] }] : [];
+  return operation;
+}
+
+export function buildOpenApiDocument(app: Application): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of listRoutes(app)) {
+    if (HIDDEN_PATHS.has(route.path)) {
+      continue;
+    }
+    const openApiPath = route.path.replace(/:(\w+)/g, "{$1}");
+    paths[openApiPath] = paths[openApiPath] || {};
+    paths[openApiPath][route.method.toLowerCase()] = operationFor(
+      route,
+      ROUTE_DOCS[`${route.method} ${route.path}`]
+    );
+  }
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, schema] of Object.entries(COMPONENT_SCHEMAS)) {
+    schemas[name] = toJsonSchema(schema);
+  }
+
+  const responses: Record<string, JsonSchema> = {};
+  for (const error of Object.values(ERROR_RESPONSES)) {
+    responses[error.name] = {
+      description: error.description,
+      ...(error.headers ? { headers: error.headers } : {}),
+      content: { "application/json": { schema: ref("MessageResponse") } },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Clinic Patient Queue API",
+      version: "1.0.0",
+    },
+    paths,
+    components: {
+      schemas,
+      responses,
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+        cookieAuth: { type: "apiKey", in: "cookie", name: JWT_COOKIE_NAME },
+      },
+    },
+    security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+  };
+}
+
+// Swagger UI page. Its assets are served from swagger-ui-dist under /docs, so
+// the page works without internet access.
+export function renderDocsPage(specUrl: string, assetsUrl: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Clinic Patient Queue API</title>
+  <link rel="stylesheet" href="${assetsUrl}/swagger-ui.css" />
+  <link rel="icon" type="image/png" href="${assetsUrl}/favicon-32x32.png" />
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${assetsUrl}/swagger-ui-bundle.js"></script>
+  <script>
+    window.ui = SwaggerUIBundle({
+      url: ${JSON.stringify(specUrl)},
+      dom_id: "#swagger-ui",
+      deepLinking: true,
+      withCredentials: true,
+    });
+  </script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,54 @@
+/**
+ * Simple fixed-window rate limiting for public endpoints.
+ * Counters live in process memory, so each server process enforces its own
+ * limit.
+ */
+import { Request, Response, NextFunction } from "express";
+
+export interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message?: string;
+  // Defaults to the client IP
+  keyFn?: (req: Request) => string;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export function rateLimit(options: RateLimitOptions) {
+  const windows = new Map<string, Window>();
+  const message = options.message || "Too many requests, please try again later";
+  const keyFn = options.keyFn || ((req: Request) => req.ip || "unknown");
+
+  // Drop expired windows so the map does not grow without bound
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+  }, options.windowMs).unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = keyFn(req);
+    let window = windows.get(key);
+
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + options.windowMs };
+      windows.set(key, window);
+    }
+
+    window.count += 1;
+    if (window.count > options.max) {
+      const retryAfter = Math.ceil((window.resetAt - now) / 1000);
+      res.setHeader("Retry-After", String(retryAfter));
+      return res.status(429).json({ message });
+    }
+    return next();
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Historical reporting over patients and their status history.
+ * Date ranges are inclusive calendar days in the clinic's timezone, and
+ * patients are counted on the day they arrived. The queries themselves are
+ * implemented by each storage backend (see storage/types.ts).
+ */
+import { CLINIC_TIMEZONE } from "./db";
+import { ReportQuery, VolumeReportRow, HourlyReportRow } from "./classes";
+
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReportPeriod = "day" | "week";
+
+export interface ReportRange {
+  from: string;
+  to: string;
+  days: number;
+}
+
+export function todayInClinicTimezone(): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone: CLINIC_TIMEZONE }).format(
+    new Date()
+  );
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+// Fill in defaults (the last 7 days) and check the range. Returns an error
+// message for invalid ranges.
+export function resolveReportRange(query: ReportQuery): ReportRange | string {
+  const to = query.to ?? todayInClinicTimezone();
+  const from = query.from ?? addDays(to, -(DEFAULT_RANGE_DAYS - 1));
+
+  const fromMs = Date.parse(`${from}T00:00:00Z`);
+  const toMs = Date.parse(`${to}T00:00:00Z`);
+  if (Number.isNaN(fromMs) || Number.isNaN(toMs)) {
+    return "from and to must be valid dates";
+  }
+  if (fromMs > toMs) {
+    return "from must not be after to";
+  }
+
+  const days = Math.round((toMs - fromMs) / DAY_MS) + 1;
+  if (days > MAX_RANGE_DAYS) {
+    return `Date range cannot exceed ${MAX_RANGE_DAYS} days`;
+  }
+  return { from, to, days };
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Minutes are reported to one decimal place
+export function roundMinutes(value: number | null): number | null {
+  return value === null ? null : round(value, 1);
+}
+
+export interface VolumeCounts {
+  period: string;
+  registered: number;
+  visited: number;
+  emergencies: number;
+  noShows: number;
+  averageWaitMinutes: number | null;
+  p90WaitMinutes: number | null;
+}
+
+// Registrations, visits, emergency share, no-show rate and waits (arrival to
+// visit) for one day or ISO week
+export function toVolumeReportRow(counts: VolumeCounts): VolumeReportRow {
+  const { registered, emergencies, noShows } = counts;
+  return {
+    period: counts.period,
+    registered,
+    visited: counts.visited,
+    emergencies,
+    noShows,
+    emergencyShare: registered > 0 ? round(emergencies / registered, 3) : 0,
+    noShowRate: registered > 0 ? round(noShows / registered, 3) : 0,
+    averageWaitMinutes: roundMinutes(counts.averageWaitMinutes),
+    p90WaitMinutes: roundMinutes(counts.p90WaitMinutes),
+  };
+}
+
+// Arrivals in one hour of the day across the range, to find the busiest hours
+export function toHourlyReportRow(
+  hour: number,
+  arrivals: number,
+  range: ReportRange
+): HourlyReportRow {
+  return {
+    hour,
+    arrivals,
+    averagePerDay: round(arrivals / range.days, 2),
+  };
+}
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T extends object>(rows: T[], columns: Array<keyof T>): string {
+  const lines = [columns.map((c) => csvValue(c)).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((c) => csvValue(row[c])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
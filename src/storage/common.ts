@@ -0,0 +1,90 @@
+/**
+ * Helpers shared by the storage backends so both produce identical results.
+ */
+import * as crypto from "crypto";
+import {
+  Patient,
+  Priority,
+  PatientStatus,
+  TICKET_PREFIXES,
+  PATIENT_STATUS_TRANSITIONS,
+  ACTIVE_PATIENT_STATUSES,
+} from "../classes";
+import { AuditContext, PatientUpdateFields } from "./types";
+
+export const DEFAULT_ADMIN_EMAIL = "admin@clinic.com";
+export const DEFAULT_ADMIN_PASSWORD = "admin123";
+export const DEFAULT_QUEUE_NAME = "General";
+// Clinic date the end-of-day routine last handled leftover patients for
+export const LAST_END_OF_DAY_SETTING = "lastEndOfDay";
+
+// Actor of the changes the server makes on its own, e.g. the end-of-day jobs
+export const SYSTEM_AUDIT_CONTEXT: AuditContext = {
+  actorId: null,
+  actorEmail: "system",
+  ipAddress: null,
+  requestId: null,
+};
+
+// Timestamps are returned as second-precision ISO strings, e.g.
+// "2024-01-01T09:30:00Z"
+export function toIsoTimestamp(value: Date | string | null | undefined): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const date = value instanceof Date ? value : new Date(value);
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+// Statuses from which a patient may move to toStatus
+export function statusesAllowedInto(toStatus: PatientStatus): PatientStatus[] {
+  return (Object.keys(PATIENT_STATUS_TRANSITIONS) as PatientStatus[]).filter(
+    (from) => PATIENT_STATUS_TRANSITIONS[from].includes(toStatus)
+  );
+}
+
+// Where undoing a visit returns the patient to: the status they were marked
+// visited from, or Waiting when that is unknown (e.g. imported patients)
+export function previousActiveStatus(fromStatus: string | null): PatientStatus {
+  return ACTIVE_PATIENT_STATUSES.includes(fromStatus as PatientStatus)
+    ? (fromStatus as PatientStatus)
+    : PatientStatus.Waiting;
+}
+
+// The fields an update set, as they were before and after it, for its audit
+// entry
+export function auditedUpdate(
+  update: PatientUpdateFields,
+  before: Patient,
+  after: Patient
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const fields = (Object.keys(update) as (keyof PatientUpdateFields)[]).filter(
+    (field) => update[field] !== undefined
+  );
+  return {
+    before: Object.fromEntries(fields.map((field) => [field, before[field] ?? null])),
+    after: Object.fromEntries(fields.map((field) => [field, after[field]])),
+  };
+}
+
+export function ticketPrefix(priority: string): string {
+  return TICKET_PREFIXES[priority as Priority] ?? "N";
+}
+
+// e.g. "E-004"
+export function formatTicketNumber(prefix: string, number: number): string {
+  return `${prefix}-${String(number).padStart(3, "0")}`;
+}
+
+// Short code printed on the ticket slip. The alphabet leaves out characters
+// that are easy to misread (0/O, 1/I/L).
+const TICKET_SECRET_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+const TICKET_SECRET_LEN = 6;
+
+export function generateTicketSecret(): string {
+  let secret = "";
+  for (let i = 0; i < TICKET_SECRET_LEN; i++) {
+    secret += TICKET_SECRET_ALPHABET[crypto.randomInt(TICKET_SECRET_ALPHABET.length)];
+  }
+  return secret;
+}
@@ -0,0 +1,73 @@
+/**
+ * Storage backend selection.
+ * STORAGE_BACKEND picks where users, patients and queues are kept:
+ * "postgres" (default) or "memory" for running without a database server.
+ */
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import { Role } from "../classes";
+import { Storage, StorageBackend, SeedPatient } from "./types";
+import { verifyPassword } from "../auth";
+import { DEFAULT_ADMIN_EMAIL, DEFAULT_ADMIN_PASSWORD } from "./common";
+import { createPostgresStorage } from "./postgres";
+import { createMemoryStorage } from "./memory";
+
+dotenv.config();
+
+export const STORAGE_BACKEND = (process.env.STORAGE_BACKEND ||
+  StorageBackend.postgres) as StorageBackend;
+
+function createStorage(backend: StorageBackend): Storage {
+  switch (backend) {
+    case StorageBackend.postgres:
+      return createPostgresStorage();
+    case StorageBackend.memory:
+      return createMemoryStorage();
+    default:
+      throw new Error(
+        `Unknown STORAGE_BACKEND "${backend}". ` +
+          `Use one of: ${Object.values(StorageBackend).join(", ")}`
+      );
+  }
+}
+
+export const storage = createStorage(STORAGE_BACKEND);
+
+// Connect to the backend and seed default data: the admin account, and the
+// patients in data.json when there are none yet. The admin account must
+// change its password before it can do anything else, for as long as the
+// default password is still in use.
+export async function initStorage(): Promise<void> {
+  await storage.init();
+
+  const admin = await storage.users.getUserByEmail(DEFAULT_ADMIN_EMAIL);
+  if (!admin) {
+    await storage.users.createUser(
+      "Admin User",
+      DEFAULT_ADMIN_EMAIL,
+      DEFAULT_ADMIN_PASSWORD,
+      Role.admin,
+      true
+    );
+  } else if (
+    !admin.mustChangePassword &&
+    (await verifyPassword(DEFAULT_ADMIN_PASSWORD, admin.password))
+  ) {
+    await storage.users.setMustChangePassword(admin.id, true);
+  }
+
+  const dataFile = [
+    path.join(__dirname, "..", "..", "data.json"),
+    path.join(__dirname, "..", "..", "..", "data.json"),
+  ].find((file) => fs.existsSync(file));
+  if (dataFile) {
+    const patients: SeedPatient[] = JSON.parse(fs.readFileSync(dataFile, "utf-8"));
+    const imported = await storage.patients.importPatients(patients);
+    if (imported > 0) {
+      console.log(`[STORAGE] Imported ${imported} patients from ${dataFile}`);
+    }
+  }
+}
+
+export * from "./types";
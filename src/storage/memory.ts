@@ -0,0 +1,2630 @@
+/**
+ * In-memory storage backend, for running the API without a Postgres server.
+ * Data lives in this process. When STORAGE_FILE is set, everything except
+ * queue events is also written to that JSON file after every change and
+ * loaded again on startup. Ordering and error semantics match the Postgres
+ * backend.
+ */
+import * as fs from "fs";
+import { CLINIC_TIMEZONE } from "../db";
+import { hashPassword, verifyPassword } from "../auth";
+import { AuditAction } from "../audit";
+import {
+  ConsultationAggregate,
+  WaitingEntry,
+  WaitTimeProfile,
+  buildWaitTimeProfile,
+  estimateWaits,
+  estimateNewArrivalWaits,
+  getCachedWaitTimeProfile,
+  setCachedWaitTimeProfile,
+  WAIT_ESTIMATE_WINDOW_DAYS,
+  ACTIVE_STAFF_WINDOW_MINUTES,
+  MAX_CONSULTATION_MINUTES,
+} from "../waitTime";
+import {
+  TRIAGE_POLICY_SETTING,
+  annotateTriage,
+  effectiveLevel,
+  prioritiesAtLevel,
+  priorityLevel,
+  resolveTriagePolicy,
+} from "../triage";
+import {
+  ReportPeriod,
+  ReportRange,
+  addDays,
+  roundMinutes,
+  toVolumeReportRow,
+  toHourlyReportRow,
+} from "../reports";
+import {
+  Patient,
+  Priority,
+  PatientStatus,
+  PatientStats,
+  PatientStatusChange,
+  PatientRecord,
+  Appointment,
+  AppointmentStatus,
+  QueueEventType,
+  Queue,
+  QueueType,
+  DisplayBoard,
+  RegisteredPatient,
+  TicketStatus,
+  VolumeReportRow,
+  HourlyReportRow,
+  StaffReportRow,
+  EMERGENCY_PRIORITIES,
+  TriagePolicy,
+  ACTIVE_PATIENT_STATUSES,
+  TERMINAL_PATIENT_STATUSES,
+  DailySummary,
+} from "../classes";
+import {
+  Storage,
+  StorageBackend,
+  UserRecord,
+  UserWithPassword,
+  SessionRecord,
+  NewSession,
+  MailMessage,
+  OutboxMessage,
+  LoginAttempt,
+  LoginAttemptScope,
+  LockoutEvent,
+  TwoFactorRecord,
+  AuditEntry,
+  NewAuditEntry,
+  AuditContext,
+  AuditFilter,
+  PatientUpdateFields,
+  PriorityRuleMatch,
+  PatientSearchFilter,
+  PatientSearchResult,
+  PatientRecordFields,
+  PatientRecordFilter,
+  AppointmentFields,
+  AppointmentFilter,
+  AppointmentCheckInOptions,
+  CheckedInAppointment,
+  SeedPatient,
+  QueueEvent,
+} from "./types";
+import {
+  DEFAULT_QUEUE_NAME,
+  toIsoTimestamp,
+  statusesAllowedInto,
+  previousActiveStatus,
+  ticketPrefix,
+  formatTicketNumber,
+  generateTicketSecret,
+  auditedUpdate,
+  SYSTEM_AUDIT_CONTEXT,
+  LAST_END_OF_DAY_SETTING,
+} from "./common";
+
+const STORAGE_FILE = process.env.STORAGE_FILE || null;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+interface StoredPatient {
+  id: number;
+  name: string;
+  problem: string;
+  priority: string;
+  arrivalTime: string;
+  status: string;
+  queueId: number;
+  ticketNumber: string | null;
+  ticketSecret: string | null;
+  // Missing in files written before the patient registry
+  recordId?: number | null;
+  // Missing in files written before priority rules
+  priorityRule?: string | null;
+  suggestedPriority?: string | null;
+  claimedBy: number | null;
+  claimedAt: string | null;
+  seenAt: string | null;
+  visitedAt: string | null;
+}
+
+interface StoredAppointment {
+  id: number;
+  recordId: number;
+  queueId: number;
+  startTime: string;
+  durationMinutes: number;
+  reason: string;
+  status: string;
+  patientId: number | null;
+  createdBy: number | null;
+  createdAt: string;
+  checkedInAt: string | null;
+}
+
+interface StoredStatusChange {
+  id: number;
+  patientId: number;
+  fromStatus: string | null;
+  toStatus: string;
+  changedBy: number | null;
+  changedAt: string;
+}
+
+interface StoredResetToken {
+  id: number;
+  userId: number;
+  tokenHash: string;
+  createdAt: string;
+  expiresAt: string;
+  usedAt: string | null;
+}
+
+interface StoredRecoveryCode {
+  id: number;
+  userId: number;
+  codeHash: string;
+  usedAt: string | null;
+}
+
+interface StoredSetting {
+  key: string;
+  value: unknown;
+  updatedAt: string;
+  updatedBy: number | null;
+}
+
+interface MemoryState {
+  users: UserWithPassword[];
+  sessions: SessionRecord[];
+  passwordResetTokens: StoredResetToken[];
+  outbox: OutboxMessage[];
+  loginAttempts: LoginAttempt[];
+  lockoutEvents: LockoutEvent[];
+  twoFactor: TwoFactorRecord[];
+  recoveryCodes: StoredRecoveryCode[];
+  settings: StoredSetting[];
+  auditLog: AuditEntry[];
+  patientRecords: PatientRecord[];
+  appointments: StoredAppointment[];
+  queues: Queue[];
+  patients: StoredPatient[];
+  // Finished visits of closed-out days, off the live queue
+  archivedPatients: StoredPatient[];
+  statusHistory: StoredStatusChange[];
+  dailySummaries: DailySummary[];
+  // Keyed by "<clinic date>:<prefix>"
+  ticketCounters: Record<string, number>;
+  // Last id handed out per table, like a Postgres sequence
+  lastIds: {
+    users: number;
+    sessions: number;
+    passwordResetTokens: number;
+    outbox: number;
+    lockoutEvents: number;
+    recoveryCodes: number;
+    auditLog: number;
+    patientRecords: number;
+    appointments: number;
+    queues: number;
+    patients: number;
+    statusHistory: number;
+    queueEvents: number;
+  };
+}
+
+// Matches a freshly migrated database: no users or patients, one queue
+function emptyState(): MemoryState {
+  return {
+    users: [],
+    sessions: [],
+    passwordResetTokens: [],
+    outbox: [],
+    loginAttempts: [],
+    lockoutEvents: [],
+    twoFactor: [],
+    recoveryCodes: [],
+    settings: [],
+    auditLog: [],
+    patientRecords: [],
+    appointments: [],
+    queues: [
+      {
+        id: 1,
+        name: DEFAULT_QUEUE_NAME,
+        type: QueueType.department,
+        description: null,
+        active: true,
+      },
+    ],
+    patients: [],
+    archivedPatients: [],
+    statusHistory: [],
+    dailySummaries: [],
+    ticketCounters: {},
+    lastIds: {
+      users: 0,
+      sessions: 0,
+      passwordResetTokens: 0,
+      outbox: 0,
+      lockoutEvents: 0,
+      recoveryCodes: 0,
+      auditLog: 0,
+      patientRecords: 0,
+      appointments: 0,
+      queues: 1,
+      patients: 0,
+      statusHistory: 0,
+      queueEvents: 0,
+    },
+  };
+}
+
+let state: MemoryState = emptyState();
+const queueEvents: QueueEvent[] = [];
+let onQueueEvents: (() => void) | null = null;
+
+async function init(): Promise<void> {
+  if (STORAGE_FILE && fs.existsSync(STORAGE_FILE)) {
+    // Files written by older versions lack the newer tables
+    const loaded = JSON.parse(fs.readFileSync(STORAGE_FILE, "utf-8"));
+    const empty = emptyState();
+    state = { ...empty, ...loaded, lastIds: { ...empty.lastIds, ...loaded.lastIds } };
+    console.log(`[STORAGE] Loaded data from ${STORAGE_FILE}`);
+  }
+}
+
+// Save the whole state after a change. Writing to a temporary file first
+// means a crash never leaves a half-written file behind.
+function persist(): void {
+  if (!STORAGE_FILE) {
+    return;
+  }
+  const tempFile = `${STORAGE_FILE}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(state, null, 2));
+  fs.renameSync(tempFile, STORAGE_FILE);
+}
+
+function nextId(table: keyof MemoryState["lastIds"]): number {
+  state.lastIds[table] += 1;
+  return state.lastIds[table];
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+const clinicDateTimeFormat = new Intl.DateTimeFormat("en-CA", {
+  timeZone: CLINIC_TIMEZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  hourCycle: "h23",
+});
+
+// Calendar date (YYYY-MM-DD) and hour of a timestamp in the clinic's timezone
+function clinicDateTime(timestamp: string): { date: string; hour: number } {
+  const parts = Object.fromEntries(
+    clinicDateTimeFormat
+      .formatToParts(new Date(timestamp))
+      .map((part) => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: parseInt(parts.hour, 10),
+  };
+}
+
+function minutesBetween(from: string, to: string): number {
+  return (Date.parse(to) - Date.parse(from)) / MINUTE_MS;
+}
+
+// Queue events (see events.ts)
+
+// Payloads go through JSON, as they do in the Postgres backend
+function publishQueueEvent(type: QueueEventType, data: unknown): void {
+  queueEvents.push({
+    id: nextId("queueEvents"),
+    type,
+    data: JSON.parse(JSON.stringify(data)),
+    createdAt: now(),
+  });
+  onQueueEvents?.();
+}
+
+async function getLatestEventId(): Promise<number> {
+  return state.lastIds.queueEvents;
+}
+
+async function getOldestEventId(): Promise<number | null> {
+  return queueEvents.length > 0 ? queueEvents[0].id : null;
+}
+
+async function getEventsSince(lastId: number): Promise<QueueEvent[]> {
+  return queueEvents.filter((event) => event.id > lastId);
+}
+
+async function pruneEvents(retentionHours: number): Promise<void> {
+  const cutoff = Date.now() - retentionHours * 60 * MINUTE_MS;
+  while (queueEvents.length > 0 && Date.parse(queueEvents[0].createdAt) < cutoff) {
+    queueEvents.shift();
+  }
+}
+
+async function listen(onEvents: () => void): Promise<void> {
+  onQueueEvents = onEvents;
+}
+
+// User functions
+
+function toUserRecord(u: UserWithPassword): UserRecord {
+  return {
+    id: u.id,
+    name: u.name,
+    email: u.email,
+    role: u.role,
+    disabled: u.disabled,
+    // Missing in files written before forced password changes existed
+    mustChangePassword: u.mustChangePassword ?? false,
+  };
+}
+
+function findUser(user_id: number): UserWithPassword | undefined {
+  return state.users.find((u) => u.id === user_id);
+}
+
+async function createUser(
+  name: string,
+  email: string,
+  password: string,
+  role: string = "user",
+  mustChangePassword: boolean = false
+): Promise<UserRecord> {
+  const hashedPassword = await hashPassword(password);
+
+  if (state.users.some((u) => u.email === email)) {
+    throw new Error("Email already exists");
+  }
+  const user: UserWithPassword = {
+    id: nextId("users"),
+    name,
+    email,
+    password: hashedPassword,
+    role,
+    disabled: false,
+    mustChangePassword,
+  };
+  state.users.push(user);
+  persist();
+  return toUserRecord(user);
+}
+
+async function getUserByEmail(email: string): Promise<UserWithPassword | null> {
+  const user = state.users.find((u) => u.email === email);
+  return user ? { ...toUserRecord(user), password: user.password } : null;
+}
+
+async function getUserById(user_id: number): Promise<UserRecord | null> {
+  const user = findUser(user_id);
+  return user ? toUserRecord(user) : null;
+}
+
+async function getAllUsers(): Promise<UserRecord[]> {
+  return [...state.users].sort((a, b) => a.id - b.id).map(toUserRecord);
+}
+
+// Returns true when removing admin rights from user_id would leave the clinic
+// without any enabled admin account
+function isLastActiveAdmin(user_id: number): boolean {
+  return !state.users.some(
+    (u) => u.role === "admin" && !u.disabled && u.id !== user_id
+  );
+}
+
+async function updateUserRole(
+  user_id: number,
+  role: string,
+  audit: AuditContext | null = null
+): Promise<[UserRecord | null, string | null]> {
+  const user = findUser(user_id);
+  if (!user) {
+    return [null, "not_found"];
+  }
+  if (user.role === "admin" && role !== "admin" && isLastActiveAdmin(user_id)) {
+    return [null, "last_admin"];
+  }
+
+  const previousRole = user.role;
+  user.role = role;
+  auditChange(audit, {
+    action: AuditAction.UserRoleChange,
+    targetType: "user",
+    targetId: user_id,
+    before: { role: previousRole },
+    after: { role },
+  });
+  persist();
+  return [toUserRecord(user), null];
+}
+
+async function setUserDisabled(
+  user_id: number,
+  disabled: boolean,
+  audit: AuditContext | null = null
+): Promise<[UserRecord | null, string | null]> {
+  const user = findUser(user_id);
+  if (!user) {
+    return [null, "not_found"];
+  }
+  if (disabled && user.role === "admin" && isLastActiveAdmin(user_id)) {
+    return [null, "last_admin"];
+  }
+
+  const wasDisabled = user.disabled;
+  user.disabled = disabled;
+  auditChange(audit, {
+    action: disabled ? AuditAction.UserDisable : AuditAction.UserEnable,
+    targetType: "user",
+    targetId: user_id,
+    before: { disabled: wasDisabled },
+    after: { disabled },
+  });
+  persist();
+  return [toUserRecord(user), null];
+}
+
+async function deleteUser(
+  user_id: number,
+  audit: AuditContext | null = null
+): Promise<string | null> {
+  const user = findUser(user_id);
+  if (!user) {
+    return "not_found";
+  }
+  if (user.role === "admin" && isLastActiveAdmin(user_id)) {
+    return "last_admin";
+  }
+
+  state.users = state.users.filter((u) => u.id !== user_id);
+  state.sessions = state.sessions.filter((s) => s.userId !== user_id);
+  state.passwordResetTokens = state.passwordResetTokens.filter((t) => t.userId !== user_id);
+  state.twoFactor = state.twoFactor.filter((t) => t.userId !== user_id);
+  state.recoveryCodes = state.recoveryCodes.filter((c) => c.userId !== user_id);
+  // Same as the ON DELETE SET NULL foreign keys in Postgres
+  for (const patient of allVisits()) {
+    if (patient.claimedBy === user_id) {
+      patient.claimedBy = null;
+    }
+  }
+  for (const change of state.statusHistory) {
+    if (change.changedBy === user_id) {
+      change.changedBy = null;
+    }
+  }
+  for (const event of state.lockoutEvents) {
+    if (event.userId === user_id) {
+      event.userId = null;
+    }
+    if (event.unlockedBy === user_id) {
+      event.unlockedBy = null;
+    }
+  }
+  for (const setting of state.settings) {
+    if (setting.updatedBy === user_id) {
+      setting.updatedBy = null;
+    }
+  }
+  auditChange(audit, {
+    action: AuditAction.UserDelete,
+    targetType: "user",
+    targetId: user_id,
+    before: { name: user.name, email: user.email, role: user.role },
+    after: null,
+  });
+  persist();
+  return null;
+}
+
+async function updatePassword(
+  user_id: number,
+  password: string,
+  mustChangePassword: boolean = false
+): Promise<UserRecord | null> {
+  const hashedPassword = await hashPassword(password);
+  const user = findUser(user_id);
+  if (!user) {
+    return null;
+  }
+
+  user.password = hashedPassword;
+  user.mustChangePassword = mustChangePassword;
+  persist();
+  return toUserRecord(user);
+}
+
+async function setMustChangePassword(
+  user_id: number,
+  mustChangePassword: boolean
+): Promise<void> {
+  const user = findUser(user_id);
+  if (user) {
+    user.mustChangePassword = mustChangePassword;
+    persist();
+  }
+}
+
+// Password reset functions
+
+async function createResetToken(
+  user_id: number,
+  tokenHash: string,
+  expiresAt: string
+): Promise<void> {
+  state.passwordResetTokens = state.passwordResetTokens.filter(
+    (t) => t.userId !== user_id || t.usedAt !== null
+  );
+  state.passwordResetTokens.push({
+    id: nextId("passwordResetTokens"),
+    userId: user_id,
+    tokenHash,
+    createdAt: now(),
+    expiresAt: toIsoTimestamp(expiresAt) as string,
+    usedAt: null,
+  });
+  persist();
+}
+
+async function consumeResetToken(tokenHash: string): Promise<number | null> {
+  const token = state.passwordResetTokens.find(
+    (t) => t.tokenHash === tokenHash && t.usedAt === null && Date.parse(t.expiresAt) > Date.now()
+  );
+  if (!token) {
+    return null;
+  }
+
+  token.usedAt = now();
+  persist();
+  return token.userId;
+}
+
+// Mail outbox functions
+
+async function addMessage(message: MailMessage): Promise<OutboxMessage> {
+  const stored: OutboxMessage = {
+    id: nextId("outbox"),
+    from: message.from,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    createdAt: toIsoTimestamp(now()) as string,
+  };
+  state.outbox.push(stored);
+  persist();
+  return { ...stored };
+}
+
+async function getMessages(limit: number): Promise<OutboxMessage[]> {
+  return state.outbox
+    .slice(-limit)
+    .reverse()
+    .map((m) => ({ ...m }));
+}
+
+// Login attempt functions
+
+function findAttempt(scope: LoginAttemptScope, key: string): LoginAttempt | undefined {
+  return state.loginAttempts.find((a) => a.scope === scope && a.key === key);
+}
+
+function toLoginAttempt(a: LoginAttempt): LoginAttempt {
+  return {
+    ...a,
+    lastFailureAt: toIsoTimestamp(a.lastFailureAt) as string,
+    lockedUntil: toIsoTimestamp(a.lockedUntil),
+  };
+}
+
+function toLockoutEvent(e: LockoutEvent): LockoutEvent {
+  return {
+    ...e,
+    lockedUntil: toIsoTimestamp(e.lockedUntil) as string,
+    createdAt: toIsoTimestamp(e.createdAt) as string,
+    unlockedAt: toIsoTimestamp(e.unlockedAt),
+  };
+}
+
+async function getAttempt(
+  scope: LoginAttemptScope,
+  key: string
+): Promise<LoginAttempt | null> {
+  const attempt = findAttempt(scope, key);
+  return attempt ? toLoginAttempt(attempt) : null;
+}
+
+async function recordFailure(
+  scope: LoginAttemptScope,
+  key: string,
+  windowMinutes: number
+): Promise<LoginAttempt> {
+  const timestamp = now();
+  let attempt = findAttempt(scope, key);
+  if (!attempt) {
+    attempt = { scope, key, failures: 1, lastFailureAt: timestamp, lockedUntil: null };
+    state.loginAttempts.push(attempt);
+  } else {
+    const stale = Date.parse(attempt.lastFailureAt) < Date.now() - windowMinutes * MINUTE_MS;
+    const locked = attempt.lockedUntil !== null && Date.parse(attempt.lockedUntil) > Date.now();
+    attempt.failures = stale && !locked ? 1 : attempt.failures + 1;
+    attempt.lastFailureAt = timestamp;
+  }
+  persist();
+  return toLoginAttempt(attempt);
+}
+
+async function clearAttempts(scope: LoginAttemptScope, key: string): Promise<void> {
+  const before = state.loginAttempts.length;
+  state.loginAttempts = state.loginAttempts.filter((a) => a.scope !== scope || a.key !== key);
+  if (state.loginAttempts.length !== before) {
+    persist();
+  }
+}
+
+async function lockOut(
+  scope: LoginAttemptScope,
+  key: string,
+  lockedUntil: string,
+  userId: number | null
+): Promise<LockoutEvent> {
+  const attempt = findAttempt(scope, key);
+  if (attempt) {
+    attempt.lockedUntil = lockedUntil;
+  }
+  const event: LockoutEvent = {
+    id: nextId("lockoutEvents"),
+    scope,
+    key,
+    userId,
+    failures: attempt?.failures ?? 0,
+    lockedUntil,
+    createdAt: now(),
+    unlockedAt: null,
+    unlockedBy: null,
+  };
+  state.lockoutEvents.push(event);
+  persist();
+  return toLockoutEvent(event);
+}
+
+async function unlock(
+  scope: LoginAttemptScope,
+  key: string,
+  unlockedBy: number | null
+): Promise<boolean> {
+  const hadAttempts = findAttempt(scope, key) !== undefined;
+  state.loginAttempts = state.loginAttempts.filter((a) => a.scope !== scope || a.key !== key);
+
+  const openEvents = state.lockoutEvents.filter(
+    (e) =>
+      e.scope === scope &&
+      e.key === key &&
+      e.unlockedAt === null &&
+      Date.parse(e.lockedUntil) > Date.now()
+  );
+  const timestamp = now();
+  for (const event of openEvents) {
+    event.unlockedAt = timestamp;
+    event.unlockedBy = unlockedBy;
+  }
+  persist();
+  return hadAttempts || openEvents.length > 0;
+}
+
+async function getLockoutEvents(limit: number): Promise<LockoutEvent[]> {
+  return state.lockoutEvents.slice(-limit).reverse().map(toLockoutEvent);
+}
+
+// Two-factor functions
+
+function toTwoFactor(t: TwoFactorRecord): TwoFactorRecord {
+  return {
+    ...t,
+    enabledAt: toIsoTimestamp(t.enabledAt),
+    createdAt: toIsoTimestamp(t.createdAt) as string,
+  };
+}
+
+function setRecoveryCodes(user_id: number, recoveryCodeHashes: string[]): void {
+  state.recoveryCodes = state.recoveryCodes.filter((c) => c.userId !== user_id);
+  for (const codeHash of recoveryCodeHashes) {
+    state.recoveryCodes.push({
+      id: nextId("recoveryCodes"),
+      userId: user_id,
+      codeHash,
+      usedAt: null,
+    });
+  }
+}
+
+async function getTwoFactor(user_id: number): Promise<TwoFactorRecord | null> {
+  const record = state.twoFactor.find((t) => t.userId === user_id);
+  return record ? toTwoFactor(record) : null;
+}
+
+async function saveSecret(user_id: number, secret: string): Promise<TwoFactorRecord> {
+  state.twoFactor = state.twoFactor.filter((t) => t.userId !== user_id);
+  state.recoveryCodes = state.recoveryCodes.filter((c) => c.userId !== user_id);
+  const record: TwoFactorRecord = {
+    userId: user_id,
+    secret,
+    enabledAt: null,
+    lastUsedStep: null,
+    createdAt: now(),
+  };
+  state.twoFactor.push(record);
+  persist();
+  return toTwoFactor(record);
+}
+
+async function enableTwoFactor(
+  user_id: number,
+  step: number,
+  recoveryCodeHashes: string[]
+): Promise<void> {
+  const record = state.twoFactor.find((t) => t.userId === user_id);
+  if (record) {
+    record.enabledAt = now();
+    record.lastUsedStep = step;
+  }
+  setRecoveryCodes(user_id, recoveryCodeHashes);
+  persist();
+}
+
+async function useStep(user_id: number, step: number): Promise<boolean> {
+  const record = state.twoFactor.find((t) => t.userId === user_id);
+  if (!record || (record.lastUsedStep !== null && record.lastUsedStep >= step)) {
+    return false;
+  }
+  record.lastUsedStep = step;
+  persist();
+  return true;
+}
+
+async function replaceRecoveryCodes(
+  user_id: number,
+  recoveryCodeHashes: string[]
+): Promise<void> {
+  setRecoveryCodes(user_id, recoveryCodeHashes);
+  persist();
+}
+
+async function useRecoveryCode(user_id: number, codeHash: string): Promise<boolean> {
+  const code = state.recoveryCodes.find(
+    (c) => c.userId === user_id && c.codeHash === codeHash && c.usedAt === null
+  );
+  if (!code) {
+    return false;
+  }
+  code.usedAt = now();
+  persist();
+  return true;
+}
+
+async function countRecoveryCodes(user_id: number): Promise<number> {
+  return state.recoveryCodes.filter((c) => c.userId === user_id && c.usedAt === null).length;
+}
+
+async function disableTwoFactor(user_id: number): Promise<boolean> {
+  const existed = state.twoFactor.some((t) => t.userId === user_id);
+  state.twoFactor = state.twoFactor.filter((t) => t.userId !== user_id);
+  state.recoveryCodes = state.recoveryCodes.filter((c) => c.userId !== user_id);
+  persist();
+  return existed;
+}
+
+// Settings functions
+
+async function getSetting(key: string): Promise<unknown | null> {
+  const setting = state.settings.find((s) => s.key === key);
+  return setting ? setting.value : null;
+}
+
+async function setSetting(key: string, value: unknown, updatedBy: number | null): Promise<void> {
+  state.settings = state.settings.filter((s) => s.key !== key);
+  state.settings.push({ key, value, updatedAt: now(), updatedBy });
+  persist();
+}
+
+// Audit log functions
+
+// Snapshots are copied in and out, so neither the caller's objects nor the
+// entries handed back can rewrite history
+function copySnapshot(value: unknown): unknown {
+  return value === null ? null : JSON.parse(JSON.stringify(value));
+}
+
+function toAuditEntry(e: AuditEntry): AuditEntry {
+  return {
+    ...e,
+    createdAt: toIsoTimestamp(e.createdAt) as string,
+    before: copySnapshot(e.before),
+    after: copySnapshot(e.after),
+  };
+}
+
+function storeAuditEntry(entry: NewAuditEntry): AuditEntry {
+  const stored: AuditEntry = {
+    id: nextId("auditLog"),
+    createdAt: now(),
+    ...entry,
+    before: copySnapshot(entry.before),
+    after: copySnapshot(entry.after),
+  };
+  state.auditLog.push(stored);
+  return stored;
+}
+
+// Audit entry for a change, saved together with it. Changes made without a
+// context (background jobs) are recorded with the system as the actor.
+function auditChange(
+  audit: AuditContext | null,
+  change: Omit<NewAuditEntry, keyof AuditContext>
+): void {
+  storeAuditEntry({ ...(audit ?? SYSTEM_AUDIT_CONTEXT), ...change });
+}
+
+async function recordAuditEntry(entry: NewAuditEntry): Promise<AuditEntry> {
+  const stored = storeAuditEntry(entry);
+  persist();
+  return toAuditEntry(stored);
+}
+
+async function queryAuditLog(filter: AuditFilter): Promise<AuditEntry[]> {
+  const from = filter.from !== undefined ? Date.parse(filter.from) : null;
+  const to = filter.to !== undefined ? Date.parse(filter.to) : null;
+  const matches: AuditEntry[] = [];
+  for (let i = state.auditLog.length - 1; i >= 0 && matches.length < filter.limit; i--) {
+    const e = state.auditLog[i];
+    const createdAt = Date.parse(e.createdAt);
+    if (
+      (filter.actorId === undefined || e.actorId === filter.actorId) &&
+      (filter.patientId === undefined ||
+        (e.targetType === "patient" && e.targetId === filter.patientId)) &&
+      (filter.action === undefined || e.action === filter.action) &&
+      (from === null || createdAt >= from) &&
+      (to === null || createdAt < to) &&
+      (filter.beforeId === undefined || e.id < filter.beforeId)
+    ) {
+      matches.push(toAuditEntry(e));
+    }
+  }
+  return matches;
+}
+
+// Session functions
+
+function toSessionRecord(s: SessionRecord): SessionRecord {
+  return {
+    ...s,
+    createdAt: toIsoTimestamp(s.createdAt) as string,
+    lastUsedAt: toIsoTimestamp(s.lastUsedAt) as string,
+    revokedAt: toIsoTimestamp(s.revokedAt),
+  };
+}
+
+function isActiveSession(session: SessionRecord): boolean {
+  return session.revokedAt === null && Date.parse(session.expiresAt) > Date.now();
+}
+
+async function createSession(session: NewSession): Promise<SessionRecord> {
+  state.sessions = state.sessions.filter(
+    (s) => s.userId !== session.userId || isActiveSession(s)
+  );
+  const timestamp = now();
+  const created: SessionRecord = {
+    id: nextId("sessions"),
+    ...session,
+    expiresAt: toIsoTimestamp(session.expiresAt) as string,
+    createdAt: timestamp,
+    lastUsedAt: timestamp,
+    revokedAt: null,
+  };
+  state.sessions.push(created);
+  persist();
+  return toSessionRecord(created);
+}
+
+async function getSession(session_id: number): Promise<SessionRecord | null> {
+  const session = state.sessions.find((s) => s.id === session_id);
+  return session ? toSessionRecord(session) : null;
+}
+
+async function rotateRefreshToken(
+  session_id: number,
+  currentHash: string,
+  newHash: string,
+  expiresAt: string
+): Promise<SessionRecord | null> {
+  const session = state.sessions.find((s) => s.id === session_id);
+  if (!session || session.refreshTokenHash !== currentHash || !isActiveSession(session)) {
+    return null;
+  }
+
+  session.refreshTokenHash = newHash;
+  session.expiresAt = toIsoTimestamp(expiresAt) as string;
+  session.lastUsedAt = now();
+  persist();
+  return toSessionRecord(session);
+}
+
+async function getActiveSessions(user_id: number): Promise<SessionRecord[]> {
+  return state.sessions
+    .filter((s) => s.userId === user_id && isActiveSession(s))
+    .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt) || b.id - a.id)
+    .map(toSessionRecord);
+}
+
+async function revokeSession(session_id: number): Promise<boolean> {
+  const session = state.sessions.find((s) => s.id === session_id);
+  if (!session || session.revokedAt !== null) {
+    return false;
+  }
+
+  session.revokedAt = now();
+  persist();
+  return true;
+}
+
+async function revokeUserSessions(
+  user_id: number,
+  exceptSessionId: number | null = null
+): Promise<number> {
+  const revoked = state.sessions.filter(
+    (s) => s.userId === user_id && isActiveSession(s) && s.id !== exceptSessionId
+  );
+  const timestamp = now();
+  for (const session of revoked) {
+    session.revokedAt = timestamp;
+  }
+  if (revoked.length > 0) {
+    persist();
+  }
+  return revoked.length;
+}
+
+// Patient functions
+
+function triagePolicy(): TriagePolicy {
+  const setting = state.settings.find((s) => s.key === TRIAGE_POLICY_SETTING);
+  return resolveTriagePolicy(setting ? setting.value : null);
+}
+
+function isEmergency(p: StoredPatient): boolean {
+  return EMERGENCY_PRIORITIES.includes(p.priority as Priority);
+}
+
+// Same order as queueOrderSql in the Postgres backend
+function queueOrder(policy: TriagePolicy = triagePolicy()) {
+  const now = Date.now();
+  return (a: StoredPatient, b: StoredPatient): number =>
+    effectiveLevel(a.priority, a.arrivalTime, policy, now) -
+      effectiveLevel(b.priority, b.arrivalTime, policy, now) ||
+    Date.parse(a.arrivalTime) - Date.parse(b.arrivalTime) ||
+    a.id - b.id;
+}
+
+function toPatient(p: StoredPatient): Patient {
+  return {
+    id: p.id,
+    name: p.name,
+    problem: p.problem,
+    priority: p.priority as Priority,
+    arrivalTime: toIsoTimestamp(p.arrivalTime) ?? "",
+    status: p.status as PatientStatus,
+    queueId: p.queueId,
+    ticketNumber: p.ticketNumber,
+    recordId: p.recordId ?? null,
+    priorityRule: p.priorityRule ?? null,
+    suggestedPriority: (p.suggestedPriority ?? null) as Priority | null,
+    claimedBy: p.claimedBy,
+    claimedAt: toIsoTimestamp(p.claimedAt),
+    seenAt: toIsoTimestamp(p.seenAt),
+    visitedAt: toIsoTimestamp(p.visitedAt),
+  };
+}
+
+function findPatient(patient_id: number): StoredPatient | undefined {
+  return state.patients.find((p) => p.id === patient_id);
+}
+
+// The live queue and the closed-out days, for history, registry and reports
+function allVisits(): StoredPatient[] {
+  return [...state.patients, ...state.archivedPatients];
+}
+
+function findVisit(patient_id: number): StoredPatient | undefined {
+  return findPatient(patient_id) ?? state.archivedPatients.find((p) => p.id === patient_id);
+}
+
+function findQueue(queue_id: number): Queue | undefined {
+  return state.queues.find((q) => q.id === queue_id);
+}
+
+function waitingPatients(queueId: number | null): StoredPatient[] {
+  return state.patients
+    .filter(
+      (p) =>
+        p.status === PatientStatus.Waiting &&
+        (queueId === null || p.queueId === queueId)
+    )
+    .sort(queueOrder());
+}
+
+// Same order as the Postgres backend: names by code point after lowercasing,
+// ties broken by id
+function compareSearchOrder(
+  a: StoredPatient,
+  b: StoredPatient,
+  sort: PatientSearchFilter["sort"]
+): number {
+  if (sort === "name") {
+    const nameA = a.name.toLowerCase();
+    const nameB = b.name.toLowerCase();
+    if (nameA !== nameB) {
+      return nameA < nameB ? -1 : 1;
+    }
+  } else {
+    const difference = Date.parse(a.arrivalTime) - Date.parse(b.arrivalTime);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return a.id - b.id;
+}
+
+async function searchPatients(
+  filter: PatientSearchFilter
+): Promise<[PatientSearchResult | null, string | null]> {
+  const direction = filter.order === "desc" ? -1 : 1;
+  const compare = (a: StoredPatient, b: StoredPatient) =>
+    direction * compareSearchOrder(a, b, filter.sort);
+
+  let after: StoredPatient | null = null;
+  if (filter.afterId !== undefined) {
+    after = findVisit(filter.afterId) ?? null;
+    if (!after) {
+      return [null, "cursor_not_found"];
+    }
+  }
+
+  const from = filter.from !== undefined ? Date.parse(filter.from) : null;
+  const to = filter.to !== undefined ? Date.parse(filter.to) : null;
+  const search = filter.search?.toLowerCase();
+  const matches = allVisits()
+    .filter((p) => {
+      const arrivalTime = Date.parse(p.arrivalTime);
+      return (
+        (filter.statuses === undefined || filter.statuses.includes(p.status)) &&
+        (filter.priorities === undefined || filter.priorities.includes(p.priority)) &&
+        (filter.queueId === undefined || p.queueId === filter.queueId) &&
+        (from === null || arrivalTime >= from) &&
+        (to === null || arrivalTime < to) &&
+        (search === undefined ||
+          p.name.toLowerCase().includes(search) ||
+          p.problem.toLowerCase().includes(search)) &&
+        (after === null || compare(p, after) > 0)
+      );
+    })
+    .sort(compare);
+
+  return [
+    {
+      patients: matches.slice(0, filter.limit).map(toPatient),
+      hasMore: matches.length > filter.limit,
+    },
+    null,
+  ];
+}
+
+async function getPatientById(patient_id: number): Promise<Patient | null> {
+  const patient = findPatient(patient_id);
+  return patient ? toPatient(patient) : null;
+}
+
+async function getAllPatients(
+  statuses: string[] = [PatientStatus.Waiting],
+  queueId: number | null = null
+): Promise<Patient[]> {
+  const policy = triagePolicy();
+  const patients = state.patients
+    .filter(
+      (p) => statuses.includes(p.status) && (queueId === null || p.queueId === queueId)
+    )
+    .sort(queueOrder(policy))
+    .map((p) => annotateTriage(toPatient(p), policy));
+
+  if (patients.some((p) => p.status === PatientStatus.Waiting)) {
+    const estimates = waitEstimates(queueId);
+    for (const patient of patients) {
+      const minutes = estimates.get(patient.id);
+      if (minutes !== undefined) {
+        patient.estimatedWaitMinutes = minutes;
+      }
+    }
+  }
+  return patients;
+}
+
+// Wait estimation inputs (see waitTime.ts)
+
+// Latest time the patient moved to toStatus at or before the given time
+function latestChangeTo(
+  patient_id: number,
+  toStatus: PatientStatus,
+  notAfter: number
+): number | null {
+  let latest: number | null = null;
+  for (const change of state.statusHistory) {
+    const changedAt = Date.parse(change.changedAt);
+    if (
+      change.patientId === patient_id &&
+      change.toStatus === toStatus &&
+      changedAt <= notAfter &&
+      (latest === null || changedAt > latest)
+    ) {
+      latest = changedAt;
+    }
+  }
+  return latest;
+}
+
+// Each visit in the window paired with the latest time the consultation
+// started, preferring InConsultation over Called
+function loadWaitTimeProfile(): WaitTimeProfile {
+  const cached = getCachedWaitTimeProfile();
+  if (cached) {
+    return cached;
+  }
+
+  const windowStart = Date.now() - WAIT_ESTIMATE_WINDOW_DAYS * DAY_MS;
+  const totals = new Map<string, ConsultationAggregate>();
+  for (const visit of state.statusHistory) {
+    const visitedAt = Date.parse(visit.changedAt);
+    const patient = findVisit(visit.patientId);
+    if (visit.toStatus !== PatientStatus.Visited || visitedAt < windowStart || !patient) {
+      continue;
+    }
+
+    const startedAt =
+      latestChangeTo(visit.patientId, PatientStatus.InConsultation, visitedAt) ??
+      latestChangeTo(visit.patientId, PatientStatus.Called, visitedAt);
+    if (startedAt === null) {
+      continue;
+    }
+    const minutes = (visitedAt - startedAt) / MINUTE_MS;
+    if (minutes < 0 || minutes > MAX_CONSULTATION_MINUTES) {
+      continue;
+    }
+
+    const key = `${patient.queueId}:${patient.priority}`;
+    const total = totals.get(key) ?? {
+      queueId: patient.queueId,
+      priority: patient.priority,
+      averageMinutes: 0,
+      sampleCount: 0,
+    };
+    // Summed here, averaged below
+    total.averageMinutes += minutes;
+    total.sampleCount += 1;
+    totals.set(key, total);
+  }
+
+  const aggregates = [...totals.values()].map((total) => ({
+    ...total,
+    averageMinutes: total.averageMinutes / total.sampleCount,
+  }));
+  const profile = buildWaitTimeProfile(aggregates);
+  setCachedWaitTimeProfile(profile);
+  return profile;
+}
+
+function waitingEntries(queueId: number | null): WaitingEntry[] {
+  const policy = triagePolicy();
+  return waitingPatients(queueId).map((p) => ({
+    id: p.id,
+    queueId: p.queueId,
+    priority: p.priority,
+    effectiveLevel: effectiveLevel(p.priority, p.arrivalTime, policy),
+  }));
+}
+
+// Number of distinct staff who recently called, started or finished a
+// consultation in each queue
+function activeStaff(queueId: number | null): Map<number, number> {
+  const since = Date.now() - ACTIVE_STAFF_WINDOW_MINUTES * MINUTE_MS;
+  const statuses: string[] = [
+    PatientStatus.Called,
+    PatientStatus.InConsultation,
+    PatientStatus.Visited,
+  ];
+  const staffByQueue = new Map<number, Set<number>>();
+
+  for (const change of state.statusHistory) {
+    const patient = findVisit(change.patientId);
+    if (
+      !patient ||
+      change.changedBy === null ||
+      !statuses.includes(change.toStatus) ||
+      Date.parse(change.changedAt) < since ||
+      (queueId !== null && patient.queueId !== queueId)
+    ) {
+      continue;
+    }
+    const staff = staffByQueue.get(patient.queueId) ?? new Set<number>();
+    staff.add(change.changedBy);
+    staffByQueue.set(patient.queueId, staff);
+  }
+
+  const counts = new Map<number, number>();
+  for (const [id, staff] of staffByQueue) {
+    counts.set(id, staff.size);
+  }
+  return counts;
+}
+
+function waitEstimates(queueId: number | null): Map<number, number> {
+  return estimateWaits(
+    waitingEntries(queueId),
+    loadWaitTimeProfile(),
+    activeStaff(queueId)
+  );
+}
+
+// Allocate the next ticket number for today, e.g. "E-004"
+function nextTicketNumber(priority: string): string {
+  const prefix = ticketPrefix(priority);
+  const key = `${clinicDateTime(now()).date}:${prefix}`;
+  const number = (state.ticketCounters[key] ?? 0) + 1;
+  state.ticketCounters[key] = number;
+  return formatTicketNumber(prefix, number);
+}
+
+function recordStatusChange(
+  patient_id: number,
+  fromStatus: string | null,
+  toStatus: string,
+  changedBy: number | null
+): void {
+  state.statusHistory.push({
+    id: nextId("statusHistory"),
+    patientId: patient_id,
+    fromStatus,
+    toStatus,
+    changedBy,
+    changedAt: now(),
+  });
+}
+
+function publishStatusChanged(patient: StoredPatient, fromStatus: string): void {
+  publishQueueEvent(QueueEventType.StatusChanged, {
+    patientId: patient.id,
+    fromStatus,
+    toStatus: patient.status,
+    patient: toPatient(patient),
+  });
+  publishStatsChanged(patient.queueId);
+}
+
+// Clinic-wide counters plus those of the queue that just changed
+function publishStatsChanged(queueId: number): void {
+  publishQueueEvent(QueueEventType.StatsChanged, {
+    ...computeStats(null),
+    queueId,
+    queueStats: computeStats(queueId),
+  });
+}
+
+interface NewPatient {
+  name: string;
+  problem: string;
+  priority: string;
+  queueId: number;
+  arrivalTime: string;
+  recordId: number | null;
+  ruleMatch: PriorityRuleMatch | null;
+}
+
+// Adds a waiting patient with the next ticket number of the day. Shared by
+// registration and appointment check-in; the caller persists.
+function recordHasActiveVisit(record_id: number): boolean {
+  return state.patients.some(
+    (p) => p.recordId === record_id && ACTIVE_PATIENT_STATUSES.includes(p.status as PatientStatus)
+  );
+}
+
+function insertPatient(
+  fields: NewPatient,
+  hashedSecret: string,
+  createdBy: number | null,
+  audit: AuditContext | null
+): Patient {
+  if (!findQueue(fields.queueId)) {
+    throw new Error(`Queue ${fields.queueId} does not exist`);
+  }
+  const stored: StoredPatient = {
+    id: nextId("patients"),
+    name: fields.name,
+    problem: fields.problem,
+    priority: fields.priority,
+    arrivalTime: fields.arrivalTime,
+    status: PatientStatus.Waiting,
+    queueId: fields.queueId,
+    ticketNumber: nextTicketNumber(fields.priority),
+    ticketSecret: hashedSecret,
+    recordId: fields.recordId,
+    priorityRule: fields.ruleMatch ? fields.ruleMatch.rule : null,
+    suggestedPriority: fields.ruleMatch ? fields.ruleMatch.suggestedPriority : null,
+    claimedBy: null,
+    claimedAt: null,
+    seenAt: null,
+    visitedAt: null,
+  };
+  state.patients.push(stored);
+  recordStatusChange(stored.id, null, PatientStatus.Waiting, createdBy);
+
+  const patient = toPatient(stored);
+  auditChange(audit, {
+    action: AuditAction.PatientCreate,
+    targetType: "patient",
+    targetId: patient.id,
+    before: null,
+    after: patient,
+  });
+  publishQueueEvent(QueueEventType.PatientAdded, patient);
+  publishStatsChanged(patient.queueId);
+  return patient;
+}
+
+async function addPatient(
+  name: string,
+  problem: string,
+  priority: string,
+  queueId: number,
+  createdBy: number | null = null,
+  recordId: number | null = null,
+  ruleMatch: PriorityRuleMatch | null = null,
+  dailyLimit: number | null = null,
+  audit: AuditContext | null = null
+): Promise<[RegisteredPatient | null, string | null]> {
+  const ticketSecret = generateTicketSecret();
+  const hashedSecret = await hashPassword(ticketSecret);
+
+  if (recordId !== null && recordHasActiveVisit(recordId)) {
+    return [null, "active_visit"];
+  }
+  const arrivalTime = toIsoTimestamp(new Date()) as string;
+  if (dailyLimit !== null && dailyLimitReached(priority, arrivalTime, dailyLimit)) {
+    return [null, "capacity_full"];
+  }
+  const patient = insertPatient(
+    {
+      name,
+      problem,
+      priority,
+      queueId,
+      arrivalTime,
+      recordId,
+      ruleMatch,
+    },
+    hashedSecret,
+    createdBy,
+    audit
+  );
+  persist();
+
+  return [{ ...patient, ticketSecret }, null];
+}
+
+// Move a patient to toStatus if their current status is one of allowedFrom
+function applyStatusTransition(
+  patient_id: number,
+  toStatus: PatientStatus,
+  allowedFrom: PatientStatus[],
+  changedBy: number | null,
+  audit: AuditContext | null
+): [StoredPatient | null, string | null] {
+  const patient = findPatient(patient_id);
+  if (!patient) {
+    return [null, "not_found"];
+  }
+  if (!allowedFrom.includes(patient.status as PatientStatus)) {
+    return [patient, "invalid_transition"];
+  }
+
+  const fromStatus = patient.status;
+  const timestamp = now();
+  patient.status = toStatus;
+  if (toStatus === PatientStatus.InConsultation || toStatus === PatientStatus.Visited) {
+    patient.seenAt = patient.seenAt ?? timestamp;
+  }
+  if (toStatus === PatientStatus.Visited) {
+    patient.visitedAt = timestamp;
+  }
+  recordStatusChange(patient_id, fromStatus, toStatus, changedBy);
+  auditChange(audit, {
+    action: AuditAction.PatientStatusChange,
+    targetType: "patient",
+    targetId: patient_id,
+    before: { status: fromStatus },
+    after: { status: toStatus },
+  });
+  publishStatusChanged(patient, fromStatus);
+  persist();
+
+  return [patient, null];
+}
+
+async function transitionPatientStatus(
+  patient_id: number,
+  toStatus: PatientStatus,
+  changedBy: number | null = null,
+  audit: AuditContext | null = null
+): Promise<[Patient | null, string | null]> {
+  const [patient, err] = applyStatusTransition(
+    patient_id,
+    toStatus,
+    statusesAllowedInto(toStatus),
+    changedBy,
+    audit
+  );
+  if (err) {
+    return [null, err];
+  }
+  return [toPatient(patient as StoredPatient), null];
+}
+
+async function markVisited(
+  patient_id: number,
+  changedBy: number | null = null,
+  audit: AuditContext | null = null
+): Promise<[Patient | null, string | null]> {
+  const [patient, err] = applyStatusTransition(
+    patient_id,
+    PatientStatus.Visited,
+    ACTIVE_PATIENT_STATUSES,
+    changedBy,
+    audit
+  );
+
+  if (err === "invalid_transition" && patient?.status === PatientStatus.Visited) {
+    return [null, "already_visited"];
+  }
+  if (err) {
+    return [null, err];
+  }
+  return [toPatient(patient as StoredPatient), null];
+}
+
+// Runs without awaiting, so concurrent callers can never claim the same patient
+async function claimNextPatient(
+  user_id: number,
+  queueId: number | null = null,
+  audit: AuditContext | null = null
+): Promise<Patient | null> {
+  const patient = waitingPatients(queueId)[0];
+  if (!patient) {
+    return null;
+  }
+
+  patient.status = PatientStatus.Called;
+  patient.claimedBy = user_id;
+  patient.claimedAt = now();
+  recordStatusChange(patient.id, PatientStatus.Waiting, PatientStatus.Called, user_id);
+  auditChange(audit, {
+    action: AuditAction.PatientStatusChange,
+    targetType: "patient",
+    targetId: patient.id,
+    before: { status: PatientStatus.Waiting },
+    after: { status: PatientStatus.Called, claimedBy: user_id },
+  });
+  publishStatusChanged(patient, PatientStatus.Waiting);
+  persist();
+
+  return toPatient(patient);
+}
+
+async function transferPatient(
+  patient_id: number,
+  queueId: number,
+  changedBy: number | null = null,
+  audit: AuditContext | null = null
+): Promise<[Patient | null, string | null]> {
+  const stored = findPatient(patient_id);
+  if (!stored) {
+    return [null, "not_found"];
+  }
+  if (stored.status !== PatientStatus.Waiting) {
+    return [null, "not_waiting"];
+  }
+  if (stored.queueId === queueId) {
+    return [null, "same_queue"];
+  }
+  if (!findQueue(queueId)?.active) {
+    return [null, "queue_not_found"];
+  }
+
+  const fromQueueId = stored.queueId;
+  stored.queueId = queueId;
+
+  const patient = toPatient(stored);
+  auditChange(audit, {
+    action: AuditAction.PatientTransfer,
+    targetType: "patient",
+    targetId: patient.id,
+    before: { queueId: fromQueueId },
+    after: { queueId },
+  });
+  publishQueueEvent(QueueEventType.PatientTransferred, {
+    patientId: patient.id,
+    fromQueueId,
+    toQueueId: queueId,
+    transferredBy: changedBy,
+    patient,
+  });
+  publishStatsChanged(fromQueueId);
+  publishStatsChanged(queueId);
+  persist();
+
+  return [patient, null];
+}
+
+async function updatePatient(
+  patient_id: number,
+  update: PatientUpdateFields,
+  changedBy: number | null = null,
+  dailyLimit: number | null = null,
+  audit: AuditContext | null = null
+): Promise<[Patient | null, string | null]> {
+  const stored = findPatient(patient_id);
+  if (!stored) {
+    return [null, "not_found"];
+  }
+  if (!ACTIVE_PATIENT_STATUSES.includes(stored.status as PatientStatus)) {
+    return [null, "not_active"];
+  }
+  // Moving to another triage level takes a place on the patient's day
+  if (
+    dailyLimit !== null &&
+    update.priority !== undefined &&
+    priorityLevel(update.priority) !== priorityLevel(stored.priority) &&
+    dailyLimitReached(update.priority, stored.arrivalTime, dailyLimit)
+  ) {
+    return [null, "capacity_full"];
+  }
+
+  const previous = toPatient(stored);
+  stored.name = update.name ?? stored.name;
+  stored.problem = update.problem ?? stored.problem;
+  stored.priority = update.priority ?? stored.priority;
+
+  const patient = toPatient(stored);
+  auditChange(audit, {
+    action: AuditAction.PatientUpdate,
+    targetType: "patient",
+    targetId: patient.id,
+    ...auditedUpdate(update, previous, patient),
+  });
+  publishQueueEvent(QueueEventType.PatientUpdated, {
+    patientId: patient.id,
+    updatedBy: changedBy,
+    patient,
+  });
+  if (patient.priority !== previous.priority) {
+    publishStatsChanged(stored.queueId);
+  }
+  persist();
+
+  return [patient, null];
+}
+
+async function undoVisit(
+  patient_id: number,
+  windowMinutes: number,
+  changedBy: number | null = null,
+  audit: AuditContext | null = null
+): Promise<[Patient | null, string | null]> {
+  const stored = findPatient(patient_id);
+  if (!stored) {
+    return [null, "not_found"];
+  }
+  if (stored.status !== PatientStatus.Visited) {
+    return [null, "not_visited"];
+  }
+  if (
+    stored.visitedAt &&
+    Date.parse(stored.visitedAt) < Date.now() - windowMinutes * MINUTE_MS
+  ) {
+    return [null, "too_late"];
+  }
+  // The patient may have registered again since the visit
+  if (stored.recordId && recordHasActiveVisit(stored.recordId)) {
+    return [null, "active_visit"];
+  }
+
+  const visit = [...state.statusHistory]
+    .reverse()
+    .find(
+      (change) => change.patientId === patient_id && change.toStatus === PatientStatus.Visited
+    );
+  const restoredStatus = previousActiveStatus(visit?.fromStatus ?? null);
+
+  const visitedAt = toIsoTimestamp(stored.visitedAt);
+  stored.status = restoredStatus;
+  stored.visitedAt = null;
+  if (restoredStatus !== PatientStatus.InConsultation) {
+    stored.seenAt = null;
+  }
+  // A patient back to waiting is no longer claimed, and one back with a
+  // doctor keeps the claim only while that doctor's account is enabled
+  if (restoredStatus === PatientStatus.Waiting) {
+    stored.claimedBy = null;
+    stored.claimedAt = null;
+  } else if (stored.claimedBy !== null && findUser(stored.claimedBy)?.disabled !== false) {
+    stored.claimedBy = null;
+  }
+  recordStatusChange(patient_id, PatientStatus.Visited, restoredStatus, changedBy);
+  auditChange(audit, {
+    action: AuditAction.PatientUndoVisit,
+    targetType: "patient",
+    targetId: patient_id,
+    before: { status: PatientStatus.Visited, visitedAt },
+    after: { status: restoredStatus, visitedAt: null },
+  });
+  publishStatusChanged(stored, PatientStatus.Visited);
+  persist();
+
+  return [toPatient(stored), null];
+}
+
+async function getPatientStatusHistory(
+  patient_id: number
+): Promise<PatientStatusChange[] | null> {
+  if (!findVisit(patient_id)) {
+    return null;
+  }
+
+  return state.statusHistory
+    .filter((change) => change.patientId === patient_id)
+    .sort(
+      (a, b) => Date.parse(a.changedAt) - Date.parse(b.changedAt) || a.id - b.id
+    )
+    .map((change) => ({
+      id: change.id,
+      patientId: change.patientId,
+      fromStatus: change.fromStatus as PatientStatus | null,
+      toStatus: change.toStatus as PatientStatus,
+      changedBy: change.changedBy,
+      changedAt: toIsoTimestamp(change.changedAt) as string,
+    }));
+}
+
+// Data for the public waiting-room screen: ticket numbers, queue names and
+// positions only
+async function getDisplayBoard(queueId: number | null = null): Promise<DisplayBoard> {
+  const serving: string[] = [PatientStatus.Called, PatientStatus.InConsultation];
+  const nowServing = state.patients
+    .filter(
+      (p) => serving.includes(p.status) && (queueId === null || p.queueId === queueId)
+    )
+    .sort((a, b) => {
+      // claimedAt DESC NULLS LAST, id DESC
+      if (a.claimedAt !== b.claimedAt) {
+        if (a.claimedAt === null) return 1;
+        if (b.claimedAt === null) return -1;
+        return Date.parse(b.claimedAt) - Date.parse(a.claimedAt);
+      }
+      return b.id - a.id;
+    })
+    .map((p) => ({
+      ticketNumber: p.ticketNumber,
+      queueId: p.queueId,
+      queueName: findQueue(p.queueId)?.name ?? "",
+      status: p.status as PatientStatus,
+    }));
+
+  const positions = new Map<number, number>();
+  const waiting = waitingPatients(queueId)
+    .map((p) => {
+      const position = (positions.get(p.queueId) ?? 0) + 1;
+      positions.set(p.queueId, position);
+      return {
+        ticketNumber: p.ticketNumber,
+        queueId: p.queueId,
+        queueName: findQueue(p.queueId)?.name ?? "",
+        position,
+      };
+    })
+    .sort((a, b) => a.queueId - b.queueId || a.position - b.position);
+
+  return {
+    nowServing,
+    waiting,
+    updatedAt: toIsoTimestamp(new Date()) as string,
+  };
+}
+
+// Self-service lookup for a patient holding a ticket slip. Ticket numbers
+// restart daily, so the most recent tickets with that number are checked
+// against the secret.
+async function getTicketStatus(
+  ticketNumber: string,
+  secret: string
+): Promise<TicketStatus | null> {
+  const candidates = state.patients
+    .filter((p) => p.ticketNumber === ticketNumber && p.ticketSecret !== null)
+    .sort((a, b) => b.id - a.id)
+    .slice(0, 3);
+
+  let patient_id: number | null = null;
+  for (const candidate of candidates) {
+    if (await verifyPassword(secret, candidate.ticketSecret as string)) {
+      patient_id = candidate.id;
+      break;
+    }
+  }
+  const patient = patient_id === null ? undefined : findPatient(patient_id);
+  if (!patient) {
+    return null;
+  }
+
+  let position: number | null = null;
+  let patientsAhead = 0;
+  let emergenciesAhead = 0;
+  let estimatedWaitMinutes: number | null = null;
+  if (patient.status === PatientStatus.Waiting) {
+    const waiting = waitingPatients(patient.queueId);
+    const ahead = waiting.slice(0, waiting.indexOf(patient));
+    position = ahead.length + 1;
+    patientsAhead = ahead.length;
+    emergenciesAhead = ahead.filter(isEmergency).length;
+    estimatedWaitMinutes = waitEstimates(patient.queueId).get(patient.id) ?? null;
+  }
+
+  return {
+    ticketNumber,
+    status: patient.status as PatientStatus,
+    queueName: findQueue(patient.queueId)?.name ?? "",
+    position,
+    patientsAhead,
+    emergenciesAhead,
+    estimatedWaitMinutes,
+  };
+}
+
+async function getStats(queueId: number | null = null): Promise<PatientStats> {
+  return computeStats(queueId);
+}
+
+// The day's visits counted against the daily capacity: those not cancelled
+// and not created by checking in an appointment
+function registrationsOn(date: string): StoredPatient[] {
+  const checkedIn = new Set(state.appointments.map((a) => a.patientId));
+  return allVisits().filter(
+    (p) =>
+      p.status !== PatientStatus.Cancelled &&
+      !checkedIn.has(p.id) &&
+      clinicDateTime(p.arrivalTime).date === date
+  );
+}
+
+// Whether the day's registrations at the priority's level have reached the
+// limit. Counted and inserted without awaiting in between, so registrations
+// cannot interleave.
+function dailyLimitReached(priority: string, arrivalTime: string, dailyLimit: number): boolean {
+  const priorities: string[] = prioritiesAtLevel(priorityLevel(priority));
+  const count = registrationsOn(clinicDateTime(arrivalTime).date).filter((p) =>
+    priorities.includes(p.priority)
+  ).length;
+  return count >= dailyLimit;
+}
+
+async function countRegistrations(date: string): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  for (const p of registrationsOn(date)) {
+    counts[p.priority] = (counts[p.priority] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function computeStats(queueId: number | null): PatientStats {
+  const patients = state.patients.filter(
+    (p) => queueId === null || p.queueId === queueId
+  );
+  const count = (status: PatientStatus) =>
+    patients.filter((p) => p.status === status).length;
+
+  // Clinic-wide stats estimate for the default queue, where patients
+  // registered without a queue end up
+  const activeQueueIds = state.queues.filter((q) => q.active).map((q) => q.id);
+  const estimateQueueId =
+    queueId ?? (activeQueueIds.length > 0 ? Math.min(...activeQueueIds) : null);
+  const profile = loadWaitTimeProfile();
+  const newArrivalWaitMinutes =
+    estimateQueueId === null
+      ? estimateNewArrivalWaits([], profile, 0, 1)
+      : estimateNewArrivalWaits(
+          waitingEntries(estimateQueueId),
+          profile,
+          estimateQueueId,
+          activeStaff(estimateQueueId).get(estimateQueueId) ?? 1
+        );
+
+  return {
+    totalWaiting: count(PatientStatus.Waiting),
+    totalEmergency: patients.filter(
+      (p) => p.status === PatientStatus.Waiting && isEmergency(p)
+    ).length,
+    totalVisited: count(PatientStatus.Visited),
+    totalCalled: count(PatientStatus.Called),
+    totalInConsultation: count(PatientStatus.InConsultation),
+    totalNoShow: count(PatientStatus.NoShow),
+    totalCancelled: count(PatientStatus.Cancelled),
+    totalLeftWithoutBeingSeen: count(PatientStatus.LeftWithoutBeingSeen),
+    newArrivalWaitMinutes,
+  };
+}
+
+async function importPatients(patients: SeedPatient[]): Promise<number> {
+  if (allVisits().length > 0) {
+    return 0;
+  }
+
+  const queueId = Math.min(...state.queues.map((q) => q.id));
+  for (const p of patients) {
+    state.patients.push({
+      id: p.id,
+      name: p.name,
+      problem: p.problem,
+      priority: p.priority,
+      arrivalTime: new Date(p.arrivalTime).toISOString(),
+      status: p.status,
+      queueId,
+      ticketNumber: null,
+      ticketSecret: null,
+      claimedBy: null,
+      claimedAt: null,
+      seenAt: null,
+      visitedAt: null,
+    });
+    state.lastIds.patients = Math.max(state.lastIds.patients, p.id);
+  }
+  persist();
+  return patients.length;
+}
+
+// Patient record functions
+
+function toPatientRecord(r: PatientRecord): PatientRecord {
+  return {
+    ...r,
+    createdAt: toIsoTimestamp(r.createdAt) as string,
+    updatedAt: toIsoTimestamp(r.updatedAt) as string,
+  };
+}
+
+function findRecord(record_id: number): PatientRecord | undefined {
+  return state.patientRecords.find((r) => r.id === record_id);
+}
+
+function assertNationalIdFree(nationalId: string | null | undefined, record_id: number | null) {
+  if (
+    nationalId &&
+    state.patientRecords.some((r) => r.nationalId === nationalId && r.id !== record_id)
+  ) {
+    throw new Error("A patient record with this national ID already exists");
+  }
+}
+
+async function createRecord(fields: PatientRecordFields): Promise<PatientRecord> {
+  assertNationalIdFree(fields.nationalId, null);
+  const timestamp = now();
+  const record: PatientRecord = {
+    id: nextId("patientRecords"),
+    ...fields,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+  state.patientRecords.push(record);
+  persist();
+  return toPatientRecord(record);
+}
+
+async function getRecordById(record_id: number): Promise<PatientRecord | null> {
+  const record = findRecord(record_id);
+  return record ? toPatientRecord(record) : null;
+}
+
+async function updateRecord(
+  record_id: number,
+  fields: Partial<PatientRecordFields>
+): Promise<PatientRecord | null> {
+  const record = findRecord(record_id);
+  if (!record) {
+    return null;
+  }
+  assertNationalIdFree(fields.nationalId, record_id);
+
+  record.name = fields.name ?? record.name;
+  record.dateOfBirth = fields.dateOfBirth ?? record.dateOfBirth;
+  record.phone = fields.phone ?? record.phone;
+  if (fields.nationalId !== undefined) {
+    record.nationalId = fields.nationalId;
+  }
+  record.updatedAt = now();
+  persist();
+  return toPatientRecord(record);
+}
+
+async function findRecords(filter: PatientRecordFilter): Promise<PatientRecord[]> {
+  const search = filter.search?.toLowerCase();
+  return state.patientRecords
+    .filter(
+      (r) =>
+        (search === undefined || r.name.toLowerCase().includes(search)) &&
+        (filter.phone === undefined || r.phone === filter.phone) &&
+        (filter.nationalId === undefined || r.nationalId === filter.nationalId) &&
+        (filter.dateOfBirth === undefined || r.dateOfBirth === filter.dateOfBirth)
+    )
+    .sort((a, b) => {
+      const nameA = a.name.toLowerCase();
+      const nameB = b.name.toLowerCase();
+      return nameA !== nameB ? (nameA < nameB ? -1 : 1) : a.id - b.id;
+    })
+    .slice(0, filter.limit)
+    .map(toPatientRecord);
+}
+
+async function getRecordVisits(record_id: number): Promise<Patient[]> {
+  return allVisits()
+    .filter((p) => p.recordId === record_id)
+    .sort(
+      (a, b) => Date.parse(b.arrivalTime) - Date.parse(a.arrivalTime) || b.id - a.id
+    )
+    .map(toPatient);
+}
+
+// Appointment functions
+
+function toAppointment(a: StoredAppointment): Appointment {
+  return {
+    id: a.id,
+    recordId: a.recordId,
+    name: findRecord(a.recordId)?.name ?? "",
+    queueId: a.queueId,
+    startTime: toIsoTimestamp(a.startTime) as string,
+    durationMinutes: a.durationMinutes,
+    reason: a.reason,
+    status: a.status as AppointmentStatus,
+    patientId: a.patientId,
+    createdBy: a.createdBy,
+    createdAt: toIsoTimestamp(a.createdAt) as string,
+    checkedInAt: toIsoTimestamp(a.checkedInAt),
+  };
+}
+
+function findAppointment(appointment_id: number): StoredAppointment | undefined {
+  return state.appointments.find((a) => a.id === appointment_id);
+}
+
+// Booked or checked-in appointments overlapping [start, start + duration)
+function overlappingAppointments(startTime: string, durationMinutes: number): StoredAppointment[] {
+  const start = Date.parse(startTime);
+  const end = start + durationMinutes * MINUTE_MS;
+  return state.appointments.filter(
+    (a) =>
+      (a.status === AppointmentStatus.Booked || a.status === AppointmentStatus.CheckedIn) &&
+      Date.parse(a.startTime) < end &&
+      start < Date.parse(a.startTime) + a.durationMinutes * MINUTE_MS
+  );
+}
+
+async function createAppointment(
+  fields: AppointmentFields,
+  createdBy: number | null
+): Promise<[Appointment | null, string | null]> {
+  const overlapping = overlappingAppointments(fields.startTime, fields.durationMinutes);
+  if (overlapping.some((a) => a.queueId === fields.queueId)) {
+    return [null, "queue_conflict"];
+  }
+  if (overlapping.some((a) => a.recordId === fields.recordId)) {
+    return [null, "patient_conflict"];
+  }
+
+  const appointment: StoredAppointment = {
+    id: nextId("appointments"),
+    ...fields,
+    startTime: toIsoTimestamp(fields.startTime) as string,
+    status: AppointmentStatus.Booked,
+    patientId: null,
+    createdBy,
+    createdAt: now(),
+    checkedInAt: null,
+  };
+  state.appointments.push(appointment);
+  persist();
+  return [toAppointment(appointment), null];
+}
+
+async function getAppointmentById(appointment_id: number): Promise<Appointment | null> {
+  const appointment = findAppointment(appointment_id);
+  return appointment ? toAppointment(appointment) : null;
+}
+
+async function findAppointments(filter: AppointmentFilter): Promise<Appointment[]> {
+  const queueId = filter.queueId ?? null;
+  return state.appointments
+    .filter(
+      (a) =>
+        clinicDateTime(a.startTime).date === filter.date &&
+        (queueId === null || a.queueId === queueId) &&
+        (filter.statuses === undefined || filter.statuses.includes(a.status))
+    )
+    .sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime) || a.id - b.id)
+    .map(toAppointment);
+}
+
+async function cancelAppointment(
+  appointment_id: number
+): Promise<[Appointment | null, string | null]> {
+  const appointment = findAppointment(appointment_id);
+  if (!appointment) {
+    return [null, "not_found"];
+  }
+  if (appointment.status !== AppointmentStatus.Booked) {
+    return [null, "not_booked"];
+  }
+  appointment.status = AppointmentStatus.Cancelled;
+  persist();
+  return [toAppointment(appointment), null];
+}
+
+async function checkInAppointment(
+  appointment_id: number,
+  options: AppointmentCheckInOptions,
+  changedBy: number | null,
+  audit: AuditContext | null = null
+): Promise<[CheckedInAppointment | null, string | null]> {
+  const ticketSecret = generateTicketSecret();
+  const hashedSecret = await hashPassword(ticketSecret);
+
+  const appointment = findAppointment(appointment_id);
+  if (!appointment) {
+    return [null, "not_found"];
+  }
+  if (appointment.status !== AppointmentStatus.Booked) {
+    return [null, "not_booked"];
+  }
+  const minutesToStart = (Date.parse(appointment.startTime) - Date.now()) / MINUTE_MS;
+  if (minutesToStart > options.earlyMinutes) {
+    return [null, "too_early"];
+  }
+  if (-minutesToStart > options.graceMinutes) {
+    return [null, "too_late"];
+  }
+  if (recordHasActiveVisit(appointment.recordId)) {
+    return [null, "active_visit"];
+  }
+
+  const patient = insertPatient(
+    {
+      name: findRecord(appointment.recordId)?.name ?? "",
+      problem: appointment.reason,
+      priority: options.priority,
+      queueId: appointment.queueId,
+      arrivalTime: appointment.startTime,
+      recordId: appointment.recordId,
+      ruleMatch: options.ruleMatch,
+    },
+    hashedSecret,
+    changedBy,
+    audit
+  );
+  appointment.status = AppointmentStatus.CheckedIn;
+  appointment.patientId = patient.id;
+  appointment.checkedInAt = now();
+  persist();
+
+  return [{ appointment: toAppointment(appointment), patient: { ...patient, ticketSecret } }, null];
+}
+
+async function markMissedAppointments(graceMinutes: number): Promise<number> {
+  const cutoff = Date.now() - graceMinutes * MINUTE_MS;
+  const missed = state.appointments.filter(
+    (a) => a.status === AppointmentStatus.Booked && Date.parse(a.startTime) < cutoff
+  );
+  for (const appointment of missed) {
+    appointment.status = AppointmentStatus.NoShow;
+  }
+  if (missed.length > 0) {
+    persist();
+  }
+  return missed.length;
+}
+
+// Close-out functions
+
+async function closeOutDay(
+  date: string,
+  closedBy: number | null,
+  audit: AuditContext | null = null
+): Promise<[DailySummary | null, string | null]> {
+  if (state.dailySummaries.some((s) => s.date === date)) {
+    return [null, "already_closed"];
+  }
+
+  const closing = state.patients.filter((p) => clinicDateTime(p.arrivalTime).date <= date);
+
+  // Patients still in consultation at the last close-out were counted in its
+  // summary already
+  const lastClosed = state.dailySummaries
+    .map((s) => s.date)
+    .filter((d) => d < date)
+    .sort()
+    .pop();
+  const counted = closing.filter(
+    (p) => lastClosed === undefined || clinicDateTime(p.arrivalTime).date > lastClosed
+  );
+  // Counted before the unserved are marked, so the summary shows the queue
+  // as GET /patients/stats saw it at the end of the day
+  const count = (status: PatientStatus) => counted.filter((p) => p.status === status).length;
+  const totals = {
+    totalWaiting: count(PatientStatus.Waiting),
+    totalEmergency: counted.filter((p) => p.status === PatientStatus.Waiting && isEmergency(p))
+      .length,
+    totalVisited: count(PatientStatus.Visited),
+    totalCalled: count(PatientStatus.Called),
+    totalInConsultation: count(PatientStatus.InConsultation),
+    totalNoShow: count(PatientStatus.NoShow),
+    totalCancelled: count(PatientStatus.Cancelled),
+    totalLeftWithoutBeingSeen: count(PatientStatus.LeftWithoutBeingSeen),
+  };
+
+  const changedQueues = new Set<number>();
+  let markedUnserved = 0;
+  for (const patient of closing) {
+    if (patient.status !== PatientStatus.Waiting && patient.status !== PatientStatus.Called) {
+      continue;
+    }
+    const fromStatus = patient.status;
+    patient.status = PatientStatus.LeftWithoutBeingSeen;
+    recordStatusChange(patient.id, fromStatus, patient.status, closedBy);
+    auditChange(audit, {
+      action: AuditAction.PatientStatusChange,
+      targetType: "patient",
+      targetId: patient.id,
+      before: { status: fromStatus },
+      after: { status: patient.status },
+    });
+    publishQueueEvent(QueueEventType.StatusChanged, {
+      patientId: patient.id,
+      fromStatus,
+      toStatus: patient.status,
+      patient: toPatient(patient),
+    });
+    changedQueues.add(patient.queueId);
+    markedUnserved++;
+  }
+
+  const finished = closing.filter((p) =>
+    TERMINAL_PATIENT_STATUSES.includes(p.status as PatientStatus)
+  );
+  state.patients = state.patients.filter((p) => !finished.includes(p));
+  state.archivedPatients.push(...finished);
+  for (const patient of finished) {
+    changedQueues.add(patient.queueId);
+  }
+
+  // Counters are kept per day, so the next day starts at number 1 anyway.
+  // The closed day's own counter stays: registrations later that day must
+  // not get its numbers again.
+  for (const key of Object.keys(state.ticketCounters)) {
+    if (key.split(":")[0] < date) {
+      delete state.ticketCounters[key];
+    }
+  }
+
+  const summary: DailySummary = {
+    date,
+    ...totals,
+    markedUnserved,
+    archived: finished.length,
+    closedBy,
+    closedAt: now(),
+  };
+  state.dailySummaries.push(summary);
+  auditChange(audit, {
+    action: AuditAction.DayCloseOut,
+    targetType: "queue",
+    targetId: null,
+    before: null,
+    after: summary,
+  });
+
+  for (const queueId of changedQueues) {
+    publishStatsChanged(queueId);
+  }
+  persist();
+  return [{ ...summary }, null];
+}
+
+async function markLeftoverPatients(
+  date: string,
+  audit: AuditContext | null = null
+): Promise<[number | null, string | null]> {
+  if ((await getSetting(LAST_END_OF_DAY_SETTING)) === date) {
+    return [null, "already_ended"];
+  }
+  await setSetting(LAST_END_OF_DAY_SETTING, date, null);
+
+  let marked = 0;
+  for (const patient of state.patients) {
+    if (patient.status !== PatientStatus.Waiting && patient.status !== PatientStatus.Called) {
+      continue;
+    }
+    const fromStatus = patient.status;
+    patient.status = PatientStatus.LeftWithoutBeingSeen;
+    recordStatusChange(patient.id, fromStatus, patient.status, null);
+    auditChange(audit, {
+      action: AuditAction.PatientStatusChange,
+      targetType: "patient",
+      targetId: patient.id,
+      before: { status: fromStatus },
+      after: { status: patient.status },
+    });
+    publishStatusChanged(patient, fromStatus);
+    marked++;
+  }
+  persist();
+  return [marked, null];
+}
+
+async function getDailySummary(date: string): Promise<DailySummary | null> {
+  const summary = state.dailySummaries.find((s) => s.date === date);
+  return summary ? { ...summary } : null;
+}
+
+async function getDailySummaries(range: ReportRange): Promise<DailySummary[]> {
+  return state.dailySummaries
+    .filter((s) => s.date >= range.from && s.date <= range.to)
+    .sort((a, b) => (a.date < b.date ? -1 : 1))
+    .map((s) => ({ ...s }));
+}
+
+// Queue functions
+
+async function getAllQueues(includeInactive: boolean = false): Promise<Queue[]> {
+  return state.queues
+    .filter((q) => q.active || includeInactive)
+    .sort((a, b) => a.id - b.id)
+    .map((q) => ({ ...q }));
+}
+
+async function getQueueById(queue_id: number): Promise<Queue | null> {
+  const queue = findQueue(queue_id);
+  return queue ? { ...queue } : null;
+}
+
+async function getDefaultQueue(): Promise<Queue | null> {
+  const [queue] = await getAllQueues();
+  return queue ?? null;
+}
+
+async function createQueue(
+  name: string,
+  type: string,
+  description: string | null = null
+): Promise<Queue> {
+  if (state.queues.some((q) => q.name === name)) {
+    throw new Error("Queue already exists");
+  }
+  const queue: Queue = {
+    id: nextId("queues"),
+    name,
+    type: type as QueueType,
+    description,
+    active: true,
+  };
+  state.queues.push(queue);
+  persist();
+  return { ...queue };
+}
+
+async function updateQueue(
+  queue_id: number,
+  fields: {
+    name?: string;
+    type?: string;
+    description?: string | null;
+    active?: boolean;
+  }
+): Promise<Queue | null> {
+  const queue = findQueue(queue_id);
+  if (!queue) {
+    return null;
+  }
+  if (
+    fields.name !== undefined &&
+    state.queues.some((q) => q.name === fields.name && q.id !== queue_id)
+  ) {
+    throw new Error("Queue already exists");
+  }
+
+  queue.name = fields.name ?? queue.name;
+  queue.type = (fields.type as QueueType) ?? queue.type;
+  if (fields.description !== undefined) {
+    queue.description = fields.description;
+  }
+  queue.active = fields.active ?? queue.active;
+  persist();
+  return { ...queue };
+}
+
+// Report queries (see reports.ts)
+
+// Monday of the ISO week containing date, like date_trunc('week', ...)
+function startOfWeek(date: string): string {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+}
+
+// Continuous percentile, like percentile_cont
+function percentile(values: number[], fraction: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = fraction * (sorted.length - 1);
+  const lower = Math.floor(index);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+// Patients who arrived within the range, with their clinic-local arrival time
+function arrivalsInRange(
+  range: ReportRange,
+  queueId: number | null
+): Array<{ patient: StoredPatient; date: string; hour: number }> {
+  return allVisits()
+    .filter((p) => queueId === null || p.queueId === queueId)
+    .map((patient) => ({ patient, ...clinicDateTime(patient.arrivalTime) }))
+    .filter(({ date }) => date >= range.from && date <= range.to);
+}
+
+async function getVolumeReport(
+  range: ReportRange,
+  period: ReportPeriod,
+  queueId: number | null = null
+): Promise<VolumeReportRow[]> {
+  const cohorts = new Map<string, StoredPatient[]>();
+  for (const { patient, date } of arrivalsInRange(range, queueId)) {
+    const key = period === "week" ? startOfWeek(date) : date;
+    cohorts.set(key, [...(cohorts.get(key) ?? []), patient]);
+  }
+
+  const rows: VolumeReportRow[] = [];
+  const step = period === "week" ? 7 : 1;
+  const first = period === "week" ? startOfWeek(range.from) : range.from;
+  for (let day = first; day <= range.to; day = addDays(day, step)) {
+    const cohort = cohorts.get(day) ?? [];
+    const waits = cohort
+      .filter((p) => p.visitedAt !== null)
+      .map((p) => minutesBetween(p.arrivalTime, p.visitedAt as string));
+    rows.push(
+      toVolumeReportRow({
+        period: day,
+        registered: cohort.length,
+        visited: cohort.filter((p) => p.status === PatientStatus.Visited).length,
+        emergencies: cohort.filter(isEmergency).length,
+        noShows: cohort.filter((p) => p.status === PatientStatus.NoShow).length,
+        averageWaitMinutes: average(waits),
+        p90WaitMinutes: percentile(waits, 0.9),
+      })
+    );
+  }
+  return rows;
+}
+
+async function getHourlyReport(
+  range: ReportRange,
+  queueId: number | null = null
+): Promise<HourlyReportRow[]> {
+  const arrivals = new Array<number>(24).fill(0);
+  for (const { hour } of arrivalsInRange(range, queueId)) {
+    arrivals[hour] += 1;
+  }
+  return arrivals.map((count, hour) => toHourlyReportRow(hour, count, range));
+}
+
+// Patients called and visited by each staff member, and how long their
+// consultations took
+async function getStaffReport(
+  range: ReportRange,
+  queueId: number | null = null
+): Promise<StaffReportRow[]> {
+  const byUser = new Map<
+    number,
+    { user: UserWithPassword; called: number; visited: number; consultations: number[] }
+  >();
+
+  for (const change of state.statusHistory) {
+    const patient = findVisit(change.patientId);
+    const user = change.changedBy === null ? undefined : findUser(change.changedBy);
+    const { date } = clinicDateTime(change.changedAt);
+    if (
+      !patient ||
+      !user ||
+      date < range.from ||
+      date > range.to ||
+      (queueId !== null && patient.queueId !== queueId)
+    ) {
+      continue;
+    }
+
+    const entry = byUser.get(user.id) ?? {
+      user,
+      called: 0,
+      visited: 0,
+      consultations: [],
+    };
+    if (change.toStatus === PatientStatus.Called) {
+      entry.called += 1;
+    } else if (change.toStatus === PatientStatus.Visited) {
+      entry.visited += 1;
+      if (patient.seenAt !== null && patient.visitedAt !== null) {
+        entry.consultations.push(minutesBetween(patient.seenAt, patient.visitedAt));
+      }
+    } else {
+      continue;
+    }
+    byUser.set(user.id, entry);
+  }
+
+  return [...byUser.values()]
+    .sort(
+      (a, b) => b.visited - a.visited || b.called - a.called || a.user.id - b.user.id
+    )
+    .map((entry) => ({
+      userId: entry.user.id,
+      name: entry.user.name,
+      email: entry.user.email,
+      called: entry.called,
+      visited: entry.visited,
+      averageConsultationMinutes: roundMinutes(average(entry.consultations)),
+    }));
+}
+
+export function createMemoryStorage(): Storage {
+  return {
+    backend: StorageBackend.memory,
+    init,
+    users: {
+      createUser,
+      getUserByEmail,
+      getUserById,
+      getAllUsers,
+      updateUserRole,
+      setUserDisabled,
+      deleteUser,
+      updatePassword,
+      setMustChangePassword,
+    },
+    passwordResets: {
+      createResetToken,
+      consumeResetToken,
+    },
+    outbox: {
+      addMessage,
+      getMessages,
+    },
+    loginAttempts: {
+      getAttempt,
+      recordFailure,
+      clearAttempts,
+      lockOut,
+      unlock,
+      getLockoutEvents,
+    },
+    twoFactor: {
+      getTwoFactor,
+      saveSecret,
+      enable: enableTwoFactor,
+      useStep,
+      replaceRecoveryCodes,
+      useRecoveryCode,
+      countRecoveryCodes,
+      disable: disableTwoFactor,
+    },
+    settings: {
+      getSetting,
+      setSetting,
+    },
+    audit: {
+      record: recordAuditEntry,
+      query: queryAuditLog,
+    },
+    sessions: {
+      createSession,
+      getSession,
+      rotateRefreshToken,
+      getActiveSessions,
+      revokeSession,
+      revokeUserSessions,
+    },
+    patients: {
+      getAllPatients,
+      getPatientById,
+      searchPatients,
+      addPatient,
+      transitionPatientStatus,
+      markVisited,
+      claimNextPatient,
+      transferPatient,
+      updatePatient,
+      undoVisit,
+      getPatientStatusHistory,
+      getDisplayBoard,
+      getTicketStatus,
+      getStats,
+      countRegistrations,
+      importPatients,
+    },
+    records: {
+      createRecord,
+      getRecordById,
+      updateRecord,
+      findRecords,
+      getRecordVisits,
+    },
+    appointments: {
+      createAppointment,
+      getAppointmentById,
+      findAppointments,
+      cancelAppointment,
+      checkInAppointment,
+      markMissedAppointments,
+    },
+    closeOuts: {
+      closeOutDay,
+      markLeftoverPatients,
+      getDailySummary,
+      getDailySummaries,
+    },
+    queues: {
+      getAllQueues,
+      getQueueById,
+      getDefaultQueue,
+      createQueue,
+      updateQueue,
+    },
+    reports: {
+      getVolumeReport,
+      getHourlyReport,
+      getStaffReport,
+    },
+    events: {
+      getLatestEventId,
+      getOldestEventId,
+      getEventsSince,
+      pruneEvents,
+      listen,
+    },
+  };
+}
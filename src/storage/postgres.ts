@@ -0,0 +1,3671 @@
+/**
+ * PostgreSQL storage backend.
+ * The schema is managed by migrations (see migrate.ts). Multi-step changes run
+ * in transactions with row locks, and queue events are announced with NOTIFY
+ * so every server process sees changes made by the others.
+ */
+import { PoolClient } from "pg";
+import { getDbClient, DATABASE_URL, CLINIC_TIMEZONE } from "../db";
+import { hashPassword, verifyPassword } from "../auth";
+import { assertSchemaUpToDate } from "../migrate";
+import { AuditAction } from "../audit";
+import {
+  ConsultationAggregate,
+  WaitingEntry,
+  WaitTimeProfile,
+  buildWaitTimeProfile,
+  estimateWaits,
+  estimateNewArrivalWaits,
+  getCachedWaitTimeProfile,
+  setCachedWaitTimeProfile,
+  WAIT_ESTIMATE_WINDOW_DAYS,
+  ACTIVE_STAFF_WINDOW_MINUTES,
+  MAX_CONSULTATION_MINUTES,
+} from "../waitTime";
+import {
+  ReportPeriod,
+  ReportRange,
+  roundMinutes,
+  todayInClinicTimezone,
+  toVolumeReportRow,
+  toHourlyReportRow,
+} from "../reports";
+import {
+  Patient,
+  Priority,
+  PatientStatus,
+  PatientStats,
+  PatientStatusChange,
+  PatientRecord,
+  Appointment,
+  AppointmentStatus,
+  QueueEventType,
+  Queue,
+  QueueType,
+  DisplayBoard,
+  RegisteredPatient,
+  TicketStatus,
+  VolumeReportRow,
+  HourlyReportRow,
+  StaffReportRow,
+  PRIORITY_RANK,
+  EMERGENCY_PRIORITIES,
+  TRIAGE_LEVELS,
+  TriagePolicy,
+  ACTIVE_PATIENT_STATUSES,
+  TERMINAL_PATIENT_STATUSES,
+  DailySummary,
+} from "../classes";
+import {
+  TRIAGE_POLICY_SETTING,
+  annotateTriage,
+  prioritiesAtLevel,
+  priorityLevel,
+  resolveTriagePolicy,
+} from "../triage";
+import {
+  Storage,
+  StorageBackend,
+  UserRecord,
+  UserWithPassword,
+  SessionRecord,
+  NewSession,
+  MailMessage,
+  OutboxMessage,
+  LoginAttempt,
+  LoginAttemptScope,
+  LockoutEvent,
+  TwoFactorRecord,
+  AuditEntry,
+  NewAuditEntry,
+  AuditContext,
+  AuditFilter,
+  PatientUpdateFields,
+  PriorityRuleMatch,
+  PatientSearchFilter,
+  PatientSearchResult,
+  PatientRecordFields,
+  PatientRecordFilter,
+  AppointmentFields,
+  AppointmentFilter,
+  AppointmentCheckInOptions,
+  CheckedInAppointment,
+  SeedPatient,
+  QueueEvent,
+} from "./types";
+import {
+  toIsoTimestamp,
+  statusesAllowedInto,
+  previousActiveStatus,
+  ticketPrefix,
+  formatTicketNumber,
+  generateTicketSecret,
+  auditedUpdate,
+  SYSTEM_AUDIT_CONTEXT,
+  LAST_END_OF_DAY_SETTING,
+} from "./common";
+
+async function init(): Promise<void> {
+  let client: PoolClient;
+  try {
+    client = await getDbClient();
+  } catch (error) {
+    console.error(`ERROR: Failed to connect to database: ${error}`);
+    console.error(`Please ensure PostgreSQL is running and the database is accessible.`);
+    if (DATABASE_URL) {
+      console.error(`Connection URL: ${DATABASE_URL.split("@")[0]}@***`);
+    }
+    throw error;
+  }
+  client.release();
+
+  await assertSchemaUpToDate();
+}
+
+// Queue events (see events.ts)
+
+const NOTIFY_CHANNEL = "queue_events";
+const LISTENER_RETRY_MS = 5 * 1000;
+
+let listenerClient: PoolClient | null = null;
+let onQueueEvents: (() => void) | null = null;
+
+interface PendingQueueEvent {
+  type: QueueEventType;
+  data: unknown;
+}
+
+interface PendingQueueEvents {
+  events: PendingQueueEvent[];
+  // Queues whose stats-changed event follows the commit
+  statsQueueIds: Set<number>;
+}
+
+// Events of each open transaction, written when it commits
+const pendingQueueEvents = new WeakMap<PoolClient, PendingQueueEvents>();
+
+function pendingFor(client: PoolClient): PendingQueueEvents {
+  let pending = pendingQueueEvents.get(client);
+  if (!pending) {
+    pending = { events: [], statsQueueIds: new Set() };
+    pendingQueueEvents.set(client, pending);
+  }
+  return pending;
+}
+
+// Record an event for the caller's transaction. It is written to queue_events
+// by commitWithQueueEvents, so the event lock is only held while the events
+// are inserted and committed, not for the whole transaction.
+function publishQueueEvent(client: PoolClient, type: QueueEventType, data: unknown): void {
+  pendingFor(client).events.push({ type, data });
+}
+
+// The advisory lock is held until commit, so event ids become visible in the
+// order they were assigned and a reader that has seen id N can never later
+// find an id below N.
+async function insertQueueEvents(client: PoolClient, events: PendingQueueEvent[]): Promise<void> {
+  await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [NOTIFY_CHANNEL]);
+  let lastId = 0;
+  for (const event of events) {
+    const result = await client.query(
+      `
+      INSERT INTO queue_events (type, data)
+      VALUES ($1, $2)
+      RETURNING id
+    `,
+      [event.type, JSON.stringify(event.data)]
+    );
+    lastId = result.rows[0].id;
+  }
+  await client.query("SELECT pg_notify($1, $2)", [NOTIFY_CHANNEL, String(lastId)]);
+}
+
+async function commitWithQueueEvents(client: PoolClient): Promise<void> {
+  const pending = pendingFor(client);
+  pendingQueueEvents.delete(client);
+  if (pending.events.length > 0) {
+    await insertQueueEvents(client, pending.events);
+  }
+  await client.query("COMMIT");
+  if (pending.statsQueueIds.size > 0) {
+    await publishQueueStats(client, [...pending.statsQueueIds]);
+  }
+}
+
+async function rollbackWithQueueEvents(client: PoolClient): Promise<void> {
+  pendingQueueEvents.delete(client);
+  await client.query("ROLLBACK");
+}
+
+// Clinic-wide counters plus those of each queue that changed, read after the
+// change committed so the stats queries never run under the event lock. Two
+// changes committing at once may publish their stats in either order; the
+// next change brings them up to date. The change itself is already saved, so
+// a failure here is only logged.
+async function publishQueueStats(client: PoolClient, queueIds: number[]): Promise<void> {
+  try {
+    const clinicStats = await queryStats(client);
+    const events: PendingQueueEvent[] = [];
+    for (const queueId of queueIds) {
+      events.push({
+        type: QueueEventType.StatsChanged,
+        data: { ...clinicStats, queueId, queueStats: await queryStats(client, queueId) },
+      });
+    }
+    await client.query("BEGIN");
+    await insertQueueEvents(client, events);
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error(`[EVENTS] Failed to publish queue stats: ${error}`);
+  }
+}
+
+function rowToQueueEvent(r: any): QueueEvent {
+  return {
+    id: parseInt(r.id, 10),
+    type: r.type as QueueEventType,
+    data: r.data,
+    createdAt: (r.createdAt as Date).toISOString(),
+  };
+}
+
+async function getLatestEventId(): Promise<number> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      "SELECT COALESCE(MAX(id), 0) as max_id FROM queue_events"
+    );
+    return parseInt(result.rows[0].max_id, 10);
+  } finally {
+    client.release();
+  }
+}
+
+async function getOldestEventId(): Promise<number | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query("SELECT MIN(id) as min_id FROM queue_events");
+    const minId = result.rows[0].min_id;
+    return minId === null ? null : parseInt(minId, 10);
+  } finally {
+    client.release();
+  }
+}
+
+async function getEventsSince(lastId: number): Promise<QueueEvent[]> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      "SELECT * FROM queue_events WHERE id > $1 ORDER BY id ASC",
+      [lastId]
+    );
+    return result.rows.map(rowToQueueEvent);
+  } finally {
+    client.release();
+  }
+}
+
+async function pruneEvents(retentionHours: number): Promise<void> {
+  const client = await getDbClient();
+  try {
+    await client.query(
+      `DELETE FROM queue_events WHERE "createdAt" < NOW() - make_interval(hours => $1)`,
+      [retentionHours]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+function handleListenerFailure(error: unknown): void {
+  console.error(`[EVENTS] Queue event listener lost: ${error}`);
+  if (listenerClient) {
+    listenerClient.removeAllListeners("notification");
+    listenerClient.release(true);
+    listenerClient = null;
+  }
+  setTimeout(() => {
+    connectListener().catch(handleListenerFailure);
+  }, LISTENER_RETRY_MS);
+}
+
+async function connectListener(): Promise<void> {
+  const client = await getDbClient();
+  listenerClient = client;
+  client.on("notification", () => onQueueEvents?.());
+  client.once("error", handleListenerFailure);
+  await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+  console.log(`[EVENTS] Listening for queue events`);
+
+  // Catch up on anything published while we were not listening
+  onQueueEvents?.();
+}
+
+// Notifications only signal that something changed; the events themselves are
+// read from the table so nothing is lost if a notification is missed while
+// the listener reconnects
+async function listen(onEvents: () => void): Promise<void> {
+  onQueueEvents = onEvents;
+  await connectListener();
+}
+
+interface PatientRow {
+  id: number;
+  name: string;
+  problem: string;
+  priority: string;
+  arrivalTime?: Date | string;
+  arrivaltime?: Date | string;
+  arrival_time?: Date | string;
+  status: string;
+  queueId: number;
+  ticketNumber?: string | null;
+  recordId?: number | null;
+  priorityRule?: string | null;
+  suggestedPriority?: string | null;
+  claimedBy?: number | null;
+  claimedAt?: Date | null;
+  seenAt?: Date | null;
+  visitedAt?: Date | null;
+}
+
+interface UserRow {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  disabled: boolean;
+  mustChangePassword: boolean;
+  password?: string;
+}
+
+function rowToPatient(r: PatientRow): Patient {
+  const arrival =
+    toIsoTimestamp(r.arrivalTime || r.arrivaltime || r.arrival_time) ?? "";
+  return {
+    id: r.id,
+    name: r.name,
+    problem: r.problem,
+    priority: r.priority as Priority,
+    arrivalTime: arrival,
+    status: r.status as PatientStatus,
+    queueId: r.queueId,
+    ticketNumber: r.ticketNumber ?? null,
+    recordId: r.recordId ?? null,
+    priorityRule: r.priorityRule ?? null,
+    suggestedPriority: (r.suggestedPriority ?? null) as Priority | null,
+    claimedBy: r.claimedBy ?? null,
+    claimedAt: toIsoTimestamp(r.claimedAt),
+    seenAt: toIsoTimestamp(r.seenAt),
+    visitedAt: toIsoTimestamp(r.visitedAt),
+  };
+}
+
+interface QueueRow {
+  id: number;
+  name: string;
+  type: string;
+  description: string | null;
+  active: boolean;
+}
+
+function rowToQueue(r: QueueRow): Queue {
+  return {
+    id: r.id,
+    name: r.name,
+    type: r.type as QueueType,
+    description: r.description,
+    active: r.active,
+  };
+}
+
+function rowToUser(r: UserRow): UserRecord {
+  return {
+    id: r.id,
+    name: r.name,
+    email: r.email,
+    role: r.role,
+    disabled: r.disabled,
+    mustChangePassword: r.mustChangePassword,
+  };
+}
+
+// User authentication functions - all user data stored in PostgreSQL
+async function createUser(
+  name: string,
+  email: string,
+  password: string,
+  role: string = "user",
+  mustChangePassword: boolean = false
+): Promise<UserRecord> {
+  const client = await getDbClient();
+  const hashedPassword = await hashPassword(password);
+
+  try {
+    const result = await client.query(
+      `
+      INSERT INTO users (name, email, password, role, "mustChangePassword")
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING id, name, email, role, disabled, "mustChangePassword"
+    `,
+      [name, email, hashedPassword, role, mustChangePassword]
+    );
+    return rowToUser(result.rows[0]);
+  } catch (error: any) {
+    if (error.code === "23505") {
+      // Unique violation (duplicate email)
+      throw new Error("Email already exists");
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function getUserByEmail(email: string): Promise<UserWithPassword | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `SELECT id, name, email, password, role, disabled, "mustChangePassword" FROM users WHERE email = $1`,
+      [email]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const user = result.rows[0];
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      password: user.password,
+      role: user.role,
+      disabled: user.disabled,
+      mustChangePassword: user.mustChangePassword,
+    };
+  } finally {
+    client.release();
+  }
+}
+
+async function getUserById(user_id: number): Promise<UserRecord | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `SELECT id, name, email, role, disabled, "mustChangePassword" FROM users WHERE id = $1`,
+      [user_id]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return rowToUser(result.rows[0]);
+  } finally {
+    client.release();
+  }
+}
+
+async function getAllUsers(): Promise<UserRecord[]> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `SELECT id, name, email, role, disabled, "mustChangePassword" FROM users ORDER BY id`
+    );
+    return result.rows.map((r) => rowToUser(r as UserRow));
+  } finally {
+    client.release();
+  }
+}
+
+// Locks every enabled admin row, in id order, before the target row is
+// locked. Two admins demoting, disabling or deleting each other at once are
+// then serialized, and the second sees the first's change when it counts.
+async function lockActiveAdmins(client: PoolClient): Promise<void> {
+  await client.query(
+    "SELECT id FROM users WHERE role = 'admin' AND disabled = FALSE ORDER BY id FOR UPDATE"
+  );
+}
+
+// Returns true when removing admin rights from user_id would leave the clinic
+// without any enabled admin account. Callers hold lockActiveAdmins.
+async function isLastActiveAdmin(
+  client: PoolClient,
+  user_id: number
+): Promise<boolean> {
+  const result = await client.query(
+    `
+    SELECT COUNT(*) as count FROM users
+    WHERE role = 'admin' AND disabled = FALSE AND id <> $1
+  `,
+    [user_id]
+  );
+  return parseInt(result.rows[0].count, 10) === 0;
+}
+
+async function updateUserRole(
+  user_id: number,
+  role: string,
+  audit: AuditContext | null = null
+): Promise<[UserRecord | null, string | null]> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    await lockActiveAdmins(client);
+    const checkResult = await client.query(
+      "SELECT id, role FROM users WHERE id = $1 FOR UPDATE",
+      [user_id]
+    );
+
+    if (checkResult.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return [null, "not_found"];
+    }
+
+    if (
+      checkResult.rows[0].role === "admin" &&
+      role !== "admin" &&
+      (await isLastActiveAdmin(client, user_id))
+    ) {
+      await client.query("ROLLBACK");
+      return [null, "last_admin"];
+    }
+
+    const updateResult = await client.query(
+      `
+      UPDATE users SET role = $2 WHERE id = $1
+      RETURNING id, name, email, role, disabled, "mustChangePassword"
+    `,
+      [user_id, role]
+    );
+    await auditChange(client, audit, {
+      action: AuditAction.UserRoleChange,
+      targetType: "user",
+      targetId: user_id,
+      before: { role: checkResult.rows[0].role },
+      after: { role },
+    });
+    await client.query("COMMIT");
+
+    return [rowToUser(updateResult.rows[0] as UserRow), null];
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function setUserDisabled(
+  user_id: number,
+  disabled: boolean,
+  audit: AuditContext | null = null
+): Promise<[UserRecord | null, string | null]> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    await lockActiveAdmins(client);
+    const checkResult = await client.query(
+      "SELECT id, role, disabled FROM users WHERE id = $1 FOR UPDATE",
+      [user_id]
+    );
+
+    if (checkResult.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return [null, "not_found"];
+    }
+
+    if (
+      disabled &&
+      checkResult.rows[0].role === "admin" &&
+      (await isLastActiveAdmin(client, user_id))
+    ) {
+      await client.query("ROLLBACK");
+      return [null, "last_admin"];
+    }
+
+    const updateResult = await client.query(
+      `
+      UPDATE users SET disabled = $2 WHERE id = $1
+      RETURNING id, name, email, role, disabled, "mustChangePassword"
+    `,
+      [user_id, disabled]
+    );
+    await auditChange(client, audit, {
+      action: disabled ? AuditAction.UserDisable : AuditAction.UserEnable,
+      targetType: "user",
+      targetId: user_id,
+      before: { disabled: checkResult.rows[0].disabled },
+      after: { disabled },
+    });
+    await client.query("COMMIT");
+
+    return [rowToUser(updateResult.rows[0] as UserRow), null];
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function deleteUser(
+  user_id: number,
+  audit: AuditContext | null = null
+): Promise<string | null> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    await lockActiveAdmins(client);
+    const checkResult = await client.query(
+      "SELECT id, name, email, role FROM users WHERE id = $1 FOR UPDATE",
+      [user_id]
+    );
+
+    if (checkResult.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return "not_found";
+    }
+
+    if (
+      checkResult.rows[0].role === "admin" &&
+      (await isLastActiveAdmin(client, user_id))
+    ) {
+      await client.query("ROLLBACK");
+      return "last_admin";
+    }
+
+    await client.query("DELETE FROM users WHERE id = $1", [user_id]);
+    const { name, email, role } = checkResult.rows[0];
+    await auditChange(client, audit, {
+      action: AuditAction.UserDelete,
+      targetType: "user",
+      targetId: user_id,
+      before: { name, email, role },
+      after: null,
+    });
+    await client.query("COMMIT");
+    return null;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function updatePassword(
+  user_id: number,
+  password: string,
+  mustChangePassword: boolean = false
+): Promise<UserRecord | null> {
+  const client = await getDbClient();
+  const hashedPassword = await hashPassword(password);
+
+  try {
+    const result = await client.query(
+      `
+      UPDATE users SET password = $2, "mustChangePassword" = $3 WHERE id = $1
+      RETURNING id, name, email, role, disabled, "mustChangePassword"
+    `,
+      [user_id, hashedPassword, mustChangePassword]
+    );
+    return result.rows.length > 0 ? rowToUser(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+async function setMustChangePassword(
+  user_id: number,
+  mustChangePassword: boolean
+): Promise<void> {
+  const client = await getDbClient();
+  try {
+    await client.query(`UPDATE users SET "mustChangePassword" = $2 WHERE id = $1`, [
+      user_id,
+      mustChangePassword,
+    ]);
+  } finally {
+    client.release();
+  }
+}
+
+// Password reset functions
+
+async function createResetToken(
+  user_id: number,
+  tokenHash: string,
+  expiresAt: string
+): Promise<void> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    await client.query(
+      `DELETE FROM password_reset_tokens WHERE "userId" = $1 AND "usedAt" IS NULL`,
+      [user_id]
+    );
+    await client.query(
+      `
+      INSERT INTO password_reset_tokens ("userId", "tokenHash", "expiresAt")
+      VALUES ($1, $2, $3)
+    `,
+      [user_id, tokenHash, expiresAt]
+    );
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function consumeResetToken(tokenHash: string): Promise<number | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      UPDATE password_reset_tokens SET "usedAt" = NOW()
+      WHERE "tokenHash" = $1 AND "usedAt" IS NULL AND "expiresAt" > NOW()
+      RETURNING "userId"
+    `,
+      [tokenHash]
+    );
+    return result.rows.length > 0 ? result.rows[0].userId : null;
+  } finally {
+    client.release();
+  }
+}
+
+// Mail outbox functions
+
+function rowToOutboxMessage(r: any): OutboxMessage {
+  return {
+    id: r.id,
+    from: r.from,
+    to: r.to,
+    subject: r.subject,
+    text: r.text,
+    createdAt: toIsoTimestamp(r.createdAt) as string,
+  };
+}
+
+async function addMessage(message: MailMessage): Promise<OutboxMessage> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      INSERT INTO mail_outbox ("from", "to", subject, text)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id, "from", "to", subject, text, "createdAt"
+    `,
+      [message.from, message.to, message.subject, message.text]
+    );
+    return rowToOutboxMessage(result.rows[0]);
+  } finally {
+    client.release();
+  }
+}
+
+async function getMessages(limit: number): Promise<OutboxMessage[]> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      SELECT id, "from", "to", subject, text, "createdAt" FROM mail_outbox
+      ORDER BY id DESC
+      LIMIT $1
+    `,
+      [limit]
+    );
+    return result.rows.map(rowToOutboxMessage);
+  } finally {
+    client.release();
+  }
+}
+
+// Login attempt functions
+
+function rowToLoginAttempt(r: any): LoginAttempt {
+  return {
+    scope: r.scope,
+    key: r.key,
+    failures: r.failures,
+    lastFailureAt: toIsoTimestamp(r.lastFailureAt) as string,
+    lockedUntil: toIsoTimestamp(r.lockedUntil),
+  };
+}
+
+const LOCKOUT_EVENT_COLUMNS = `
+  id, scope, key, "userId", failures, "lockedUntil", "createdAt", "unlockedAt", "unlockedBy"
+`;
+
+function rowToLockoutEvent(r: any): LockoutEvent {
+  return {
+    id: r.id,
+    scope: r.scope,
+    key: r.key,
+    userId: r.userId,
+    failures: r.failures,
+    lockedUntil: toIsoTimestamp(r.lockedUntil) as string,
+    createdAt: toIsoTimestamp(r.createdAt) as string,
+    unlockedAt: toIsoTimestamp(r.unlockedAt),
+    unlockedBy: r.unlockedBy,
+  };
+}
+
+async function getAttempt(
+  scope: LoginAttemptScope,
+  key: string
+): Promise<LoginAttempt | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      SELECT scope, key, failures, "lastFailureAt", "lockedUntil" FROM login_attempts
+      WHERE scope = $1 AND key = $2
+    `,
+      [scope, key]
+    );
+    return result.rows.length > 0 ? rowToLoginAttempt(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+async function recordFailure(
+  scope: LoginAttemptScope,
+  key: string,
+  windowMinutes: number
+): Promise<LoginAttempt> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      INSERT INTO login_attempts (scope, key, failures, "lastFailureAt")
+      VALUES ($1, $2, 1, NOW())
+      ON CONFLICT (scope, key) DO UPDATE SET
+        failures = CASE
+          WHEN login_attempts."lastFailureAt" < NOW() - make_interval(mins => $3)
+            AND (login_attempts."lockedUntil" IS NULL OR login_attempts."lockedUntil" <= NOW())
+          THEN 1
+          ELSE login_attempts.failures + 1
+        END,
+        "lastFailureAt" = NOW()
+      RETURNING scope, key, failures, "lastFailureAt", "lockedUntil"
+    `,
+      [scope, key, windowMinutes]
+    );
+    return rowToLoginAttempt(result.rows[0]);
+  } finally {
+    client.release();
+  }
+}
+
+async function clearAttempts(scope: LoginAttemptScope, key: string): Promise<void> {
+  const client = await getDbClient();
+  try {
+    await client.query("DELETE FROM login_attempts WHERE scope = $1 AND key = $2", [
+      scope,
+      key,
+    ]);
+  } finally {
+    client.release();
+  }
+}
+
+async function lockOut(
+  scope: LoginAttemptScope,
+  key: string,
+  lockedUntil: string,
+  userId: number | null
+): Promise<LockoutEvent> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    const attempt = await client.query(
+      `
+      UPDATE login_attempts SET "lockedUntil" = $3
+      WHERE scope = $1 AND key = $2
+      RETURNING failures
+    `,
+      [scope, key, lockedUntil]
+    );
+    const result = await client.query(
+      `
+      INSERT INTO lockout_events (scope, key, "userId", failures, "lockedUntil")
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING ${LOCKOUT_EVENT_COLUMNS}
+    `,
+      [scope, key, userId, attempt.rows[0]?.failures ?? 0, lockedUntil]
+    );
+    await client.query("COMMIT");
+    return rowToLockoutEvent(result.rows[0]);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function unlock(
+  scope: LoginAttemptScope,
+  key: string,
+  unlockedBy: number | null
+): Promise<boolean> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    const attempts = await client.query(
+      "DELETE FROM login_attempts WHERE scope = $1 AND key = $2",
+      [scope, key]
+    );
+    const events = await client.query(
+      `
+      UPDATE lockout_events SET "unlockedAt" = NOW(), "unlockedBy" = $3
+      WHERE scope = $1 AND key = $2 AND "unlockedAt" IS NULL AND "lockedUntil" > NOW()
+    `,
+      [scope, key, unlockedBy]
+    );
+    await client.query("COMMIT");
+    return (attempts.rowCount ?? 0) + (events.rowCount ?? 0) > 0;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function getLockoutEvents(limit: number): Promise<LockoutEvent[]> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `SELECT ${LOCKOUT_EVENT_COLUMNS} FROM lockout_events ORDER BY id DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(rowToLockoutEvent);
+  } finally {
+    client.release();
+  }
+}
+
+// Two-factor functions
+
+const TWO_FACTOR_COLUMNS = `"userId", secret, "enabledAt", "lastUsedStep", "createdAt"`;
+
+function rowToTwoFactor(r: any): TwoFactorRecord {
+  return {
+    userId: r.userId,
+    secret: r.secret,
+    enabledAt: toIsoTimestamp(r.enabledAt),
+    // BIGINT comes back as a string
+    lastUsedStep: r.lastUsedStep === null ? null : Number(r.lastUsedStep),
+    createdAt: toIsoTimestamp(r.createdAt) as string,
+  };
+}
+
+async function getTwoFactor(user_id: number): Promise<TwoFactorRecord | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `SELECT ${TWO_FACTOR_COLUMNS} FROM user_two_factor WHERE "userId" = $1`,
+      [user_id]
+    );
+    return result.rows.length > 0 ? rowToTwoFactor(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+async function saveSecret(user_id: number, secret: string): Promise<TwoFactorRecord> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    await client.query(`DELETE FROM recovery_codes WHERE "userId" = $1`, [user_id]);
+    const result = await client.query(
+      `
+      INSERT INTO user_two_factor ("userId", secret) VALUES ($1, $2)
+      ON CONFLICT ("userId") DO UPDATE SET
+        secret = EXCLUDED.secret, "enabledAt" = NULL, "lastUsedStep" = NULL, "createdAt" = NOW()
+      RETURNING ${TWO_FACTOR_COLUMNS}
+    `,
+      [user_id, secret]
+    );
+    await client.query("COMMIT");
+    return rowToTwoFactor(result.rows[0]);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function insertRecoveryCodes(
+  client: PoolClient,
+  user_id: number,
+  recoveryCodeHashes: string[]
+): Promise<void> {
+  await client.query(`DELETE FROM recovery_codes WHERE "userId" = $1`, [user_id]);
+  await client.query(
+    `
+    INSERT INTO recovery_codes ("userId", "codeHash")
+    SELECT $1, unnest($2::text[])
+  `,
+    [user_id, recoveryCodeHashes]
+  );
+}
+
+async function enableTwoFactor(
+  user_id: number,
+  step: number,
+  recoveryCodeHashes: string[]
+): Promise<void> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    await client.query(
+      `
+      UPDATE user_two_factor SET "enabledAt" = NOW(), "lastUsedStep" = $2
+      WHERE "userId" = $1
+    `,
+      [user_id, step]
+    );
+    await insertRecoveryCodes(client, user_id, recoveryCodeHashes);
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function useStep(user_id: number, step: number): Promise<boolean> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      UPDATE user_two_factor SET "lastUsedStep" = $2
+      WHERE "userId" = $1 AND ("lastUsedStep" IS NULL OR "lastUsedStep" < $2)
+    `,
+      [user_id, step]
+    );
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+async function replaceRecoveryCodes(
+  user_id: number,
+  recoveryCodeHashes: string[]
+): Promise<void> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    await insertRecoveryCodes(client, user_id, recoveryCodeHashes);
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function useRecoveryCode(user_id: number, codeHash: string): Promise<boolean> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      UPDATE recovery_codes SET "usedAt" = NOW()
+      WHERE "userId" = $1 AND "codeHash" = $2 AND "usedAt" IS NULL
+    `,
+      [user_id, codeHash]
+    );
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+async function countRecoveryCodes(user_id: number): Promise<number> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `SELECT COUNT(*)::int AS count FROM recovery_codes WHERE "userId" = $1 AND "usedAt" IS NULL`,
+      [user_id]
+    );
+    return result.rows[0].count;
+  } finally {
+    client.release();
+  }
+}
+
+async function disableTwoFactor(user_id: number): Promise<boolean> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    await client.query(`DELETE FROM recovery_codes WHERE "userId" = $1`, [user_id]);
+    const result = await client.query(`DELETE FROM user_two_factor WHERE "userId" = $1`, [
+      user_id,
+    ]);
+    await client.query("COMMIT");
+    return (result.rowCount ?? 0) > 0;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Settings functions
+
+async function getSetting(key: string): Promise<unknown | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query("SELECT value FROM settings WHERE key = $1", [key]);
+    return result.rows.length > 0 ? result.rows[0].value : null;
+  } finally {
+    client.release();
+  }
+}
+
+async function setSetting(key: string, value: unknown, updatedBy: number | null): Promise<void> {
+  const client = await getDbClient();
+  try {
+    await client.query(
+      `
+      INSERT INTO settings (key, value, "updatedBy") VALUES ($1, $2, $3)
+      ON CONFLICT (key) DO UPDATE SET
+        value = EXCLUDED.value, "updatedAt" = NOW(), "updatedBy" = EXCLUDED."updatedBy"
+    `,
+      [key, JSON.stringify(value), updatedBy]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+// Audit log functions
+
+const AUDIT_COLUMNS = `
+  id, "createdAt", "actorId", "actorEmail", action, "targetType", "targetId",
+  before, after, "ipAddress", "requestId"
+`;
+
+function rowToAuditEntry(r: any): AuditEntry {
+  return {
+    // BIGSERIAL comes back as a string
+    id: Number(r.id),
+    createdAt: toIsoTimestamp(r.createdAt) as string,
+    actorId: r.actorId,
+    actorEmail: r.actorEmail,
+    action: r.action,
+    targetType: r.targetType,
+    targetId: r.targetId,
+    before: r.before,
+    after: r.after,
+    ipAddress: r.ipAddress,
+    requestId: r.requestId,
+  };
+}
+
+async function insertAuditEntry(client: PoolClient, entry: NewAuditEntry): Promise<AuditEntry> {
+  const result = await client.query(
+    `
+    INSERT INTO audit_log
+      ("actorId", "actorEmail", action, "targetType", "targetId", before, after, "ipAddress", "requestId")
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING ${AUDIT_COLUMNS}
+  `,
+    [
+      entry.actorId,
+      entry.actorEmail,
+      entry.action,
+      entry.targetType,
+      entry.targetId,
+      entry.before === null ? null : JSON.stringify(entry.before),
+      entry.after === null ? null : JSON.stringify(entry.after),
+      entry.ipAddress,
+      entry.requestId,
+    ]
+  );
+  return rowToAuditEntry(result.rows[0]);
+}
+
+// Audit entry for a change, written in the change's transaction so one is
+// never saved without the other. Changes made without a context (background
+// jobs) are recorded with the system as the actor.
+async function auditChange(
+  client: PoolClient,
+  audit: AuditContext | null,
+  change: Omit<NewAuditEntry, keyof AuditContext>
+): Promise<void> {
+  await insertAuditEntry(client, { ...(audit ?? SYSTEM_AUDIT_CONTEXT), ...change });
+}
+
+async function recordAuditEntry(entry: NewAuditEntry): Promise<AuditEntry> {
+  const client = await getDbClient();
+  try {
+    return await insertAuditEntry(client, entry);
+  } finally {
+    client.release();
+  }
+}
+
+async function queryAuditLog(filter: AuditFilter): Promise<AuditEntry[]> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const addCondition = (sql: string, value: unknown) => {
+    params.push(value);
+    conditions.push(sql.replace("?", `$${params.length}`));
+  };
+
+  if (filter.actorId !== undefined) {
+    addCondition(`"actorId" = ?`, filter.actorId);
+  }
+  if (filter.patientId !== undefined) {
+    conditions.push(`"targetType" = 'patient'`);
+    addCondition(`"targetId" = ?`, filter.patientId);
+  }
+  if (filter.action !== undefined) {
+    addCondition("action = ?", filter.action);
+  }
+  if (filter.from !== undefined) {
+    addCondition(`"createdAt" >= ?`, filter.from);
+  }
+  if (filter.to !== undefined) {
+    addCondition(`"createdAt" < ?`, filter.to);
+  }
+  if (filter.beforeId !== undefined) {
+    addCondition("id < ?", filter.beforeId);
+  }
+  params.push(filter.limit);
+
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      SELECT ${AUDIT_COLUMNS} FROM audit_log
+      ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY id DESC
+      LIMIT $${params.length}
+    `,
+      params
+    );
+    return result.rows.map(rowToAuditEntry);
+  } finally {
+    client.release();
+  }
+}
+
+// Session functions
+
+const SESSION_COLUMNS = `
+  id, "userId", "refreshTokenHash", "deviceName", "userAgent", "ipAddress",
+  "createdAt", "lastUsedAt", "expiresAt", "revokedAt"
+`;
+
+const ACTIVE_SESSION = `"revokedAt" IS NULL AND "expiresAt" > NOW()`;
+
+function rowToSession(r: any): SessionRecord {
+  return {
+    id: r.id,
+    userId: r.userId,
+    refreshTokenHash: r.refreshTokenHash,
+    deviceName: r.deviceName,
+    userAgent: r.userAgent,
+    ipAddress: r.ipAddress,
+    createdAt: toIsoTimestamp(r.createdAt) as string,
+    lastUsedAt: toIsoTimestamp(r.lastUsedAt) as string,
+    expiresAt: toIsoTimestamp(r.expiresAt) as string,
+    revokedAt: toIsoTimestamp(r.revokedAt),
+  };
+}
+
+async function createSession(session: NewSession): Promise<SessionRecord> {
+  const client = await getDbClient();
+  try {
+    await client.query(
+      `DELETE FROM sessions WHERE "userId" = $1 AND NOT (${ACTIVE_SESSION})`,
+      [session.userId]
+    );
+    const result = await client.query(
+      `
+      INSERT INTO sessions
+        ("userId", "refreshTokenHash", "deviceName", "userAgent", "ipAddress", "expiresAt")
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING ${SESSION_COLUMNS}
+    `,
+      [
+        session.userId,
+        session.refreshTokenHash,
+        session.deviceName,
+        session.userAgent,
+        session.ipAddress,
+        session.expiresAt,
+      ]
+    );
+    return rowToSession(result.rows[0]);
+  } finally {
+    client.release();
+  }
+}
+
+async function getSession(session_id: number): Promise<SessionRecord | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `SELECT ${SESSION_COLUMNS} FROM sessions WHERE id = $1`,
+      [session_id]
+    );
+    return result.rows.length > 0 ? rowToSession(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+async function rotateRefreshToken(
+  session_id: number,
+  currentHash: string,
+  newHash: string,
+  expiresAt: string
+): Promise<SessionRecord | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      UPDATE sessions
+      SET "refreshTokenHash" = $3, "expiresAt" = $4, "lastUsedAt" = NOW()
+      WHERE id = $1 AND "refreshTokenHash" = $2 AND ${ACTIVE_SESSION}
+      RETURNING ${SESSION_COLUMNS}
+    `,
+      [session_id, currentHash, newHash, expiresAt]
+    );
+    return result.rows.length > 0 ? rowToSession(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+async function getActiveSessions(user_id: number): Promise<SessionRecord[]> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      SELECT ${SESSION_COLUMNS} FROM sessions
+      WHERE "userId" = $1 AND ${ACTIVE_SESSION}
+      ORDER BY "lastUsedAt" DESC, id DESC
+    `,
+      [user_id]
+    );
+    return result.rows.map(rowToSession);
+  } finally {
+    client.release();
+  }
+}
+
+async function revokeSession(session_id: number): Promise<boolean> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `UPDATE sessions SET "revokedAt" = NOW() WHERE id = $1 AND "revokedAt" IS NULL`,
+      [session_id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+async function revokeUserSessions(
+  user_id: number,
+  exceptSessionId: number | null = null
+): Promise<number> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      UPDATE sessions SET "revokedAt" = NOW()
+      WHERE "userId" = $1 AND ${ACTIVE_SESSION}
+        AND ($2::integer IS NULL OR id <> $2)
+    `,
+      [user_id, exceptSessionId]
+    );
+    return result.rowCount ?? 0;
+  } finally {
+    client.release();
+  }
+}
+
+// Patient functions
+
+// Every visit: the live queue and the closed-out days moved to the archive.
+// The archive is created LIKE patients, so the columns line up; read-only
+// history, registry and report queries use this instead of patients.
+const ALL_VISITS = "(SELECT * FROM patients UNION ALL SELECT * FROM patient_archive)";
+
+// Queue order shared by every query that decides who is next. Mirrors
+// effectiveLevel in triage.ts; the policy values are validated integers.
+const PRIORITY_RANK_SQL = `CASE priority ${Object.entries(PRIORITY_RANK)
+  .map(([priority, rank]) => `WHEN '${priority}' THEN ${rank}`)
+  .join(" ")} ELSE ${TRIAGE_LEVELS.length + 1} END`;
+
+function effectiveLevelSql(policy: TriagePolicy): string {
+  if (!policy.aging) {
+    return PRIORITY_RANK_SQL;
+  }
+  return `GREATEST(
+    LEAST(${PRIORITY_RANK_SQL}, ${policy.maxAgedLevel}),
+    ${PRIORITY_RANK_SQL}
+      - FLOOR(GREATEST(EXTRACT(EPOCH FROM (NOW() - "arrivalTime")), 0) / ${policy.agingMinutes * 60})
+  )`;
+}
+
+function queueOrderSql(policy: TriagePolicy): string {
+  return `
+  ${effectiveLevelSql(policy)},
+  "arrivalTime" ASC,
+  id ASC
+`;
+}
+
+async function loadTriagePolicy(client: PoolClient): Promise<TriagePolicy> {
+  const result = await client.query("SELECT value FROM settings WHERE key = $1", [
+    TRIAGE_POLICY_SETTING,
+  ]);
+  return resolveTriagePolicy(result.rows.length > 0 ? result.rows[0].value : null);
+}
+
+async function getAllPatients(
+  statuses: string[] = [PatientStatus.Waiting],
+  queueId: number | null = null
+): Promise<Patient[]> {
+  const client = await getDbClient();
+  try {
+    const policy = await loadTriagePolicy(client);
+    const result = await client.query(
+      `
+      SELECT * FROM patients 
+      WHERE status = ANY($1) AND ($2::int IS NULL OR "queueId" = $2)
+      ORDER BY ${queueOrderSql(policy)}
+    `,
+      [statuses, queueId]
+    );
+    const patients = result.rows.map((r) => annotateTriage(rowToPatient(r as PatientRow), policy));
+
+    if (patients.some((p) => p.status === PatientStatus.Waiting)) {
+      const estimates = await queryWaitEstimates(client, queueId);
+      for (const patient of patients) {
+        const minutes = estimates.get(patient.id);
+        if (minutes !== undefined) {
+          patient.estimatedWaitMinutes = minutes;
+        }
+      }
+    }
+    return patients;
+  } finally {
+    client.release();
+  }
+}
+
+async function getPatientById(patient_id: number): Promise<Patient | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query("SELECT * FROM patients WHERE id = $1", [patient_id]);
+    return result.rows.length > 0 ? rowToPatient(result.rows[0] as PatientRow) : null;
+  } finally {
+    client.release();
+  }
+}
+
+// ILIKE pattern matching value anywhere, with % and _ in it taken literally
+function containsPattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+// Sort keys for searchPatients. Names compare lowercased in byte order so the
+// result does not depend on the database collation; indexed by migration 8.
+const PATIENT_SEARCH_SORT_SQL: Record<PatientSearchFilter["sort"], string> = {
+  arrivalTime: `"arrivalTime"`,
+  name: `(LOWER(name) COLLATE "C")`,
+};
+
+// Keyset pagination: each page continues after the (sort key, id) of the last
+// patient of the previous one, so deep pages cost no more than the first
+async function searchPatients(
+  filter: PatientSearchFilter
+): Promise<[PatientSearchResult | null, string | null]> {
+  const sortKey = PATIENT_SEARCH_SORT_SQL[filter.sort];
+  const direction = filter.order === "desc" ? "DESC" : "ASC";
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const addCondition = (sql: string, value: unknown) => {
+    params.push(value);
+    conditions.push(sql.replace(/\?/g, `$${params.length}`));
+  };
+
+  if (filter.statuses !== undefined) {
+    addCondition("status = ANY(?)", filter.statuses);
+  }
+  if (filter.priorities !== undefined) {
+    addCondition("priority = ANY(?)", filter.priorities);
+  }
+  if (filter.queueId !== undefined) {
+    addCondition(`"queueId" = ?`, filter.queueId);
+  }
+  if (filter.from !== undefined) {
+    addCondition(`"arrivalTime" >= ?`, filter.from);
+  }
+  if (filter.to !== undefined) {
+    addCondition(`"arrivalTime" < ?`, filter.to);
+  }
+  if (filter.search !== undefined) {
+    // Served by the trigram indexes
+    addCondition("(name ILIKE ? OR problem ILIKE ?)", containsPattern(filter.search));
+  }
+  if (filter.afterId !== undefined) {
+    addCondition(
+      `(${sortKey}, id) ${filter.order === "desc" ? "<" : ">"}
+        (SELECT ${sortKey}, id FROM ${ALL_VISITS} patients WHERE id = ?)`,
+      filter.afterId
+    );
+  }
+  params.push(filter.limit + 1);
+
+  const client = await getDbClient();
+  try {
+    if (filter.afterId !== undefined) {
+      const cursorResult = await client.query(
+        `SELECT id FROM ${ALL_VISITS} patients WHERE id = $1`,
+        [filter.afterId]
+      );
+      if (cursorResult.rows.length === 0) {
+        return [null, "cursor_not_found"];
+      }
+    }
+
+    const result = await client.query(
+      `
+      SELECT * FROM ${ALL_VISITS} patients
+      ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY ${sortKey} ${direction}, id ${direction}
+      LIMIT $${params.length}
+    `,
+      params
+    );
+    return [
+      {
+        patients: result.rows
+          .slice(0, filter.limit)
+          .map((r) => rowToPatient(r as PatientRow)),
+        hasMore: result.rows.length > filter.limit,
+      },
+      null,
+    ];
+  } finally {
+    client.release();
+  }
+}
+
+// Wait estimation inputs (see waitTime.ts)
+
+async function loadWaitTimeProfile(client: PoolClient): Promise<WaitTimeProfile> {
+  const cached = getCachedWaitTimeProfile();
+  if (cached) {
+    return cached;
+  }
+
+  // Each visit in the window paired with the latest time the consultation
+  // started, preferring InConsultation over Called
+  const result = await client.query(
+    `
+    SELECT "queueId", priority, AVG(minutes) AS "averageMinutes", COUNT(*) AS "sampleCount"
+    FROM (
+      SELECT p."queueId", p.priority,
+        EXTRACT(EPOCH FROM (v."changedAt" - COALESCE(
+          (SELECT MAX(h."changedAt") FROM patient_status_history h
+           WHERE h."patientId" = v."patientId" AND h."toStatus" = $2
+             AND h."changedAt" <= v."changedAt"),
+          (SELECT MAX(h."changedAt") FROM patient_status_history h
+           WHERE h."patientId" = v."patientId" AND h."toStatus" = $3
+             AND h."changedAt" <= v."changedAt")
+        ))) / 60 AS minutes
+      FROM patient_status_history v
+      JOIN ${ALL_VISITS} p ON p.id = v."patientId"
+      WHERE v."toStatus" = $1
+        AND v."changedAt" >= NOW() - make_interval(days => $4)
+    ) samples
+    WHERE minutes IS NOT NULL AND minutes BETWEEN 0 AND $5
+    GROUP BY "queueId", priority
+  `,
+    [
+      PatientStatus.Visited,
+      PatientStatus.InConsultation,
+      PatientStatus.Called,
+      WAIT_ESTIMATE_WINDOW_DAYS,
+      MAX_CONSULTATION_MINUTES,
+    ]
+  );
+
+  const aggregates: ConsultationAggregate[] = result.rows.map((r) => ({
+    queueId: r.queueId,
+    priority: r.priority,
+    averageMinutes: parseFloat(r.averageMinutes),
+    sampleCount: parseInt(r.sampleCount, 10),
+  }));
+  const profile = buildWaitTimeProfile(aggregates);
+  setCachedWaitTimeProfile(profile);
+  return profile;
+}
+
+async function queryWaitingEntries(
+  client: PoolClient,
+  queueId: number | null
+): Promise<WaitingEntry[]> {
+  const policy = await loadTriagePolicy(client);
+  const result = await client.query(
+    `
+    SELECT id, "queueId", priority, ${effectiveLevelSql(policy)} AS "effectiveLevel"
+    FROM patients
+    WHERE status = $1 AND ($2::int IS NULL OR "queueId" = $2)
+    ORDER BY ${queueOrderSql(policy)}
+  `,
+    [PatientStatus.Waiting, queueId]
+  );
+  return result.rows.map((r) => ({
+    id: r.id,
+    queueId: r.queueId,
+    priority: r.priority,
+    effectiveLevel: parseInt(r.effectiveLevel, 10),
+  }));
+}
+
+// Number of distinct staff who recently called, started or finished a
+// consultation in each queue
+async function queryActiveStaff(
+  client: PoolClient,
+  queueId: number | null
+): Promise<Map<number, number>> {
+  const result = await client.query(
+    `
+    SELECT p."queueId", COUNT(DISTINCT h."changedBy") AS staff
+    FROM patient_status_history h
+    JOIN ${ALL_VISITS} p ON p.id = h."patientId"
+    WHERE h."toStatus" = ANY($1)
+      AND h."changedBy" IS NOT NULL
+      AND h."changedAt" >= NOW() - make_interval(mins => $2)
+      AND ($3::int IS NULL OR p."queueId" = $3)
+    GROUP BY p."queueId"
+  `,
+    [
+      [PatientStatus.Called, PatientStatus.InConsultation, PatientStatus.Visited],
+      ACTIVE_STAFF_WINDOW_MINUTES,
+      queueId,
+    ]
+  );
+  const staff = new Map<number, number>();
+  for (const row of result.rows) {
+    staff.set(row.queueId, parseInt(row.staff, 10));
+  }
+  return staff;
+}
+
+async function queryWaitEstimates(
+  client: PoolClient,
+  queueId: number | null
+): Promise<Map<number, number>> {
+  const profile = await loadWaitTimeProfile(client);
+  const waiting = await queryWaitingEntries(client, queueId);
+  const staff = await queryActiveStaff(client, queueId);
+  return estimateWaits(waiting, profile, staff);
+}
+
+// Allocate the next ticket number for today, e.g. "E-004". The upsert takes a
+// row lock on the counter, so concurrent registrations get distinct numbers.
+async function nextTicketNumber(
+  client: PoolClient,
+  priority: string
+): Promise<string> {
+  const prefix = ticketPrefix(priority);
+  const result = await client.query(
+    `
+    INSERT INTO ticket_counters (day, prefix, "lastNumber")
+    VALUES ((NOW() AT TIME ZONE $1)::date, $2, 1)
+    ON CONFLICT (day, prefix)
+    DO UPDATE SET "lastNumber" = ticket_counters."lastNumber" + 1
+    RETURNING "lastNumber"
+  `,
+    [CLINIC_TIMEZONE, prefix]
+  );
+  return formatTicketNumber(prefix, result.rows[0].lastNumber);
+}
+
+interface NewPatient {
+  name: string;
+  problem: string;
+  priority: string;
+  queueId: number;
+  arrivalTime: string;
+  recordId: number | null;
+  ruleMatch: PriorityRuleMatch | null;
+}
+
+// Locks the registry record, so two visits for the same person cannot be
+// added at once, and tells whether they already have one in the queue
+async function recordHasActiveVisit(client: PoolClient, record_id: number): Promise<boolean> {
+  await client.query("SELECT id FROM patient_records WHERE id = $1 FOR UPDATE", [record_id]);
+  const result = await client.query(
+    'SELECT 1 FROM patients WHERE "recordId" = $1 AND status = ANY($2) LIMIT 1',
+    [record_id, ACTIVE_PATIENT_STATUSES]
+  );
+  return result.rows.length > 0;
+}
+
+// Visits created by checking in an appointment; they are not counted
+// against the daily capacity
+const WALK_IN_SQL = `NOT EXISTS (SELECT 1 FROM appointments a WHERE a."patientId" = patients.id)`;
+
+// Whether the registrations at the priority's level on a clinic day (today
+// by default) have reached the limit. The advisory lock, keyed by day and
+// level and held until the transaction ends, makes concurrent registrations
+// count one after another.
+async function dailyLimitReached(
+  client: PoolClient,
+  priority: string,
+  dailyLimit: number,
+  date: string = todayInClinicTimezone()
+): Promise<boolean> {
+  const level = priorityLevel(priority);
+  await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [`capacity:${date}:${level}`]);
+  const result = await client.query(
+    `
+    SELECT COUNT(*) AS count FROM ${ALL_VISITS} patients
+    WHERE "arrivalTime" >= $2::date::timestamp AT TIME ZONE $1
+      AND "arrivalTime" < ($2::date + 1)::timestamp AT TIME ZONE $1
+      AND status <> $3
+      AND priority = ANY($4)
+      AND ${WALK_IN_SQL}
+  `,
+    [CLINIC_TIMEZONE, date, PatientStatus.Cancelled, prioritiesAtLevel(level)]
+  );
+  return parseInt(result.rows[0].count, 10) >= dailyLimit;
+}
+
+// Adds a waiting patient with the next ticket number of the day. Shared by
+// registration and appointment check-in; runs in the caller's transaction.
+async function insertPatient(
+  client: PoolClient,
+  fields: NewPatient,
+  hashedSecret: string,
+  createdBy: number | null,
+  audit: AuditContext | null
+): Promise<Patient> {
+  const ticketNumber = await nextTicketNumber(client, fields.priority);
+  const result = await client.query(
+    `
+    INSERT INTO patients (
+      name, problem, priority, "arrivalTime", status, "queueId", "ticketNumber", "ticketSecret",
+      "recordId", "priorityRule", "suggestedPriority"
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING *
+  `,
+    [
+      fields.name,
+      fields.problem,
+      fields.priority,
+      fields.arrivalTime,
+      PatientStatus.Waiting,
+      fields.queueId,
+      ticketNumber,
+      hashedSecret,
+      fields.recordId,
+      fields.ruleMatch ? fields.ruleMatch.rule : null,
+      fields.ruleMatch ? fields.ruleMatch.suggestedPriority : null,
+    ]
+  );
+  await recordStatusChange(client, result.rows[0].id, null, PatientStatus.Waiting, createdBy);
+
+  const patient = rowToPatient(result.rows[0] as PatientRow);
+  await auditChange(client, audit, {
+    action: AuditAction.PatientCreate,
+    targetType: "patient",
+    targetId: patient.id,
+    before: null,
+    after: patient,
+  });
+  publishQueueEvent(client, QueueEventType.PatientAdded, patient);
+  publishStatsChanged(client, patient.queueId);
+  return patient;
+}
+
+async function addPatient(
+  name: string,
+  problem: string,
+  priority: string,
+  queueId: number,
+  createdBy: number | null = null,
+  recordId: number | null = null,
+  ruleMatch: PriorityRuleMatch | null = null,
+  dailyLimit: number | null = null,
+  audit: AuditContext | null = null
+): Promise<[RegisteredPatient | null, string | null]> {
+  const ticketSecret = generateTicketSecret();
+  const hashedSecret = await hashPassword(ticketSecret);
+
+  const client = await getDbClient();
+  try {
+    const arrival = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+
+    await client.query("BEGIN");
+    if (recordId !== null && (await recordHasActiveVisit(client, recordId))) {
+      await client.query("ROLLBACK");
+      return [null, "active_visit"];
+    }
+    if (dailyLimit !== null && (await dailyLimitReached(client, priority, dailyLimit))) {
+      await client.query("ROLLBACK");
+      return [null, "capacity_full"];
+    }
+    const patient = await insertPatient(
+      client,
+      { name, problem, priority, queueId, arrivalTime: arrival, recordId, ruleMatch },
+      hashedSecret,
+      createdBy,
+      audit
+    );
+    await commitWithQueueEvents(client);
+
+    return [{ ...patient, ticketSecret }, null];
+  } catch (error) {
+    await rollbackWithQueueEvents(client);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function recordStatusChange(
+  client: PoolClient,
+  patient_id: number,
+  fromStatus: string | null,
+  toStatus: string,
+  changedBy: number | null
+): Promise<void> {
+  await client.query(
+    `
+    INSERT INTO patient_status_history ("patientId", "fromStatus", "toStatus", "changedBy")
+    VALUES ($1, $2, $3, $4)
+  `,
+    [patient_id, fromStatus, toStatus, changedBy]
+  );
+}
+
+function publishStatusChanged(client: PoolClient, row: PatientRow, fromStatus: string): void {
+  const patient = rowToPatient(row);
+  publishQueueEvent(client, QueueEventType.StatusChanged, {
+    patientId: patient.id,
+    fromStatus,
+    toStatus: patient.status,
+    patient,
+  });
+  publishStatsChanged(client, patient.queueId);
+}
+
+// The stats-changed event goes out once the transaction commits
+function publishStatsChanged(client: PoolClient, queueId: number): void {
+  pendingFor(client).statsQueueIds.add(queueId);
+}
+
+// Move a patient to toStatus if their current status is one of allowedFrom.
+// The row is locked for the duration so concurrent transitions cannot both
+// succeed from the same starting status.
+async function applyStatusTransition(
+  patient_id: number,
+  toStatus: PatientStatus,
+  allowedFrom: PatientStatus[],
+  changedBy: number | null,
+  audit: AuditContext | null
+): Promise<[PatientRow | null, string | null]> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    const checkResult = await client.query(
+      "SELECT * FROM patients WHERE id = $1 FOR UPDATE",
+      [patient_id]
+    );
+
+    if (checkResult.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return [null, "not_found"];
+    }
+
+    const row = checkResult.rows[0] as PatientRow;
+    if (!allowedFrom.includes(row.status as PatientStatus)) {
+      await client.query("ROLLBACK");
+      return [row, "invalid_transition"];
+    }
+
+    const updateResult = await client.query(
+      `
+      UPDATE patients SET
+        status = $2::text,
+        "seenAt" = CASE WHEN $2::text IN ('InConsultation', 'Visited')
+          THEN COALESCE("seenAt", NOW()) ELSE "seenAt" END,
+        "visitedAt" = CASE WHEN $2::text = 'Visited' THEN NOW() ELSE "visitedAt" END
+      WHERE id = $1
+      RETURNING *
+    `,
+      [patient_id, toStatus]
+    );
+    await recordStatusChange(client, patient_id, row.status, toStatus, changedBy);
+    await auditChange(client, audit, {
+      action: AuditAction.PatientStatusChange,
+      targetType: "patient",
+      targetId: patient_id,
+      before: { status: row.status },
+      after: { status: toStatus },
+    });
+    publishStatusChanged(client, updateResult.rows[0] as PatientRow, row.status);
+    await commitWithQueueEvents(client);
+
+    return [updateResult.rows[0] as PatientRow, null];
+  } catch (error) {
+    await rollbackWithQueueEvents(client);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function transitionPatientStatus(
+  patient_id: number,
+  toStatus: PatientStatus,
+  changedBy: number | null = null,
+  audit: AuditContext | null = null
+): Promise<[Patient | null, string | null]> {
+  const [row, err] = await applyStatusTransition(
+    patient_id,
+    toStatus,
+    statusesAllowedInto(toStatus),
+    changedBy,
+    audit
+  );
+  if (err) {
+    return [null, err];
+  }
+  return [rowToPatient(row as PatientRow), null];
+}
+
+// Shortcut used by the front desk: closes out any patient who is still
+// active, without requiring the intermediate Called/InConsultation steps
+async function markVisited(
+  patient_id: number,
+  changedBy: number | null = null,
+  audit: AuditContext | null = null
+): Promise<[Patient | null, string | null]> {
+  const [row, err] = await applyStatusTransition(
+    patient_id,
+    PatientStatus.Visited,
+    ACTIVE_PATIENT_STATUSES,
+    changedBy,
+    audit
+  );
+
+  if (err === "invalid_transition" && row?.status === PatientStatus.Visited) {
+    return [null, "already_visited"];
+  }
+  if (err) {
+    return [null, err];
+  }
+  return [rowToPatient(row as PatientRow), null];
+}
+
+// Atomically claim the next waiting patient for a user. SKIP LOCKED lets
+// concurrent callers each take a different patient instead of blocking on
+// (or double-claiming) the same row.
+async function claimNextPatient(
+  user_id: number,
+  queueId: number | null = null,
+  audit: AuditContext | null = null
+): Promise<Patient | null> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    const policy = await loadTriagePolicy(client);
+    const nextResult = await client.query(
+      `
+      SELECT id, status FROM patients
+      WHERE status = $1 AND ($2::int IS NULL OR "queueId" = $2)
+      ORDER BY ${queueOrderSql(policy)}
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    `,
+      [PatientStatus.Waiting, queueId]
+    );
+
+    if (nextResult.rows.length === 0) {
+      await client.query("COMMIT");
+      return null;
+    }
+
+    const patient_id = nextResult.rows[0].id;
+    const updateResult = await client.query(
+      `
+      UPDATE patients
+      SET status = $2, "claimedBy" = $3, "claimedAt" = NOW()
+      WHERE id = $1
+      RETURNING *
+    `,
+      [patient_id, PatientStatus.Called, user_id]
+    );
+    await recordStatusChange(
+      client,
+      patient_id,
+      PatientStatus.Waiting,
+      PatientStatus.Called,
+      user_id
+    );
+    await auditChange(client, audit, {
+      action: AuditAction.PatientStatusChange,
+      targetType: "patient",
+      targetId: patient_id,
+      before: { status: PatientStatus.Waiting },
+      after: { status: PatientStatus.Called, claimedBy: user_id },
+    });
+    publishStatusChanged(
+      client,
+      updateResult.rows[0] as PatientRow,
+      PatientStatus.Waiting
+    );
+    await commitWithQueueEvents(client);
+
+    return rowToPatient(updateResult.rows[0] as PatientRow);
+  } catch (error) {
+    await rollbackWithQueueEvents(client);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Move a waiting patient to another queue. "arrivalTime" is left untouched so
+// the patient keeps their place relative to everyone who arrived after them.
+async function transferPatient(
+  patient_id: number,
+  queueId: number,
+  changedBy: number | null = null,
+  audit: AuditContext | null = null
+): Promise<[Patient | null, string | null]> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    const checkResult = await client.query(
+      "SELECT * FROM patients WHERE id = $1 FOR UPDATE",
+      [patient_id]
+    );
+
+    if (checkResult.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return [null, "not_found"];
+    }
+
+    const row = checkResult.rows[0] as PatientRow;
+    if (row.status !== PatientStatus.Waiting) {
+      await client.query("ROLLBACK");
+      return [null, "not_waiting"];
+    }
+    if (row.queueId === queueId) {
+      await client.query("ROLLBACK");
+      return [null, "same_queue"];
+    }
+
+    const queueResult = await client.query(
+      "SELECT id FROM queues WHERE id = $1 AND active = TRUE",
+      [queueId]
+    );
+    if (queueResult.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return [null, "queue_not_found"];
+    }
+
+    const updateResult = await client.query(
+      'UPDATE patients SET "queueId" = $2 WHERE id = $1 RETURNING *',
+      [patient_id, queueId]
+    );
+
+    const patient = rowToPatient(updateResult.rows[0] as PatientRow);
+    await auditChange(client, audit, {
+      action: AuditAction.PatientTransfer,
+      targetType: "patient",
+      targetId: patient.id,
+      before: { queueId: row.queueId },
+      after: { queueId },
+    });
+    publishQueueEvent(client, QueueEventType.PatientTransferred, {
+      patientId: patient.id,
+      fromQueueId: row.queueId,
+      toQueueId: queueId,
+      transferredBy: changedBy,
+      patient,
+    });
+    publishStatsChanged(client, row.queueId);
+    publishStatsChanged(client, queueId);
+    await commitWithQueueEvents(client);
+
+    return [patient, null];
+  } catch (error) {
+    await rollbackWithQueueEvents(client);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Edit the registration details of a patient who is still in the queue.
+// Ordering follows from priority and "arrivalTime", so an escalated patient
+// moves ahead of everyone of lower priority without losing their place among
+// equals. The ticket number stays as printed on the patient's slip.
+async function updatePatient(
+  patient_id: number,
+  update: PatientUpdateFields,
+  changedBy: number | null = null,
+  dailyLimit: number | null = null,
+  audit: AuditContext | null = null
+): Promise<[Patient | null, string | null]> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    const checkResult = await client.query(
+      `
+      SELECT *, to_char("arrivalTime" AT TIME ZONE $2, 'YYYY-MM-DD') AS "arrivalDate"
+      FROM patients WHERE id = $1 FOR UPDATE
+    `,
+      [patient_id, CLINIC_TIMEZONE]
+    );
+
+    if (checkResult.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return [null, "not_found"];
+    }
+
+    const row = checkResult.rows[0] as PatientRow & { arrivalDate: string };
+    if (!ACTIVE_PATIENT_STATUSES.includes(row.status as PatientStatus)) {
+      await client.query("ROLLBACK");
+      return [null, "not_active"];
+    }
+    // Moving to another triage level takes a place on the patient's day
+    if (
+      dailyLimit !== null &&
+      update.priority !== undefined &&
+      priorityLevel(update.priority) !== priorityLevel(row.priority) &&
+      (await dailyLimitReached(client, update.priority, dailyLimit, row.arrivalDate))
+    ) {
+      await client.query("ROLLBACK");
+      return [null, "capacity_full"];
+    }
+
+    const updateResult = await client.query(
+      `
+      UPDATE patients SET
+        name = COALESCE($2, name),
+        problem = COALESCE($3, problem),
+        priority = COALESCE($4, priority)
+      WHERE id = $1
+      RETURNING *
+    `,
+      [patient_id, update.name ?? null, update.problem ?? null, update.priority ?? null]
+    );
+
+    const patient = rowToPatient(updateResult.rows[0] as PatientRow);
+    await auditChange(client, audit, {
+      action: AuditAction.PatientUpdate,
+      targetType: "patient",
+      targetId: patient.id,
+      ...auditedUpdate(update, rowToPatient(row), patient),
+    });
+    publishQueueEvent(client, QueueEventType.PatientUpdated, {
+      patientId: patient.id,
+      updatedBy: changedBy,
+      patient,
+    });
+    if (patient.priority !== row.priority) {
+      publishStatsChanged(client, patient.queueId);
+    }
+    await commitWithQueueEvents(client);
+
+    return [patient, null];
+  } catch (error) {
+    await rollbackWithQueueEvents(client);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Revert a visit marked by mistake: the patient goes back to the status they
+// had before it, keeping their original "arrivalTime" and so their place in
+// the queue. Only visits from the last windowMinutes can be undone.
+async function undoVisit(
+  patient_id: number,
+  windowMinutes: number,
+  changedBy: number | null = null,
+  audit: AuditContext | null = null
+): Promise<[Patient | null, string | null]> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    const checkResult = await client.query(
+      `
+      SELECT *, "visitedAt" < NOW() - make_interval(mins => $2) AS expired
+      FROM patients WHERE id = $1 FOR UPDATE
+    `,
+      [patient_id, windowMinutes]
+    );
+
+    if (checkResult.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return [null, "not_found"];
+    }
+
+    const row = checkResult.rows[0] as PatientRow & { expired: boolean | null };
+    if (row.status !== PatientStatus.Visited) {
+      await client.query("ROLLBACK");
+      return [null, "not_visited"];
+    }
+    if (row.expired) {
+      await client.query("ROLLBACK");
+      return [null, "too_late"];
+    }
+    // The patient may have registered again since the visit
+    const recordId = row.recordId ?? null;
+    if (recordId !== null && (await recordHasActiveVisit(client, recordId))) {
+      await client.query("ROLLBACK");
+      return [null, "active_visit"];
+    }
+
+    const historyResult = await client.query(
+      `
+      SELECT "fromStatus" FROM patient_status_history
+      WHERE "patientId" = $1 AND "toStatus" = $2
+      ORDER BY "changedAt" DESC, id DESC
+      LIMIT 1
+    `,
+      [patient_id, PatientStatus.Visited]
+    );
+    const restoredStatus = previousActiveStatus(historyResult.rows[0]?.fromStatus ?? null);
+
+    // "seenAt" only predates the visit when the consultation had started.
+    // A patient back to waiting is no longer claimed, and one back with a
+    // doctor keeps the claim only while that doctor's account is enabled.
+    const updateResult = await client.query(
+      `
+      UPDATE patients SET
+        status = $2::text,
+        "visitedAt" = NULL,
+        "seenAt" = CASE WHEN $2::text = 'InConsultation' THEN "seenAt" ELSE NULL END,
+        "claimedBy" = CASE WHEN $2::text = 'Waiting' THEN NULL ELSE (
+          SELECT u.id FROM users u WHERE u.id = patients."claimedBy" AND NOT u.disabled
+        ) END,
+        "claimedAt" = CASE WHEN $2::text = 'Waiting' THEN NULL ELSE "claimedAt" END
+      WHERE id = $1
+      RETURNING *
+    `,
+      [patient_id, restoredStatus]
+    );
+    await recordStatusChange(client, patient_id, PatientStatus.Visited, restoredStatus, changedBy);
+    await auditChange(client, audit, {
+      action: AuditAction.PatientUndoVisit,
+      targetType: "patient",
+      targetId: patient_id,
+      before: { status: row.status, visitedAt: toIsoTimestamp(row.visitedAt) },
+      after: { status: restoredStatus, visitedAt: null },
+    });
+    publishStatusChanged(client, updateResult.rows[0] as PatientRow, PatientStatus.Visited);
+    await commitWithQueueEvents(client);
+
+    return [rowToPatient(updateResult.rows[0] as PatientRow), null];
+  } catch (error) {
+    await rollbackWithQueueEvents(client);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function getPatientStatusHistory(
+  patient_id: number
+): Promise<PatientStatusChange[] | null> {
+  const client = await getDbClient();
+  try {
+    const checkResult = await client.query(
+      `SELECT id FROM ${ALL_VISITS} patients WHERE id = $1`,
+      [patient_id]
+    );
+    if (checkResult.rows.length === 0) {
+      return null;
+    }
+
+    const result = await client.query(
+      `
+      SELECT * FROM patient_status_history
+      WHERE "patientId" = $1
+      ORDER BY "changedAt" ASC, id ASC
+    `,
+      [patient_id]
+    );
+    return result.rows.map((r) => ({
+      id: r.id,
+      patientId: r.patientId,
+      fromStatus: r.fromStatus,
+      toStatus: r.toStatus,
+      changedBy: r.changedBy,
+      changedAt: toIsoTimestamp(r.changedAt) as string,
+    }));
+  } finally {
+    client.release();
+  }
+}
+
+// Data for the public waiting-room screen. Only ticket numbers, queue names
+// and positions are selected so no personal details can leak.
+async function getDisplayBoard(
+  queueId: number | null = null
+): Promise<DisplayBoard> {
+  const client = await getDbClient();
+  try {
+    const servingResult = await client.query(
+      `
+      SELECT p."ticketNumber", p."queueId", q.name AS "queueName", p.status
+      FROM patients p JOIN queues q ON q.id = p."queueId"
+      WHERE p.status = ANY($1) AND ($2::int IS NULL OR p."queueId" = $2)
+      ORDER BY p."claimedAt" DESC NULLS LAST, p.id DESC
+    `,
+      [[PatientStatus.Called, PatientStatus.InConsultation], queueId]
+    );
+
+    const policy = await loadTriagePolicy(client);
+    const waitingResult = await client.query(
+      `
+      SELECT w."ticketNumber", w."queueId", q.name AS "queueName", w.position
+      FROM (
+        SELECT "ticketNumber", "queueId",
+          ROW_NUMBER() OVER (PARTITION BY "queueId" ORDER BY ${queueOrderSql(policy)}) AS position
+        FROM patients
+        WHERE status = $1 AND ($2::int IS NULL OR "queueId" = $2)
+      ) w JOIN queues q ON q.id = w."queueId"
+      ORDER BY w."queueId", w.position
+    `,
+      [PatientStatus.Waiting, queueId]
+    );
+
+    return {
+      nowServing: servingResult.rows.map((r) => ({
+        ticketNumber: r.ticketNumber,
+        queueId: r.queueId,
+        queueName: r.queueName,
+        status: r.status as PatientStatus,
+      })),
+      waiting: waitingResult.rows.map((r) => ({
+        ticketNumber: r.ticketNumber,
+        queueId: r.queueId,
+        queueName: r.queueName,
+        position: parseInt(r.position, 10),
+      })),
+      updatedAt: toIsoTimestamp(new Date()) as string,
+    };
+  } finally {
+    client.release();
+  }
+}
+
+// Self-service lookup for a patient holding a ticket slip. Ticket numbers
+// restart daily, so the most recent tickets with that number are checked
+// against the secret. Returns null for unknown tickets and wrong secrets alike.
+async function getTicketStatus(
+  ticketNumber: string,
+  secret: string
+): Promise<TicketStatus | null> {
+  const client = await getDbClient();
+  try {
+    const candidates = await client.query(
+      `
+      SELECT id, "ticketSecret" FROM patients
+      WHERE "ticketNumber" = $1 AND "ticketSecret" IS NOT NULL
+      ORDER BY id DESC
+      LIMIT 3
+    `,
+      [ticketNumber]
+    );
+
+    let patient_id: number | null = null;
+    for (const row of candidates.rows) {
+      if (await verifyPassword(secret, row.ticketSecret)) {
+        patient_id = row.id;
+        break;
+      }
+    }
+    if (patient_id === null) {
+      return null;
+    }
+
+    const patientResult = await client.query(
+      `
+      SELECT p.status, p."queueId", q.name AS "queueName"
+      FROM patients p JOIN queues q ON q.id = p."queueId"
+      WHERE p.id = $1
+    `,
+      [patient_id]
+    );
+    const row = patientResult.rows[0];
+
+    let position: number | null = null;
+    let patientsAhead = 0;
+    let emergenciesAhead = 0;
+    if (row.status === PatientStatus.Waiting) {
+      const policy = await loadTriagePolicy(client);
+      const aheadResult = await client.query(
+        `
+        WITH ranked AS (
+          SELECT id, priority,
+            ROW_NUMBER() OVER (ORDER BY ${queueOrderSql(policy)}) AS position
+          FROM patients
+          WHERE status = $1 AND "queueId" = $2
+        )
+        SELECT
+          me.position,
+          COUNT(ahead.id) FILTER (WHERE ahead.priority = ANY($4)) AS emergencies
+        FROM ranked me
+        LEFT JOIN ranked ahead ON ahead.position < me.position
+        WHERE me.id = $3
+        GROUP BY me.position
+      `,
+        [PatientStatus.Waiting, row.queueId, patient_id, EMERGENCY_PRIORITIES]
+      );
+      position = parseInt(aheadResult.rows[0].position, 10);
+      patientsAhead = position - 1;
+      emergenciesAhead = parseInt(aheadResult.rows[0].emergencies, 10);
+    }
+
+    let estimatedWaitMinutes: number | null = null;
+    if (position !== null) {
+      const estimates = await queryWaitEstimates(client, row.queueId);
+      estimatedWaitMinutes = estimates.get(patient_id) ?? null;
+    }
+
+    return {
+      ticketNumber,
+      status: row.status as PatientStatus,
+      queueName: row.queueName,
+      position,
+      patientsAhead,
+      emergenciesAhead,
+      estimatedWaitMinutes,
+    };
+  } finally {
+    client.release();
+  }
+}
+
+async function getStats(
+  queueId: number | null = null
+): Promise<PatientStats> {
+  const client = await getDbClient();
+  try {
+    return await queryStats(client, queueId);
+  } finally {
+    client.release();
+  }
+}
+
+async function countRegistrations(date: string): Promise<Record<string, number>> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      SELECT priority, COUNT(*) AS count FROM ${ALL_VISITS} patients
+      WHERE "arrivalTime" >= $2::date::timestamp AT TIME ZONE $1
+        AND "arrivalTime" < ($2::date + 1)::timestamp AT TIME ZONE $1
+        AND status <> $3
+        AND ${WALK_IN_SQL}
+      GROUP BY priority
+    `,
+      [CLINIC_TIMEZONE, date, PatientStatus.Cancelled]
+    );
+    const counts: Record<string, number> = {};
+    for (const row of result.rows) {
+      counts[row.priority] = parseInt(row.count, 10);
+    }
+    return counts;
+  } finally {
+    client.release();
+  }
+}
+
+async function queryStats(
+  client: PoolClient,
+  queueId: number | null = null
+): Promise<PatientStats> {
+  const countsResult = await client.query(
+    `
+    SELECT status, COUNT(*) as count FROM patients
+    WHERE ($1::int IS NULL OR "queueId" = $1)
+    GROUP BY status
+  `,
+    [queueId]
+  );
+  const counts: Record<string, number> = {};
+  for (const row of countsResult.rows) {
+    counts[row.status] = parseInt(row.count, 10);
+  }
+
+  const emergencyResult = await client.query(
+    `
+    SELECT COUNT(*) as count FROM patients
+    WHERE status='Waiting' AND priority = ANY($2)
+      AND ($1::int IS NULL OR "queueId" = $1)
+  `,
+    [queueId, EMERGENCY_PRIORITIES]
+  );
+  const emergency = parseInt(emergencyResult.rows[0].count, 10);
+
+  // Clinic-wide stats estimate for the default queue, where patients
+  // registered without a queue end up
+  let estimateQueueId = queueId;
+  if (estimateQueueId === null) {
+    const defaultResult = await client.query(
+      "SELECT MIN(id) as id FROM queues WHERE active = TRUE"
+    );
+    estimateQueueId = defaultResult.rows[0].id;
+  }
+  const profile = await loadWaitTimeProfile(client);
+  const waiting = await queryWaitingEntries(client, estimateQueueId);
+  const staff = await queryActiveStaff(client, estimateQueueId);
+  const newArrivalWaitMinutes =
+    estimateQueueId === null
+      ? estimateNewArrivalWaits([], profile, 0, 1)
+      : estimateNewArrivalWaits(
+          waiting,
+          profile,
+          estimateQueueId,
+          staff.get(estimateQueueId) ?? 1
+        );
+
+  return {
+    totalWaiting: counts[PatientStatus.Waiting] || 0,
+    totalEmergency: emergency,
+    totalVisited: counts[PatientStatus.Visited] || 0,
+    totalCalled: counts[PatientStatus.Called] || 0,
+    totalInConsultation: counts[PatientStatus.InConsultation] || 0,
+    totalNoShow: counts[PatientStatus.NoShow] || 0,
+    totalCancelled: counts[PatientStatus.Cancelled] || 0,
+    totalLeftWithoutBeingSeen: counts[PatientStatus.LeftWithoutBeingSeen] || 0,
+    newArrivalWaitMinutes,
+  };
+}
+
+// Patient record functions
+
+// DATE columns would otherwise come back as local-midnight Date objects
+const RECORD_COLUMNS = `
+  id, name, to_char("dateOfBirth", 'YYYY-MM-DD') AS "dateOfBirth", phone, "nationalId",
+  "createdAt", "updatedAt"
+`;
+
+function rowToPatientRecord(r: any): PatientRecord {
+  return {
+    id: r.id,
+    name: r.name,
+    dateOfBirth: r.dateOfBirth,
+    phone: r.phone,
+    nationalId: r.nationalId,
+    createdAt: toIsoTimestamp(r.createdAt) as string,
+    updatedAt: toIsoTimestamp(r.updatedAt) as string,
+  };
+}
+
+async function createRecord(fields: PatientRecordFields): Promise<PatientRecord> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      INSERT INTO patient_records (name, "dateOfBirth", phone, "nationalId")
+      VALUES ($1, $2, $3, $4)
+      RETURNING ${RECORD_COLUMNS}
+    `,
+      [fields.name, fields.dateOfBirth, fields.phone, fields.nationalId]
+    );
+    return rowToPatientRecord(result.rows[0]);
+  } catch (error: any) {
+    if (error.code === "23505") {
+      // Unique violation (duplicate national ID)
+      throw new Error("A patient record with this national ID already exists");
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function getRecordById(record_id: number): Promise<PatientRecord | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `SELECT ${RECORD_COLUMNS} FROM patient_records WHERE id = $1`,
+      [record_id]
+    );
+    return result.rows.length > 0 ? rowToPatientRecord(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+async function updateRecord(
+  record_id: number,
+  fields: Partial<PatientRecordFields>
+): Promise<PatientRecord | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      UPDATE patient_records SET
+        name = COALESCE($2, name),
+        "dateOfBirth" = COALESCE($3, "dateOfBirth"),
+        phone = COALESCE($4, phone),
+        "nationalId" = CASE WHEN $5 THEN $6 ELSE "nationalId" END,
+        "updatedAt" = NOW()
+      WHERE id = $1
+      RETURNING ${RECORD_COLUMNS}
+    `,
+      [
+        record_id,
+        fields.name ?? null,
+        fields.dateOfBirth ?? null,
+        fields.phone ?? null,
+        fields.nationalId !== undefined,
+        fields.nationalId ?? null,
+      ]
+    );
+    return result.rows.length > 0 ? rowToPatientRecord(result.rows[0]) : null;
+  } catch (error: any) {
+    if (error.code === "23505") {
+      throw new Error("A patient record with this national ID already exists");
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function findRecords(filter: PatientRecordFilter): Promise<PatientRecord[]> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const addCondition = (sql: string, value: unknown) => {
+    params.push(value);
+    conditions.push(sql.replace("?", `$${params.length}`));
+  };
+
+  if (filter.search !== undefined) {
+    addCondition("name ILIKE ?", containsPattern(filter.search));
+  }
+  if (filter.phone !== undefined) {
+    addCondition("phone = ?", filter.phone);
+  }
+  if (filter.nationalId !== undefined) {
+    addCondition(`"nationalId" = ?`, filter.nationalId);
+  }
+  if (filter.dateOfBirth !== undefined) {
+    addCondition(`"dateOfBirth" = ?`, filter.dateOfBirth);
+  }
+  params.push(filter.limit);
+
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      SELECT ${RECORD_COLUMNS} FROM patient_records
+      ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY LOWER(name) COLLATE "C", id
+      LIMIT $${params.length}
+    `,
+      params
+    );
+    return result.rows.map(rowToPatientRecord);
+  } finally {
+    client.release();
+  }
+}
+
+async function getRecordVisits(record_id: number): Promise<Patient[]> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      SELECT * FROM ${ALL_VISITS} patients WHERE "recordId" = $1
+      ORDER BY "arrivalTime" DESC, id DESC
+    `,
+      [record_id]
+    );
+    return result.rows.map((r) => rowToPatient(r as PatientRow));
+  } finally {
+    client.release();
+  }
+}
+
+// Appointment functions
+
+const APPOINTMENT_SELECT = `
+  SELECT a.*, r.name FROM appointments a
+  JOIN patient_records r ON r.id = a."recordId"
+`;
+
+// Slots still taken; cancelled and missed appointments free theirs
+const ACTIVE_APPOINTMENT_STATUSES = [AppointmentStatus.Booked, AppointmentStatus.CheckedIn];
+
+function rowToAppointment(r: any): Appointment {
+  return {
+    id: r.id,
+    recordId: r.recordId,
+    name: r.name,
+    queueId: r.queueId,
+    startTime: toIsoTimestamp(r.startTime) as string,
+    durationMinutes: r.durationMinutes,
+    reason: r.reason,
+    status: r.status as AppointmentStatus,
+    patientId: r.patientId,
+    createdBy: r.createdBy,
+    createdAt: toIsoTimestamp(r.createdAt) as string,
+    checkedInAt: toIsoTimestamp(r.checkedInAt),
+  };
+}
+
+async function selectAppointment(
+  client: PoolClient,
+  appointment_id: number
+): Promise<Appointment | null> {
+  const result = await client.query(`${APPOINTMENT_SELECT} WHERE a.id = $1`, [appointment_id]);
+  return result.rows.length > 0 ? rowToAppointment(result.rows[0]) : null;
+}
+
+async function createAppointment(
+  fields: AppointmentFields,
+  createdBy: number | null
+): Promise<[Appointment | null, string | null]> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    // Bookings for the same queue or person wait for each other, so two
+    // overlapping ones can never both pass the check below
+    await client.query("SELECT id FROM queues WHERE id = $1 FOR UPDATE", [fields.queueId]);
+    await client.query("SELECT id FROM patient_records WHERE id = $1 FOR UPDATE", [
+      fields.recordId,
+    ]);
+
+    const overlapResult = await client.query(
+      `
+      SELECT "queueId", "recordId" FROM appointments
+      WHERE status = ANY($1) AND ("queueId" = $2 OR "recordId" = $3)
+        AND "startTime" < $4::timestamptz + make_interval(mins => $5)
+        AND $4::timestamptz < "startTime" + make_interval(mins => "durationMinutes")
+    `,
+      [
+        ACTIVE_APPOINTMENT_STATUSES,
+        fields.queueId,
+        fields.recordId,
+        fields.startTime,
+        fields.durationMinutes,
+      ]
+    );
+    const overlapping = overlapResult.rows;
+    if (overlapping.some((r) => r.queueId === fields.queueId)) {
+      await client.query("ROLLBACK");
+      return [null, "queue_conflict"];
+    }
+    if (overlapping.length > 0) {
+      await client.query("ROLLBACK");
+      return [null, "patient_conflict"];
+    }
+
+    const insertResult = await client.query(
+      `
+      INSERT INTO appointments ("recordId", "queueId", "startTime", "durationMinutes", reason, status, "createdBy")
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id
+    `,
+      [
+        fields.recordId,
+        fields.queueId,
+        fields.startTime,
+        fields.durationMinutes,
+        fields.reason,
+        AppointmentStatus.Booked,
+        createdBy,
+      ]
+    );
+    const appointment = await selectAppointment(client, insertResult.rows[0].id);
+    await client.query("COMMIT");
+    return [appointment, null];
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function getAppointmentById(appointment_id: number): Promise<Appointment | null> {
+  const client = await getDbClient();
+  try {
+    return await selectAppointment(client, appointment_id);
+  } finally {
+    client.release();
+  }
+}
+
+async function findAppointments(filter: AppointmentFilter): Promise<Appointment[]> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      ${APPOINTMENT_SELECT}
+      WHERE (a."startTime" AT TIME ZONE $1)::date = $2::date
+        AND ($3::int IS NULL OR a."queueId" = $3)
+        AND ($4::text[] IS NULL OR a.status = ANY($4))
+      ORDER BY a."startTime", a.id
+    `,
+      [CLINIC_TIMEZONE, filter.date, filter.queueId ?? null, filter.statuses ?? null]
+    );
+    return result.rows.map(rowToAppointment);
+  } finally {
+    client.release();
+  }
+}
+
+async function cancelAppointment(
+  appointment_id: number
+): Promise<[Appointment | null, string | null]> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    const current = await client.query(
+      "SELECT status FROM appointments WHERE id = $1 FOR UPDATE",
+      [appointment_id]
+    );
+    if (current.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return [null, "not_found"];
+    }
+    if (current.rows[0].status !== AppointmentStatus.Booked) {
+      await client.query("ROLLBACK");
+      return [null, "not_booked"];
+    }
+
+    await client.query("UPDATE appointments SET status = $1 WHERE id = $2", [
+      AppointmentStatus.Cancelled,
+      appointment_id,
+    ]);
+    const appointment = await selectAppointment(client, appointment_id);
+    await client.query("COMMIT");
+    return [appointment, null];
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function checkInAppointment(
+  appointment_id: number,
+  options: AppointmentCheckInOptions,
+  changedBy: number | null,
+  audit: AuditContext | null = null
+): Promise<[CheckedInAppointment | null, string | null]> {
+  const ticketSecret = generateTicketSecret();
+  const hashedSecret = await hashPassword(ticketSecret);
+
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    const current = await client.query(
+      `
+      SELECT a.*, r.name, EXTRACT(EPOCH FROM (a."startTime" - NOW())) / 60 AS "minutesToStart"
+      FROM appointments a JOIN patient_records r ON r.id = a."recordId"
+      WHERE a.id = $1
+      FOR UPDATE OF a
+    `,
+      [appointment_id]
+    );
+    if (current.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return [null, "not_found"];
+    }
+    const booked = rowToAppointment(current.rows[0]);
+    if (booked.status !== AppointmentStatus.Booked) {
+      await client.query("ROLLBACK");
+      return [null, "not_booked"];
+    }
+    const minutesToStart = parseFloat(current.rows[0].minutesToStart);
+    if (minutesToStart > options.earlyMinutes) {
+      await client.query("ROLLBACK");
+      return [null, "too_early"];
+    }
+    if (-minutesToStart > options.graceMinutes) {
+      await client.query("ROLLBACK");
+      return [null, "too_late"];
+    }
+    if (await recordHasActiveVisit(client, booked.recordId)) {
+      await client.query("ROLLBACK");
+      return [null, "active_visit"];
+    }
+
+    const patient = await insertPatient(
+      client,
+      {
+        name: booked.name,
+        problem: booked.reason,
+        priority: options.priority,
+        queueId: booked.queueId,
+        arrivalTime: booked.startTime,
+        recordId: booked.recordId,
+        ruleMatch: options.ruleMatch,
+      },
+      hashedSecret,
+      changedBy,
+      audit
+    );
+    await client.query(
+      `
+      UPDATE appointments SET status = $1, "patientId" = $2, "checkedInAt" = NOW()
+      WHERE id = $3
+    `,
+      [AppointmentStatus.CheckedIn, patient.id, appointment_id]
+    );
+    const appointment = await selectAppointment(client, appointment_id);
+    await commitWithQueueEvents(client);
+
+    return [{ appointment: appointment as Appointment, patient: { ...patient, ticketSecret } }, null];
+  } catch (error) {
+    await rollbackWithQueueEvents(client);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function markMissedAppointments(graceMinutes: number): Promise<number> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      UPDATE appointments SET status = $1
+      WHERE status = $2 AND "startTime" < NOW() - make_interval(mins => $3)
+    `,
+      [AppointmentStatus.NoShow, AppointmentStatus.Booked, graceMinutes]
+    );
+    return result.rowCount ?? 0;
+  } finally {
+    client.release();
+  }
+}
+
+// Close-out functions
+
+// Rows that arrived before the end of the clinic day $2, with the clinic
+// timezone in $1
+const ARRIVED_BY_END_OF_DAY_SQL = `"arrivalTime" < ($2::date + 1)::timestamp AT TIME ZONE $1`;
+
+// Rows that arrived after the last day closed out before $2. Patients still in
+// consultation at that close-out were counted in its summary already.
+const ARRIVED_SINCE_LAST_CLOSE_OUT_SQL = `"arrivalTime" >= COALESCE(
+  (SELECT MAX(day) + 1 FROM daily_summaries WHERE day < $2), '-infinity'::date
+)::timestamp AT TIME ZONE $1`;
+
+const DAILY_SUMMARY_COLUMNS = `
+  to_char(day, 'YYYY-MM-DD') AS date, "totalWaiting", "totalEmergency", "totalVisited",
+  "totalCalled", "totalInConsultation", "totalNoShow", "totalCancelled",
+  "totalLeftWithoutBeingSeen", "markedUnserved", archived, "closedBy", "closedAt"
+`;
+
+function rowToDailySummary(r: any): DailySummary {
+  return {
+    date: r.date,
+    totalWaiting: r.totalWaiting,
+    totalEmergency: r.totalEmergency,
+    totalVisited: r.totalVisited,
+    totalCalled: r.totalCalled,
+    totalInConsultation: r.totalInConsultation,
+    totalNoShow: r.totalNoShow,
+    totalCancelled: r.totalCancelled,
+    totalLeftWithoutBeingSeen: r.totalLeftWithoutBeingSeen,
+    markedUnserved: r.markedUnserved,
+    archived: r.archived,
+    closedBy: r.closedBy,
+    closedAt: toIsoTimestamp(r.closedAt) as string,
+  };
+}
+
+async function closeOutDay(
+  date: string,
+  closedBy: number | null,
+  audit: AuditContext | null = null
+): Promise<[DailySummary | null, string | null]> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    // One close-out at a time, so a day cannot be closed out twice
+    await client.query("LOCK TABLE daily_summaries IN EXCLUSIVE MODE");
+    const existing = await client.query("SELECT 1 FROM daily_summaries WHERE day = $1", [date]);
+    if (existing.rows.length > 0) {
+      await client.query("ROLLBACK");
+      return [null, "already_closed"];
+    }
+
+    // Counted before the unserved are marked, so the summary shows the queue
+    // as GET /patients/stats saw it at the end of the day
+    const countsResult = await client.query(
+      `
+      SELECT status, COUNT(*) AS count,
+        COUNT(*) FILTER (WHERE status = $3 AND priority = ANY($4)) AS emergencies
+      FROM patients
+      WHERE ${ARRIVED_BY_END_OF_DAY_SQL} AND ${ARRIVED_SINCE_LAST_CLOSE_OUT_SQL}
+      GROUP BY status
+    `,
+      [CLINIC_TIMEZONE, date, PatientStatus.Waiting, EMERGENCY_PRIORITIES]
+    );
+    const counts: Record<string, number> = {};
+    let emergencies = 0;
+    for (const row of countsResult.rows) {
+      counts[row.status] = parseInt(row.count, 10);
+      emergencies += parseInt(row.emergencies, 10);
+    }
+
+    const markedResult = await client.query(
+      `
+      WITH unserved AS (
+        SELECT id, status FROM patients
+        WHERE status = ANY($3) AND ${ARRIVED_BY_END_OF_DAY_SQL}
+        FOR UPDATE
+      )
+      UPDATE patients p SET status = $4
+      FROM unserved u
+      WHERE p.id = u.id
+      RETURNING p.*, u.status AS "fromStatus"
+    `,
+      [
+        CLINIC_TIMEZONE,
+        date,
+        [PatientStatus.Waiting, PatientStatus.Called],
+        PatientStatus.LeftWithoutBeingSeen,
+      ]
+    );
+    const changedQueues = new Set<number>();
+    for (const row of markedResult.rows) {
+      await recordStatusChange(client, row.id, row.fromStatus, row.status, closedBy);
+      await auditChange(client, audit, {
+        action: AuditAction.PatientStatusChange,
+        targetType: "patient",
+        targetId: row.id,
+        before: { status: row.fromStatus },
+        after: { status: row.status },
+      });
+      publishQueueEvent(client, QueueEventType.StatusChanged, {
+        patientId: row.id,
+        fromStatus: row.fromStatus,
+        toStatus: row.status,
+        patient: rowToPatient(row as PatientRow),
+      });
+      changedQueues.add(row.queueId);
+    }
+
+    const archivedResult = await client.query(
+      `
+      WITH finished AS (
+        DELETE FROM patients
+        WHERE status = ANY($3) AND ${ARRIVED_BY_END_OF_DAY_SQL}
+        RETURNING *
+      )
+      INSERT INTO patient_archive SELECT * FROM finished
+      RETURNING "queueId"
+    `,
+      [CLINIC_TIMEZONE, date, TERMINAL_PATIENT_STATUSES]
+    );
+    for (const row of archivedResult.rows) {
+      changedQueues.add(row.queueId);
+    }
+
+    // Counters are kept per day, so the next day starts at number 1 anyway.
+    // The closed day's own counter stays: registrations later that day must
+    // not get its numbers again.
+    await client.query("DELETE FROM ticket_counters WHERE day < $1", [date]);
+
+    const summaryResult = await client.query(
+      `
+      INSERT INTO daily_summaries (
+        day, "totalWaiting", "totalEmergency", "totalVisited", "totalCalled",
+        "totalInConsultation", "totalNoShow", "totalCancelled", "totalLeftWithoutBeingSeen",
+        "markedUnserved", archived, "closedBy"
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING ${DAILY_SUMMARY_COLUMNS}
+    `,
+      [
+        date,
+        counts[PatientStatus.Waiting] || 0,
+        emergencies,
+        counts[PatientStatus.Visited] || 0,
+        counts[PatientStatus.Called] || 0,
+        counts[PatientStatus.InConsultation] || 0,
+        counts[PatientStatus.NoShow] || 0,
+        counts[PatientStatus.Cancelled] || 0,
+        counts[PatientStatus.LeftWithoutBeingSeen] || 0,
+        markedResult.rows.length,
+        archivedResult.rows.length,
+        closedBy,
+      ]
+    );
+
+    const summary = rowToDailySummary(summaryResult.rows[0]);
+    await auditChange(client, audit, {
+      action: AuditAction.DayCloseOut,
+      targetType: "queue",
+      targetId: null,
+      before: null,
+      after: summary,
+    });
+
+    for (const queueId of changedQueues) {
+      publishStatsChanged(client, queueId);
+    }
+    await commitWithQueueEvents(client);
+    return [summary, null];
+  } catch (error) {
+    await rollbackWithQueueEvents(client);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function markLeftoverPatients(
+  date: string,
+  audit: AuditContext | null = null
+): Promise<[number | null, string | null]> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    // Writing the date takes the setting's row lock, so a second run for the
+    // same day waits here and then finds the date already set
+    const endedResult = await client.query(
+      `
+      INSERT INTO settings (key, value, "updatedBy") VALUES ($1, $2, NULL)
+      ON CONFLICT (key) DO UPDATE SET
+        value = EXCLUDED.value, "updatedAt" = NOW(), "updatedBy" = NULL
+      WHERE settings.value IS DISTINCT FROM EXCLUDED.value
+      RETURNING key
+    `,
+      [LAST_END_OF_DAY_SETTING, JSON.stringify(date)]
+    );
+    if (endedResult.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return [null, "already_ended"];
+    }
+
+    const markedResult = await client.query(
+      `
+      WITH leftover AS (
+        SELECT id, status FROM patients WHERE status = ANY($1) FOR UPDATE
+      )
+      UPDATE patients p SET status = $2
+      FROM leftover l
+      WHERE p.id = l.id
+      RETURNING p.*, l.status AS "fromStatus"
+    `,
+      [[PatientStatus.Waiting, PatientStatus.Called], PatientStatus.LeftWithoutBeingSeen]
+    );
+    const changedQueues = new Set<number>();
+    for (const row of markedResult.rows) {
+      await recordStatusChange(client, row.id, row.fromStatus, row.status, null);
+      await auditChange(client, audit, {
+        action: AuditAction.PatientStatusChange,
+        targetType: "patient",
+        targetId: row.id,
+        before: { status: row.fromStatus },
+        after: { status: row.status },
+      });
+      publishQueueEvent(client, QueueEventType.StatusChanged, {
+        patientId: row.id,
+        fromStatus: row.fromStatus,
+        toStatus: row.status,
+        patient: rowToPatient(row as PatientRow),
+      });
+      changedQueues.add(row.queueId);
+    }
+
+    for (const queueId of changedQueues) {
+      publishStatsChanged(client, queueId);
+    }
+    await commitWithQueueEvents(client);
+    return [markedResult.rows.length, null];
+  } catch (error) {
+    await rollbackWithQueueEvents(client);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function getDailySummary(date: string): Promise<DailySummary | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `SELECT ${DAILY_SUMMARY_COLUMNS} FROM daily_summaries WHERE day = $1`,
+      [date]
+    );
+    return result.rows.length > 0 ? rowToDailySummary(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+async function getDailySummaries(range: ReportRange): Promise<DailySummary[]> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      SELECT ${DAILY_SUMMARY_COLUMNS} FROM daily_summaries
+      WHERE day BETWEEN $1::date AND $2::date
+      ORDER BY day
+    `,
+      [range.from, range.to]
+    );
+    return result.rows.map(rowToDailySummary);
+  } finally {
+    client.release();
+  }
+}
+
+// Queue functions
+async function getAllQueues(includeInactive: boolean = false): Promise<Queue[]> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      "SELECT * FROM queues WHERE active = TRUE OR $1 ORDER BY id",
+      [includeInactive]
+    );
+    return result.rows.map((r) => rowToQueue(r as QueueRow));
+  } finally {
+    client.release();
+  }
+}
+
+async function getQueueById(queue_id: number): Promise<Queue | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query("SELECT * FROM queues WHERE id = $1", [
+      queue_id,
+    ]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return rowToQueue(result.rows[0] as QueueRow);
+  } finally {
+    client.release();
+  }
+}
+
+async function getDefaultQueue(): Promise<Queue | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      "SELECT * FROM queues WHERE active = TRUE ORDER BY id LIMIT 1"
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return rowToQueue(result.rows[0] as QueueRow);
+  } finally {
+    client.release();
+  }
+}
+
+async function createQueue(
+  name: string,
+  type: string,
+  description: string | null = null
+): Promise<Queue> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      INSERT INTO queues (name, type, description)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `,
+      [name, type, description]
+    );
+    return rowToQueue(result.rows[0] as QueueRow);
+  } catch (error: any) {
+    if (error.code === "23505") {
+      // Unique violation (duplicate name)
+      throw new Error("Queue already exists");
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function updateQueue(
+  queue_id: number,
+  fields: {
+    name?: string;
+    type?: string;
+    description?: string | null;
+    active?: boolean;
+  }
+): Promise<Queue | null> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      UPDATE queues SET
+        name = COALESCE($2, name),
+        type = COALESCE($3, type),
+        description = CASE WHEN $4 THEN $5 ELSE description END,
+        active = COALESCE($6, active)
+      WHERE id = $1
+      RETURNING *
+    `,
+      [
+        queue_id,
+        fields.name ?? null,
+        fields.type ?? null,
+        fields.description !== undefined,
+        fields.description ?? null,
+        fields.active ?? null,
+      ]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return rowToQueue(result.rows[0] as QueueRow);
+  } catch (error: any) {
+    if (error.code === "23505") {
+      throw new Error("Queue already exists");
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Import seed patients with their original ids, then move the sequence past
+// them so new registrations do not collide
+async function importPatients(patients: SeedPatient[]): Promise<number> {
+  const client = await getDbClient();
+  try {
+    await client.query("BEGIN");
+    const countResult = await client.query(`SELECT COUNT(*) as c FROM ${ALL_VISITS} patients`);
+    if (parseInt(countResult.rows[0].c, 10) > 0) {
+      await client.query("ROLLBACK");
+      return 0;
+    }
+
+    for (const p of patients) {
+      await client.query(
+        `
+        INSERT INTO patients (id, name, problem, priority, "arrivalTime", status, "queueId")
+        VALUES ($1, $2, $3, $4, $5, $6, (SELECT MIN(id) FROM queues))
+      `,
+        [p.id, p.name, p.problem, p.priority, p.arrivalTime, p.status]
+      );
+    }
+    await client.query(`
+      SELECT setval('patients_id_seq', COALESCE(MAX(id), 0) + 1, false)
+      FROM patients
+    `);
+    await client.query("COMMIT");
+    return patients.length;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Report queries (see reports.ts)
+
+async function getVolumeReport(
+  range: ReportRange,
+  period: ReportPeriod,
+  queueId: number | null = null
+): Promise<VolumeReportRow[]> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      WITH cohort AS (
+        SELECT
+          date_trunc($3, ("arrivalTime" AT TIME ZONE $4))::date AS period,
+          status,
+          priority,
+          EXTRACT(EPOCH FROM ("visitedAt" - "arrivalTime")) / 60 AS wait_minutes
+        FROM ${ALL_VISITS} patients
+        WHERE ("arrivalTime" AT TIME ZONE $4)::date BETWEEN $1::date AND $2::date
+          AND ($5::int IS NULL OR "queueId" = $5)
+      ),
+      periods AS (
+        SELECT generate_series(
+          date_trunc($3, $1::date),
+          $2::date,
+          ('1 ' || $3)::interval
+        )::date AS period
+      )
+      SELECT
+        to_char(periods.period, 'YYYY-MM-DD') AS period,
+        COUNT(cohort.status) AS registered,
+        COUNT(*) FILTER (WHERE cohort.status = $6) AS visited,
+        COUNT(*) FILTER (WHERE cohort.priority = ANY($7)) AS emergencies,
+        COUNT(*) FILTER (WHERE cohort.status = $8) AS no_shows,
+        AVG(cohort.wait_minutes) AS average_wait,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY cohort.wait_minutes) AS p90_wait
+      FROM periods
+      LEFT JOIN cohort ON cohort.period = periods.period
+      GROUP BY periods.period
+      ORDER BY periods.period
+    `,
+      [
+        range.from,
+        range.to,
+        period,
+        CLINIC_TIMEZONE,
+        queueId,
+        PatientStatus.Visited,
+        EMERGENCY_PRIORITIES,
+        PatientStatus.NoShow,
+      ]
+    );
+
+    return result.rows.map((r) =>
+      toVolumeReportRow({
+        period: r.period,
+        registered: parseInt(r.registered, 10),
+        visited: parseInt(r.visited, 10),
+        emergencies: parseInt(r.emergencies, 10),
+        noShows: parseInt(r.no_shows, 10),
+        averageWaitMinutes: r.average_wait === null ? null : parseFloat(r.average_wait),
+        p90WaitMinutes: r.p90_wait === null ? null : parseFloat(r.p90_wait),
+      })
+    );
+  } finally {
+    client.release();
+  }
+}
+
+async function getHourlyReport(
+  range: ReportRange,
+  queueId: number | null = null
+): Promise<HourlyReportRow[]> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      SELECT hours.hour, COUNT(p.id) AS arrivals
+      FROM generate_series(0, 23) AS hours(hour)
+      LEFT JOIN ${ALL_VISITS} p
+        ON EXTRACT(HOUR FROM (p."arrivalTime" AT TIME ZONE $3)) = hours.hour
+        AND (p."arrivalTime" AT TIME ZONE $3)::date BETWEEN $1::date AND $2::date
+        AND ($4::int IS NULL OR p."queueId" = $4)
+      GROUP BY hours.hour
+      ORDER BY hours.hour
+    `,
+      [range.from, range.to, CLINIC_TIMEZONE, queueId]
+    );
+
+    return result.rows.map((r) =>
+      toHourlyReportRow(r.hour, parseInt(r.arrivals, 10), range)
+    );
+  } finally {
+    client.release();
+  }
+}
+
+// Patients called and visited by each staff member, and how long their
+// consultations took
+async function getStaffReport(
+  range: ReportRange,
+  queueId: number | null = null
+): Promise<StaffReportRow[]> {
+  const client = await getDbClient();
+  try {
+    const result = await client.query(
+      `
+      SELECT
+        u.id AS "userId",
+        u.name,
+        u.email,
+        COUNT(*) FILTER (WHERE h."toStatus" = $4) AS called,
+        COUNT(*) FILTER (WHERE h."toStatus" = $5) AS visited,
+        AVG(EXTRACT(EPOCH FROM (p."visitedAt" - p."seenAt")) / 60)
+          FILTER (WHERE h."toStatus" = $5) AS average_consultation
+      FROM patient_status_history h
+      JOIN users u ON u.id = h."changedBy"
+      JOIN ${ALL_VISITS} p ON p.id = h."patientId"
+      WHERE (h."changedAt" AT TIME ZONE $3)::date BETWEEN $1::date AND $2::date
+        AND h."toStatus" IN ($4, $5)
+        AND ($6::int IS NULL OR p."queueId" = $6)
+      GROUP BY u.id, u.name, u.email
+      ORDER BY visited DESC, called DESC, u.id
+    `,
+      [
+        range.from,
+        range.to,
+        CLINIC_TIMEZONE,
+        PatientStatus.Called,
+        PatientStatus.Visited,
+        queueId,
+      ]
+    );
+
+    return result.rows.map((r) => ({
+      userId: r.userId,
+      name: r.name,
+      email: r.email,
+      called: parseInt(r.called, 10),
+      visited: parseInt(r.visited, 10),
+      averageConsultationMinutes: roundMinutes(
+        r.average_consultation === null ? null : parseFloat(r.average_consultation)
+      ),
+    }));
+  } finally {
+    client.release();
+  }
+}
+
+export function createPostgresStorage(): Storage {
+  return {
+    backend: StorageBackend.postgres,
+    init,
+    users: {
+      createUser,
+      getUserByEmail,
+      getUserById,
+      getAllUsers,
+      updateUserRole,
+      setUserDisabled,
+      deleteUser,
+      updatePassword,
+      setMustChangePassword,
+    },
+    passwordResets: {
+      createResetToken,
+      consumeResetToken,
+    },
+    outbox: {
+      addMessage,
+      getMessages,
+    },
+    loginAttempts: {
+      getAttempt,
+      recordFailure,
+      clearAttempts,
+      lockOut,
+      unlock,
+      getLockoutEvents,
+    },
+    twoFactor: {
+      getTwoFactor,
+      saveSecret,
+      enable: enableTwoFactor,
+      useStep,
+      replaceRecoveryCodes,
+      useRecoveryCode,
+      countRecoveryCodes,
+      disable: disableTwoFactor,
+    },
+    settings: {
+      getSetting,
+      setSetting,
+    },
+    audit: {
+      record: recordAuditEntry,
+      query: queryAuditLog,
+    },
+    sessions: {
+      createSession,
+      getSession,
+      rotateRefreshToken,
+      getActiveSessions,
+      revokeSession,
+      revokeUserSessions,
+    },
+    patients: {
+      getAllPatients,
+      getPatientById,
+      searchPatients,
+      addPatient,
+      transitionPatientStatus,
+      markVisited,
+      claimNextPatient,
+      transferPatient,
+      updatePatient,
+      undoVisit,
+      getPatientStatusHistory,
+      getDisplayBoard,
+      getTicketStatus,
+      getStats,
+      countRegistrations,
+      importPatients,
+    },
+    records: {
+      createRecord,
+      getRecordById,
+      updateRecord,
+      findRecords,
+      getRecordVisits,
+    },
+    appointments: {
+      createAppointment,
+      getAppointmentById,
+      findAppointments,
+      cancelAppointment,
+      checkInAppointment,
+      markMissedAppointments,
+    },
+    closeOuts: {
+      closeOutDay,
+      markLeftoverPatients,
+      getDailySummary,
+      getDailySummaries,
+    },
+    queues: {
+      getAllQueues,
+      getQueueById,
+      getDefaultQueue,
+      createQueue,
+      updateQueue,
+    },
+    reports: {
+      getVolumeReport,
+      getHourlyReport,
+      getStaffReport,
+    },
+    events: {
+      getLatestEventId,
+      getOldestEventId,
+      getEventsSince,
+      pruneEvents,
+      listen,
+    },
+  };
+}
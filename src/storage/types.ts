@@ -0,0 +1,595 @@
+import {
+  Patient,
+  PatientStats,
+  PatientStatus,
+  PatientStatusChange,
+  PatientRecord,
+  Appointment,
+  DailySummary,
+  Queue,
+  QueueEventType,
+  DisplayBoard,
+  RegisteredPatient,
+  TicketStatus,
+  VolumeReportRow,
+  HourlyReportRow,
+  StaffReportRow,
+} from "../classes";
+import { ReportPeriod, ReportRange } from "../reports";
+
+export enum StorageBackend {
+  postgres = "postgres",
+  memory = "memory",
+}
+
+export interface UserRecord {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  disabled: boolean;
+  // Set on the seeded admin account until its default password is replaced
+  mustChangePassword: boolean;
+}
+
+export interface UserWithPassword extends UserRecord {
+  password: string;
+}
+
+// A login on one device. The refresh token itself is never stored, only its
+// SHA-256 hash.
+export interface SessionRecord {
+  id: number;
+  userId: number;
+  refreshTokenHash: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+export interface NewSession {
+  userId: number;
+  refreshTokenHash: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  expiresAt: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface OutboxMessage extends MailMessage {
+  id: number;
+  createdAt: string;
+}
+
+// Failed logins are counted per submitted email ("account", whether or not it
+// is registered) and per client IP ("ip")
+export type LoginAttemptScope = "account" | "ip";
+
+export interface LoginAttempt {
+  scope: LoginAttemptScope;
+  key: string;
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil: string | null;
+}
+
+export interface LockoutEvent {
+  id: number;
+  scope: LoginAttemptScope;
+  key: string;
+  // Null for IP lockouts and unregistered emails
+  userId: number | null;
+  failures: number;
+  lockedUntil: string;
+  createdAt: string;
+  unlockedAt: string | null;
+  unlockedBy: number | null;
+}
+
+// A user's TOTP enrollment. Recovery codes are kept separately, hashed.
+export interface TwoFactorRecord {
+  userId: number;
+  // Base32, as shown to the authenticator app
+  secret: string;
+  // Null until the first code is confirmed; until then 2FA is not enforced
+  enabledAt: string | null;
+  // Time step of the last accepted code, so a code cannot be replayed
+  lastUsedStep: number | null;
+  createdAt: string;
+}
+
+// One entry of the append-only audit log. before/after hold the changed
+// fields (or the whole record on create and delete).
+export interface AuditEntry {
+  id: number;
+  createdAt: string;
+  // Null for anonymous requests such as failed logins with unknown emails
+  actorId: number | null;
+  // Kept as it was at the time, so the entry still reads after the account
+  // is deleted or renamed
+  actorEmail: string | null;
+  // e.g. "patient.create", "user.role_change", "auth.login_failure"
+  action: string;
+  // "patient", "user", "queue" or "settings"
+  targetType: string;
+  targetId: number | null;
+  before: unknown | null;
+  after: unknown | null;
+  ipAddress: string | null;
+  requestId: string | null;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, "id" | "createdAt">;
+
+// Who is making a change. Repository methods that take one write the audit
+// entry for the change in the same transaction as the change itself.
+export type AuditContext = Pick<NewAuditEntry, "actorId" | "actorEmail" | "ipAddress" | "requestId">;
+
+export interface AuditFilter {
+  actorId?: number;
+  // Entries whose target is this patient
+  patientId?: number;
+  action?: string;
+  // ISO timestamps; from is inclusive, to exclusive
+  from?: string;
+  to?: string;
+  // Only entries older than this id, for paging back through the log
+  beforeId?: number;
+  limit: number;
+}
+
+// A patient as listed in data.json
+export interface SeedPatient {
+  id: number;
+  name: string;
+  problem: string;
+  priority: string;
+  arrivalTime: string;
+  status: string;
+}
+
+export interface QueueEvent {
+  id: number;
+  type: QueueEventType;
+  data: unknown;
+  createdAt: string;
+}
+
+// Operations that can be refused return [result, error] (or just the error),
+// where error is one of the codes documented on each method. Duplicates are
+// thrown as errors with a user-facing message.
+
+export interface UserRepository {
+  // Throws "Email already exists"
+  createUser(
+    name: string,
+    email: string,
+    password: string,
+    role?: string,
+    mustChangePassword?: boolean
+  ): Promise<UserRecord>;
+  getUserByEmail(email: string): Promise<UserWithPassword | null>;
+  getUserById(user_id: number): Promise<UserRecord | null>;
+  // Ordered by id
+  getAllUsers(): Promise<UserRecord[]>;
+  // Errors: not_found, last_admin
+  updateUserRole(
+    user_id: number,
+    role: string,
+    audit?: AuditContext | null
+  ): Promise<[UserRecord | null, string | null]>;
+  // Errors: not_found, last_admin
+  setUserDisabled(
+    user_id: number,
+    disabled: boolean,
+    audit?: AuditContext | null
+  ): Promise<[UserRecord | null, string | null]>;
+  // Errors: not_found, last_admin
+  deleteUser(user_id: number, audit?: AuditContext | null): Promise<string | null>;
+  // Hashes and stores a new password; null when the user does not exist
+  updatePassword(
+    user_id: number,
+    password: string,
+    mustChangePassword?: boolean
+  ): Promise<UserRecord | null>;
+  setMustChangePassword(user_id: number, mustChangePassword: boolean): Promise<void>;
+}
+
+export interface PasswordResetRepository {
+  // Replaces any unused token the user already has
+  createResetToken(user_id: number, tokenHash: string, expiresAt: string): Promise<void>;
+  // Marks the token used and returns its user id, or null when the token is
+  // unknown, expired or already used
+  consumeResetToken(tokenHash: string): Promise<number | null>;
+}
+
+export interface LoginAttemptRepository {
+  getAttempt(scope: LoginAttemptScope, key: string): Promise<LoginAttempt | null>;
+  // Counts one more failure. The count starts again from 1 when the previous
+  // failure is older than windowMinutes and no lockout is in force.
+  recordFailure(
+    scope: LoginAttemptScope,
+    key: string,
+    windowMinutes: number
+  ): Promise<LoginAttempt>;
+  // Forget the failures, e.g. after a successful login
+  clearAttempts(scope: LoginAttemptScope, key: string): Promise<void>;
+  // Blocks logins until lockedUntil and records a lockout event
+  lockOut(
+    scope: LoginAttemptScope,
+    key: string,
+    lockedUntil: string,
+    userId: number | null
+  ): Promise<LockoutEvent>;
+  // Clears the failures and closes open lockout events. Returns false when
+  // there was nothing to unlock.
+  unlock(scope: LoginAttemptScope, key: string, unlockedBy: number | null): Promise<boolean>;
+  // Newest first
+  getLockoutEvents(limit: number): Promise<LockoutEvent[]>;
+}
+
+export interface TwoFactorRepository {
+  getTwoFactor(user_id: number): Promise<TwoFactorRecord | null>;
+  // Starts enrollment over with a new secret, dropping any earlier one
+  saveSecret(user_id: number, secret: string): Promise<TwoFactorRecord>;
+  // Confirms enrollment with the step of the first accepted code and
+  // replaces the recovery codes
+  enable(user_id: number, step: number, recoveryCodeHashes: string[]): Promise<void>;
+  // Records the step of an accepted code. Returns false when that step (or a
+  // later one) was already used.
+  useStep(user_id: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(user_id: number, recoveryCodeHashes: string[]): Promise<void>;
+  // Marks a recovery code used. Returns false when it is unknown or was
+  // already used.
+  useRecoveryCode(user_id: number, codeHash: string): Promise<boolean>;
+  // Unused recovery codes left
+  countRecoveryCodes(user_id: number): Promise<number>;
+  // Forgets the secret and recovery codes. Returns false when there were none.
+  disable(user_id: number): Promise<boolean>;
+}
+
+// Entries are only ever added, never changed or removed
+export interface AuditRepository {
+  record(entry: NewAuditEntry): Promise<AuditEntry>;
+  // Newest first
+  query(filter: AuditFilter): Promise<AuditEntry[]>;
+}
+
+// Settings admins change at runtime, stored as JSON values
+export interface SettingsRepository {
+  getSetting(key: string): Promise<unknown | null>;
+  setSetting(key: string, value: unknown, updatedBy: number | null): Promise<void>;
+}
+
+// Mail kept locally by the default "outbox" transport
+export interface OutboxRepository {
+  addMessage(message: MailMessage): Promise<OutboxMessage>;
+  // Newest first
+  getMessages(limit: number): Promise<OutboxMessage[]>;
+}
+
+export interface SessionRepository {
+  // Also forgets the user's expired and revoked sessions
+  createSession(session: NewSession): Promise<SessionRecord>;
+  getSession(session_id: number): Promise<SessionRecord | null>;
+  // Swaps in a new refresh token and expiry, but only while the session is
+  // active and currentHash still matches, so a token can be used only once
+  rotateRefreshToken(
+    session_id: number,
+    currentHash: string,
+    newHash: string,
+    expiresAt: string
+  ): Promise<SessionRecord | null>;
+  // Sessions neither revoked nor expired, most recently used first
+  getActiveSessions(user_id: number): Promise<SessionRecord[]>;
+  // False when the session does not exist or was already revoked
+  revokeSession(session_id: number): Promise<boolean>;
+  // Returns the number of sessions revoked
+  revokeUserSessions(user_id: number, exceptSessionId?: number | null): Promise<number>;
+}
+
+// The priority rule that matched a new patient at registration
+export interface PriorityRuleMatch {
+  rule: string;
+  suggestedPriority: string;
+}
+
+export interface PatientUpdateFields {
+  name?: string;
+  problem?: string;
+  priority?: string;
+}
+
+export interface PatientSearchFilter {
+  statuses?: string[];
+  priorities?: string[];
+  queueId?: number;
+  // Arrival time range as ISO timestamps; from is inclusive, to exclusive
+  from?: string;
+  to?: string;
+  // Case-insensitive substring of the name or problem
+  search?: string;
+  // "name" sorts case-insensitively; ties are broken by id
+  sort: "arrivalTime" | "name";
+  order: "asc" | "desc";
+  // Continue after this patient, the last one of the previous page
+  afterId?: number;
+  limit: number;
+}
+
+export interface PatientSearchResult {
+  patients: Patient[];
+  hasMore: boolean;
+}
+
+export interface PatientRepository {
+  // In queue order: priority, then arrival time, then id
+  getAllPatients(statuses?: string[], queueId?: number | null): Promise<Patient[]>;
+  getPatientById(patient_id: number): Promise<Patient | null>;
+  // Errors: active_visit (the record already has a visit in the queue),
+  // capacity_full (dailyLimit patients of this level already registered today)
+  addPatient(
+    name: string,
+    problem: string,
+    priority: string,
+    queueId: number,
+    createdBy?: number | null,
+    // Links the visit to the person's registry record
+    recordId?: number | null,
+    ruleMatch?: PriorityRuleMatch | null,
+    // Registrations allowed per clinic day at the priority's level; null is
+    // unlimited. Checked and taken in the same transaction as the insert.
+    dailyLimit?: number | null,
+    audit?: AuditContext | null
+  ): Promise<[RegisteredPatient | null, string | null]>;
+  // Errors: not_found, invalid_transition
+  transitionPatientStatus(
+    patient_id: number,
+    toStatus: PatientStatus,
+    changedBy?: number | null,
+    audit?: AuditContext | null
+  ): Promise<[Patient | null, string | null]>;
+  // Errors: not_found, already_visited, invalid_transition
+  markVisited(
+    patient_id: number,
+    changedBy?: number | null,
+    audit?: AuditContext | null
+  ): Promise<[Patient | null, string | null]>;
+  // Null when nobody is waiting. Concurrent callers never get the same patient.
+  claimNextPatient(
+    user_id: number,
+    queueId?: number | null,
+    audit?: AuditContext | null
+  ): Promise<Patient | null>;
+  // Errors: not_found, not_waiting, same_queue, queue_not_found
+  transferPatient(
+    patient_id: number,
+    queueId: number,
+    changedBy?: number | null,
+    audit?: AuditContext | null
+  ): Promise<[Patient | null, string | null]>;
+  // Only patients still in the queue can be edited. Errors: not_found,
+  // not_active, capacity_full
+  updatePatient(
+    patient_id: number,
+    update: PatientUpdateFields,
+    changedBy?: number | null,
+    // The daily limit at the new priority's level, checked as for addPatient
+    // when the update moves the patient to another level
+    dailyLimit?: number | null,
+    audit?: AuditContext | null
+  ): Promise<[Patient | null, string | null]>;
+  // Back to the status before the visit, if it was marked less than
+  // windowMinutes ago. Errors: not_found, not_visited, too_late,
+  // active_visit (the patient's record has another visit in the queue)
+  undoVisit(
+    patient_id: number,
+    windowMinutes: number,
+    changedBy?: number | null,
+    audit?: AuditContext | null
+  ): Promise<[Patient | null, string | null]>;
+  // Patients of any status, a page at a time. Errors: cursor_not_found
+  // (afterId is not a patient)
+  searchPatients(
+    filter: PatientSearchFilter
+  ): Promise<[PatientSearchResult | null, string | null]>;
+  // Null when the patient does not exist
+  getPatientStatusHistory(patient_id: number): Promise<PatientStatusChange[] | null>;
+  getDisplayBoard(queueId?: number | null): Promise<DisplayBoard>;
+  // Null for unknown tickets and wrong secrets alike
+  getTicketStatus(ticketNumber: string, secret: string): Promise<TicketStatus | null>;
+  getStats(queueId?: number | null): Promise<PatientStats>;
+  // Patients who arrived on a clinic-local day (YYYY-MM-DD), by priority,
+  // not counting cancelled registrations or appointment check-ins
+  countRegistrations(date: string): Promise<Record<string, number>>;
+  // Imports seed patients, keeping their ids, only when there are no patients
+  // yet. Returns the number imported.
+  importPatients(patients: SeedPatient[]): Promise<number>;
+}
+
+export interface PatientRecordFields {
+  name: string;
+  // YYYY-MM-DD
+  dateOfBirth: string;
+  phone: string;
+  nationalId: string | null;
+}
+
+export interface PatientRecordFilter {
+  // Case-insensitive substring of the name
+  search?: string;
+  phone?: string;
+  nationalId?: string;
+  dateOfBirth?: string;
+  limit: number;
+}
+
+export interface PatientRecordRepository {
+  // Throws "A patient record with this national ID already exists"
+  createRecord(fields: PatientRecordFields): Promise<PatientRecord>;
+  getRecordById(record_id: number): Promise<PatientRecord | null>;
+  // Throws like createRecord; null when the record does not exist
+  updateRecord(
+    record_id: number,
+    fields: Partial<PatientRecordFields>
+  ): Promise<PatientRecord | null>;
+  // Ordered by name, then id
+  findRecords(filter: PatientRecordFilter): Promise<PatientRecord[]>;
+  // Queue entries linked to the record, newest first
+  getRecordVisits(record_id: number): Promise<Patient[]>;
+}
+
+export interface AppointmentFields {
+  recordId: number;
+  queueId: number;
+  startTime: string;
+  durationMinutes: number;
+  reason: string;
+}
+
+export interface AppointmentFilter {
+  // Clinic-local day (YYYY-MM-DD)
+  date: string;
+  queueId?: number | null;
+  statuses?: string[];
+}
+
+export interface AppointmentCheckInOptions {
+  priority: string;
+  ruleMatch: PriorityRuleMatch | null;
+  // Check-in is open from this many minutes before the start until
+  // graceMinutes after it
+  earlyMinutes: number;
+  graceMinutes: number;
+}
+
+export interface CheckedInAppointment {
+  appointment: Appointment;
+  patient: RegisteredPatient;
+}
+
+export interface AppointmentRepository {
+  // Errors: queue_conflict, patient_conflict (an overlapping booked or
+  // checked-in appointment)
+  createAppointment(
+    fields: AppointmentFields,
+    createdBy: number | null
+  ): Promise<[Appointment | null, string | null]>;
+  getAppointmentById(appointment_id: number): Promise<Appointment | null>;
+  // Ordered by start time, then id
+  findAppointments(filter: AppointmentFilter): Promise<Appointment[]>;
+  // Errors: not_found, not_booked
+  cancelAppointment(appointment_id: number): Promise<[Appointment | null, string | null]>;
+  // Queues the patient as if they arrived at the start of their slot.
+  // Errors: not_found, not_booked, too_early, too_late, active_visit
+  checkInAppointment(
+    appointment_id: number,
+    options: AppointmentCheckInOptions,
+    changedBy: number | null,
+    audit?: AuditContext | null
+  ): Promise<[CheckedInAppointment | null, string | null]>;
+  // Marks booked appointments that started more than graceMinutes ago as
+  // NoShow. Returns the number marked.
+  markMissedAppointments(graceMinutes: number): Promise<number>;
+}
+
+// End of the clinic day. Patients who arrived on or before the closed-out
+// date leave the live queue: getAllPatients, getStats and the display board
+// no longer see them, while history, registry visits and reports still do.
+export interface CloseOutRepository {
+  // Marks waiting and called patients LeftWithoutBeingSeen, records the
+  // day's summary, moves finished visits to the archive and drops the ticket
+  // counters of earlier days. Patients in consultation stay until they are
+  // visited, and are not counted again by the next close-out.
+  // Errors: already_closed
+  closeOutDay(
+    date: string,
+    closedBy: number | null,
+    audit?: AuditContext | null
+  ): Promise<[DailySummary | null, string | null]>;
+  // Marks the waiting and called patients LeftWithoutBeingSeen once the
+  // clinic has closed for the day, and returns how many were marked. The date
+  // is recorded in the same transaction, so each day is handled once.
+  // Errors: already_ended
+  markLeftoverPatients(
+    date: string,
+    audit?: AuditContext | null
+  ): Promise<[number | null, string | null]>;
+  getDailySummary(date: string): Promise<DailySummary | null>;
+  // Ordered by date
+  getDailySummaries(range: ReportRange): Promise<DailySummary[]>;
+}
+
+export interface QueueRepository {
+  // Ordered by id
+  getAllQueues(includeInactive?: boolean): Promise<Queue[]>;
+  getQueueById(queue_id: number): Promise<Queue | null>;
+  // Patients registered without a queue go to the oldest active queue
+  getDefaultQueue(): Promise<Queue | null>;
+  // Throws "Queue already exists"
+  createQueue(name: string, type: string, description?: string | null): Promise<Queue>;
+  // Throws "Queue already exists"; null when the queue does not exist
+  updateQueue(
+    queue_id: number,
+    fields: {
+      name?: string;
+      type?: string;
+      description?: string | null;
+      active?: boolean;
+    }
+  ): Promise<Queue | null>;
+}
+
+export interface ReportRepository {
+  getVolumeReport(
+    range: ReportRange,
+    period: ReportPeriod,
+    queueId?: number | null
+  ): Promise<VolumeReportRow[]>;
+  getHourlyReport(range: ReportRange, queueId?: number | null): Promise<HourlyReportRow[]>;
+  getStaffReport(range: ReportRange, queueId?: number | null): Promise<StaffReportRow[]>;
+}
+
+// Queue events written by the repositories, read back by the SSE stream
+export interface QueueEventSource {
+  getLatestEventId(): Promise<number>;
+  getOldestEventId(): Promise<number | null>;
+  // In id order
+  getEventsSince(lastId: number): Promise<QueueEvent[]>;
+  pruneEvents(retentionHours: number): Promise<void>;
+  // Calls onEvents whenever new events may be available, including after a
+  // lost connection is restored
+  listen(onEvents: () => void): Promise<void>;
+}
+
+export interface Storage {
+  backend: StorageBackend;
+  users: UserRepository;
+  sessions: SessionRepository;
+  passwordResets: PasswordResetRepository;
+  outbox: OutboxRepository;
+  loginAttempts: LoginAttemptRepository;
+  twoFactor: TwoFactorRepository;
+  settings: SettingsRepository;
+  audit: AuditRepository;
+  patients: PatientRepository;
+  records: PatientRecordRepository;
+  appointments: AppointmentRepository;
+  closeOuts: CloseOutRepository;
+  queues: QueueRepository;
+  reports: ReportRepository;
+  events: QueueEventSource;
+  // Connect or load existing data. Seeding is done by initStorage.
+  init(): Promise<void>;
+}
@@ -0,0 +1,105 @@
+/**
+ * Time-based one-time passwords (RFC 6238) as used by authenticator apps:
+ * HMAC-SHA1 over 30-second time steps, 6 digits, secrets shared as base32
+ * (RFC 4648) through an otpauth:// provisioning URI, usually shown as a QR
+ * code.
+ */
+import * as crypto from "crypto";
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Codes from one step before or after are accepted too, to allow for clock
+// drift and for codes typed just as they change
+const TOTP_DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const TOTP_ISSUER = process.env.TOTP_ISSUER || "Clinic Queue";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+export function totpStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_STEP_SECONDS);
+}
+
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  // Dynamic truncation (RFC 4226, section 5.3)
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+// The time step the code belongs to, or null when it matches none near now
+export function verifyTotp(secret: string, code: string, time: number = Date.now()): number | null {
+  const current = totpStep(time);
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    const expected = totpCode(secret, step);
+    if (
+      code.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(code), Buffer.from(expected))
+    ) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// What authenticator apps scan, e.g.
+// otpauth://totp/Clinic%20Queue:admin%40clinic.com?secret=...&issuer=Clinic%20Queue
+export function totpProvisioningUri(secret: string, accountName: string): string {
+  const label = `${encodeURIComponent(TOTP_ISSUER)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString().replace(/\+/g, "%20")}`;
+}
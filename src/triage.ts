@@ -0,0 +1,204 @@
+/**
+ * Triage ordering.
+ * Waiting patients are seen by triage level (1 = Resuscitation to
+ * 5 = NonUrgent), then by arrival. With aging on, every agingMinutes a patient
+ * waits lifts their effective level by one, up to maxAgedLevel, so a steady
+ * stream of emergencies cannot hold everyone else back indefinitely. Each
+ * level also has a maximum wait target; patients past it are flagged.
+ *
+ * The policy is an admin setting. Both storage backends read it when they
+ * order the queue, through resolveTriagePolicy, so they agree on the order.
+ *
+ * Priority rules, also an admin setting, look at a new patient's problem,
+ * age and pregnancy. The most urgent matching rule is recorded on the patient
+ * and, for "set" rules, becomes the priority when staff did not choose one.
+ */
+import {
+  Patient,
+  PatientStatus,
+  Priority,
+  PriorityRule,
+  PriorityRuleMode,
+  PriorityRuleResult,
+  PriorityRuleSample,
+  PriorityRuleSet,
+  PRIORITY_RANK,
+  TRIAGE_LEVELS,
+  TriagePolicy,
+} from "./classes";
+import { todayInClinicTimezone } from "./reports";
+import { storage, PriorityRuleMatch } from "./storage";
+
+export const TRIAGE_POLICY_SETTING = "triagePolicy";
+const PRIORITY_RULES_SETTING = "priorityRules";
+
+export const DEFAULT_TRIAGE_POLICY: TriagePolicy = {
+  aging: true,
+  agingMinutes: 30,
+  maxAgedLevel: 2,
+  maxWaitMinutes: {
+    [Priority.Resuscitation]: 0,
+    [Priority.Emergent]: 10,
+    [Priority.Urgent]: 30,
+    [Priority.LessUrgent]: 60,
+    [Priority.NonUrgent]: 120,
+  },
+};
+
+// Priorities outside the scale are seen after every level
+const UNKNOWN_PRIORITY_LEVEL = TRIAGE_LEVELS.length + 1;
+
+export function priorityLevel(priority: string): number {
+  return PRIORITY_RANK[priority as Priority] ?? UNKNOWN_PRIORITY_LEVEL;
+}
+
+// Every priority ranked at a level, the legacy ones included
+export function prioritiesAtLevel(level: number): Priority[] {
+  return (Object.keys(PRIORITY_RANK) as Priority[]).filter(
+    (priority) => PRIORITY_RANK[priority] === level
+  );
+}
+
+// The stored setting, or the defaults for anything it does not set
+export function resolveTriagePolicy(value: unknown): TriagePolicy {
+  const stored = (value ?? {}) as Partial<TriagePolicy>;
+  return {
+    ...DEFAULT_TRIAGE_POLICY,
+    ...stored,
+    maxWaitMinutes: { ...DEFAULT_TRIAGE_POLICY.maxWaitMinutes, ...stored.maxWaitMinutes },
+  };
+}
+
+export function effectiveLevel(
+  priority: string,
+  arrivalTime: string,
+  policy: TriagePolicy,
+  now: number = Date.now()
+): number {
+  const level = priorityLevel(priority);
+  if (!policy.aging) {
+    return level;
+  }
+  const waitedMinutes = Math.max(0, (now - Date.parse(arrivalTime)) / 60000);
+  const steps = Math.floor(waitedMinutes / policy.agingMinutes);
+  return Math.max(Math.min(level, policy.maxAgedLevel), level - steps);
+}
+
+function maxWaitFor(priority: string, policy: TriagePolicy): number | null {
+  const level = priorityLevel(priority);
+  return level <= TRIAGE_LEVELS.length
+    ? policy.maxWaitMinutes[TRIAGE_LEVELS[level - 1]]
+    : null;
+}
+
+// Adds effectiveLevel and maxWaitBreached to a waiting patient
+export function annotateTriage(
+  patient: Patient,
+  policy: TriagePolicy,
+  now: number = Date.now()
+): Patient {
+  if (patient.status !== PatientStatus.Waiting) {
+    return patient;
+  }
+  const maxWait = maxWaitFor(patient.priority, policy);
+  const waitedMinutes = (now - Date.parse(patient.arrivalTime)) / 60000;
+  patient.effectiveLevel = effectiveLevel(patient.priority, patient.arrivalTime, policy, now);
+  patient.maxWaitBreached = maxWait !== null && waitedMinutes > maxWait;
+  return patient;
+}
+
+export async function getTriagePolicy(): Promise<TriagePolicy> {
+  return resolveTriagePolicy(await storage.settings.getSetting(TRIAGE_POLICY_SETTING));
+}
+
+export async function setTriagePolicy(policy: TriagePolicy, updatedBy: number): Promise<void> {
+  await storage.settings.setSetting(TRIAGE_POLICY_SETTING, policy, updatedBy);
+}
+
+// Priority rules
+
+// Lowercased with runs of whitespace collapsed, so "Chest  Pain" contains
+// the keyword "chest pain"
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function ruleMatches(rule: PriorityRule, sample: PriorityRuleSample): boolean {
+  if (rule.keywords !== undefined) {
+    const problem = normalizeText(sample.problem);
+    if (!rule.keywords.some((keyword) => problem.includes(normalizeText(keyword)))) {
+      return false;
+    }
+  }
+  // Age rules never match when the age is unknown
+  if (rule.olderThan !== undefined && !(sample.age !== undefined && sample.age > rule.olderThan)) {
+    return false;
+  }
+  if (
+    rule.youngerThan !== undefined &&
+    !(sample.age !== undefined && sample.age < rule.youngerThan)
+  ) {
+    return false;
+  }
+  if (rule.pregnant && !sample.pregnant) {
+    return false;
+  }
+  return true;
+}
+
+export function evaluatePriorityRules(
+  rules: PriorityRule[],
+  sample: PriorityRuleSample
+): PriorityRuleResult {
+  const matched = rules.filter((rule) => rule.enabled && ruleMatches(rule, sample));
+  let best: PriorityRule | null = null;
+  for (const rule of matched) {
+    if (best === null || priorityLevel(rule.priority) < priorityLevel(best.priority)) {
+      best = rule;
+    }
+  }
+
+  let priority = sample.priority ?? Priority.NonUrgent;
+  if (sample.priority === undefined && best !== null && best.mode === PriorityRuleMode.Set) {
+    priority = best.priority;
+  }
+  return {
+    matchedRules: matched.map((rule) => rule.name),
+    priorityRule: best ? best.name : null,
+    suggestedPriority: best ? best.priority : null,
+    priority,
+  };
+}
+
+// Age in whole years today, in the clinic's timezone
+export function ageFromDateOfBirth(dateOfBirth: string): number {
+  const [birthYear, birthMonth, birthDay] = dateOfBirth.split("-").map(Number);
+  const [year, month, day] = todayInClinicTimezone().split("-").map(Number);
+  const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+  return year - birthYear - (hadBirthday ? 0 : 1);
+}
+
+export async function getPriorityRules(): Promise<PriorityRuleSet> {
+  const stored = (await storage.settings.getSetting(PRIORITY_RULES_SETTING)) as PriorityRuleSet | null;
+  return stored ?? { rules: [] };
+}
+
+export async function setPriorityRules(ruleSet: PriorityRuleSet, updatedBy: number): Promise<void> {
+  await storage.settings.setSetting(PRIORITY_RULES_SETTING, ruleSet, updatedBy);
+}
+
+// Priority of a new queue entry under the saved rules, and the rule to record
+// on it
+export async function prioritizeRegistration(
+  sample: PriorityRuleSample
+): Promise<{ priority: Priority; ruleMatch: PriorityRuleMatch | null }> {
+  const { rules } = await getPriorityRules();
+  const result = evaluatePriorityRules(rules, sample);
+  return {
+    priority: result.priority,
+    ruleMatch:
+      result.priorityRule !== null && result.suggestedPriority !== null
+        ? { rule: result.priorityRule, suggestedPriority: result.suggestedPriority }
+        : null,
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Wait-time estimation.
+ * Consultation durations (InConsultation -> Visited, or Called -> Visited when
+ * the consultation step is skipped) are averaged per queue and priority over a
+ * rolling window. A waiting patient's estimate is the expected time to see
+ * everyone ahead of them, shared between the staff currently working that
+ * queue. The averages are rebuilt every few minutes rather than after each
+ * visit, so finishing a consultation never waits on the recompute.
+ */
+import { Priority, PRIORITY_RANK } from "./classes";
+
+// Used whenever there is not enough history to trust an average
+const DEFAULT_CONSULTATION_MINUTES = parseInt(
+  process.env.AVERAGE_CONSULTATION_MINUTES || "10",
+  10
+);
+export const WAIT_ESTIMATE_WINDOW_DAYS = parseInt(
+  process.env.WAIT_ESTIMATE_WINDOW_DAYS || "14",
+  10
+);
+// Staff who moved a patient in a queue within this many minutes count as
+// currently serving it
+export const ACTIVE_STAFF_WINDOW_MINUTES = 60;
+// Longer "consultations" are almost always a patient nobody closed out
+export const MAX_CONSULTATION_MINUTES = 240;
+const MIN_SAMPLES = 3;
+// How often the averages are rebuilt
+const PROFILE_TTL_MS = 5 * 60 * 1000;
+
+export interface ConsultationAggregate {
+  queueId: number;
+  priority: string;
+  averageMinutes: number;
+  sampleCount: number;
+}
+
+export interface WaitTimeProfile {
+  byQueuePriority: Map<string, number>;
+  byPriority: Map<string, number>;
+  overall: number | null;
+}
+
+export interface WaitingEntry {
+  id: number;
+  queueId: number;
+  priority: string;
+  // Triage level after aging (see triage.ts)
+  effectiveLevel: number;
+}
+
+let cachedProfile: { profile: WaitTimeProfile; computedAt: number } | null = null;
+
+export function getCachedWaitTimeProfile(): WaitTimeProfile | null {
+  if (!cachedProfile || Date.now() - cachedProfile.computedAt > PROFILE_TTL_MS) {
+    return null;
+  }
+  return cachedProfile.profile;
+}
+
+export function setCachedWaitTimeProfile(profile: WaitTimeProfile): void {
+  cachedProfile = { profile, computedAt: Date.now() };
+}
+
+function weightedAverage(
+  aggregates: ConsultationAggregate[]
+): { average: number; samples: number } {
+  let total = 0;
+  let samples = 0;
+  for (const a of aggregates) {
+    total += a.averageMinutes * a.sampleCount;
+    samples += a.sampleCount;
+  }
+  return { average: samples > 0 ? total / samples : 0, samples };
+}
+
+export function buildWaitTimeProfile(
+  aggregates: ConsultationAggregate[]
+): WaitTimeProfile {
+  const byQueuePriority = new Map<string, number>();
+  for (const a of aggregates) {
+    if (a.sampleCount >= MIN_SAMPLES) {
+      byQueuePriority.set(`${a.queueId}:${a.priority}`, a.averageMinutes);
+    }
+  }
+
+  const byPriority = new Map<string, number>();
+  for (const priority of new Set(aggregates.map((a) => a.priority))) {
+    const { average, samples } = weightedAverage(
+      aggregates.filter((a) => a.priority === priority)
+    );
+    if (samples >= MIN_SAMPLES) {
+      byPriority.set(priority, average);
+    }
+  }
+
+  const { average, samples } = weightedAverage(aggregates);
+  return {
+    byQueuePriority,
+    byPriority,
+    overall: samples >= MIN_SAMPLES ? average : null,
+  };
+}
+
+// Most specific average with enough history: this queue and priority, then
+// the priority across all queues, then everything, then the configured default
+export function consultationMinutes(
+  profile: WaitTimeProfile,
+  queueId: number,
+  priority: string
+): number {
+  return (
+    profile.byQueuePriority.get(`${queueId}:${priority}`) ??
+    profile.byPriority.get(priority) ??
+    profile.overall ??
+    DEFAULT_CONSULTATION_MINUTES
+  );
+}
+
+// Estimated minutes until each waiting patient is seen. `waiting` must be in
+// queue order; queues are estimated independently.
+export function estimateWaits(
+  waiting: WaitingEntry[],
+  profile: WaitTimeProfile,
+  activeStaff: Map<number, number>
+): Map<number, number> {
+  const estimates = new Map<number, number>();
+  const workAhead = new Map<number, number>();
+
+  for (const entry of waiting) {
+    const ahead = workAhead.get(entry.queueId) ?? 0;
+    const staff = Math.max(activeStaff.get(entry.queueId) ?? 1, 1);
+    estimates.set(entry.id, Math.ceil(ahead / staff));
+    workAhead.set(
+      entry.queueId,
+      ahead + consultationMinutes(profile, entry.queueId, entry.priority)
+    );
+  }
+  return estimates;
+}
+
+// Estimated wait for someone registering now with each priority. A new
+// arrival goes behind every waiting patient whose effective level is the same
+// or more urgent.
+export function estimateNewArrivalWaits(
+  waiting: WaitingEntry[],
+  profile: WaitTimeProfile,
+  queueId: number,
+  staff: number
+): Record<Priority, number> {
+  const inQueue = waiting.filter((entry) => entry.queueId === queueId);
+  const result = {} as Record<Priority, number>;
+
+  for (const priority of Object.values(Priority)) {
+    const ahead = inQueue.filter((entry) => entry.effectiveLevel <= PRIORITY_RANK[priority]);
+    const minutes = ahead.reduce(
+      (sum, entry) => sum + consultationMinutes(profile, entry.queueId, entry.priority),
+      0
+    );
+    result[priority] = Math.ceil(minutes / Math.max(staff, 1));
+  }
+  return result;
+}
@@ -0,0 +1,101 @@
+import { api, loginAsAdmin } from "./helpers";
+
+let auth: { Authorization: string };
+let queueId: number;
+let nextNationalId = 1;
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+  const queues = await api.get("/queues").set(auth);
+  queueId = queues.body[0].id;
+});
+
+async function createRecord(): Promise<number> {
+  const res = await api
+    .post("/patient-records")
+    .set(auth)
+    .send({
+      name: "Test Patient",
+      dateOfBirth: "1980-05-01",
+      phone: "0123456789",
+      nationalId: `APPT-${nextNationalId++}`,
+    });
+  expect(res.status).toBe(201);
+  return res.body.id;
+}
+
+function inMinutes(minutes: number): string {
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString();
+}
+
+async function book(recordId: number, startTime: string) {
+  return api
+    .post("/appointments")
+    .set(auth)
+    .send({ recordId, queueId, startTime, reason: "Follow-up visit" });
+}
+
+describe("appointments", () => {
+  it("checks a booked patient into the queue at the time of their slot", async () => {
+    const startTime = inMinutes(30);
+    const { body: appointment } = await book(await createRecord(), startTime);
+
+    const res = await api.post(`/appointments/${appointment.id}/check-in`).set(auth).send({});
+    expect(res.status).toBe(201);
+    expect(res.body.appointment.status).toBe("CheckedIn");
+    expect(res.body.patient).toMatchObject({
+      status: "Waiting",
+      problem: "Follow-up visit",
+      priority: "NonUrgent",
+      queueId,
+    });
+    expect(Date.parse(res.body.patient.arrivalTime)).toBe(
+      Math.floor(Date.parse(startTime) / 1000) * 1000
+    );
+
+    const again = await api.post(`/appointments/${appointment.id}/check-in`).set(auth).send({});
+    expect(again.status).toBe(400);
+  });
+
+  it("refuses a check-in long before the slot", async () => {
+    const { body: appointment } = await book(await createRecord(), inMinutes(6 * 60));
+    const res = await api.post(`/appointments/${appointment.id}/check-in`).set(auth).send({});
+    expect(res.status).toBe(400);
+    expect(res.body.message).toMatch(/Check-in opens/);
+  });
+
+  it("refuses overlapping bookings for one patient", async () => {
+    const recordId = await createRecord();
+    expect((await book(recordId, inMinutes(60))).status).toBe(201);
+    const res = await book(recordId, inMinutes(65));
+    expect(res.status).toBe(400);
+  });
+
+  it("does not check in a cancelled appointment", async () => {
+    const { body: appointment } = await book(await createRecord(), inMinutes(90));
+    const cancelled = await api.post(`/appointments/${appointment.id}/cancel`).set(auth);
+    expect(cancelled.body.status).toBe("Cancelled");
+
+    const res = await api.post(`/appointments/${appointment.id}/check-in`).set(auth).send({});
+    expect(res.status).toBe(400);
+  });
+
+  it("refuses a check-in while the patient already has a visit in the queue", async () => {
+    const recordId = await createRecord();
+    const visit = await api
+      .post(`/patient-records/${recordId}/visits`)
+      .set(auth)
+      .send({ problem: "Walked in early" });
+    expect(visit.status).toBe(201);
+
+    const { body: appointment } = await book(recordId, inMinutes(120));
+    const res = await api.post(`/appointments/${appointment.id}/check-in`).set(auth).send({});
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("This patient already has a visit in the queue");
+  });
+
+  it("answers 404 for an unknown appointment", async () => {
+    const res = await api.post("/appointments/9999/check-in").set(auth).send({});
+    expect(res.status).toBe(404);
+  });
+});
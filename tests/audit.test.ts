@@ -0,0 +1,123 @@
+import { PatientStatus } from "../src/classes";
+import { storage } from "../src/storage";
+import { api, loginAsAdmin, signUp } from "./helpers";
+
+let auth: { Authorization: string };
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+});
+
+async function latest(action: string) {
+  const res = await api.get(`/audit?action=${action}&limit=1`).set(auth);
+  expect(res.status).toBe(200);
+  return res.body[0];
+}
+
+describe("user account changes", () => {
+  it("records disabling, enabling and deleting a user", async () => {
+    const { id } = await signUp("audited@clinic.com");
+
+    await api.put(`/users/${id}/disable`).set(auth);
+    const disabled = await latest("user.disable");
+    expect(disabled).toMatchObject({
+      actorEmail: "admin@clinic.com",
+      targetId: id,
+      before: { disabled: false },
+      after: { disabled: true },
+    });
+
+    await api.put(`/users/${id}/enable`).set(auth);
+    expect(await latest("user.enable")).toMatchObject({
+      targetId: id,
+      before: { disabled: true },
+      after: { disabled: false },
+    });
+
+    await api.delete(`/users/${id}`).set(auth);
+    expect(await latest("user.delete")).toMatchObject({
+      targetId: id,
+      before: { email: "audited@clinic.com", role: "user" },
+    });
+  });
+
+  it("records nothing for a refused change", async () => {
+    const before = await latest("user.disable");
+    const res = await api.put("/users/999/disable").set(auth);
+    expect(res.status).toBe(404);
+    expect((await latest("user.disable")).id).toBe(before.id);
+  });
+});
+
+describe("changes made by the server", () => {
+  it("are recorded with the system as the actor", async () => {
+    const [, err] = await storage.patients.transitionPatientStatus(
+      2,
+      PatientStatus.LeftWithoutBeingSeen,
+      null
+    );
+    expect(err).toBeNull();
+
+    expect(await latest("patient.status_change")).toMatchObject({
+      actorId: null,
+      actorEmail: "system",
+      targetId: 2,
+      after: { status: PatientStatus.LeftWithoutBeingSeen },
+    });
+  });
+
+  it("include the patients marked unserved by a scheduled close-out", async () => {
+    const [summary] = await storage.closeOuts.closeOutDay("2025-01-12", null);
+    expect(summary?.markedUnserved).toBe(1);
+
+    const changes = await api.get("/audit?patientId=1&action=patient.status_change").set(auth);
+    expect(changes.body[0]).toMatchObject({
+      actorEmail: "system",
+      before: { status: PatientStatus.Waiting },
+      after: { status: PatientStatus.LeftWithoutBeingSeen },
+    });
+    expect(await latest("queue.close_out")).toMatchObject({ actorEmail: "system" });
+  });
+});
+
+describe("audit log immutability", () => {
+  it("keeps entries as they were recorded", async () => {
+    const before = { name: "Original" };
+    const entry = await storage.audit.record({
+      actorId: null,
+      actorEmail: "system",
+      action: "patient.update",
+      targetType: "patient",
+      targetId: 1,
+      before,
+      after: { name: "Changed" },
+      ipAddress: null,
+      requestId: null,
+    });
+    before.name = "Rewritten";
+    (entry.after as any).name = "Rewritten";
+
+    const [fetched] = await storage.audit.query({ action: "patient.update", limit: 1 });
+    (fetched.before as any).name = "Rewritten";
+
+    const [stored] = await storage.audit.query({ action: "patient.update", limit: 1 });
+    expect(stored).toMatchObject({
+      id: entry.id,
+      before: { name: "Original" },
+      after: { name: "Changed" },
+    });
+  });
+
+  it("cannot be changed or deleted through the API", async () => {
+    const { id } = await latest("patient.status_change");
+    for (const res of [
+      await api.put(`/audit/${id}`).set(auth).send({ action: "patient.update" }),
+      await api.patch(`/audit/${id}`).set(auth).send({ action: "patient.update" }),
+      await api.delete(`/audit/${id}`).set(auth),
+      await api.delete("/audit").set(auth),
+    ]) {
+      expect(res.status).toBe(404);
+    }
+    expect((await latest("patient.status_change")).id).toBe(id);
+  });
+});
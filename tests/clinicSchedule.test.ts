@@ -0,0 +1,123 @@
+import { storage } from "../src/storage";
+import { api, loginAsAdmin } from "./helpers";
+
+let auth: { Authorization: string };
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+});
+
+function register(priority: string) {
+  return api
+    .post("/patients")
+    .set(auth)
+    .send({ name: "Test Patient", problem: "Sore throat", priority });
+}
+
+describe("daily capacity", () => {
+  beforeAll(async () => {
+    const res = await api
+      .put("/clinic/schedule")
+      .set(auth)
+      .send({
+        weeklyHours: null,
+        closures: [],
+        dailyCapacity: { Urgent: 2, LessUrgent: null, NonUrgent: null },
+        leftoverPatients: "carryOver",
+        closeOutTime: null,
+      });
+    expect(res.status).toBe(200);
+  });
+
+  it("does not count appointment check-ins", async () => {
+    const record = await api
+      .post("/patient-records")
+      .set(auth)
+      .send({ name: "Booked Patient", dateOfBirth: "1980-05-01", phone: "0123456789" });
+    const queues = await api.get("/queues").set(auth);
+    const appointment = await api
+      .post("/appointments")
+      .set(auth)
+      .send({
+        recordId: record.body.id,
+        queueId: queues.body[0].id,
+        startTime: new Date(Date.now() + 60 * 1000).toISOString(),
+        reason: "Follow-up visit",
+      });
+    const checkIn = await api
+      .post(`/appointments/${appointment.body.id}/check-in`)
+      .set(auth)
+      .send({ priority: "Urgent" });
+    expect(checkIn.status).toBe(201);
+
+    const status = await api.get("/clinic/status").set(auth);
+    expect(status.body.remainingCapacity.Urgent).toBe(2);
+  });
+
+  it("admits no more than the limit when registrations arrive together", async () => {
+    const results = await Promise.all([1, 2, 3, 4].map(() => register("Urgent")));
+    expect(results.map((res) => res.status).sort()).toEqual([201, 201, 400, 400]);
+
+    const status = await api.get("/clinic/status").set(auth);
+    expect(status.body.remainingCapacity.Urgent).toBe(0);
+  });
+
+  it("never turns emergencies away for capacity", async () => {
+    expect((await register("Emergent")).status).toBe(201);
+  });
+
+  it("frees a place when a registration is cancelled", async () => {
+    const queue = await api.get("/patients").set(auth);
+    const urgent = queue.body.find((patient: any) => patient.priority === "Urgent");
+    await api.post(`/patients/${urgent.id}/cancel`).set(auth);
+    expect((await register("Urgent")).status).toBe(201);
+  });
+
+  it("refuses to move a patient up into a full level", async () => {
+    const { body: patient } = await register("NonUrgent");
+    const res = await api.patch(`/patients/${patient.id}`).set(auth).send({ priority: "Urgent" });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Today's capacity for Urgent patients is full");
+
+    const edited = await api.patch(`/patients/${patient.id}`).set(auth).send({ priority: "LessUrgent" });
+    expect(edited.status).toBe(200);
+  });
+});
+
+describe("manual closing", () => {
+  beforeAll(async () => {
+    await api.post("/clinic/close").set(auth).send({ reason: "Doctor called away" });
+  });
+
+  afterAll(async () => {
+    await api.post("/clinic/reopen").set(auth);
+  });
+
+  it("refuses new registrations with the reason", async () => {
+    const res = await register("NonUrgent");
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Registration is closed: Doctor called away");
+  });
+
+  it("still lets the most urgent levels in", async () => {
+    expect((await register("Resuscitation")).status).toBe(201);
+    expect((await register("Emergent")).status).toBe(201);
+    expect((await register("Urgent")).status).toBe(400);
+  });
+});
+
+describe("end of day", () => {
+  it("marks the leftover patients once per day", async () => {
+    const [marked, err] = await storage.closeOuts.markLeftoverPatients("2030-01-01");
+    expect(err).toBeNull();
+    expect(marked).toBeGreaterThan(0);
+    expect((await api.get("/patients").set(auth)).body).toEqual([]);
+
+    expect((await register("NonUrgent")).status).toBe(201);
+    expect(await storage.closeOuts.markLeftoverPatients("2030-01-01")).toEqual([
+      null,
+      "already_ended",
+    ]);
+    expect((await api.get("/patients").set(auth)).body).toHaveLength(1);
+  });
+});
@@ -0,0 +1,98 @@
+import { PatientStatus } from "../src/classes";
+import { api, loginAsAdmin } from "./helpers";
+
+// The patients seeded from data.json arrived on this day
+const SEED_DAY = "2025-01-12";
+// GET /patients lists only waiting patients by default
+const LIVE_QUEUE = `/patients?status=${Object.values(PatientStatus).join(",")}`;
+
+let auth: { Authorization: string };
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+});
+
+async function register(name: string) {
+  const res = await api.post("/patients").set(auth).send({ name, problem: "Sore throat" });
+  expect(res.status).toBe(201);
+  return res.body;
+}
+
+// The steps build on each other: the seed day is closed out first, then today
+describe("day close-out", () => {
+  let todayPatient: any;
+
+  beforeAll(async () => {
+    for (const status of ["Called", "InConsultation"]) {
+      await api.put("/patients/1/status").set(auth).send({ status });
+    }
+    todayPatient = await register("Ann Today");
+    const emergency = await api
+      .post("/patients")
+      .set(auth)
+      .send({ name: "Eve Today", problem: "Chest pain", priority: "Emergent" });
+    expect(emergency.status).toBe(201);
+    const cancelled = await register("Ben Today");
+    await api.post(`/patients/${cancelled.id}/cancel`).set(auth);
+  });
+
+  it("closes out a past day without touching later arrivals", async () => {
+    const res = await api.post("/clinic/close-out").set(auth).send({ date: SEED_DAY });
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({
+      date: SEED_DAY,
+      totalWaiting: 1,
+      totalEmergency: 0,
+      totalInConsultation: 1,
+      totalLeftWithoutBeingSeen: 0,
+      totalCancelled: 0,
+      markedUnserved: 1,
+      archived: 1,
+    });
+
+    const queue = await api.get(LIVE_QUEUE).set(auth);
+    const statuses = queue.body.map((patient: any) => [patient.id, patient.status]);
+    expect(statuses).toContainEqual([1, "InConsultation"]);
+    expect(statuses).toContainEqual([todayPatient.id, "Waiting"]);
+  });
+
+  it("closes out each day only once", async () => {
+    const res = await api.post("/clinic/close-out").set(auth).send({ date: SEED_DAY });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe(`${SEED_DAY} has already been closed out`);
+  });
+
+  it("refuses a day that has not started", async () => {
+    const res = await api.post("/clinic/close-out").set(auth).send({ date: "2999-01-01" });
+    expect(res.status).toBe(400);
+  });
+
+  it("does not count a patient still in consultation a second time", async () => {
+    const res = await api.post("/clinic/close-out").set(auth).send({});
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({
+      totalWaiting: 2,
+      totalEmergency: 1,
+      totalInConsultation: 0,
+      totalCancelled: 1,
+      totalLeftWithoutBeingSeen: 0,
+      markedUnserved: 2,
+      archived: 3,
+    });
+  });
+
+  it("keeps numbering tickets for the rest of the closed-out day", async () => {
+    const later = await register("Cat Later");
+    expect(later.ticketNumber).toBe("N-003");
+    expect(todayPatient.ticketNumber).toBe("N-001");
+  });
+
+  it("leaves archived visits out of the live queue but not the history", async () => {
+    const queue = await api.get(LIVE_QUEUE).set(auth);
+    expect(queue.body.map((patient: any) => patient.id)).not.toContain(todayPatient.id);
+
+    const history = await api.get("/patients/history?q=ann%20today").set(auth);
+    expect(history.body.patients).toHaveLength(1);
+    expect(history.body.patients[0].status).toBe("LeftWithoutBeingSeen");
+  });
+});
@@ -0,0 +1,62 @@
+import { api, loginAsAdmin } from "./helpers";
+
+let auth: { Authorization: string };
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+});
+
+async function register(name: string, priority: string) {
+  const res = await api.post("/patients").set(auth).send({ name, problem: "Sore throat", priority });
+  expect(res.status).toBe(201);
+  return res.body;
+}
+
+describe("ticket numbers", () => {
+  it("count up per priority prefix", async () => {
+    const first = await register("First Urgent", "Urgent");
+    const second = await register("Second Urgent", "Urgent");
+    const lessUrgent = await register("First LessUrgent", "LessUrgent");
+
+    const number = (ticket: string) => parseInt(ticket.split("-")[1], 10);
+    expect(first.ticketNumber).toMatch(/^U-\d{3}$/);
+    expect(number(second.ticketNumber)).toBe(number(first.ticketNumber) + 1);
+    expect(lessUrgent.ticketNumber).toBe("L-001");
+  });
+});
+
+describe("waiting-room display", () => {
+  it("is public and shows ticket numbers only", async () => {
+    const res = await api.get("/display");
+    expect(res.status).toBe(200);
+
+    const text = JSON.stringify(res.body);
+    expect(text).not.toContain("Urgent");
+    expect(text).not.toContain("Sore throat");
+    const publicFields = ["ticketNumber", "queueId", "queueName", "status", "position"];
+    for (const entry of [...res.body.nowServing, ...res.body.waiting]) {
+      expect(Object.keys(entry).filter((key) => !publicFields.includes(key))).toEqual([]);
+    }
+  });
+
+  it("numbers the waiting patients in queue order and shows who is being served", async () => {
+    const { body: before } = await api.get("/display");
+    expect(before.waiting.map((entry: any) => entry.position)).toEqual(
+      before.waiting.map((_: unknown, i: number) => i + 1)
+    );
+
+    const called = await api.post("/queue/next").set(auth).send({});
+    const { body: after } = await api.get("/display");
+    expect(after.nowServing[0]).toMatchObject({
+      ticketNumber: called.body.ticketNumber,
+      status: "Called",
+    });
+    expect(after.waiting.map((entry: any) => entry.ticketNumber)).toEqual(
+      before.waiting.slice(1).map((entry: any) => entry.ticketNumber)
+    );
+  });
+
+  it("refuses a malformed queue id", async () => {
+    expect((await api.get("/display?queueId=abc")).status).toBe(400);
+  });
+});
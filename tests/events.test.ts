@@ -0,0 +1,138 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import app from "../src/main";
+import { startQueueEventListener } from "../src/events";
+import { api, loginAsAdmin, signUp } from "./helpers";
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+let auth: { Authorization: string };
+let server: http.Server;
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+  await startQueueEventListener();
+  server = app.listen(0);
+});
+
+afterAll(() => {
+  server.close();
+});
+
+interface Stream {
+  received: () => string;
+  ended: Promise<void>;
+  close: () => void;
+}
+
+function openStream(headers: Record<string, string>): Promise<Stream> {
+  const { port } = server.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    const req = http.get({ port, path: "/queue/events", headers }, (res) => {
+      let body = "";
+      res.setEncoding("utf8");
+      const ended = new Promise<void>((done) => res.on("end", done));
+      res.on("data", (chunk) => {
+        body += chunk;
+      });
+      resolve({ received: () => body, ended, close: () => req.destroy() });
+    });
+    req.on("error", reject);
+  });
+}
+
+// Lets the heartbeat's session check finish
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+async function waitFor(stream: Stream, text: string): Promise<void> {
+  for (let i = 0; i < 100 && !stream.received().includes(text); i++) {
+    await settle();
+  }
+  expect(stream.received()).toContain(text);
+}
+
+// Event names in the order they were received
+function eventTypes(stream: Stream): string[] {
+  return [...stream.received().matchAll(/^event: (.+)$/gm)].map((match) => match[1]);
+}
+
+describe("queue events", () => {
+  it("streams changes as they happen", async () => {
+    const stream = await openStream(auth);
+    const { body: patient } = await api
+      .post("/patients")
+      .set(auth)
+      .send({ name: "Live Patient", problem: "Cough" });
+    await api.put(`/patients/${patient.id}/status`).set(auth).send({ status: "Called" });
+
+    await waitFor(stream, "event: status-changed");
+    expect(eventTypes(stream)).toEqual([
+      "patient-added",
+      "stats-changed",
+      "status-changed",
+      "stats-changed",
+    ]);
+    expect(stream.received()).toContain(`"patientId":${patient.id}`);
+    stream.close();
+  });
+
+  it("replays what a reconnecting client missed", async () => {
+    await api.post("/patients").set(auth).send({ name: "Missed Patient", problem: "Cough" });
+
+    const stream = await openStream({ ...auth, "Last-Event-ID": "0" });
+    await waitFor(stream, "Missed Patient");
+    expect(eventTypes(stream)[0]).toBe("patient-added");
+    expect(stream.received()).not.toContain("event: resync");
+    stream.close();
+  });
+
+  it("asks a client with an unknown event id to resync", async () => {
+    const stream = await openStream({ ...auth, "Last-Event-ID": "100000" });
+    await waitFor(stream, "event: resync");
+    stream.close();
+  });
+
+  it("needs a login", async () => {
+    expect((await api.get("/queue/events")).status).toBe(401);
+  });
+});
+
+describe("queue event stream", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ["setTimeout", "clearTimeout", "setImmediate", "nextTick"] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("keeps sending heartbeats while the session stands", async () => {
+    const stream = await openStream(auth);
+    jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+    await settle();
+    expect(stream.received()).toContain(": heartbeat");
+    stream.close();
+  });
+
+  it("ends once the session is revoked", async () => {
+    const user = await signUp("streamer@clinic.com");
+    const stream = await openStream(user.auth);
+
+    const revoke = await api.delete(`/users/${user.id}/sessions`).set(auth);
+    expect(revoke.status).toBe(200);
+    jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+    await stream.ended;
+    expect(stream.received()).not.toContain(": heartbeat");
+  });
+
+  it("ends once the user is disabled", async () => {
+    const user = await signUp("disabled-streamer@clinic.com");
+    const stream = await openStream(user.auth);
+
+    await api.put(`/users/${user.id}/disable`).set(auth);
+    jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+    await stream.ended;
+  });
+});
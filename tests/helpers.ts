@@ -0,0 +1,39 @@
+/**
+ * Shared setup for the API flow tests. Each test file gets its own module
+ * registry, so the app and its in-memory storage start empty apart from the
+ * default admin and the patients in data.json.
+ */
+import request from "supertest";
+import app from "../src/main";
+import { initStorage } from "../src/storage";
+import { DEFAULT_ADMIN_EMAIL, DEFAULT_ADMIN_PASSWORD } from "../src/storage/common";
+
+export const api = request(app);
+
+const ADMIN_PASSWORD = "test-admin-password";
+
+// Seeds the storage and returns an Authorization header for the admin, after
+// the password change the default admin is required to make
+export async function loginAsAdmin(): Promise<{ Authorization: string }> {
+  await initStorage();
+  const first = await api
+    .post("/auth/login")
+    .send({ email: DEFAULT_ADMIN_EMAIL, password: DEFAULT_ADMIN_PASSWORD });
+  await api
+    .post("/auth/change-password")
+    .set("Authorization", `Bearer ${first.body.token}`)
+    .send({ currentPassword: DEFAULT_ADMIN_PASSWORD, newPassword: ADMIN_PASSWORD });
+  const login = await api
+    .post("/auth/login")
+    .send({ email: DEFAULT_ADMIN_EMAIL, password: ADMIN_PASSWORD });
+  return { Authorization: `Bearer ${login.body.token}` };
+}
+
+// Signs up a new account and returns its id and Authorization header
+export async function signUp(
+  email: string,
+  password = "user-password"
+): Promise<{ id: number; auth: { Authorization: string } }> {
+  const res = await api.post("/auth/signup").send({ name: "Test User", email, password });
+  return { id: res.body.user.id, auth: { Authorization: `Bearer ${res.body.token}` } };
+}
@@ -0,0 +1,102 @@
+import { api, loginAsAdmin, signUp } from "./helpers";
+
+// Only Date is faked, so the clock can jump past each login delay while
+// requests still run in real time
+const REAL_TIMERS = [
+  "setTimeout",
+  "clearTimeout",
+  "setInterval",
+  "clearInterval",
+  "setImmediate",
+  "clearImmediate",
+  "nextTick",
+  "queueMicrotask",
+] as const;
+
+let admin: { Authorization: string };
+
+beforeAll(async () => {
+  jest.useFakeTimers({ doNotFake: [...REAL_TIMERS] });
+  admin = await loginAsAdmin();
+});
+
+afterAll(() => {
+  jest.useRealTimers();
+});
+
+function advanceSeconds(seconds: number) {
+  jest.setSystemTime(Date.now() + seconds * 1000);
+}
+
+function login(email: string, password: string) {
+  return api.post("/auth/login").send({ email, password });
+}
+
+// Fails the given number of logins, waiting out each progressive delay
+async function failLogins(email: string, count: number) {
+  for (let i = 0; i < count; i++) {
+    advanceSeconds(31);
+    expect((await login(email, "wrong-password")).status).toBe(401);
+  }
+}
+
+describe("login throttling", () => {
+  it("slows down repeated failures for an account", async () => {
+    await signUp("slow@example.com");
+    await failLogins("slow@example.com", 3);
+
+    const res = await login("slow@example.com", "user-password");
+    expect(res.status).toBe(429);
+    expect(res.headers["retry-after"]).toBe("1");
+
+    advanceSeconds(1);
+    expect((await login("slow@example.com", "user-password")).status).toBe(200);
+  });
+
+  it("locks the account until an admin unlocks it", async () => {
+    const user = await signUp("locked@example.com");
+    await failLogins("locked@example.com", 10);
+
+    advanceSeconds(60);
+    const refused = await login("locked@example.com", "user-password");
+    expect(refused.status).toBe(429);
+    expect(Number(refused.headers["retry-after"])).toBeGreaterThan(60);
+
+    const lockouts = await api.get("/auth/lockouts").set(admin);
+    expect(lockouts.status).toBe(200);
+    expect(lockouts.body[0]).toMatchObject({
+      scope: "account",
+      key: "locked@example.com",
+      userId: user.id,
+      failures: 10,
+      unlockedAt: null,
+    });
+
+    expect((await api.post(`/users/${user.id}/unlock`).set(user.auth)).status).toBe(403);
+    const unlock = await api.post(`/users/${user.id}/unlock`).set(admin);
+    expect(unlock.body.message).toBe("Account unlocked");
+    expect((await login("locked@example.com", "user-password")).status).toBe(200);
+
+    const after = await api.get("/auth/lockouts").set(admin);
+    expect(after.body[0].unlockedAt).not.toBeNull();
+    expect(after.body[0].unlockedBy).toEqual(expect.any(Number));
+
+    const again = await api.post(`/users/${user.id}/unlock`).set(admin);
+    expect(again.body.message).toBe("Account was not locked");
+  });
+
+  it("throttles unknown emails the same way", async () => {
+    await failLogins("ghost@example.com", 10);
+    advanceSeconds(60);
+    expect((await login("ghost@example.com", "wrong-password")).status).toBe(429);
+  });
+
+  it("lifts a lockout once it expires", async () => {
+    await signUp("patient@example.com");
+    await failLogins("patient@example.com", 10);
+    expect((await login("patient@example.com", "user-password")).status).toBe(429);
+
+    advanceSeconds(15 * 60);
+    expect((await login("patient@example.com", "user-password")).status).toBe(200);
+  });
+});
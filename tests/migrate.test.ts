@@ -0,0 +1,182 @@
+import { Migration } from "../src/migrate";
+
+// A stand-in for Postgres that keeps schema_migrations in memory and makes
+// pg_advisory_lock wait while another client holds the lock
+const mockDb = {
+  applied: new Map<number, Date>(),
+  lockHeld: false,
+  lockWaiters: [] as Array<() => void>,
+  log: [] as string[],
+};
+
+function mockClient() {
+  let pending: Array<[string, number]> = [];
+  return {
+    release: () => undefined,
+    async query(sql: string, params: unknown[] = []) {
+      const statement = sql.trim();
+      if (statement.includes("pg_advisory_lock")) {
+        while (mockDb.lockHeld) {
+          await new Promise<void>((resolve) => mockDb.lockWaiters.push(resolve));
+        }
+        mockDb.lockHeld = true;
+      } else if (statement.includes("pg_advisory_unlock")) {
+        mockDb.lockHeld = false;
+        mockDb.lockWaiters.shift()?.();
+      } else if (statement.startsWith("SELECT version")) {
+        const rows = [...mockDb.applied].map(([version, appliedAt]) => ({ version, appliedAt }));
+        return { rows };
+      } else if (statement.startsWith("INSERT INTO schema_migrations")) {
+        pending.push(["insert", params[0] as number]);
+      } else if (statement.startsWith("DELETE FROM schema_migrations")) {
+        pending.push(["delete", params[0] as number]);
+      } else if (statement === "COMMIT") {
+        for (const [action, version] of pending) {
+          if (action === "insert") {
+            mockDb.applied.set(version, new Date());
+          } else {
+            mockDb.applied.delete(version);
+          }
+        }
+        pending = [];
+      } else if (statement === "ROLLBACK") {
+        pending = [];
+      }
+      if (["BEGIN", "COMMIT", "ROLLBACK"].includes(statement)) {
+        mockDb.log.push(statement);
+      }
+      return { rows: [] };
+    },
+  };
+}
+
+jest.mock("../src/db", () => ({
+  getDbClient: async () => mockClient(),
+  getDbConnection: () => ({ end: async () => undefined }),
+}));
+
+const mockMigrations: Migration[] = [];
+jest.mock("../src/migrations", () => ({ migrations: mockMigrations }));
+
+import {
+  assertSchemaUpToDate,
+  migrateDown,
+  migrateUp,
+  SchemaAheadOfCodeError,
+  SchemaOutOfDateError,
+} from "../src/migrate";
+
+function fakeMigration(version: number, fail = false): Migration {
+  return {
+    version,
+    name: `step_${version}`,
+    async up() {
+      // Gives a concurrent run the chance to interleave
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      mockDb.log.push(`up ${version}`);
+      if (fail) {
+        throw new Error("boom");
+      }
+    },
+    async down() {
+      mockDb.log.push(`down ${version}`);
+    },
+  };
+}
+
+beforeEach(() => {
+  mockDb.applied.clear();
+  mockDb.log = [];
+  // Listed out of order on purpose
+  mockMigrations.splice(0, mockMigrations.length, ...[2, 1, 3].map((v) => fakeMigration(v)));
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("migrateUp", () => {
+  it("applies pending migrations in version order, each in its own transaction", async () => {
+    const applied = await migrateUp();
+    expect(applied.map((m) => m.version)).toEqual([1, 2, 3]);
+    expect(mockDb.log).toEqual([
+      "BEGIN", "up 1", "COMMIT",
+      "BEGIN", "up 2", "COMMIT",
+      "BEGIN", "up 3", "COMMIT",
+    ]);
+    expect(await migrateUp()).toEqual([]);
+  });
+
+  it("stops at the target version", async () => {
+    await migrateUp(2);
+    expect([...mockDb.applied.keys()].sort()).toEqual([1, 2]);
+  });
+
+  it("rolls back a failing migration and keeps the ones before it", async () => {
+    mockMigrations.push(fakeMigration(4, true));
+    await expect(migrateUp()).rejects.toThrow("Migration 0004_step_4 (up) failed: Error: boom");
+    expect([...mockDb.applied.keys()].sort()).toEqual([1, 2, 3]);
+    expect(mockDb.log.slice(-3)).toEqual(["BEGIN", "up 4", "ROLLBACK"]);
+    expect(mockDb.lockHeld).toBe(false);
+  });
+
+  it("applies each migration once when two processes migrate together", async () => {
+    const [first, second] = await Promise.all([migrateUp(), migrateUp()]);
+    expect(first.length + second.length).toBe(3);
+    const ups = mockDb.log.filter((entry) => entry.startsWith("up"));
+    expect(ups).toEqual(["up 1", "up 2", "up 3"]);
+  });
+
+  it("refuses duplicate versions", async () => {
+    mockMigrations.push(fakeMigration(3));
+    await expect(migrateUp()).rejects.toThrow("Duplicate migration version 3");
+  });
+});
+
+describe("migrateDown", () => {
+  it("rolls back the most recent migrations first", async () => {
+    await migrateUp();
+    mockDb.log = [];
+
+    const rolledBack = await migrateDown(2);
+    expect(rolledBack.map((m) => m.version)).toEqual([3, 2]);
+    expect(mockDb.log.filter((entry) => entry.startsWith("down"))).toEqual(["down 3", "down 2"]);
+    expect([...mockDb.applied.keys()]).toEqual([1]);
+  });
+});
+
+describe("assertSchemaUpToDate", () => {
+  it("reports pending migrations", async () => {
+    await migrateUp(1);
+    const error = await assertSchemaUpToDate().catch((e) => e);
+    expect(error).toBeInstanceOf(SchemaOutOfDateError);
+    expect(error.pending.map((m: Migration) => m.version)).toEqual([2, 3]);
+  });
+
+  it("reports migrations this code does not know", async () => {
+    await migrateUp();
+    mockDb.applied.set(9, new Date());
+    const error = await assertSchemaUpToDate().catch((e) => e);
+    expect(error).toBeInstanceOf(SchemaAheadOfCodeError);
+    expect(error.unknownVersions).toEqual([9]);
+  });
+
+  it("passes once everything is applied", async () => {
+    await migrateUp();
+    await expect(assertSchemaUpToDate()).resolves.toBeUndefined();
+  });
+});
+
+describe("the migration list", () => {
+  it("numbers the migrations 1, 2, 3 ... with an up and a down step each", () => {
+    const { migrations } = jest.requireActual("../src/migrations");
+    expect(migrations.map((m: Migration) => m.version)).toEqual(
+      migrations.map((_: Migration, i: number) => i + 1)
+    );
+    for (const migration of migrations) {
+      expect(typeof migration.up).toBe("function");
+      expect(typeof migration.down).toBe("function");
+    }
+  });
+});
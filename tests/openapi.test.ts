@@ -0,0 +1,96 @@
+import app from "../src/main";
+import { api } from "./helpers";
+
+// Routes the document leaves out on purpose
+const HIDDEN_PATHS = ["/docs", "/favicon.ico"];
+
+// Every method and path registered directly on the app, with Express
+// ":param" segments written the OpenAPI way
+function registeredRoutes(): string[] {
+  const routes: string[] = [];
+  for (const layer of (app as any)._router.stack) {
+    if (!layer.route) {
+      continue;
+    }
+    const path = layer.route.path.replace(/:(\w+)/g, "{$1}");
+    for (const method of Object.keys(layer.route.methods)) {
+      if (method !== "_all" && !HIDDEN_PATHS.includes(path)) {
+        routes.push(`${method} ${path}`);
+      }
+    }
+  }
+  return routes;
+}
+
+function collectRefs(value: unknown, refs: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs));
+  } else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      if (key === "$ref" && typeof item === "string") {
+        refs.push(item);
+      } else {
+        collectRefs(item, refs);
+      }
+    }
+  }
+  return refs;
+}
+
+describe("OpenAPI document", () => {
+  let document: any;
+
+  beforeAll(async () => {
+    const res = await api.get("/openapi.json");
+    expect(res.status).toBe(200);
+    document = res.body;
+  });
+
+  it("is an OpenAPI 3.1 document", () => {
+    expect(document.openapi).toBe("3.1.0");
+    expect(document.info.title).toEqual(expect.any(String));
+    expect(document.components.securitySchemes).toHaveProperty("bearerAuth");
+  });
+
+  it("lists every registered route with a documented summary", () => {
+    const routes = registeredRoutes();
+    expect(routes.length).toBeGreaterThan(0);
+    const undocumented = routes.filter((route) => {
+      const [method, path] = route.split(" ");
+      return !document.paths[path]?.[method]?.summary;
+    });
+    expect(undocumented).toEqual([]);
+    for (const path of HIDDEN_PATHS) {
+      expect(document.paths).not.toHaveProperty(path);
+    }
+  });
+
+  it("describes path parameters", () => {
+    const operation = document.paths["/patients/{patient_id}"].patch;
+    expect(operation.parameters).toContainEqual(
+      expect.objectContaining({ name: "patient_id", in: "path", required: true })
+    );
+  });
+
+  it("resolves every reference", () => {
+    const missing = collectRefs(document.paths).filter((ref) => {
+      const [, , section, name] = ref.split("/");
+      return !document.components[section]?.[name];
+    });
+    expect(missing).toEqual([]);
+  });
+
+  it("marks public routes as needing no credentials", () => {
+    expect(document.paths["/auth/login"].post.security).toEqual([]);
+    expect(document.paths["/patients"].get.security).not.toEqual([]);
+  });
+});
+
+describe("GET /docs", () => {
+  it("serves the documentation page", async () => {
+    const res = await api.get("/docs");
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toMatch(/html/);
+    expect(res.text).toContain("/openapi.json");
+  });
+});
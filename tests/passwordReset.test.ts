@@ -0,0 +1,95 @@
+import { api, loginAsAdmin, signUp } from "./helpers";
+
+// The reset endpoints share a limit of five requests a minute per IP, so
+// this file stays within it.
+
+let admin: { Authorization: string };
+
+beforeAll(async () => {
+  admin = await loginAsAdmin();
+});
+
+async function outbox() {
+  const res = await api.get("/mail/outbox").set(admin);
+  expect(res.status).toBe(200);
+  return res.body;
+}
+
+function tokenFrom(text: string): string {
+  const match = text.match(/token=([^\s]+)/);
+  expect(match).not.toBeNull();
+  return decodeURIComponent(match![1]);
+}
+
+async function loginStatus(email: string, password: string): Promise<number> {
+  return (await api.post("/auth/login").send({ email, password })).status;
+}
+
+describe("password reset", () => {
+  it("mails a single-use link and signs the user out everywhere", async () => {
+    const user = await signUp("forgetful@example.com");
+
+    const forgot = await api.post("/auth/forgot-password").send({ email: "forgetful@example.com" });
+    expect(forgot.status).toBe(200);
+    const [mail] = await outbox();
+    expect(mail.to).toBe("forgetful@example.com");
+    const token = tokenFrom(mail.text);
+
+    const reset = await api
+      .post("/auth/reset-password")
+      .send({ token, newPassword: "brand-new-password" });
+    expect(reset.status).toBe(200);
+    expect(await loginStatus("forgetful@example.com", "brand-new-password")).toBe(200);
+    expect(await loginStatus("forgetful@example.com", "user-password")).toBe(401);
+    expect((await api.get("/auth/me").set(user.auth)).status).toBe(401);
+
+    const reused = await api
+      .post("/auth/reset-password")
+      .send({ token, newPassword: "another-password" });
+    expect(reused.status).toBe(400);
+    expect(await loginStatus("forgetful@example.com", "brand-new-password")).toBe(200);
+  });
+
+  it("answers the same for an unknown address and sends nothing", async () => {
+    const before = await outbox();
+    const res = await api.post("/auth/forgot-password").send({ email: "nobody@example.com" });
+    expect(res.status).toBe(200);
+    expect(res.body.message).toMatch(/If that email belongs to an account/);
+    expect(await outbox()).toEqual(before);
+  });
+});
+
+describe("POST /auth/change-password", () => {
+  it("keeps the current session and ends the others", async () => {
+    const user = await signUp("changer@example.com");
+    const other = await api
+      .post("/auth/login")
+      .send({ email: "changer@example.com", password: "user-password" });
+
+    const res = await api
+      .post("/auth/change-password")
+      .set(user.auth)
+      .send({ currentPassword: "user-password", newPassword: "changed-password" });
+    expect(res.status).toBe(200);
+    expect((await api.get("/auth/me").set(user.auth)).status).toBe(200);
+    const otherAuth = { Authorization: `Bearer ${other.body.token}` };
+    expect((await api.get("/auth/me").set(otherAuth)).status).toBe(401);
+    expect(await loginStatus("changer@example.com", "changed-password")).toBe(200);
+  });
+
+  it("refuses a wrong current password and an unchanged one", async () => {
+    const user = await signUp("careful@example.com");
+    const wrong = await api
+      .post("/auth/change-password")
+      .set(user.auth)
+      .send({ currentPassword: "not-my-password", newPassword: "changed-password" });
+    expect(wrong.status).toBe(400);
+
+    const same = await api
+      .post("/auth/change-password")
+      .set(user.auth)
+      .send({ currentPassword: "user-password", newPassword: "user-password" });
+    expect(same.status).toBe(400);
+    expect(await loginStatus("careful@example.com", "user-password")).toBe(200);
+  });
+});
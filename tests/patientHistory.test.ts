@@ -0,0 +1,69 @@
+import { api, loginAsAdmin } from "./helpers";
+
+let auth: { Authorization: string };
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+  for (const name of ["Ann Page", "Ben Page", "Cat Page", "Dan Page", "Eve Page"]) {
+    await api.post("/patients").set(auth).send({ name, problem: "Sore throat" });
+  }
+});
+
+async function allPages(query: string): Promise<number[]> {
+  const ids: number[] = [];
+  let cursor: string | null = null;
+  do {
+    const suffix: string = cursor ? `&cursor=${cursor}` : "";
+    const res = await api.get(`/patients/history?${query}${suffix}`).set(auth);
+    expect(res.status).toBe(200);
+    ids.push(...res.body.patients.map((patient: any) => patient.id));
+    cursor = res.body.nextCursor;
+  } while (cursor);
+  return ids;
+}
+
+describe("GET /patients/history", () => {
+  it("pages through every patient exactly once", async () => {
+    const all = await api.get("/patients/history?limit=100").set(auth);
+    const paged = await allPages("limit=2");
+    expect(paged).toEqual(all.body.patients.map((patient: any) => patient.id));
+    expect(new Set(paged).size).toBe(paged.length);
+  });
+
+  it("keeps paging stable for other sort orders", async () => {
+    const all = await api.get("/patients/history?sort=name&order=asc&limit=100").set(auth);
+    const paged = await allPages("sort=name&order=asc&limit=3");
+    expect(paged).toEqual(all.body.patients.map((patient: any) => patient.id));
+  });
+
+  it("encodes the sort, order and last id in the cursor", async () => {
+    const res = await api.get("/patients/history?sort=name&order=asc&limit=2").set(auth);
+    const lastId = res.body.patients[1].id;
+    const decoded = JSON.parse(Buffer.from(res.body.nextCursor, "base64url").toString());
+    expect(decoded).toEqual(["name", "asc", lastId]);
+  });
+
+  it("has no cursor on the last page", async () => {
+    const res = await api.get("/patients/history?limit=100").set(auth);
+    expect(res.body.nextCursor).toBeNull();
+  });
+
+  it("refuses a cursor from a different ordering", async () => {
+    const first = await api.get("/patients/history?sort=name&limit=2").set(auth);
+    const res = await api
+      .get(`/patients/history?sort=arrivalTime&limit=2&cursor=${first.body.nextCursor}`)
+      .set(auth);
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Invalid cursor");
+  });
+
+  it("refuses a cursor that is not one", async () => {
+    const res = await api.get("/patients/history?cursor=not-a-cursor").set(auth);
+    expect(res.status).toBe(400);
+  });
+
+  it("filters by name and problem, ignoring case", async () => {
+    const res = await api.get("/patients/history?q=ben%20PAGE").set(auth);
+    expect(res.body.patients.map((patient: any) => patient.name)).toEqual(["Ben Page"]);
+  });
+});
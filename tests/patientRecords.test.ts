@@ -0,0 +1,97 @@
+import { api, loginAsAdmin } from "./helpers";
+
+let auth: { Authorization: string };
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+});
+
+async function createRecord(body: object = {}) {
+  return api
+    .post("/patient-records")
+    .set(auth)
+    .send({ name: "Registry Patient", dateOfBirth: "1980-06-15", phone: "0123456789", ...body });
+}
+
+function queueVisit(record_id: number) {
+  return api.post(`/patient-records/${record_id}/visits`).set(auth).send({ problem: "Cough" });
+}
+
+describe("patient records", () => {
+  it("stores the phone and national ID in one form", async () => {
+    const res = await createRecord({ phone: "(012) 345-6780", nationalId: "ab123" });
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ phone: "0123456780", nationalId: "AB123" });
+  });
+
+  it("refuses a national ID already on file, whatever its case", async () => {
+    await createRecord({ nationalId: "XY900" });
+    const duplicate = await createRecord({ name: "Someone Else", nationalId: "xy900" });
+    expect(duplicate.status).toBe(400);
+    expect(duplicate.body.message).toBe("A patient record with this national ID already exists");
+
+    const { body: other } = await createRecord({ name: "Third Person" });
+    const update = await api
+      .patch(`/patient-records/${other.id}`)
+      .set(auth)
+      .send({ nationalId: "Xy900" });
+    expect(update.status).toBe(400);
+  });
+
+  it("finds records however the search was typed", async () => {
+    const { body: record } = await createRecord({
+      name: "Findable Person",
+      phone: "0999888777",
+      nationalId: "FP42",
+    });
+    for (const query of ["q=findable", "phone=099-988-8777", "nationalId=fp42"]) {
+      const res = await api.get(`/patient-records?${query}`).set(auth);
+      expect(res.status).toBe(200);
+      expect(res.body.map((r: any) => r.id)).toEqual([record.id]);
+    }
+  });
+
+  it("answers 404 for an unknown record", async () => {
+    expect((await api.get("/patient-records/9999").set(auth)).status).toBe(404);
+    expect((await queueVisit(9999)).status).toBe(404);
+  });
+});
+
+describe("POST /patient-records/:id/visits", () => {
+  it("queues the person under their recorded name", async () => {
+    const { body: record } = await createRecord({ name: "Queued From Registry" });
+    const res = await queueVisit(record.id);
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({
+      name: "Queued From Registry",
+      status: "Waiting",
+      recordId: record.id,
+    });
+  });
+
+  it("refuses a second visit while the first is still in the queue", async () => {
+    const { body: record } = await createRecord({ name: "Double Booked" });
+    const { body: first } = await queueVisit(record.id);
+
+    const second = await queueVisit(record.id);
+    expect(second.status).toBe(400);
+    expect(second.body.message).toBe("This patient already has a visit in the queue");
+
+    await api.put(`/patients/${first.id}/status`).set(auth).send({ status: "Called" });
+    expect((await queueVisit(record.id)).status).toBe(400);
+
+    await api.put(`/patients/${first.id}/visit`).set(auth);
+    const again = await queueVisit(record.id);
+    expect(again.status).toBe(201);
+
+    const detail = await api.get(`/patient-records/${record.id}`).set(auth);
+    expect(detail.body.visits.map((v: any) => v.id)).toEqual([again.body.id, first.id]);
+  });
+
+  it("allows a new visit once the previous one was cancelled", async () => {
+    const { body: record } = await createRecord({ name: "Changed Their Mind" });
+    const { body: first } = await queueVisit(record.id);
+    await api.post(`/patients/${first.id}/cancel`).set(auth);
+    expect((await queueVisit(record.id)).status).toBe(201);
+  });
+});
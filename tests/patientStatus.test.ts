@@ -0,0 +1,39 @@
+import { PATIENT_STATUS_TRANSITIONS, PatientStatus, TERMINAL_PATIENT_STATUSES } from "../src/classes";
+import { previousActiveStatus, statusesAllowedInto } from "../src/storage/common";
+
+describe("patient status transitions", () => {
+  it("has no way out of the terminal statuses", () => {
+    for (const status of TERMINAL_PATIENT_STATUSES) {
+      expect(PATIENT_STATUS_TRANSITIONS[status]).toEqual([]);
+    }
+  });
+
+  it("only reaches Visited from a consultation", () => {
+    expect(statusesAllowedInto(PatientStatus.Visited)).toEqual([PatientStatus.InConsultation]);
+  });
+
+  it("lets waiting and called patients be cancelled", () => {
+    expect(statusesAllowedInto(PatientStatus.Cancelled).sort()).toEqual(
+      [PatientStatus.Called, PatientStatus.Waiting].sort()
+    );
+  });
+
+  it("sends a called patient back to Waiting", () => {
+    expect(PATIENT_STATUS_TRANSITIONS[PatientStatus.Called]).toContain(PatientStatus.Waiting);
+    expect(PATIENT_STATUS_TRANSITIONS[PatientStatus.InConsultation]).not.toContain(
+      PatientStatus.Waiting
+    );
+  });
+});
+
+describe("previousActiveStatus", () => {
+  it("returns the status a visit was marked from", () => {
+    expect(previousActiveStatus(PatientStatus.InConsultation)).toBe(PatientStatus.InConsultation);
+    expect(previousActiveStatus(PatientStatus.Called)).toBe(PatientStatus.Called);
+  });
+
+  it("falls back to Waiting when the status is unknown or final", () => {
+    expect(previousActiveStatus(null)).toBe(PatientStatus.Waiting);
+    expect(previousActiveStatus(PatientStatus.Visited)).toBe(PatientStatus.Waiting);
+  });
+});
@@ -0,0 +1,214 @@
+import { api, loginAsAdmin, signUp } from "./helpers";
+
+let auth: { Authorization: string };
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+});
+
+async function register(body: object = {}) {
+  return api
+    .post("/patients")
+    .set(auth)
+    .send({ name: "Test Patient", problem: "Sore throat", ...body });
+}
+
+describe("patient registration", () => {
+  it("needs a login", async () => {
+    const res = await api.post("/patients").send({ name: "Test Patient", problem: "Cough" });
+    expect(res.status).toBe(401);
+  });
+
+  it("registers a waiting patient with a ticket and its secret", async () => {
+    const res = await register({ priority: "Urgent" });
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ status: "Waiting", priority: "Urgent" });
+    expect(res.body.ticketNumber).toMatch(/^U-\d{3}$/);
+    expect(typeof res.body.ticketSecret).toBe("string");
+  });
+
+  it("defaults the priority to NonUrgent", async () => {
+    const res = await register();
+    expect(res.status).toBe(201);
+    expect(res.body.priority).toBe("NonUrgent");
+  });
+
+  it("refuses the legacy priorities", async () => {
+    const res = await register({ priority: "Normal" });
+    expect(res.status).toBe(400);
+  });
+
+  it("refuses a name that is too short", async () => {
+    const res = await register({ name: "Al" });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toMatch(/name/);
+  });
+});
+
+describe("patient status changes", () => {
+  it("follows a patient from Waiting to Visited and records each step", async () => {
+    const { body: patient } = await register();
+    for (const status of ["Called", "InConsultation", "Visited"]) {
+      const res = await api.put(`/patients/${patient.id}/status`).set(auth).send({ status });
+      expect(res.status).toBe(200);
+      expect(res.body.status).toBe(status);
+    }
+
+    const history = await api.get(`/patients/${patient.id}/history`).set(auth);
+    expect(history.body.map((change: any) => [change.fromStatus, change.toStatus])).toEqual([
+      [null, "Waiting"],
+      ["Waiting", "Called"],
+      ["Called", "InConsultation"],
+      ["InConsultation", "Visited"],
+    ]);
+  });
+
+  it("refuses a transition the state machine does not allow", async () => {
+    const { body: patient } = await register();
+    const res = await api
+      .put(`/patients/${patient.id}/status`)
+      .set(auth)
+      .send({ status: "InConsultation" });
+    expect(res.status).toBe(400);
+  });
+
+  it("answers 404 for an unknown patient", async () => {
+    const res = await api.put("/patients/9999/status").set(auth).send({ status: "Called" });
+    expect(res.status).toBe(404);
+  });
+
+  it("undoes a visit back to the status it was marked from", async () => {
+    const { body: patient } = await register();
+    await api.put(`/patients/${patient.id}/status`).set(auth).send({ status: "Called" });
+    expect((await api.put(`/patients/${patient.id}/visit`).set(auth)).status).toBe(200);
+    expect((await api.put(`/patients/${patient.id}/visit`).set(auth)).status).toBe(400);
+
+    const res = await api.post(`/patients/${patient.id}/undo-visit`).set(auth);
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe("Called");
+  });
+
+  it("refuses to undo a visit once the patient has registered again", async () => {
+    const record = await api
+      .post("/patient-records")
+      .set(auth)
+      .send({ name: "Returning Patient", dateOfBirth: "1975-03-02", phone: "0123456789" });
+    const visit = () =>
+      api.post(`/patient-records/${record.body.id}/visits`).set(auth).send({ problem: "Cough" });
+    const { body: first } = await visit();
+    await api.put(`/patients/${first.id}/status`).set(auth).send({ status: "Called" });
+    await api.put(`/patients/${first.id}/visit`).set(auth);
+    expect((await visit()).status).toBe(201);
+
+    const res = await api.post(`/patients/${first.id}/undo-visit`).set(auth);
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("This patient already has a visit in the queue");
+  });
+
+  it("drops the claim of a doctor disabled since the visit", async () => {
+    const doctor = await signUp("undo-doctor@clinic.com");
+    const { body: patient } = await register({ priority: "Resuscitation" });
+    const claimed = await api.post("/queue/next").set(doctor.auth).send({});
+    expect(claimed.body).toMatchObject({ id: patient.id, claimedBy: doctor.id });
+    await api.put(`/patients/${patient.id}/visit`).set(doctor.auth);
+    await api.put(`/users/${doctor.id}/disable`).set(auth);
+
+    const res = await api.post(`/patients/${patient.id}/undo-visit`).set(auth);
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ status: "Called", claimedBy: null });
+  });
+
+  it("refuses to undo a visit that was not marked", async () => {
+    const { body: patient } = await register();
+    const res = await api.post(`/patients/${patient.id}/undo-visit`).set(auth);
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Patient is not marked as visited");
+  });
+
+  it("refuses to undo a visit marked more than 30 minutes ago", async () => {
+    const { body: patient } = await register();
+    await api.put(`/patients/${patient.id}/status`).set(auth).send({ status: "Called" });
+    // Only Date is faked, so the visit is stamped 31 minutes in the past
+    jest.useFakeTimers({ doNotFake: ["setTimeout", "clearTimeout", "setImmediate", "nextTick"] });
+    jest.setSystemTime(Date.now() - 31 * 60 * 1000);
+    try {
+      expect((await api.put(`/patients/${patient.id}/visit`).set(auth)).status).toBe(200);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    const res = await api.post(`/patients/${patient.id}/undo-visit`).set(auth);
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Visits can only be undone within 30 minutes");
+  });
+
+  it("cancels a waiting patient, after which they cannot be called", async () => {
+    const { body: patient } = await register();
+    const cancelled = await api.post(`/patients/${patient.id}/cancel`).set(auth);
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.status).toBe("Cancelled");
+
+    const res = await api.put(`/patients/${patient.id}/status`).set(auth).send({ status: "Called" });
+    expect(res.status).toBe(400);
+  });
+
+  it("cancels a called patient but not one already visited", async () => {
+    const { body: called } = await register();
+    await api.put(`/patients/${called.id}/status`).set(auth).send({ status: "Called" });
+    const res = await api.post(`/patients/${called.id}/cancel`).set(auth);
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe("Cancelled");
+
+    const { body: visited } = await register();
+    await api.put(`/patients/${visited.id}/status`).set(auth).send({ status: "Called" });
+    await api.put(`/patients/${visited.id}/visit`).set(auth);
+    const refused = await api.post(`/patients/${visited.id}/cancel`).set(auth);
+    expect(refused.status).toBe(400);
+    expect(refused.body.message).toBe("Only waiting or called patients can be cancelled");
+  });
+});
+
+describe("patient edits", () => {
+  it("changes the priority and keeps the ticket number", async () => {
+    const { body: patient } = await register();
+    const res = await api.patch(`/patients/${patient.id}`).set(auth).send({ priority: "Emergent" });
+    expect(res.status).toBe(200);
+    expect(res.body.priority).toBe("Emergent");
+    expect(res.body.ticketNumber).toBe(patient.ticketNumber);
+  });
+
+  it("refuses an empty update", async () => {
+    const { body: patient } = await register();
+    const res = await api.patch(`/patients/${patient.id}`).set(auth).send({});
+    expect(res.status).toBe(400);
+  });
+
+  it("changes the name and problem and records the edit", async () => {
+    const { body: patient } = await register();
+    const res = await api
+      .patch(`/patients/${patient.id}`)
+      .set(auth)
+      .send({ name: "Corrected Name", problem: "Ear ache" });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ name: "Corrected Name", problem: "Ear ache" });
+
+    const audit = await api.get(`/audit?patientId=${patient.id}&action=patient.update`).set(auth);
+    expect(audit.body[0]).toMatchObject({
+      before: { name: "Test Patient", problem: "Sore throat" },
+      after: { name: "Corrected Name", problem: "Ear ache" },
+    });
+  });
+
+  it("refuses to edit a patient who has left the queue", async () => {
+    const { body: patient } = await register();
+    await api.post(`/patients/${patient.id}/cancel`).set(auth);
+    const res = await api.patch(`/patients/${patient.id}`).set(auth).send({ name: "Too Late" });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Only patients still in the queue can be edited");
+  });
+
+  it("answers 404 for an unknown patient", async () => {
+    const res = await api.patch("/patients/9999").set(auth).send({ name: "Nobody Here" });
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,114 @@
+import { PriorityRule, PriorityRuleMode, Priority } from "../src/classes";
+import { evaluatePriorityRules } from "../src/triage";
+import { api, loginAsAdmin } from "./helpers";
+
+function rule(
+  fields: Partial<PriorityRule> & Pick<PriorityRule, "name" | "priority">
+): PriorityRule {
+  return { enabled: true, mode: PriorityRuleMode.Set, ...fields };
+}
+
+const chestPain = rule({
+  name: "chest pain",
+  priority: Priority.Emergent,
+  keywords: ["chest pain"],
+});
+const elderly = rule({ name: "elderly", priority: Priority.Urgent, olderThan: 75 });
+const infant = rule({ name: "infant", priority: Priority.Urgent, youngerThan: 1 });
+const pregnancy = rule({
+  name: "pregnancy",
+  priority: Priority.LessUrgent,
+  pregnant: true,
+  mode: PriorityRuleMode.Suggest,
+});
+
+describe("evaluatePriorityRules", () => {
+  it("matches keywords ignoring case and extra whitespace", () => {
+    const result = evaluatePriorityRules([chestPain], { problem: "Sudden CHEST   pain" });
+    expect(result.matchedRules).toEqual(["chest pain"]);
+    expect(result.priority).toBe(Priority.Emergent);
+  });
+
+  it("never matches age rules when the age is unknown", () => {
+    expect(evaluatePriorityRules([elderly, infant], { problem: "Fall" }).matchedRules).toEqual([]);
+    expect(
+      evaluatePriorityRules([elderly, infant], { problem: "Fall", age: 80 }).matchedRules
+    ).toEqual(["elderly"]);
+  });
+
+  it("needs every condition of a rule to hold", () => {
+    const elderlyChestPain = rule({
+      name: "elderly chest pain",
+      priority: Priority.Resuscitation,
+      keywords: ["chest pain"],
+      olderThan: 75,
+    });
+    const young = evaluatePriorityRules([elderlyChestPain], { problem: "chest pain", age: 40 });
+    expect(young.priorityRule).toBeNull();
+    const old = evaluatePriorityRules([elderlyChestPain], { problem: "chest pain", age: 80 });
+    expect(old.priorityRule).toBe("elderly chest pain");
+  });
+
+  it("picks the most urgent match, and the first listed among equals", () => {
+    const result = evaluatePriorityRules([elderly, chestPain, infant], {
+      problem: "chest pain",
+      age: 0,
+    });
+    expect(result.matchedRules).toEqual(["chest pain", "infant"]);
+    expect(result.priorityRule).toBe("chest pain");
+
+    const tie = evaluatePriorityRules([infant, elderly], { problem: "cough", age: 0 });
+    expect(tie.priorityRule).toBe("infant");
+  });
+
+  it("skips disabled rules", () => {
+    const disabled = { ...chestPain, enabled: false };
+    expect(evaluatePriorityRules([disabled], { problem: "chest pain" }).matchedRules).toEqual([]);
+  });
+
+  it("only records a suggest rule, leaving the default priority", () => {
+    const result = evaluatePriorityRules([pregnancy], { problem: "Nausea", pregnant: true });
+    expect(result.suggestedPriority).toBe(Priority.LessUrgent);
+    expect(result.priority).toBe(Priority.NonUrgent);
+  });
+
+  it("keeps the priority staff chose", () => {
+    const result = evaluatePriorityRules([chestPain], {
+      problem: "chest pain",
+      priority: Priority.Urgent,
+    });
+    expect(result.suggestedPriority).toBe(Priority.Emergent);
+    expect(result.priority).toBe(Priority.Urgent);
+  });
+});
+
+describe("priority rules at registration", () => {
+  let auth: { Authorization: string };
+
+  beforeAll(async () => {
+    auth = await loginAsAdmin();
+    const saved = await api.put("/triage/rules").set(auth).send({ rules: [chestPain] });
+    expect(saved.status).toBe(200);
+  });
+
+  it("sets the priority of a matching patient and records the rule", async () => {
+    const res = await api
+      .post("/patients")
+      .set(auth)
+      .send({ name: "Test Patient", problem: "Chest pain since morning" });
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({
+      priority: "Emergent",
+      priorityRule: "chest pain",
+      suggestedPriority: "Emergent",
+    });
+  });
+
+  it("refuses rules with a legacy priority", async () => {
+    const res = await api
+      .put("/triage/rules")
+      .set(auth)
+      .send({ rules: [{ name: "old", priority: "Emergency", keywords: ["bleeding"] }] });
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,54 @@
+import { api, loginAsAdmin, signUp } from "./helpers";
+
+let auth: { Authorization: string };
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+});
+
+function callNext(headers: { Authorization: string }) {
+  return api.post("/queue/next").set(headers).send({});
+}
+
+describe("calling the next patient", () => {
+  it("gives each of several doctors calling together a different patient", async () => {
+    for (const name of ["Ann Next", "Ben Next", "Cat Next"]) {
+      await api.post("/patients").set(auth).send({ name, problem: "Sore throat" });
+    }
+    // Two seed patients and the three above are waiting
+    const doctors = await Promise.all(
+      [1, 2, 3, 4, 5, 6].map((n) => signUp(`doctor${n}@clinic.com`))
+    );
+
+    const results = await Promise.all(doctors.map((doctor) => callNext(doctor.auth)));
+    const claimed = results.filter((res) => res.status === 200).map((res) => res.body);
+    expect(claimed).toHaveLength(5);
+    expect(new Set(claimed.map((patient) => patient.id)).size).toBe(5);
+    expect(results.filter((res) => res.status === 404)).toHaveLength(1);
+
+    for (const [i, res] of results.entries()) {
+      if (res.status === 200) {
+        expect(res.body).toMatchObject({ status: "Called", claimedBy: doctors[i].id });
+      }
+    }
+  });
+
+  it("calls the most urgent patient first", async () => {
+    await api.post("/patients").set(auth).send({ name: "Low Priority", problem: "Rash" });
+    const { body: urgent } = await api
+      .post("/patients")
+      .set(auth)
+      .send({ name: "High Priority", problem: "Chest pain", priority: "Emergent" });
+
+    const res = await callNext(auth);
+    expect(res.status).toBe(200);
+    expect(res.body.id).toBe(urgent.id);
+  });
+
+  it("answers 404 when nobody is waiting in the queue", async () => {
+    await callNext(auth);
+    const res = await callNext(auth);
+    expect(res.status).toBe(404);
+    expect(res.body.message).toBe("No patients waiting");
+  });
+});
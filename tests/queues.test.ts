@@ -0,0 +1,84 @@
+import { api, loginAsAdmin, signUp } from "./helpers";
+
+let auth: { Authorization: string };
+let generalId: number;
+let cardiologyId: number;
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+  generalId = (await api.get("/queues").set(auth)).body[0].id;
+  const cardiology = await api
+    .post("/queues")
+    .set(auth)
+    .send({ name: "Cardiology", type: "department" });
+  expect(cardiology.status).toBe(201);
+  cardiologyId = cardiology.body.id;
+});
+
+async function register(name: string, queueId?: number) {
+  const res = await api.post("/patients").set(auth).send({ name, problem: "Palpitations", queueId });
+  expect(res.status).toBe(201);
+  return res.body;
+}
+
+describe("queues", () => {
+  it("only lets admins create them, with unique names", async () => {
+    const user = await signUp("queue-staff@clinic.com");
+    const forbidden = await api.post("/queues").set(user.auth).send({ name: "Radiology" });
+    expect(forbidden.status).toBe(403);
+
+    const duplicate = await api.post("/queues").set(auth).send({ name: "Cardiology" });
+    expect(duplicate.status).toBe(400);
+  });
+
+  it("keeps each queue's patients and calls apart", async () => {
+    const patient = await register("Heart Patient", cardiologyId);
+    expect(patient.queueId).toBe(cardiologyId);
+
+    const listed = await api.get(`/patients?queueId=${cardiologyId}`).set(auth);
+    expect(listed.body.map((p: any) => p.id)).toEqual([patient.id]);
+
+    const next = await api.post("/queue/next").set(auth).send({ queueId: cardiologyId });
+    expect(next.body.id).toBe(patient.id);
+    const empty = await api.post("/queue/next").set(auth).send({ queueId: cardiologyId });
+    expect(empty.status).toBe(404);
+  });
+
+  it("puts patients without a queue in the default one", async () => {
+    expect((await register("Default Patient")).queueId).toBe(generalId);
+  });
+});
+
+describe("transfers", () => {
+  it("moves a waiting patient, keeping their ticket", async () => {
+    const patient = await register("Moving Patient", generalId);
+    const before = await api.get(`/patients/stats?queueId=${cardiologyId}`).set(auth);
+
+    const res = await api
+      .post(`/patients/${patient.id}/transfer`)
+      .set(auth)
+      .send({ queueId: cardiologyId });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ queueId: cardiologyId, ticketNumber: patient.ticketNumber });
+
+    const after = await api.get(`/patients/stats?queueId=${cardiologyId}`).set(auth);
+    expect(after.body.totalWaiting).toBe(before.body.totalWaiting + 1);
+  });
+
+  it("refuses the same queue, an inactive queue and patients no longer waiting", async () => {
+    const patient = await register("Staying Patient", generalId);
+    const transfer = (queueId: number) =>
+      api.post(`/patients/${patient.id}/transfer`).set(auth).send({ queueId });
+
+    expect((await transfer(generalId)).body.message).toBe("Patient is already in that queue");
+
+    const closed = await api.post("/queues").set(auth).send({ name: "Closed Ward" });
+    await api.put(`/queues/${closed.body.id}`).set(auth).send({ active: false });
+    expect((await transfer(closed.body.id)).body.message).toBe("Queue not found or inactive");
+
+    await api.post(`/patients/${patient.id}/cancel`).set(auth);
+    expect((await transfer(cardiologyId)).body.message).toBe(
+      "Only waiting patients can be transferred"
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { ReportFormat } from "../src/classes";
+import { resolveReportRange, toCsv, toVolumeReportRow } from "../src/reports";
+import { api, loginAsAdmin, signUp } from "./helpers";
+
+// The patients seeded from data.json arrived on this day
+const SEED_DAY = "2025-01-12";
+
+describe("report ranges", () => {
+  it("counts inclusive days", () => {
+    expect(
+      resolveReportRange({ from: "2025-01-01", to: "2025-01-07", format: ReportFormat.json })
+    ).toEqual({ from: "2025-01-01", to: "2025-01-07", days: 7 });
+  });
+
+  it("refuses reversed and overlong ranges", () => {
+    expect(
+      resolveReportRange({ from: "2025-02-01", to: "2025-01-01", format: ReportFormat.json })
+    ).toBe("from must not be after to");
+    expect(
+      resolveReportRange({ from: "2023-01-01", to: "2025-01-01", format: ReportFormat.json })
+    ).toBe("Date range cannot exceed 366 days");
+  });
+});
+
+describe("report rows", () => {
+  it("derives the shares from the counts", () => {
+    const row = toVolumeReportRow({
+      period: SEED_DAY,
+      registered: 3,
+      visited: 2,
+      emergencies: 1,
+      noShows: 0,
+      averageWaitMinutes: 12.345,
+      p90WaitMinutes: null,
+    });
+    expect(row).toMatchObject({ emergencyShare: 0.333, noShowRate: 0, averageWaitMinutes: 12.3 });
+  });
+
+  it("quotes CSV values that need it", () => {
+    const csv = toCsv([{ name: 'Dr "Who", MD', count: 2 }], ["name", "count"]);
+    expect(csv).toBe('name,count\r\n"Dr ""Who"", MD",2\r\n');
+  });
+});
+
+describe("report endpoints", () => {
+  let auth: { Authorization: string };
+
+  beforeAll(async () => {
+    auth = await loginAsAdmin();
+  });
+
+  it("are for admins only", async () => {
+    const user = await signUp("reports-staff@clinic.com");
+    expect((await api.get("/reports/daily").set(user.auth)).status).toBe(403);
+  });
+
+  it("count registrations on the day they arrived", async () => {
+    const res = await api.get(`/reports/daily?from=${SEED_DAY}&to=${SEED_DAY}`).set(auth);
+    expect(res.status).toBe(200);
+    expect(res.body.rows).toEqual([
+      expect.objectContaining({ period: SEED_DAY, registered: 2, emergencies: 1, visited: 0 }),
+    ]);
+  });
+
+  it("credit the staff member who called and saw a patient", async () => {
+    const doctor = await signUp("reports-doctor@clinic.com");
+    const { body: patient } = await api.post("/queue/next").set(doctor.auth).send({});
+    await api
+      .put(`/patients/${patient.id}/status`)
+      .set(doctor.auth)
+      .send({ status: "InConsultation" });
+    await api.put(`/patients/${patient.id}/visit`).set(doctor.auth);
+
+    const res = await api.get("/reports/staff").set(auth);
+    expect(res.body.rows).toContainEqual(
+      expect.objectContaining({ userId: doctor.id, called: 1, visited: 1 })
+    );
+  });
+
+  it("download as CSV", async () => {
+    const res = await api
+      .get(`/reports/hourly?from=${SEED_DAY}&to=${SEED_DAY}&format=csv`)
+      .set(auth);
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toMatch(/^text\/csv/);
+    expect(res.text.split("\r\n")[0]).toBe("hour,arrivals,averagePerDay");
+  });
+
+  it("refuse an invalid range", async () => {
+    const res = await api.get("/reports/daily?from=2025-02-01&to=2025-01-01").set(auth);
+    expect(res.status).toBe(400);
+  });
+});
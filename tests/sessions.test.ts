@@ -0,0 +1,110 @@
+import { api } from "./helpers";
+
+const PASSWORD = "user-password";
+
+async function login(email: string, deviceName?: string) {
+  const res = await api.post("/auth/login").send({ email, password: PASSWORD, deviceName });
+  expect(res.status).toBe(200);
+  return res.body;
+}
+
+function bearer(token: string) {
+  return { Authorization: `Bearer ${token}` };
+}
+
+beforeAll(async () => {
+  for (const email of ["rotate@example.com", "reuse@example.com", "devices@example.com"]) {
+    await api.post("/auth/signup").send({ name: "Test User", email, password: PASSWORD });
+  }
+});
+
+describe("POST /auth/refresh", () => {
+  it("rotates the refresh token and keeps the session", async () => {
+    const first = await login("rotate@example.com");
+    const res = await api.post("/auth/refresh").send({ refreshToken: first.refreshToken });
+    expect(res.status).toBe(200);
+    expect(res.body.refreshToken).not.toBe(first.refreshToken);
+
+    const me = await api.get("/auth/me").set(bearer(res.body.token));
+    expect(me.status).toBe(200);
+    expect(me.body.email).toBe("rotate@example.com");
+
+    const next = await api.post("/auth/refresh").send({ refreshToken: res.body.refreshToken });
+    expect(next.status).toBe(200);
+  });
+
+  it("revokes the session when a rotated-out token is reused", async () => {
+    const first = await login("reuse@example.com");
+    const rotated = await api.post("/auth/refresh").send({ refreshToken: first.refreshToken });
+    expect(rotated.status).toBe(200);
+
+    const reused = await api.post("/auth/refresh").send({ refreshToken: first.refreshToken });
+    expect(reused.status).toBe(401);
+
+    // The newest token of the session stops working too
+    const stolen = await api.post("/auth/refresh").send({ refreshToken: rotated.body.refreshToken });
+    expect(stolen.status).toBe(401);
+    const me = await api.get("/auth/me").set(bearer(rotated.body.token));
+    expect(me.status).toBe(401);
+  });
+
+  it("refuses a malformed token", async () => {
+    const res = await api.post("/auth/refresh").send({ refreshToken: "not-a-token" });
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("POST /auth/logout", () => {
+  it("revokes the session of the refresh token", async () => {
+    const session = await login("rotate@example.com");
+    const res = await api.post("/auth/logout").send({ refreshToken: session.refreshToken });
+    expect(res.status).toBe(200);
+
+    const refresh = await api.post("/auth/refresh").send({ refreshToken: session.refreshToken });
+    expect(refresh.status).toBe(401);
+    const me = await api.get("/auth/me").set(bearer(session.token));
+    expect(me.status).toBe(401);
+  });
+});
+
+describe("/auth/sessions", () => {
+  it("lists the user's devices and revokes one of them", async () => {
+    const reception = await login("devices@example.com", "Reception PC");
+    const tablet = await login("devices@example.com", "Doctor tablet");
+
+    const list = await api.get("/auth/sessions").set(bearer(reception.token));
+    expect(list.status).toBe(200);
+    const tabletSession = list.body.find((s: any) => s.deviceName === "Doctor tablet");
+    expect(tabletSession.current).toBe(false);
+    expect(list.body.find((s: any) => s.deviceName === "Reception PC").current).toBe(true);
+
+    const revoke = await api.delete(`/auth/sessions/${tabletSession.id}`).set(bearer(reception.token));
+    expect(revoke.status).toBe(200);
+    expect((await api.get("/auth/me").set(bearer(tablet.token))).status).toBe(401);
+    expect((await api.get("/auth/me").set(bearer(reception.token))).status).toBe(200);
+
+    const again = await api.delete(`/auth/sessions/${tabletSession.id}`).set(bearer(reception.token));
+    expect(again.status).toBe(404);
+  });
+
+  it("hides other users' sessions", async () => {
+    const owner = await login("devices@example.com");
+    const other = await login("rotate@example.com");
+    const list = await api.get("/auth/sessions").set(bearer(owner.token));
+    const ownerSession = list.body.find((s: any) => s.current);
+
+    const res = await api.delete(`/auth/sessions/${ownerSession.id}`).set(bearer(other.token));
+    expect(res.status).toBe(404);
+    expect((await api.get("/auth/me").set(bearer(owner.token))).status).toBe(200);
+  });
+
+  it("signs out every other device", async () => {
+    const kept = await login("devices@example.com", "Kept");
+    const other = await login("devices@example.com", "Other");
+
+    const res = await api.delete("/auth/sessions").set(bearer(kept.token));
+    expect(res.status).toBe(200);
+    expect((await api.get("/auth/me").set(bearer(other.token))).status).toBe(401);
+    expect((await api.get("/auth/me").set(bearer(kept.token))).status).toBe(200);
+  });
+});
@@ -0,0 +1,9 @@
+// Runs before every test file. Tests use the in-memory backend with nothing
+// written to disk, and do not depend on a local .env.
+process.env.STORAGE_BACKEND = "memory";
+delete process.env.STORAGE_FILE;
+process.env.JWT_SECRET = "test-secret";
+process.env.JWT_ALGORITHM = "HS256";
+process.env.JWT_COOKIE_NAME = "access_token";
+process.env.CLINIC_TIMEZONE = "UTC";
+process.env.AVERAGE_CONSULTATION_MINUTES = "10";
@@ -0,0 +1,75 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Storage } from "../src/storage/types";
+
+const STORAGE_FILE = path.join(os.tmpdir(), `clinic-storage-test-${process.pid}.json`);
+
+// A fresh copy of the in-memory backend (STORAGE_BACKEND is "memory" under
+// test), as after a server restart
+function startMemoryStorage(): Storage {
+  let storage: Storage | undefined;
+  jest.isolateModules(() => {
+    storage = require("../src/storage").storage;
+  });
+  return storage as Storage;
+}
+
+describe("in-memory storage with a file", () => {
+  beforeAll(() => {
+    process.env.STORAGE_FILE = STORAGE_FILE;
+  });
+
+  afterAll(() => {
+    delete process.env.STORAGE_FILE;
+    fs.rmSync(STORAGE_FILE, { force: true });
+  });
+
+  it("keeps its data across a restart", async () => {
+    const first = startMemoryStorage();
+    await first.init();
+    const user = await first.users.createUser("Kept User", "kept@clinic.com", "password1", "user");
+    const [patient] = await first.patients.addPatient("Kept Patient", "Cough", "Urgent", 1);
+
+    const second = startMemoryStorage();
+    await second.init();
+    expect(await second.users.getUserById(user.id)).toMatchObject({ email: "kept@clinic.com" });
+    const patients = await second.patients.getAllPatients();
+    expect(patients.map((p) => p.id)).toContain(patient!.id);
+
+    // Ids carry on from where the last run stopped
+    const [next] = await second.patients.addPatient("Next Patient", "Cough", "Urgent", 1);
+    expect(next!.id).toBe(patient!.id + 1);
+    expect(next!.ticketNumber).not.toBe(patient!.ticketNumber);
+  });
+
+  it("leaves no temporary file behind", () => {
+    expect(fs.existsSync(STORAGE_FILE)).toBe(true);
+    expect(fs.existsSync(`${STORAGE_FILE}.tmp`)).toBe(false);
+  });
+});
+
+describe("in-memory storage without a file", () => {
+  it("starts empty on every run", async () => {
+    const first = startMemoryStorage();
+    await first.init();
+    await first.users.createUser("Lost User", "lost@clinic.com", "password1", "user");
+
+    const second = startMemoryStorage();
+    await second.init();
+    expect(await second.users.getUserByEmail("lost@clinic.com")).toBeNull();
+  });
+});
+
+describe("backend selection", () => {
+  afterEach(() => {
+    process.env.STORAGE_BACKEND = "memory";
+  });
+
+  it("refuses an unknown backend", () => {
+    process.env.STORAGE_BACKEND = "sqlite";
+    expect(() => jest.isolateModules(() => require("../src/storage"))).toThrow(
+      'Unknown STORAGE_BACKEND "sqlite". Use one of: postgres, memory'
+    );
+  });
+});
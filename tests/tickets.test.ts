@@ -0,0 +1,63 @@
+import { api, loginAsAdmin } from "./helpers";
+
+let auth: { Authorization: string };
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+});
+
+function lookUp(ticketNumber: string, secret: string) {
+  return api.post("/tickets/lookup").send({ ticketNumber, secret });
+}
+
+// The lookup allows 10 requests a minute per address, shared by all the
+// tests below
+describe("ticket lookup", () => {
+  let ticket: { ticketNumber: string; ticketSecret: string; id: number };
+
+  beforeAll(async () => {
+    const res = await api
+      .post("/patients")
+      .set(auth)
+      .send({ name: "Ticket Holder", problem: "Sore throat", priority: "LessUrgent" });
+    ticket = res.body;
+  });
+
+  it("tells the holder their place without naming anyone", async () => {
+    const res = await lookUp(ticket.ticketNumber, ticket.ticketSecret);
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      ticketNumber: ticket.ticketNumber,
+      status: "Waiting",
+      queueName: "General",
+    });
+    expect(res.body.position).toBe(res.body.patientsAhead + 1);
+    expect(JSON.stringify(res.body)).not.toContain("Ticket Holder");
+  });
+
+  it("accepts the code in lower case", async () => {
+    const res = await lookUp(ticket.ticketNumber.toLowerCase(), ticket.ticketSecret.toLowerCase());
+    expect(res.status).toBe(200);
+  });
+
+  it("answers the same for a wrong code and an unknown ticket", async () => {
+    const wrongCode = await lookUp(ticket.ticketNumber, "WRONG1");
+    const unknown = await lookUp("L-999", ticket.ticketSecret);
+    expect(wrongCode.status).toBe(404);
+    expect(unknown.status).toBe(404);
+    expect(wrongCode.body).toEqual(unknown.body);
+  });
+
+  it("drops the position once the patient is called", async () => {
+    await api.put(`/patients/${ticket.id}/status`).set(auth).send({ status: "Called" });
+    const res = await lookUp(ticket.ticketNumber, ticket.ticketSecret);
+    expect(res.body).toMatchObject({ status: "Called", position: null });
+  });
+
+  it("limits how often codes can be tried", async () => {
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => lookUp(ticket.ticketNumber, "GUESS1"))
+    );
+    expect(results.map((res) => res.status)).toContain(429);
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  TOTP_ISSUER,
+  generateTotpSecret,
+  totpCode,
+  totpProvisioningUri,
+  totpStep,
+  verifyTotp,
+} from "../src/totp";
+
+// The SHA-1 secret of the RFC 6238 test vectors, "12345678901234567890", in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("totpCode", () => {
+  // RFC 6238, appendix B; the 8-digit codes cut to the last 6 digits
+  it.each([
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+    [20000000000, "353130"],
+  ])("matches the RFC 6238 vector at %i seconds", (seconds, code) => {
+    expect(totpCode(RFC_SECRET, totpStep(seconds * 1000))).toBe(code);
+  });
+
+  it("reads lower-case and padded secrets", () => {
+    const step = totpStep(59 * 1000);
+    expect(totpCode(`${RFC_SECRET.toLowerCase()}====`, step)).toBe("287082");
+  });
+});
+
+describe("verifyTotp", () => {
+  const time = 1111111111 * 1000;
+
+  it("returns the step of a current code", () => {
+    expect(verifyTotp(RFC_SECRET, "050471", time)).toBe(totpStep(time));
+  });
+
+  it("accepts codes from one step either side", () => {
+    const step = totpStep(time);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), time)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), time)).toBe(step + 1);
+  });
+
+  it("refuses codes further away and malformed codes", () => {
+    const step = totpStep(time);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), time)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "50471", time)).toBeNull();
+  });
+});
+
+describe("generateTotpSecret", () => {
+  it("returns a 160-bit base32 secret", () => {
+    expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+});
+
+describe("totpProvisioningUri", () => {
+  it("names the issuer and account and carries the parameters", () => {
+    const issuer = encodeURIComponent(TOTP_ISSUER);
+    const uri = totpProvisioningUri(RFC_SECRET, "admin@clinic.com");
+    expect(uri).toBe(
+      `otpauth://totp/${issuer}:admin%40clinic.com` +
+        `?secret=${RFC_SECRET}&issuer=${issuer}&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
@@ -0,0 +1,100 @@
+import { Patient, PatientStatus } from "../src/classes";
+import {
+  DEFAULT_TRIAGE_POLICY,
+  annotateTriage,
+  effectiveLevel,
+  priorityLevel,
+  resolveTriagePolicy,
+} from "../src/triage";
+
+const ARRIVAL = "2025-01-12T09:00:00Z";
+
+function minutesAfterArrival(minutes: number): number {
+  return Date.parse(ARRIVAL) + minutes * 60 * 1000;
+}
+
+describe("priorityLevel", () => {
+  it("ranks the five levels and the legacy priorities", () => {
+    expect(priorityLevel("Resuscitation")).toBe(1);
+    expect(priorityLevel("NonUrgent")).toBe(5);
+    expect(priorityLevel("Emergency")).toBe(2);
+    expect(priorityLevel("Normal")).toBe(5);
+  });
+
+  it("puts unknown priorities after every level", () => {
+    expect(priorityLevel("Whenever")).toBe(6);
+  });
+});
+
+describe("effectiveLevel", () => {
+  const policy = DEFAULT_TRIAGE_POLICY;
+
+  it("lifts a waiting patient one level every agingMinutes", () => {
+    expect(effectiveLevel("NonUrgent", ARRIVAL, policy, minutesAfterArrival(29))).toBe(5);
+    expect(effectiveLevel("NonUrgent", ARRIVAL, policy, minutesAfterArrival(30))).toBe(4);
+    expect(effectiveLevel("NonUrgent", ARRIVAL, policy, minutesAfterArrival(61))).toBe(3);
+  });
+
+  it("stops at maxAgedLevel", () => {
+    expect(effectiveLevel("NonUrgent", ARRIVAL, policy, minutesAfterArrival(600))).toBe(2);
+  });
+
+  it("never lowers a level already more urgent than maxAgedLevel", () => {
+    expect(effectiveLevel("Resuscitation", ARRIVAL, policy, minutesAfterArrival(600))).toBe(1);
+  });
+
+  it("ignores arrival times in the future", () => {
+    expect(effectiveLevel("Urgent", ARRIVAL, policy, minutesAfterArrival(-90))).toBe(3);
+  });
+
+  it("keeps the priority's level with aging off", () => {
+    const noAging = { ...policy, aging: false };
+    expect(effectiveLevel("NonUrgent", ARRIVAL, noAging, minutesAfterArrival(600))).toBe(5);
+  });
+});
+
+describe("resolveTriagePolicy", () => {
+  it("fills in what the stored setting leaves out", () => {
+    const policy = resolveTriagePolicy({ agingMinutes: 15, maxWaitMinutes: { Urgent: 20 } });
+    expect(policy.agingMinutes).toBe(15);
+    expect(policy.maxAgedLevel).toBe(DEFAULT_TRIAGE_POLICY.maxAgedLevel);
+    expect(policy.maxWaitMinutes.Urgent).toBe(20);
+    expect(policy.maxWaitMinutes.NonUrgent).toBe(DEFAULT_TRIAGE_POLICY.maxWaitMinutes.NonUrgent);
+  });
+
+  it("uses the defaults when nothing is stored", () => {
+    expect(resolveTriagePolicy(null)).toEqual(DEFAULT_TRIAGE_POLICY);
+  });
+});
+
+describe("annotateTriage", () => {
+  function patient(status: PatientStatus): Patient {
+    return {
+      id: 1,
+      name: "Test Patient",
+      problem: "Sore throat",
+      priority: "Urgent",
+      arrivalTime: ARRIVAL,
+      status,
+    } as Patient;
+  }
+
+  it("flags a waiting patient past their level's maximum wait", () => {
+    const policy = DEFAULT_TRIAGE_POLICY;
+    const onTime = annotateTriage(patient(PatientStatus.Waiting), policy, minutesAfterArrival(30));
+    expect(onTime.maxWaitBreached).toBe(false);
+    const late = annotateTriage(patient(PatientStatus.Waiting), policy, minutesAfterArrival(31));
+    expect(late.maxWaitBreached).toBe(true);
+    expect(late.effectiveLevel).toBe(2);
+  });
+
+  it("leaves patients who are no longer waiting alone", () => {
+    const called = annotateTriage(
+      patient(PatientStatus.Called),
+      DEFAULT_TRIAGE_POLICY,
+      minutesAfterArrival(600)
+    );
+    expect(called.effectiveLevel).toBeUndefined();
+    expect(called.maxWaitBreached).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+import { api, loginAsAdmin, signUp } from "./helpers";
+
+let auth: { Authorization: string };
+
+beforeAll(async () => {
+  auth = await loginAsAdmin();
+});
+
+function setRole(user_id: number, role: string) {
+  return api.put(`/users/${user_id}/role`).set(auth).send({ role });
+}
+
+describe("role enforcement", () => {
+  it("keeps staff out of the admin routes", async () => {
+    const user = await signUp("staff@clinic.com");
+    expect((await api.get("/users").set(user.auth)).status).toBe(403);
+    expect((await api.get("/audit").set(user.auth)).status).toBe(403);
+    expect((await api.get("/patients").set(user.auth)).status).toBe(200);
+  });
+
+  it("applies a role change to tokens issued before it", async () => {
+    const user = await signUp("promoted@clinic.com");
+    expect((await setRole(user.id, "admin")).status).toBe(200);
+    expect((await api.get("/users").set(user.auth)).status).toBe(200);
+
+    expect((await setRole(user.id, "user")).status).toBe(200);
+    expect((await api.get("/users").set(user.auth)).status).toBe(403);
+  });
+
+  it("refuses an unknown role", async () => {
+    const user = await signUp("unknown-role@clinic.com");
+    expect((await setRole(user.id, "superuser")).status).toBe(400);
+  });
+});
+
+describe("last admin guard", () => {
+  it("refuses to demote the only active admin", async () => {
+    const res = await setRole(1, "user");
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Cannot remove the last active admin");
+  });
+
+  it("does not count a disabled admin", async () => {
+    const other = await signUp("second-admin@clinic.com");
+    await setRole(other.id, "admin");
+    await api.put(`/users/${other.id}/disable`).set(auth);
+
+    expect((await setRole(1, "user")).status).toBe(400);
+  });
+
+  it("refuses to disable or delete your own account", async () => {
+    expect((await api.put("/users/1/disable").set(auth)).status).toBe(400);
+    expect((await api.delete("/users/1").set(auth)).status).toBe(400);
+  });
+
+  it("answers 404 for an unknown user", async () => {
+    expect((await setRole(999, "user")).status).toBe(404);
+    expect((await api.delete("/users/999").set(auth)).status).toBe(404);
+  });
+});
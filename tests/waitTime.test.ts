@@ -0,0 +1,105 @@
+import {
+  ConsultationAggregate,
+  WaitingEntry,
+  buildWaitTimeProfile,
+  consultationMinutes,
+  estimateNewArrivalWaits,
+  estimateWaits,
+} from "../src/waitTime";
+
+function aggregate(
+  queueId: number,
+  priority: string,
+  averageMinutes: number,
+  sampleCount: number
+): ConsultationAggregate {
+  return { queueId, priority, averageMinutes, sampleCount };
+}
+
+function waiting(id: number, queueId: number, priority: string, effectiveLevel: number): WaitingEntry {
+  return { id, queueId, priority, effectiveLevel };
+}
+
+describe("buildWaitTimeProfile", () => {
+  it("keeps only averages with enough samples", () => {
+    const profile = buildWaitTimeProfile([aggregate(1, "Urgent", 20, 3), aggregate(2, "Urgent", 5, 2)]);
+    expect(profile.byQueuePriority.get("1:Urgent")).toBe(20);
+    expect(profile.byQueuePriority.has("2:Urgent")).toBe(false);
+  });
+
+  it("weights the cross-queue averages by sample count", () => {
+    const profile = buildWaitTimeProfile([
+      aggregate(1, "Urgent", 20, 3),
+      aggregate(2, "Urgent", 10, 1),
+      aggregate(1, "NonUrgent", 4, 4),
+    ]);
+    expect(profile.byPriority.get("Urgent")).toBe(17.5);
+    expect(profile.overall).toBe(10.75);
+  });
+
+  it("has no overall average without history", () => {
+    expect(buildWaitTimeProfile([]).overall).toBeNull();
+  });
+});
+
+describe("consultationMinutes", () => {
+  const profile = buildWaitTimeProfile([
+    aggregate(1, "Urgent", 20, 3),
+    aggregate(2, "Urgent", 10, 1),
+    aggregate(2, "NonUrgent", 6, 2),
+  ]);
+
+  it("prefers the queue and priority average", () => {
+    expect(consultationMinutes(profile, 1, "Urgent")).toBe(20);
+  });
+
+  it("falls back to the priority, then to everything", () => {
+    expect(consultationMinutes(profile, 2, "Urgent")).toBe(17.5);
+    expect(consultationMinutes(profile, 2, "NonUrgent")).toBeCloseTo(82 / 6);
+  });
+
+  it("uses the configured default without history", () => {
+    expect(consultationMinutes(buildWaitTimeProfile([]), 1, "Urgent")).toBe(10);
+  });
+});
+
+describe("estimateWaits", () => {
+  const profile = buildWaitTimeProfile([]);
+
+  it("adds up the consultations ahead in the same queue", () => {
+    const estimates = estimateWaits(
+      [waiting(1, 1, "Urgent", 3), waiting(2, 2, "Urgent", 3), waiting(3, 1, "Urgent", 3)],
+      profile,
+      new Map()
+    );
+    expect(estimates.get(1)).toBe(0);
+    expect(estimates.get(2)).toBe(0);
+    expect(estimates.get(3)).toBe(10);
+  });
+
+  it("shares the work between the staff serving the queue", () => {
+    const estimates = estimateWaits(
+      [waiting(1, 1, "Urgent", 3), waiting(2, 1, "Urgent", 3), waiting(3, 1, "Urgent", 3)],
+      profile,
+      new Map([[1, 3]])
+    );
+    expect(estimates.get(3)).toBe(7);
+  });
+});
+
+describe("estimateNewArrivalWaits", () => {
+  it("counts only patients at the same or a more urgent level", () => {
+    const waits = estimateNewArrivalWaits(
+      [waiting(1, 1, "Emergent", 2), waiting(2, 1, "NonUrgent", 5), waiting(3, 2, "Urgent", 3)],
+      buildWaitTimeProfile([]),
+      1,
+      1
+    );
+    expect(waits.Resuscitation).toBe(0);
+    expect(waits.Emergent).toBe(10);
+    expect(waits.Urgent).toBe(10);
+    expect(waits.NonUrgent).toBe(20);
+    // Legacy priorities rank as the level they replaced
+    expect(waits.Normal).toBe(20);
+  });
+});